@@ -0,0 +1,156 @@
+/**
+ * Post a signed sample GitHub webhook to a local Pulldash server
+ *
+ * Stands in for GitHub when testing live updates without a public URL.
+ * The server must run with the same GITHUB_WEBHOOK_SECRET.
+ *
+ *   GITHUB_WEBHOOK_SECRET=dev bun run dev:node
+ *   GITHUB_WEBHOOK_SECRET=dev bun run webhook:send review_comment coder/pulldash 42
+ *   GITHUB_WEBHOOK_SECRET=dev bun run webhook:send checks coder/pulldash 42 --sha abc123
+ *
+ * Events: pull_request, synchronize, review, review_comment, review_thread,
+ * issue_comment, checks, status
+ */
+
+import { signWebhookPayload } from "../src/api/webhooks";
+
+const DEFAULT_URL = "http://localhost:3002/api/webhooks/github";
+
+function parseArgs() {
+  const positional: string[] = [];
+  const flags: Record<string, string> = {};
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith("--")) {
+      flags[args[i].slice(2)] = args[++i] ?? "";
+    } else {
+      positional.push(args[i]);
+    }
+  }
+  return { positional, flags };
+}
+
+// Only the fields Pulldash reads are filled in
+function buildSample(
+  kind: string,
+  owner: string,
+  repo: string,
+  number: number,
+  sha: string
+): { event: string; payload: Record<string, unknown> } | null {
+  const repository = { name: repo, owner: { login: owner } };
+  const pullRequest = { number, head: { sha } };
+
+  switch (kind) {
+    case "pull_request":
+      return {
+        event: "pull_request",
+        payload: { action: "edited", repository, pull_request: pullRequest },
+      };
+    case "synchronize":
+      return {
+        event: "pull_request",
+        payload: {
+          action: "synchronize",
+          repository,
+          pull_request: pullRequest,
+        },
+      };
+    case "review":
+      return {
+        event: "pull_request_review",
+        payload: {
+          action: "submitted",
+          repository,
+          pull_request: pullRequest,
+        },
+      };
+    case "review_comment":
+      return {
+        event: "pull_request_review_comment",
+        payload: { action: "created", repository, pull_request: pullRequest },
+      };
+    case "review_thread":
+      return {
+        event: "pull_request_review_thread",
+        payload: {
+          action: "resolved",
+          repository,
+          pull_request: pullRequest,
+        },
+      };
+    case "issue_comment":
+      return {
+        event: "issue_comment",
+        payload: {
+          action: "created",
+          repository,
+          issue: { number, pull_request: {} },
+        },
+      };
+    case "checks":
+      return {
+        event: "check_run",
+        payload: {
+          action: "completed",
+          repository,
+          check_run: { head_sha: sha, pull_requests: [{ number }] },
+        },
+      };
+    case "status":
+      return {
+        event: "status",
+        payload: { state: "success", repository, sha },
+      };
+    default:
+      return null;
+  }
+}
+
+async function main() {
+  const { positional, flags } = parseArgs();
+  const [kind, fullName, numberArg] = positional;
+  const [owner, repo] = fullName?.split("/") ?? [];
+  const number = Number(numberArg);
+  const secret = process.env.GITHUB_WEBHOOK_SECRET;
+
+  if (!kind || !owner || !repo || !Number.isInteger(number)) {
+    console.error(
+      "Usage: bun run webhook:send <event> <owner/repo> <number> [--sha <sha>] [--url <url>]"
+    );
+    process.exit(1);
+  }
+  if (!secret) {
+    console.error("GITHUB_WEBHOOK_SECRET must be set");
+    process.exit(1);
+  }
+
+  const sample = buildSample(
+    kind,
+    owner,
+    repo,
+    number,
+    flags.sha ?? "0000000000000000000000000000000000000000"
+  );
+  if (!sample) {
+    console.error(`Unknown event: ${kind}`);
+    process.exit(1);
+  }
+
+  const body = JSON.stringify(sample.payload);
+  const response = await fetch(flags.url ?? DEFAULT_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-GitHub-Event": sample.event,
+      "X-GitHub-Delivery": crypto.randomUUID(),
+      "X-Hub-Signature-256": await signWebhookPayload(secret, body),
+    },
+    body,
+  });
+
+  console.log(`${response.status} ${await response.text()}`);
+  if (!response.ok) process.exit(1);
+}
+
+main();
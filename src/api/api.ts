@@ -1,16 +1,55 @@
 import { Hono } from "hono";
+import { streamSSE } from "hono/streaming";
+import {
+  createEnterpriseHost,
+  DEFAULT_GITHUB_HOST,
+  GITHUB_CLIENT_ID,
+  GITHUB_DOT_COM,
+  isAllowedProxyHost,
+  isGitHubDotCom,
+  normalizeHostname,
+  resolveGitHubHost,
+  type GitHubHost,
+} from "./github-host";
+import {
+  createRepoAccessChecker,
+  liveEventHub,
+  toLiveEvent,
+  verifyGitHubToken,
+  verifyWebhookSignature,
+} from "./webhooks";
 
 // ============================================================================
 // GitHub OAuth App Configuration
 // ============================================================================
 
-// OAuth App (not GitHub App) - enables simple user authentication
-// like the GitHub CLI, without requiring app installation on repos.
-// Users just authorize and get access to their repos based on scopes.
-const GITHUB_CLIENT_ID = "Ov23ct2e5eDCkITh5xlh";
+// The OAuth App client ID and endpoints live in ./github-host so the browser
+// can target GitHub Enterprise Server hosts. Requests may include `hostname`
+// and `client_id`; both default to github.com and the Pulldash OAuth App.
+// Enterprise hosts must be allowed in GITHUB_ENTERPRISE_HOSTS.
 // Note: Client secret would be added here for OAuth web flow in the future
 // const GITHUB_CLIENT_SECRET = process.env.GITHUB_CLIENT_SECRET;
 
+// ============================================================================
+// Webhook Configuration
+// ============================================================================
+
+// Webhooks come from a single host, github.com unless GITHUB_WEBHOOK_HOST
+// names a GitHub Enterprise Server. Live event subscribers must hold a
+// token for that host; it's used to check which repos they can read.
+function getWebhookHost(): GitHubHost {
+  const hostname = normalizeHostname(
+    process.env.GITHUB_WEBHOOK_HOST ?? GITHUB_DOT_COM
+  );
+  return isGitHubDotCom(hostname)
+    ? DEFAULT_GITHUB_HOST
+    : createEnterpriseHost(hostname, GITHUB_CLIENT_ID);
+}
+
+function getBearerToken(authorization: string | undefined): string | null {
+  return authorization?.match(/^(?:Bearer|token) (\S+)$/i)?.[1] ?? null;
+}
+
 // ============================================================================
 // API Routes
 // ============================================================================
@@ -24,14 +63,34 @@ const api = new Hono()
   // private repos - same as what the GitHub CLI uses.
   .post("/auth/device/code", async (c) => {
     try {
-      const response = await fetch("https://github.com/login/device/code", {
+      const body = await c.req.json().catch(() => ({}));
+      const host = resolveGitHubHost(body.hostname, body.client_id);
+
+      if (!host) {
+        return c.json(
+          { error: "A valid hostname and client_id are required" },
+          400
+        );
+      }
+      if (
+        !isAllowedProxyHost(host.hostname, process.env.GITHUB_ENTERPRISE_HOSTS)
+      ) {
+        return c.json(
+          {
+            error: `This server isn't configured to sign in to ${host.hostname}`,
+          },
+          403
+        );
+      }
+
+      const response = await fetch(host.deviceCodeUrl, {
         method: "POST",
         headers: {
           Accept: "application/json",
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          client_id: GITHUB_CLIENT_ID,
+          client_id: host.clientId,
           scope: "repo read:user",
         }),
       });
@@ -62,21 +121,36 @@ const api = new Hono()
         return c.json({ error: "device_code is required" }, 400);
       }
 
-      const response = await fetch(
-        "https://github.com/login/oauth/access_token",
-        {
-          method: "POST",
-          headers: {
-            Accept: "application/json",
-            "Content-Type": "application/json",
+      const host = resolveGitHubHost(body.hostname, body.client_id);
+      if (!host) {
+        return c.json(
+          { error: "A valid hostname and client_id are required" },
+          400
+        );
+      }
+      if (
+        !isAllowedProxyHost(host.hostname, process.env.GITHUB_ENTERPRISE_HOSTS)
+      ) {
+        return c.json(
+          {
+            error: `This server isn't configured to sign in to ${host.hostname}`,
           },
-          body: JSON.stringify({
-            client_id: GITHUB_CLIENT_ID,
-            device_code,
-            grant_type: "urn:ietf:params:oauth:grant-type:device_code",
-          }),
-        }
-      );
+          403
+        );
+      }
+
+      const response = await fetch(host.accessTokenUrl, {
+        method: "POST",
+        headers: {
+          Accept: "application/json",
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          client_id: host.clientId,
+          device_code,
+          grant_type: "urn:ietf:params:oauth:grant-type:device_code",
+        }),
+      });
 
       if (!response.ok) {
         const error = await response.text();
@@ -91,6 +165,90 @@ const api = new Hono()
     } catch (err) {
       return c.json({ error: (err as Error).message }, 500);
     }
+  })
+
+  // GitHub webhook deliveries. Configure the webhook with content type
+  // application/json and GITHUB_WEBHOOK_SECRET as its secret.
+  .post("/webhooks/github", async (c) => {
+    const secret = process.env.GITHUB_WEBHOOK_SECRET;
+    if (!secret) {
+      return c.json({ error: "Webhooks are not configured" }, 503);
+    }
+
+    const body = await c.req.text();
+    const valid = await verifyWebhookSignature(
+      secret,
+      body,
+      c.req.header("x-hub-signature-256")
+    );
+    if (!valid) {
+      return c.json({ error: "Invalid signature" }, 401);
+    }
+
+    let payload;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      return c.json({ error: "Invalid JSON payload" }, 400);
+    }
+
+    const event = toLiveEvent(c.req.header("x-github-event") ?? "", payload);
+    if (event) {
+      liveEventHub.publish(event);
+    }
+    return c.json({ delivered: event !== null }, 202);
+  })
+
+  // Server-Sent Events stream of webhook deliveries for browsers. Requires
+  // the viewer's GitHub token (Authorization header) for the webhook host;
+  // only events for repos that token can read are sent.
+  .get("/events", async (c) => {
+    if (!process.env.GITHUB_WEBHOOK_SECRET) {
+      return c.json({ error: "Live events are not configured" }, 503);
+    }
+
+    const token = getBearerToken(c.req.header("authorization"));
+    if (!token) {
+      return c.json({ error: "A GitHub token is required" }, 401);
+    }
+
+    const host = getWebhookHost();
+    const hostname = normalizeHostname(c.req.query("hostname") ?? "");
+    const sameHost =
+      hostname === host.hostname ||
+      (isGitHubDotCom(hostname) && isGitHubDotCom(host.hostname));
+    if (!sameHost) {
+      return c.json({ error: "No live events for this host" }, 404);
+    }
+    if (!(await verifyGitHubToken(host.apiUrl, token))) {
+      return c.json({ error: "Invalid GitHub token" }, 401);
+    }
+
+    const canRead = createRepoAccessChecker(host.apiUrl, token);
+
+    return streamSSE(c, async (stream) => {
+      const unsubscribe = liveEventHub.subscribe((event) => {
+        canRead(event.owner, event.repo)
+          .then((allowed) => {
+            if (!allowed || stream.aborted) return;
+            return stream.writeSSE({
+              event: "github",
+              data: JSON.stringify(event),
+            });
+          })
+          .catch(() => {
+            // Ignore writes after the client disconnected
+          });
+      });
+      stream.onAbort(unsubscribe);
+
+      // Keep idle connections from being closed by proxies
+      while (!stream.aborted) {
+        await stream.writeSSE({ event: "ping", data: "" });
+        await stream.sleep(25_000);
+      }
+      unsubscribe();
+    });
   });
 
 export default api;
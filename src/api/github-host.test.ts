@@ -0,0 +1,89 @@
+import { test, expect } from "bun:test";
+import {
+  getPRUrlPatternSource,
+  isAllowedProxyHost,
+  isPrivateHostname,
+  parsePRUrl,
+} from "./github-host";
+
+test("isPrivateHostname recognizes loopback, private and link-local targets", () => {
+  for (const hostname of [
+    "localhost",
+    "localhost:8080",
+    "api.localhost",
+    "127.0.0.1",
+    "10.1.2.3",
+    "172.16.0.1",
+    "192.168.1.1:443",
+    "169.254.169.254",
+    "100.64.0.1",
+    "0.0.0.0",
+    "metadata.google.internal",
+  ]) {
+    expect(isPrivateHostname(hostname)).toBe(true);
+  }
+  for (const hostname of ["github.example.com", "172.32.0.1", "8.8.8.8"]) {
+    expect(isPrivateHostname(hostname)).toBe(false);
+  }
+});
+
+test("isAllowedProxyHost only allows github.com and configured hosts", () => {
+  expect(isAllowedProxyHost("github.com", undefined)).toBe(true);
+  expect(isAllowedProxyHost("github.example.com", undefined)).toBe(false);
+  expect(isAllowedProxyHost("169.254.169.254", undefined)).toBe(false);
+
+  const allowlist = " GitHub.Example.com , ghe.internal";
+  expect(isAllowedProxyHost("github.example.com", allowlist)).toBe(true);
+  // Listed explicitly, so trusted even though the name looks private
+  expect(isAllowedProxyHost("ghe.internal", allowlist)).toBe(true);
+  expect(isAllowedProxyHost("other.example.com", allowlist)).toBe(false);
+
+  expect(isAllowedProxyHost("other.example.com", "*")).toBe(true);
+  expect(isAllowedProxyHost("localhost:8080", "*")).toBe(false);
+  expect(isAllowedProxyHost("10.0.0.1", "*")).toBe(false);
+});
+
+test("parsePRUrl only accepts PR URLs on the configured host", () => {
+  const pr = { owner: "coder", repo: "pulldash", number: 42 };
+  expect(
+    parsePRUrl("https://github.com/coder/pulldash/pull/42", "github.com")
+  ).toEqual(pr);
+  expect(
+    parsePRUrl(
+      "https://www.github.com/coder/pulldash/pull/42/files",
+      "github.com"
+    )
+  ).toEqual(pr);
+  expect(
+    parsePRUrl(
+      "http://ghe.example.com/coder/pulldash/pull/42#r1",
+      "ghe.example.com"
+    )
+  ).toEqual(pr);
+
+  for (const url of [
+    "https://evilgithub.com/coder/pulldash/pull/42",
+    "https://github.com.evil.com/coder/pulldash/pull/42",
+    "https://evil.com/github.com/coder/pulldash/pull/42",
+    "https://evil.com/?u=https://github.com/coder/pulldash/pull/42",
+    "https://github.com/coder/pulldash/pull/42abc",
+  ]) {
+    expect(parsePRUrl(url, "github.com")).toBeNull();
+  }
+  expect(
+    parsePRUrl("https://github.com/coder/pulldash/pull/42", "ghe.example.com")
+  ).toBeNull();
+});
+
+test("getPRUrlPatternSource survives escaping into the bookmarklet", () => {
+  // The bookmarklet embeds the source in a regex literal
+  const literal = new RegExp(
+    getPRUrlPatternSource("github.com").replace(/\//g, "\\/")
+  );
+  expect("https://github.com/a/b/pull/1".match(literal)?.slice(1)).toEqual([
+    "a",
+    "b",
+    "1",
+  ]);
+  expect("https://evilgithub.com/a/b/pull/1".match(literal)).toBeNull();
+});
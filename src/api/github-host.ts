@@ -0,0 +1,188 @@
+// ============================================================================
+// GitHub Host Configuration
+// ============================================================================
+
+// Shared by the API routes and the browser so both sides derive the same
+// endpoints from a hostname. Only the hostname and client ID are user
+// supplied; every URL is derived from them so the server never proxies to
+// an arbitrary URL.
+
+// OAuth App (not GitHub App) - enables simple user authentication
+// like the GitHub CLI, without requiring app installation on repos.
+// Users just authorize and get access to their repos based on scopes.
+export const GITHUB_CLIENT_ID = "Ov23ct2e5eDCkITh5xlh";
+
+export const GITHUB_DOT_COM = "github.com";
+
+export interface GitHubHost {
+  // Web hostname, e.g. "github.com" or "github.example.com"
+  hostname: string;
+  // REST API base URL passed to Octokit
+  apiUrl: string;
+  // GraphQL endpoint
+  graphqlUrl: string;
+  // OAuth device flow endpoints
+  deviceCodeUrl: string;
+  accessTokenUrl: string;
+  // OAuth App client ID registered on this host
+  clientId: string;
+}
+
+export const DEFAULT_GITHUB_HOST: GitHubHost = {
+  hostname: GITHUB_DOT_COM,
+  apiUrl: "https://api.github.com",
+  graphqlUrl: "https://api.github.com/graphql",
+  deviceCodeUrl: "https://github.com/login/device/code",
+  accessTokenUrl: "https://github.com/login/oauth/access_token",
+  clientId: GITHUB_CLIENT_ID,
+};
+
+// Hostname with an optional port, no scheme or path
+const HOSTNAME_PATTERN =
+  /^[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*(:\d{1,5})?$/;
+
+export function normalizeHostname(input: string): string {
+  return input
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, "")
+    .replace(/\/.*$/, "");
+}
+
+export function isValidHostname(hostname: string): boolean {
+  return hostname.length <= 253 && HOSTNAME_PATTERN.test(hostname);
+}
+
+export function isGitHubDotCom(hostname: string): boolean {
+  return hostname === GITHUB_DOT_COM || hostname === `www.${GITHUB_DOT_COM}`;
+}
+
+// GitHub Enterprise Server serves the REST API under /api/v3 and GraphQL
+// under /api/graphql on the same hostname as the web UI.
+export function createEnterpriseHost(
+  hostname: string,
+  clientId: string
+): GitHubHost {
+  const origin = `https://${hostname}`;
+  return {
+    hostname,
+    apiUrl: `${origin}/api/v3`,
+    graphqlUrl: `${origin}/api/graphql`,
+    deviceCodeUrl: `${origin}/login/device/code`,
+    accessTokenUrl: `${origin}/login/oauth/access_token`,
+    clientId,
+  };
+}
+
+// Resolve a host from a (possibly missing) hostname and client ID.
+// Returns null if the hostname is invalid or an Enterprise host has no client ID.
+export function resolveGitHubHost(
+  hostname?: string | null,
+  clientId?: string | null
+): GitHubHost | null {
+  const normalized = hostname ? normalizeHostname(hostname) : GITHUB_DOT_COM;
+  if (isGitHubDotCom(normalized)) {
+    return DEFAULT_GITHUB_HOST;
+  }
+  if (!isValidHostname(normalized) || !clientId?.trim()) {
+    return null;
+  }
+  return createEnterpriseHost(normalized, clientId.trim());
+}
+
+// ============================================================================
+// Proxy Allowlist
+// ============================================================================
+
+// The device flow endpoints are proxied by the server, so which hosts it will
+// contact is the server's decision, not the client's. github.com is always
+// allowed; Enterprise hosts must be listed in GITHUB_ENTERPRISE_HOSTS
+// (comma separated). "*" allows any public host, for single-user servers
+// like the desktop app.
+
+const IPV4_PATTERN = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+
+// Loopback, private, link-local and otherwise non-public targets. Only
+// literal addresses and reserved names can be recognized here; a public name
+// resolving to a private address is caught by the allowlist instead.
+export function isPrivateHostname(hostname: string): boolean {
+  const name = hostname.replace(/:\d+$/, "");
+  if (
+    name === "localhost" ||
+    name.endsWith(".localhost") ||
+    name.endsWith(".local") ||
+    name.endsWith(".internal")
+  ) {
+    return true;
+  }
+  const ipv4 = name.match(IPV4_PATTERN);
+  if (!ipv4) return false;
+  const [a, b] = ipv4.slice(1).map(Number);
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    a >= 224
+  );
+}
+
+export function isAllowedProxyHost(
+  hostname: string,
+  allowlist: string | undefined
+): boolean {
+  if (isGitHubDotCom(hostname)) return true;
+  const allowed = (allowlist ?? "")
+    .split(",")
+    .map((entry) => normalizeHostname(entry))
+    .filter(Boolean);
+  if (allowed.includes(hostname)) return true;
+  return allowed.includes("*") && !isPrivateHostname(hostname);
+}
+
+// Path the Node server serves recorded fixtures under, in place of the
+// GitHub API (see src/node/fixtures.ts). Kept under /api so it can't shadow
+// an SPA route like /github/docs/pull/1.
+export const FIXTURE_API_PATH = "/api/__fixtures/github";
+
+// Same host, with API requests sent to the fixture server at the given origin.
+// Web URLs keep pointing at the real host.
+export function withFixtureApi(host: GitHubHost, origin: string): GitHubHost {
+  return {
+    ...host,
+    apiUrl: `${origin}${FIXTURE_API_PATH}`,
+    graphqlUrl: `${origin}${FIXTURE_API_PATH}/graphql`,
+  };
+}
+
+export function getWebUrl(host: GitHubHost): string {
+  return `https://${host.hostname}`;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Source for a regex matching PR URLs on the given host, capturing
+// owner, repo and number. Anchored at the scheme so other hosts containing
+// this hostname don't match. Kept as a string so it can be embedded in the
+// bookmarklet.
+export function getPRUrlPatternSource(hostname: string): string {
+  const host = isGitHubDotCom(hostname)
+    ? `(?:www\\.)?${escapeRegExp(GITHUB_DOT_COM)}`
+    : escapeRegExp(hostname);
+  return `^https?://${host}/([^/]+)/([^/]+)/pull/(\\d+)(?:[/?#]|$)`;
+}
+
+export function parsePRUrl(
+  url: string,
+  hostname: string
+): { owner: string; repo: string; number: number } | null {
+  const match = url.match(new RegExp(getPRUrlPatternSource(hostname)));
+  if (!match) return null;
+  const [, owner, repo, number] = match;
+  return { owner, repo, number: parseInt(number, 10) };
+}
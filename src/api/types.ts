@@ -28,11 +28,13 @@ export type GitHubUser = components["schemas"]["public-user"];
 // GraphQL-only types (not in REST API schemas)
 export interface PendingReviewComment {
   path: string;
+  // 0 for comments on the whole file
   line: number;
   start_line?: number;
   body: string;
   side: "LEFT" | "RIGHT";
   start_side?: "LEFT" | "RIGHT";
+  subject_type?: "line" | "file";
 }
 
 export interface ReviewThread {
@@ -0,0 +1,138 @@
+import { test, expect } from "bun:test";
+import {
+  createRepoAccessChecker,
+  signWebhookPayload,
+  toLiveEvent,
+  verifyGitHubToken,
+  verifyWebhookSignature,
+} from "./webhooks";
+
+const API_URL = "https://api.github.com";
+const SECRET = "webhook-secret";
+
+const repository = { name: "repo", owner: { login: "acme" } };
+
+test("verifyWebhookSignature accepts only the body signed with the secret", async () => {
+  const body = JSON.stringify({ action: "opened", repository });
+  const signature = await signWebhookPayload(SECRET, body);
+
+  expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+  expect(await verifyWebhookSignature(SECRET, body, signature)).toBe(true);
+  // Tampered body, other secret
+  expect(await verifyWebhookSignature(SECRET, `${body} `, signature)).toBe(
+    false
+  );
+  expect(
+    await verifyWebhookSignature(
+      SECRET,
+      body,
+      await signWebhookPayload("other", body)
+    )
+  ).toBe(false);
+});
+
+test("verifyWebhookSignature rejects missing and malformed headers", async () => {
+  const body = "{}";
+  const hex = (await signWebhookPayload(SECRET, body)).slice("sha256=".length);
+
+  expect(await verifyWebhookSignature(SECRET, body, undefined)).toBe(false);
+  expect(await verifyWebhookSignature(SECRET, body, "")).toBe(false);
+  // Only SHA-256 signatures are accepted
+  expect(await verifyWebhookSignature(SECRET, body, hex)).toBe(false);
+  expect(await verifyWebhookSignature(SECRET, body, `sha1=${hex}`)).toBe(false);
+  expect(await verifyWebhookSignature(SECRET, body, "sha256=")).toBe(false);
+});
+
+test("toLiveEvent maps PR events to what changed", () => {
+  expect(
+    toLiveEvent("pull_request", {
+      action: "synchronize",
+      repository,
+      pull_request: { number: 7, head: { sha: "abc" } },
+    })
+  ).toEqual({
+    kind: "pull_request",
+    event: "pull_request",
+    action: "synchronize",
+    owner: "acme",
+    repo: "repo",
+    number: 7,
+    sha: "abc",
+  });
+  expect(
+    toLiveEvent("check_suite", {
+      action: "completed",
+      repository,
+      check_suite: { head_sha: "def", pull_requests: [] },
+    })
+  ).toMatchObject({ kind: "checks", number: undefined, sha: "def" });
+});
+
+test("toLiveEvent ignores unknown events and payloads without a PR", () => {
+  expect(toLiveEvent("ping", { repository })).toBeNull();
+  expect(toLiveEvent("push", { repository, sha: "abc" })).toBeNull();
+  // Comments on plain issues
+  expect(
+    toLiveEvent("issue_comment", {
+      action: "created",
+      repository,
+      issue: { number: 3 },
+    })
+  ).toBeNull();
+  expect(toLiveEvent("pull_request_review", { repository })).toBeNull();
+  // Organization-level deliveries have no repository
+  expect(
+    toLiveEvent("pull_request", { pull_request: { number: 1 } })
+  ).toBeNull();
+});
+
+// Answers from a map of URL to status, recording every request
+function createFetch(statuses: Record<string, number>) {
+  const requests: Array<{ url: string; authorization: string | null }> = [];
+  const fetchFn = async (url: string, init?: RequestInit) => {
+    requests.push({
+      url,
+      authorization: new Headers(init?.headers).get("authorization"),
+    });
+    const status = statuses[url];
+    if (status === undefined) throw new Error("Network error");
+    return new Response(null, { status });
+  };
+  return { fetchFn, requests };
+}
+
+test("verifyGitHubToken accepts tokens GitHub knows", async () => {
+  const { fetchFn, requests } = createFetch({ [`${API_URL}/user`]: 200 });
+  expect(await verifyGitHubToken(API_URL, "good", fetchFn)).toBe(true);
+  expect(requests[0].authorization).toBe("Bearer good");
+
+  const rejected = createFetch({ [`${API_URL}/user`]: 401 });
+  expect(await verifyGitHubToken(API_URL, "bad", rejected.fetchFn)).toBe(false);
+  expect(await verifyGitHubToken(API_URL, "any", createFetch({}).fetchFn)).toBe(
+    false
+  );
+});
+
+test("createRepoAccessChecker only allows readable repos and caches answers", async () => {
+  const { fetchFn, requests } = createFetch({
+    [`${API_URL}/repos/acme/public`]: 200,
+    [`${API_URL}/repos/acme/private`]: 404,
+    [`${API_URL}/repos/acme/flaky`]: 502,
+  });
+  const canRead = createRepoAccessChecker(API_URL, "token", fetchFn);
+
+  expect(await canRead("acme", "public")).toBe(true);
+  expect(await canRead("ACME", "Public")).toBe(true);
+  expect(await canRead("acme", "private")).toBe(false);
+  expect(await canRead("acme", "private")).toBe(false);
+  expect(requests.map((r) => r.url)).toEqual([
+    `${API_URL}/repos/acme/public`,
+    `${API_URL}/repos/acme/private`,
+  ]);
+
+  // Server errors and network failures deny without being cached
+  expect(await canRead("acme", "flaky")).toBe(false);
+  expect(await canRead("acme", "flaky")).toBe(false);
+  expect(await canRead("acme", "gone")).toBe(false);
+  expect(requests).toHaveLength(5);
+});
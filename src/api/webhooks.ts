@@ -0,0 +1,267 @@
+// ============================================================================
+// GitHub Webhooks - Verification and fan-out to browsers
+// ============================================================================
+
+// Webhook deliveries are verified, reduced to the identifiers of what changed
+// and fanned out to connected browsers over Server-Sent Events. Browsers
+// refetch the affected data themselves with their own token, so no content
+// from the payload (bodies, diffs) is ever forwarded.
+//
+// Subscribers authenticate with their own GitHub token and only receive
+// events for repositories that token can read, so a private repo's activity
+// never reaches someone who couldn't see it on GitHub.
+//
+// The hub is in-process: with several server instances (e.g. serverless),
+// only browsers connected to the instance that received a delivery get it.
+
+export type LiveEventKind =
+  | "pull_request"
+  | "review"
+  | "review_comment"
+  | "review_thread"
+  | "issue_comment"
+  | "checks";
+
+export interface LiveEvent {
+  kind: LiveEventKind;
+  // X-GitHub-Event name and payload action, e.g. "pull_request" / "synchronize"
+  event: string;
+  action?: string;
+  owner: string;
+  repo: string;
+  // Absent for check events GitHub didn't associate with a PR
+  number?: number;
+  // Head commit, for pushes and checks
+  sha?: string;
+}
+
+// ============================================================================
+// Signature Verification
+// ============================================================================
+
+const encoder = new TextEncoder();
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// Compare without short-circuiting so timing doesn't leak the signature
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export async function signWebhookPayload(
+  secret: string,
+  body: string
+): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const mac = await crypto.subtle.sign("HMAC", key, encoder.encode(body));
+  return `sha256=${toHex(new Uint8Array(mac))}`;
+}
+
+/**
+ * Check an X-Hub-Signature-256 header against the raw request body.
+ */
+export async function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  signature: string | undefined
+): Promise<boolean> {
+  if (!signature?.startsWith("sha256=")) return false;
+  const expected = await signWebhookPayload(secret, body);
+  return timingSafeEqual(expected, signature);
+}
+
+// ============================================================================
+// Payload Mapping
+// ============================================================================
+
+interface WebhookPayload {
+  action?: string;
+  repository?: { name: string; owner: { login: string } };
+  pull_request?: { number: number; head?: { sha: string } };
+  issue?: { number: number; pull_request?: unknown };
+  check_run?: { head_sha: string; pull_requests?: Array<{ number: number }> };
+  check_suite?: { head_sha: string; pull_requests?: Array<{ number: number }> };
+  workflow_run?: {
+    head_sha: string;
+    pull_requests?: Array<{ number: number }>;
+  };
+  sha?: string;
+}
+
+/**
+ * Reduce a webhook delivery to a LiveEvent. Returns null for events that
+ * don't affect anything Pulldash shows (including ping).
+ */
+export function toLiveEvent(
+  event: string,
+  payload: WebhookPayload
+): LiveEvent | null {
+  const repository = payload.repository;
+  if (!repository) return null;
+
+  const base = {
+    event,
+    action: payload.action,
+    owner: repository.owner.login,
+    repo: repository.name,
+  };
+
+  switch (event) {
+    case "pull_request":
+      if (!payload.pull_request) return null;
+      return {
+        ...base,
+        kind: "pull_request",
+        number: payload.pull_request.number,
+        sha: payload.pull_request.head?.sha,
+      };
+    case "pull_request_review":
+      if (!payload.pull_request) return null;
+      return { ...base, kind: "review", number: payload.pull_request.number };
+    case "pull_request_review_comment":
+      if (!payload.pull_request) return null;
+      return {
+        ...base,
+        kind: "review_comment",
+        number: payload.pull_request.number,
+      };
+    case "pull_request_review_thread":
+      if (!payload.pull_request) return null;
+      return {
+        ...base,
+        kind: "review_thread",
+        number: payload.pull_request.number,
+      };
+    case "issue_comment":
+      // Issue comments on plain issues aren't shown anywhere
+      if (!payload.issue?.pull_request) return null;
+      return { ...base, kind: "issue_comment", number: payload.issue.number };
+    case "check_run":
+    case "check_suite":
+    case "workflow_run": {
+      const run =
+        payload.check_run ?? payload.check_suite ?? payload.workflow_run;
+      if (!run) return null;
+      return {
+        ...base,
+        kind: "checks",
+        number: run.pull_requests?.[0]?.number,
+        sha: run.head_sha,
+      };
+    }
+    case "status":
+      if (!payload.sha) return null;
+      return { ...base, kind: "checks", sha: payload.sha };
+    default:
+      return null;
+  }
+}
+
+// ============================================================================
+// Repository Access
+// ============================================================================
+
+// How long a repo access check is trusted before asking GitHub again
+const ACCESS_TTL_MS = 5 * 60_000;
+
+type FetchFn = (input: string, init?: RequestInit) => Promise<Response>;
+
+function authHeaders(token: string): HeadersInit {
+  return {
+    Accept: "application/vnd.github+json",
+    Authorization: `Bearer ${token}`,
+  };
+}
+
+/**
+ * Check that a token is valid on the host behind apiUrl.
+ */
+export async function verifyGitHubToken(
+  apiUrl: string,
+  token: string,
+  fetchFn: FetchFn = fetch
+): Promise<boolean> {
+  try {
+    const response = await fetchFn(`${apiUrl}/user`, {
+      headers: authHeaders(token),
+    });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a token can read a repository, as asked of GitHub. Answers are
+ * cached per checker; failed requests aren't cached and count as no access.
+ */
+export function createRepoAccessChecker(
+  apiUrl: string,
+  token: string,
+  fetchFn: FetchFn = fetch
+): (owner: string, repo: string) => Promise<boolean> {
+  const checks = new Map<
+    string,
+    { allowed: Promise<boolean>; expiresAt: number }
+  >();
+
+  return (owner, repo) => {
+    const key = `${owner}/${repo}`.toLowerCase();
+    const cached = checks.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.allowed;
+    }
+
+    const allowed = fetchFn(
+      `${apiUrl}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`,
+      { headers: authHeaders(token) }
+    ).then(
+      (response) => {
+        if (response.status >= 500) checks.delete(key);
+        return response.ok;
+      },
+      () => {
+        checks.delete(key);
+        return false;
+      }
+    );
+    checks.set(key, { allowed, expiresAt: Date.now() + ACCESS_TTL_MS });
+    return allowed;
+  };
+}
+
+// ============================================================================
+// Event Hub
+// ============================================================================
+
+type LiveEventListener = (event: LiveEvent) => void;
+
+export class LiveEventHub {
+  private listeners = new Set<LiveEventListener>();
+
+  subscribe(listener: LiveEventListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  publish(event: LiveEvent) {
+    this.listeners.forEach((l) => l(event));
+  }
+}
+
+export const liveEventHub = new LiveEventHub();
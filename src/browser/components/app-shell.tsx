@@ -7,6 +7,7 @@ import {
   GitPullRequest,
   ExternalLink,
   Github,
+  Gauge,
 } from "lucide-react";
 import { cn } from "../cn";
 import {
@@ -18,7 +19,11 @@ import {
 import { Home } from "./home";
 import { PRReviewContent } from "./pr-review";
 import { UserMenuButton } from "./welcome-dialog";
-import { useAuth } from "../contexts/auth";
+import { OfflineBanner } from "./offline-banner";
+import { useAuth, useGitHubHost } from "../contexts/auth";
+import { GitHubAccountScope, useRateLimitBudgets } from "../contexts/github";
+import type { RateLimitBudget } from "../lib/request-scheduler";
+import { getWebUrl, parsePRUrl } from "@/api/github-host";
 import {
   HoverCard,
   HoverCardTrigger,
@@ -182,6 +187,7 @@ export function AppShell() {
           <div className="hidden sm:block">
             <PRUrlInput />
           </div>
+          <RateLimitIndicator />
           {!isAuthenticated && (
             <a
               href="https://github.com/coder/pulldash"
@@ -197,6 +203,8 @@ export function AppShell() {
         </div>
       </div>
 
+      <OfflineBanner />
+
       {/* Content Area - Only render active tab to avoid parallel data fetching */}
       <div className="flex-1 overflow-hidden relative">
         {/* Home is always mounted (lightweight) */}
@@ -215,12 +223,14 @@ export function AppShell() {
           activeTab.repo &&
           activeTab.number && (
             <div key={activeTab.id} className="absolute inset-0">
-              <PRReviewContent
-                owner={activeTab.owner}
-                repo={activeTab.repo}
-                number={activeTab.number}
-                tabId={activeTab.id}
-              />
+              <GitHubAccountScope accountId={activeTab.accountId}>
+                <PRReviewContent
+                  owner={activeTab.owner}
+                  repo={activeTab.repo}
+                  number={activeTab.number}
+                  tabId={activeTab.id}
+                />
+              </GitHubAccountScope>
             </div>
           )}
       </div>
@@ -241,6 +251,12 @@ interface TabItemProps {
 
 function TabItem({ tab, isActive, onSelect, onClose }: TabItemProps) {
   const isHome = tab.type === "home";
+  const { accounts } = useAuth();
+  // Only worth showing which account a tab uses when there are several
+  const account =
+    accounts.length > 1
+      ? accounts.find((a) => a.id === tab.accountId)
+      : undefined;
 
   const handleClose = useCallback(
     (e: React.MouseEvent) => {
@@ -296,6 +312,16 @@ function TabItem({ tab, isActive, onSelect, onClose }: TabItemProps) {
         </span>
       )}
 
+      {/* Account that opened the tab */}
+      {account?.login && (
+        <img
+          src={`${getWebUrl(account.host)}/${account.login}.png`}
+          alt={account.login}
+          title={`${account.login} (${account.host.hostname})`}
+          className="w-3.5 h-3.5 rounded-full shrink-0"
+        />
+      )}
+
       {/* Close button */}
       {!isHome && (
         <button
@@ -361,12 +387,97 @@ function TabStatusIndicator({ status }: { status?: TabStatus }) {
   );
 }
 
+// ============================================================================
+// Rate Limit Indicator
+// ============================================================================
+
+const RATE_LIMIT_LABELS = {
+  core: "REST",
+  graphql: "GraphQL",
+  search: "Search",
+} as const;
+
+function RateLimitIndicator() {
+  const budgets = useRateLimitBudgets();
+  const entries = (
+    Object.keys(RATE_LIMIT_LABELS) as Array<keyof typeof RATE_LIMIT_LABELS>
+  )
+    .map((resource) => ({ resource, budget: budgets[resource] }))
+    .filter(
+      (e): e is { resource: typeof e.resource; budget: RateLimitBudget } =>
+        Boolean(e.budget)
+    );
+  if (entries.length === 0) return null;
+
+  // Color by the most depleted of the REST and GraphQL budgets, since
+  // search has a small per-minute budget that empties quickly
+  const lowest = Math.min(
+    ...entries
+      .filter((e) => e.resource !== "search")
+      .map((e) => e.budget.remaining / e.budget.limit),
+    1
+  );
+  const colorClass =
+    lowest <= 0.1
+      ? "text-red-400"
+      : lowest <= 0.25
+        ? "text-yellow-400"
+        : "text-muted-foreground";
+
+  return (
+    <HoverCard openDelay={200} closeDelay={100}>
+      <HoverCardTrigger asChild>
+        <div
+          className={cn(
+            "hidden sm:flex items-center gap-1 h-7 px-1.5 rounded-md text-xs tabular-nums hover:bg-white/5 cursor-default",
+            colorClass
+          )}
+        >
+          <Gauge className="w-3.5 h-3.5" />
+          {Math.round(lowest * 100)}%
+        </div>
+      </HoverCardTrigger>
+      <HoverCardContent align="end" className="w-64 p-3">
+        <div className="space-y-2">
+          <p className="text-xs font-medium">API rate limits</p>
+          {entries.map(({ resource, budget }) => (
+            <div key={resource} className="space-y-1">
+              <div className="flex items-center justify-between text-xs">
+                <span>{RATE_LIMIT_LABELS[resource]}</span>
+                <span className="tabular-nums text-muted-foreground">
+                  {budget.remaining.toLocaleString()} /{" "}
+                  {budget.limit.toLocaleString()}
+                </span>
+              </div>
+              <div className="h-1 rounded-full bg-muted overflow-hidden">
+                <div
+                  className="h-full bg-primary"
+                  style={{
+                    width: `${(budget.remaining / budget.limit) * 100}%`,
+                  }}
+                />
+              </div>
+              <p className="text-[10px] text-muted-foreground">
+                Resets at {new Date(budget.resetAt).toLocaleTimeString()}
+              </p>
+            </div>
+          ))}
+          <p className="text-[10px] text-muted-foreground leading-relaxed">
+            Prefetching and background refreshes pause when the budget runs low.
+          </p>
+        </div>
+      </HoverCardContent>
+    </HoverCard>
+  );
+}
+
 // ============================================================================
 // PR URL Input
 // ============================================================================
 
 function PRUrlInput() {
   const openPRReviewTab = useOpenPRReviewTab();
+  const host = useGitHubHost();
   const [prUrl, setPrUrl] = useState("");
 
   const handleSubmit = useCallback(
@@ -375,14 +486,13 @@ function PRUrlInput() {
       const url = prUrl.trim();
       if (!url) return;
 
-      const match = url.match(/github\.com\/([^/]+)\/([^/]+)\/pull\/(\d+)/);
-      if (match) {
-        const [, owner, repo, number] = match;
-        openPRReviewTab(owner, repo, parseInt(number, 10));
+      const parsed = parsePRUrl(url, host.hostname);
+      if (parsed) {
+        openPRReviewTab(parsed.owner, parsed.repo, parsed.number);
         setPrUrl("");
       }
     },
-    [prUrl, openPRReviewTab]
+    [prUrl, openPRReviewTab, host.hostname]
   );
 
   return (
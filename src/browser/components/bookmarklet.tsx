@@ -1,5 +1,7 @@
 import { useState, useEffect, useMemo } from "react";
 import { isElectron } from "../contexts/telemetry";
+import { useGitHubHost } from "../contexts/auth";
+import { getPRUrlPatternSource } from "@/api/github-host";
 import {
   Dialog,
   DialogContent,
@@ -11,9 +13,10 @@ import { ArrowRight, Github } from "lucide-react";
 
 const DISMISSED_KEY = "pulldash-bookmarklet-dismissed";
 
-// Generate bookmarklet code with given origin
-function getBookmarkletCode(origin: string): string {
-  return `javascript:(function(){var m=location.href.match(/^https:\\/\\/github\\.com\\/([^\\/]+)\\/([^\\/]+)\\/pull\\/(\\d+)/);if(!m){alert('Open a GitHub PR first');return;}location.href='${origin}/'+m[1]+'/'+m[2]+'/pull/'+m[3];})();`;
+// Generate bookmarklet code with given origin, matching PRs on the given host
+function getBookmarkletCode(origin: string, hostname: string): string {
+  const pattern = getPRUrlPatternSource(hostname).replace(/\//g, "\\/");
+  return `javascript:(function(){var m=location.href.match(/${pattern}/);if(!m){alert('Open a GitHub PR first');return;}location.href='${origin}/'+m[1]+'/'+m[2]+'/pull/'+m[3];})();`;
 }
 
 // Animation showing the flow: GitHub → Click → Pulldash
@@ -129,10 +132,12 @@ export function BookmarkletDialog({
   open,
   onOpenChange,
 }: BookmarkletDialogProps) {
+  const host = useGitHubHost();
+
   // Generate the bookmarklet HTML - using dangerouslySetInnerHTML to bypass React's sanitization of javascript: URLs
   const bookmarkletHtml = useMemo(() => {
     if (typeof window === "undefined") return "";
-    const code = getBookmarkletCode(window.location.origin);
+    const code = getBookmarkletCode(window.location.origin, host.hostname);
     return `<a 
       href="${code.replace(/"/g, "&quot;")}" 
       draggable="true"
@@ -146,7 +151,7 @@ export function BookmarkletDialog({
     >
       <span style="display: none;">Open in Pulldash</span>
     </a>`;
-  }, []);
+  }, [host.hostname]);
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -0,0 +1,384 @@
+import { memo, useCallback, useMemo, useState } from "react";
+import {
+  AtSign,
+  CheckCircle2,
+  Circle,
+  History,
+  Loader2,
+  MessageSquare,
+  User,
+} from "lucide-react";
+import { cn } from "../cn";
+import { Checkbox } from "../ui/checkbox";
+import { usePRReviewSelector, usePRReviewStore } from "../contexts/pr-review";
+import { useCanWrite } from "../contexts/auth";
+import type { ReviewThread } from "../contexts/github";
+
+// ============================================================================
+// Filters
+// ============================================================================
+
+type ConversationFilter = "unresolved" | "mine" | "mentions" | "outdated";
+
+const FILTERS: Array<{
+  id: ConversationFilter;
+  label: string;
+  title: string;
+  icon: typeof Circle;
+}> = [
+  {
+    id: "unresolved",
+    label: "Unresolved",
+    title: "Threads that aren't resolved",
+    icon: Circle,
+  },
+  {
+    id: "mine",
+    label: "Mine",
+    title: "Threads you commented in",
+    icon: User,
+  },
+  {
+    id: "mentions",
+    label: "Mentions",
+    title: "Threads that mention you",
+    icon: AtSign,
+  },
+  {
+    id: "outdated",
+    label: "Outdated",
+    title: "Threads on lines that changed since",
+    icon: History,
+  },
+];
+
+// Commented lines moved or changed in a later push
+function isOutdatedThread(thread: ReviewThread): boolean {
+  const first = thread.comments.nodes[0];
+  return !!first && first.line === null && first.originalLine !== null;
+}
+
+function matchesFilter(
+  thread: ReviewThread,
+  filter: ConversationFilter,
+  currentUser: string | null
+): boolean {
+  const comments = thread.comments.nodes;
+  switch (filter) {
+    case "unresolved":
+      return !thread.isResolved;
+    case "mine":
+      return comments.some((c) => c.author?.login === currentUser);
+    case "mentions": {
+      if (!currentUser) return false;
+      // Logins can contain hyphens, so @user-name isn't a mention of @user
+      const mention = new RegExp(`@${currentUser}(?![\\w-])`, "i");
+      return comments.some((c) => mention.test(c.body));
+    }
+    case "outdated":
+      return isOutdatedThread(thread);
+  }
+}
+
+// ============================================================================
+// Conversations Panel
+// ============================================================================
+
+interface ConversationsPanelProps {
+  // Called after navigating to a thread
+  onSelect?: () => void;
+}
+
+export const ConversationsPanel = memo(function ConversationsPanel({
+  onSelect,
+}: ConversationsPanelProps) {
+  const store = usePRReviewStore();
+  const canWrite = useCanWrite();
+  const reviewThreads = usePRReviewSelector((s) => s.reviewThreads);
+  const files = usePRReviewSelector((s) => s.files);
+  const currentUser = usePRReviewSelector((s) => s.currentUser);
+  const viewerPermission = usePRReviewSelector((s) => s.viewerPermission);
+  const resolvingThreads = usePRReviewSelector((s) => s.resolvingThreads);
+  const [filters, setFilters] = useState<Set<ConversationFilter>>(
+    () => new Set(["unresolved"])
+  );
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  // Resolving threads requires write permission to the repo
+  const canResolve =
+    canWrite &&
+    (viewerPermission === "ADMIN" ||
+      viewerPermission === "MAINTAIN" ||
+      viewerPermission === "WRITE");
+
+  // Threads in file tree order, then by line
+  const threads = useMemo(() => {
+    const fileIndex = new Map(files.map((f, i) => [f.filename, i]));
+    const position = (thread: ReviewThread) => {
+      const first = thread.comments.nodes[0];
+      return first?.line ?? first?.originalLine ?? 0;
+    };
+    return reviewThreads
+      .filter((thread) => thread.comments.nodes.length > 0)
+      .filter((thread) =>
+        [...filters].every((f) => matchesFilter(thread, f, currentUser))
+      )
+      .sort(
+        (a, b) =>
+          (fileIndex.get(a.comments.nodes[0].path) ?? Infinity) -
+            (fileIndex.get(b.comments.nodes[0].path) ?? Infinity) ||
+          a.comments.nodes[0].path.localeCompare(b.comments.nodes[0].path) ||
+          position(a) - position(b)
+      );
+  }, [reviewThreads, files, filters, currentUser]);
+
+  // Only unresolved threads that are still listed can be resolved
+  const resolvable = useMemo(
+    () => threads.filter((t) => !t.isResolved).map((t) => t.id),
+    [threads]
+  );
+  const selectedIds = resolvable.filter((id) => selected.has(id));
+
+  const toggleFilter = (filter: ConversationFilter) => {
+    const next = new Set(filters);
+    if (next.has(filter)) {
+      next.delete(filter);
+    } else {
+      next.add(filter);
+    }
+    setFilters(next);
+  };
+
+  const toggleSelected = (threadId: string) => {
+    const next = new Set(selected);
+    if (next.has(threadId)) {
+      next.delete(threadId);
+    } else {
+      next.add(threadId);
+    }
+    setSelected(next);
+  };
+
+  const handleSelectAll = () => {
+    setSelected(
+      selectedIds.length === resolvable.length ? new Set() : new Set(resolvable)
+    );
+  };
+
+  const handleResolve = async () => {
+    const failed = await store.resolveThreads(selectedIds);
+    // Keep the ones that failed selected to retry
+    setSelected(new Set(failed));
+  };
+
+  const handleOpen = useCallback(
+    (thread: ReviewThread) => {
+      const first = thread.comments.nodes[0];
+      const params = new URLSearchParams({
+        file: first.path,
+        comment: String(first.databaseId),
+      });
+      if (store.navigateFromHash(params.toString())) {
+        onSelect?.();
+      }
+    },
+    [store, onSelect]
+  );
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0">
+      {/* Filters */}
+      <div className="flex flex-wrap gap-1 px-2 pb-2">
+        {FILTERS.map(({ id, label, title, icon: Icon }) => (
+          <button
+            key={id}
+            onClick={() => toggleFilter(id)}
+            title={title}
+            className={cn(
+              "flex items-center gap-1 px-2 py-0.5 text-xs rounded-full border transition-colors",
+              filters.has(id)
+                ? "bg-blue-500/20 text-blue-400 border-blue-500/30 hover:bg-blue-500/30"
+                : "text-muted-foreground border-border hover:bg-muted"
+            )}
+          >
+            <Icon className="w-3 h-3" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {/* Bulk resolve */}
+      {canResolve && resolvable.length > 0 && (
+        <div className="flex items-center gap-2 px-3 py-1.5 border-y border-border/50 text-xs text-muted-foreground">
+          <Checkbox
+            checked={
+              selectedIds.length === 0
+                ? false
+                : selectedIds.length === resolvable.length
+                  ? true
+                  : "indeterminate"
+            }
+            onCheckedChange={handleSelectAll}
+            aria-label="Select all unresolved threads"
+          />
+          <span className="flex-1">
+            {selectedIds.length > 0
+              ? `${selectedIds.length} selected`
+              : "Select all"}
+          </span>
+          {selectedIds.length > 0 && (
+            <button
+              onClick={handleResolve}
+              disabled={selectedIds.some((id) => resolvingThreads.has(id))}
+              className="flex items-center gap-1 px-2 py-0.5 rounded text-green-500 hover:bg-green-500/10 transition-colors disabled:opacity-50"
+            >
+              {selectedIds.some((id) => resolvingThreads.has(id)) ? (
+                <Loader2 className="w-3 h-3 animate-spin" />
+              ) : (
+                <CheckCircle2 className="w-3 h-3" />
+              )}
+              Resolve
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Threads */}
+      <div className="flex-1 overflow-y-auto themed-scrollbar">
+        {threads.length === 0 ? (
+          <div className="px-4 py-8 text-xs text-muted-foreground text-center">
+            {reviewThreads.length === 0
+              ? "No conversations yet"
+              : "No conversations match these filters"}
+          </div>
+        ) : (
+          threads.map((thread) => (
+            <ConversationItem
+              key={thread.id}
+              thread={thread}
+              selectable={canResolve && !thread.isResolved}
+              selected={selected.has(thread.id)}
+              resolving={resolvingThreads.has(thread.id)}
+              onToggleSelected={toggleSelected}
+              onOpen={handleOpen}
+            />
+          ))
+        )}
+      </div>
+    </div>
+  );
+});
+
+// ============================================================================
+// Conversation Item
+// ============================================================================
+
+interface ConversationItemProps {
+  thread: ReviewThread;
+  selectable: boolean;
+  selected: boolean;
+  resolving: boolean;
+  onToggleSelected: (threadId: string) => void;
+  onOpen: (thread: ReviewThread) => void;
+}
+
+const ConversationItem = memo(function ConversationItem({
+  thread,
+  selectable,
+  selected,
+  resolving,
+  onToggleSelected,
+  onOpen,
+}: ConversationItemProps) {
+  const comments = thread.comments.nodes;
+  const first = comments[0];
+  const outdated = isOutdatedThread(thread);
+  const line = first.line ?? first.originalLine;
+  const startLine = first.startLine;
+  const lineLabel =
+    line === null
+      ? "file"
+      : startLine !== null && startLine !== line
+        ? `L${startLine}-${line}`
+        : `L${line}`;
+
+  const slash = first.path.lastIndexOf("/");
+  const filename = first.path.slice(slash + 1);
+  const directory = slash === -1 ? "" : first.path.slice(0, slash);
+  // Whitespace and code fences make poor excerpts
+  const excerpt = first.body
+    .replace(/```[\s\S]*?(```|$)/g, " [code] ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  return (
+    <div
+      className={cn(
+        "group flex items-start gap-2 px-3 py-2 border-b border-border/50 hover:bg-muted/50 transition-colors",
+        thread.isResolved && "opacity-60"
+      )}
+    >
+      <div className="pt-0.5 shrink-0">
+        {resolving ? (
+          <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+        ) : selectable ? (
+          <Checkbox
+            checked={selected}
+            onCheckedChange={() => onToggleSelected(thread.id)}
+            aria-label="Select thread"
+          />
+        ) : thread.isResolved ? (
+          <CheckCircle2 className="w-4 h-4 text-green-500" />
+        ) : (
+          <Circle className="w-4 h-4 text-muted-foreground" />
+        )}
+      </div>
+
+      <button
+        onClick={() => onOpen(thread)}
+        className="flex-1 min-w-0 text-left"
+      >
+        <div className="flex items-center gap-1.5 text-xs">
+          <span className="font-medium truncate" title={first.path}>
+            {filename}
+          </span>
+          <span className="font-mono text-muted-foreground shrink-0">
+            {lineLabel}
+          </span>
+          {outdated && (
+            <span className="px-1 rounded bg-amber-500/15 text-amber-400 text-[10px] shrink-0">
+              outdated
+            </span>
+          )}
+        </div>
+        {directory && (
+          <div className="text-[10px] text-muted-foreground truncate">
+            {directory}
+          </div>
+        )}
+        <p className="mt-1 text-xs text-foreground/80 line-clamp-2 break-words">
+          {excerpt}
+        </p>
+        <div className="mt-1 flex items-center gap-1.5 text-[10px] text-muted-foreground">
+          {first.author && (
+            <>
+              <img
+                src={first.author.avatarUrl}
+                alt={first.author.login}
+                className="w-3.5 h-3.5 rounded-full"
+              />
+              <span>{first.author.login}</span>
+            </>
+          )}
+          {comments.length > 1 && (
+            <span className="flex items-center gap-0.5">
+              <MessageSquare className="w-3 h-3" />
+              {comments.length - 1}
+            </span>
+          )}
+          {thread.isResolved && <span>Resolved</span>}
+        </div>
+      </button>
+    </div>
+  );
+});
@@ -5,9 +5,10 @@ import {
   ChevronRight,
   Columns2,
   AlignJustify,
+  MessageSquarePlus,
 } from "lucide-react";
 import { cn } from "../cn";
-import { Keycap } from "../ui/keycap";
+import { Keycap, KeycapGroup } from "../ui/keycap";
 import type { PullRequestFile } from "@/api/types";
 import { memo } from "react";
 import type { DiffViewMode } from "../contexts/pr-review";
@@ -15,6 +16,7 @@ import type { DiffViewMode } from "../contexts/pr-review";
 interface FileHeaderProps {
   file: PullRequestFile;
   isViewed: boolean;
+  changedSinceViewed?: boolean;
   onToggleViewed: () => void;
   currentIndex?: number;
   totalFiles?: number;
@@ -22,11 +24,14 @@ interface FileHeaderProps {
   onNextFile?: () => void;
   diffViewMode?: DiffViewMode;
   onToggleDiffViewMode?: () => void;
+  // Comment on the whole file
+  onCommentOnFile?: () => void;
 }
 
 export const FileHeader = memo(function FileHeader({
   file,
   isViewed,
+  changedSinceViewed,
   onToggleViewed,
   currentIndex,
   totalFiles,
@@ -34,6 +39,7 @@ export const FileHeader = memo(function FileHeader({
   onNextFile,
   diffViewMode,
   onToggleDiffViewMode,
+  onCommentOnFile,
 }: FileHeaderProps) {
   const fileStatusBadge = (() => {
     switch (file.status) {
@@ -70,6 +76,14 @@ export const FileHeader = memo(function FileHeader({
           {file.filename}
         </span>
         {fileStatusBadge}
+        {changedSinceViewed && (
+          <span
+            className="px-1.5 py-0.5 text-xs rounded bg-orange-500/20 text-orange-400 font-medium shrink-0"
+            title="This file changed after you marked it viewed"
+          >
+            Changed since viewed
+          </span>
+        )}
         <span className="text-xs text-muted-foreground shrink-0">
           <span className="text-green-500">+{file.additions}</span>{" "}
           <span className="text-red-500">−{file.deletions}</span>
@@ -139,6 +153,17 @@ export const FileHeader = memo(function FileHeader({
           </div>
         )}
 
+        {onCommentOnFile && (
+          <button
+            onClick={onCommentOnFile}
+            className="flex items-center gap-1.5 px-2 py-1.5 text-sm rounded-md bg-muted hover:bg-muted/80 text-muted-foreground transition-colors shrink-0"
+            title="Comment on this file"
+          >
+            <MessageSquarePlus className="w-4 h-4" />
+            <KeycapGroup keys={["shift", "c"]} size="xs" />
+          </button>
+        )}
+
         <button
           onClick={onToggleViewed}
           className={cn(
@@ -15,6 +15,7 @@ import {
   EyeOff,
   GitBranch,
   FolderCheck,
+  MessageSquarePlus,
 } from "lucide-react";
 import { cn } from "../cn";
 import {
@@ -31,6 +32,7 @@ interface FileTreeProps {
   selectedFile: string | null;
   selectedFiles: Set<string>;
   viewedFiles: Set<string>;
+  changedSinceViewed?: Set<string>;
   hideViewed: boolean;
   commentCounts: Record<string, number>;
   pendingCommentCounts?: Record<string, number>;
@@ -46,6 +48,7 @@ interface FileTreeProps {
   onCopyDiff: (filename: string) => void;
   onCopyFile: (filename: string) => void;
   onCopyMainVersion: (filename: string) => void;
+  onCommentOnFile?: (filename: string) => void;
 }
 
 interface TreeNode {
@@ -190,6 +193,7 @@ export function FileTree({
   selectedFile,
   selectedFiles,
   viewedFiles,
+  changedSinceViewed,
   hideViewed,
   commentCounts,
   pendingCommentCounts = {},
@@ -201,6 +205,7 @@ export function FileTree({
   onCopyDiff,
   onCopyFile,
   onCopyMainVersion,
+  onCommentOnFile,
 }: FileTreeProps) {
   const parentRef = useRef<HTMLDivElement>(null);
 
@@ -388,6 +393,7 @@ export function FileTree({
           const isSelected = selectedFile === node.path;
           const isMultiSelected = selectedFiles.has(node.path);
           const isViewed = viewedFiles.has(node.path);
+          const isChangedSinceViewed = !!changedSinceViewed?.has(node.path);
           const commentCount = commentCounts[node.path] || 0;
           const pendingCount = pendingCommentCounts[node.path] || 0;
           const showMultiSelectMenu =
@@ -421,6 +427,14 @@ export function FileTree({
                     {node.file && getFileIcon(node.file)}
                     <span className="truncate flex-1">{node.name}</span>
                     <div className="flex items-center gap-1 shrink-0">
+                      {isChangedSinceViewed && (
+                        <span
+                          className="text-[10px] text-orange-400 bg-orange-500/20 px-1 py-0.5 rounded"
+                          title="Changed since viewed"
+                        >
+                          changed
+                        </span>
+                      )}
                       {pendingCount > 0 && (
                         <span className="flex items-center gap-0.5 text-xs text-yellow-500 bg-yellow-500/20 px-1.5 py-0.5 rounded">
                           {pendingCount}
@@ -461,6 +475,14 @@ export function FileTree({
                           </>
                         )}
                       </ContextMenuItem>
+                      {onCommentOnFile && (
+                        <ContextMenuItem
+                          onClick={() => onCommentOnFile(node.path)}
+                        >
+                          <MessageSquarePlus className="w-4 h-4 mr-2" />
+                          Comment on file
+                        </ContextMenuItem>
+                      )}
                       <ContextMenuSeparator />
                       <ContextMenuItem onClick={() => onCopyDiff(node.path)}>
                         <Copy className="w-4 h-4 mr-2" />
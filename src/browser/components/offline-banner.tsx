@@ -0,0 +1,122 @@
+import { CloudOff, AlertTriangle, Loader2, RotateCw, X } from "lucide-react";
+import { cn } from "../cn";
+import { useOfflineState, useOutbox } from "../contexts/github";
+import { Popover, PopoverTrigger, PopoverContent } from "../ui/popover";
+
+// ============================================================================
+// Offline Banner - Connectivity and queued writes
+// ============================================================================
+
+export function OfflineBanner() {
+  const { offline, dataAsOf } = useOfflineState();
+  const { entries, retry, discard } = useOutbox();
+
+  const queued = entries.filter(
+    (e) => e.status === "queued" || e.status === "replaying"
+  );
+  const conflicts = entries.filter((e) => e.status === "conflict");
+  const failed = entries.filter((e) => e.status === "failed");
+  // A server error on the first queued write; it's retried shortly
+  const retryError = queued[0]?.error;
+
+  if (!offline && entries.length === 0) return null;
+
+  let message: string;
+  if (offline) {
+    message = dataAsOf
+      ? `You're offline. Showing data as of ${new Date(dataAsOf).toLocaleString()}.`
+      : "You're offline. Showing cached data.";
+  } else if (queued.length > 0) {
+    message = retryError
+      ? `Couldn't send queued changes (${retryError}). Retrying…`
+      : `Sending ${queued.length} queued ${queued.length === 1 ? "change" : "changes"}…`;
+  } else if (failed.length === 1) {
+    message = `${failed[0].label} failed: ${failed[0].error}`;
+  } else if (failed.length > 0) {
+    message = `${failed.length} queued changes couldn't be sent.`;
+  } else {
+    message = `${conflicts.length} queued ${conflicts.length === 1 ? "change" : "changes"} couldn't be applied because the target changed.`;
+  }
+
+  return (
+    <div
+      className={cn(
+        "flex items-center gap-2 px-3 py-1.5 text-xs border-b shrink-0",
+        offline || conflicts.length + failed.length === 0
+          ? "bg-yellow-500/10 border-yellow-500/20 text-yellow-200"
+          : "bg-red-500/10 border-red-500/20 text-red-200"
+      )}
+    >
+      {offline ? (
+        <CloudOff className="w-3.5 h-3.5 shrink-0" />
+      ) : queued.length > 0 && !retryError ? (
+        <Loader2 className="w-3.5 h-3.5 shrink-0 animate-spin" />
+      ) : (
+        <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+      )}
+      <span className="truncate">{message}</span>
+
+      {entries.length > 0 && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <button className="ml-auto shrink-0 underline underline-offset-2 hover:no-underline">
+              {entries.length} queued{" "}
+              {entries.length === 1 ? "change" : "changes"}
+            </button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-80 p-1">
+            <div className="max-h-72 overflow-y-auto">
+              {entries.map((entry) => (
+                <div
+                  key={entry.id}
+                  className="flex items-start gap-2 px-2 py-1.5 rounded-md hover:bg-muted/50"
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="text-xs truncate">{entry.label}</div>
+                    <div
+                      className={cn(
+                        "text-[10px]",
+                        entry.status === "conflict" || entry.status === "failed"
+                          ? "text-red-400"
+                          : "text-muted-foreground"
+                      )}
+                    >
+                      {entry.status === "conflict"
+                        ? (entry.error ?? "Conflict")
+                        : entry.status === "failed"
+                          ? (entry.error ?? "Failed")
+                          : entry.status === "replaying"
+                            ? "Sending…"
+                            : entry.error
+                              ? `Retrying: ${entry.error}`
+                              : `Queued ${new Date(entry.createdAt).toLocaleTimeString()}`}
+                    </div>
+                  </div>
+                  {(entry.status === "conflict" ||
+                    entry.status === "failed") && (
+                    <button
+                      onClick={() => retry(entry.id)}
+                      className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-muted"
+                      title="Retry"
+                    >
+                      <RotateCw className="w-3 h-3" />
+                    </button>
+                  )}
+                  {entry.status !== "replaying" && (
+                    <button
+                      onClick={() => discard(entry.id)}
+                      className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-muted"
+                      title="Discard"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </PopoverContent>
+        </Popover>
+      )}
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import {
 import { memo, useState, useCallback, type ReactNode } from "react";
 import { cn } from "../cn";
 import { UserHoverCard } from "../ui/user-hover-card";
+import { useGitHubWebUrl } from "../contexts/github";
 import type { PullRequest } from "@/api/types";
 
 interface PRHeaderProps {
@@ -26,6 +27,7 @@ export const PRHeader = memo(function PRHeader({
   onToggleSidebar,
   rightContent,
 }: PRHeaderProps) {
+  const webUrl = useGitHubWebUrl();
   const stateIcon = pr.merged ? (
     <GitMerge className="w-3.5 h-3.5" />
   ) : pr.state === "open" ? (
@@ -76,7 +78,7 @@ export const PRHeader = memo(function PRHeader({
 
       {/* Repo Link - hidden on smallest screens */}
       <a
-        href={`https://github.com/${owner}/${repo}`}
+        href={`${webUrl}/${owner}/${repo}`}
         target="_blank"
         rel="noopener noreferrer"
         className="text-xs text-muted-foreground hover:text-blue-400 transition-colors font-mono shrink-0 hidden sm:inline"
@@ -92,7 +94,7 @@ export const PRHeader = memo(function PRHeader({
         </span>
         {/* External Link - moved here next to title */}
         <a
-          href={`https://github.com/${owner}/${repo}/pull/${pr.number}`}
+          href={`${webUrl}/${owner}/${repo}/pull/${pr.number}`}
           target="_blank"
           rel="noopener noreferrer"
           className="text-muted-foreground hover:text-blue-400 transition-colors shrink-0"
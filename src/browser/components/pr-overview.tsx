@@ -58,9 +58,15 @@ import {
   getTimeAgo,
 } from "../contexts/pr-review";
 import { parseDiffCached, type ParsedDiff } from "../lib/diff";
+import { isQueuedWrite } from "../lib/outbox";
 import {
   useGitHub,
+  useGitHubWebUrl,
   useCurrentUser,
+  useOutbox,
+  createQueuedReaction,
+  getQueuedReactionEntryId,
+  repoCacheKey,
   type Review as GitHubReview,
   type IssueComment as GitHubIssueComment,
   type CheckRun as GitHubCheckRun,
@@ -92,6 +98,7 @@ type TabType = "conversation" | "commits" | "checks";
 
 export const PROverview = memo(function PROverview() {
   const github = useGitHub();
+  const webUrl = useGitHubWebUrl();
   const store = usePRReviewStore();
   const canWrite = useCanWrite();
   const { track } = useTelemetry();
@@ -116,6 +123,7 @@ export const PROverview = memo(function PROverview() {
   const conversation = usePRReviewSelector((s) => s.conversation);
   const loading = usePRReviewSelector((s) => s.loading);
   const branchDeleted = usePRReviewSelector((s) => s.branchDeleted);
+  const loadingDiffScope = usePRReviewSelector((s) => s.loadingDiffScope);
 
   // Merge state from store
   const merging = usePRReviewSelector((s) => s.merging);
@@ -247,14 +255,35 @@ export const PROverview = memo(function PROverview() {
     }
   }, [store, track, pr.number, owner, repo]);
 
+  const handleReviewCommits = useCallback(
+    async (shas: string[]) => {
+      await store.showCommits(shas);
+      const { diffScope, files } = store.getSnapshot();
+      if (diffScope?.kind === "commits" && files.length > 0) {
+        store.selectFile(files[0].filename);
+      }
+    },
+    [store]
+  );
+
+  const handleCompareForcePush = useCallback(
+    async (head: string) => {
+      await store.showForcePush(head);
+      const { diffScope, files } = store.getSnapshot();
+      if (diffScope?.kind === "revisions" && files.length > 0) {
+        store.selectFile(files[0].filename);
+      }
+    },
+    [store]
+  );
+
   const handleApproveWorkflows = useCallback(async () => {
     await store.approveWorkflows();
   }, [store]);
 
-  const handleAddComment = useCallback(async () => {
-    if (!commentText.trim()) return;
-
-    setSubmittingComment(true);
+  // Post the typed comment. Comments queued offline are kept in the outbox
+  // and shown as queued until they're sent; only failures keep the text.
+  const postComment = useCallback(async () => {
     try {
       const newComment = await github.createPRConversationComment(
         owner,
@@ -263,13 +292,56 @@ export const PROverview = memo(function PROverview() {
         commentText
       );
       store.addConversationComment(newComment);
-      setCommentText("");
     } catch (error) {
-      console.error("Failed to add comment:", error);
+      if (!isQueuedWrite(error)) {
+        console.error("Failed to add comment:", error);
+        return;
+      }
+    }
+    setCommentText("");
+  }, [github, owner, repo, pr.number, commentText, store]);
+
+  const handleAddComment = useCallback(async () => {
+    if (!commentText.trim()) return;
+
+    setSubmittingComment(true);
+    try {
+      await postComment();
     } finally {
       setSubmittingComment(false);
     }
-  }, [github, owner, repo, pr.number, commentText, store]);
+  }, [commentText, postComment]);
+
+  // Comments on this PR waiting in the outbox
+  const { entries: outboxEntries } = useOutbox();
+  const queuedComments = useMemo(
+    () =>
+      outboxEntries.flatMap((entry) => {
+        const { op } = entry;
+        if (op.type !== "createPRConversationComment") return [];
+        const [opOwner, opRepo, number, body] = op.args;
+        if (opOwner !== owner || opRepo !== repo || number !== pr.number) {
+          return [];
+        }
+        return [{ id: entry.id, body, createdAt: entry.createdAt }];
+      }),
+    [outboxEntries, owner, repo, pr.number]
+  );
+
+  // Show queued comments for real once they're sent
+  useEffect(() => {
+    return github.onOutboxReplayed((entry, result) => {
+      const { op } = entry;
+      if (op.type !== "createPRConversationComment") return;
+      if (op.args[0] !== owner || op.args[1] !== repo) return;
+      if (op.args[2] !== pr.number) return;
+      store.addConversationComment(result as IssueComment);
+      github
+        .getPRTimeline(owner, repo, pr.number)
+        .then((timeline) => store.setTimeline(timeline))
+        .catch(() => {});
+    });
+  }, [github, owner, repo, pr.number, store]);
 
   const handleCommentKeyDown = useCallback(
     (e: React.KeyboardEvent) => {
@@ -357,40 +429,18 @@ export const PROverview = memo(function PROverview() {
   const handleClosePR = useCallback(async () => {
     // Post comment first if there's one typed (like GitHub does)
     if (commentText.trim()) {
-      try {
-        const newComment = await github.createPRConversationComment(
-          owner,
-          repo,
-          pr.number,
-          commentText
-        );
-        store.addConversationComment(newComment);
-        setCommentText("");
-      } catch (error) {
-        console.error("Failed to add comment:", error);
-      }
+      await postComment();
     }
     await store.closePR();
-  }, [github, owner, repo, pr.number, commentText, store]);
+  }, [commentText, postComment, store]);
 
   const handleReopenPR = useCallback(async () => {
     // Post comment first if there's one typed (like GitHub does)
     if (commentText.trim()) {
-      try {
-        const newComment = await github.createPRConversationComment(
-          owner,
-          repo,
-          pr.number,
-          commentText
-        );
-        store.addConversationComment(newComment);
-        setCommentText("");
-      } catch (error) {
-        console.error("Failed to add comment:", error);
-      }
+      await postComment();
     }
     await store.reopenPR();
-  }, [github, owner, repo, pr.number, commentText, store]);
+  }, [commentText, postComment, store]);
 
   const handleDeleteBranch = useCallback(async () => {
     if (
@@ -451,7 +501,7 @@ export const PROverview = memo(function PROverview() {
         });
 
         // 3. Invalidate cache so future fetches get fresh data
-        github.invalidateCache(`pr:${owner}/${repo}/${pr.number}`);
+        github.invalidateCache(`pr:${repoCacheKey(owner, repo)}/${pr.number}`);
 
         // 4. Refetch timeline (reviewer request creates event)
         refetchTimeline();
@@ -477,7 +527,7 @@ export const PROverview = memo(function PROverview() {
         });
 
         // 3. Invalidate cache so future fetches get fresh data
-        github.invalidateCache(`pr:${owner}/${repo}/${pr.number}`);
+        github.invalidateCache(`pr:${repoCacheKey(owner, repo)}/${pr.number}`);
 
         // 4. Refetch timeline
         refetchTimeline();
@@ -524,7 +574,7 @@ export const PROverview = memo(function PROverview() {
         });
 
         // 3. Invalidate cache so future fetches get fresh data
-        github.invalidateCache(`pr:${owner}/${repo}/${pr.number}`);
+        github.invalidateCache(`pr:${repoCacheKey(owner, repo)}/${pr.number}`);
 
         // 4. Refetch timeline (assignee change creates event)
         refetchTimeline();
@@ -548,7 +598,7 @@ export const PROverview = memo(function PROverview() {
         });
 
         // 3. Invalidate cache so future fetches get fresh data
-        github.invalidateCache(`pr:${owner}/${repo}/${pr.number}`);
+        github.invalidateCache(`pr:${repoCacheKey(owner, repo)}/${pr.number}`);
 
         // 4. Refetch timeline
         refetchTimeline();
@@ -595,7 +645,7 @@ export const PROverview = memo(function PROverview() {
       });
 
       // 3. Invalidate cache so future fetches get fresh data
-      github.invalidateCache(`pr:${owner}/${repo}/${pr.number}`);
+      github.invalidateCache(`pr:${repoCacheKey(owner, repo)}/${pr.number}`);
 
       // 4. Refetch timeline
       refetchTimeline();
@@ -656,125 +706,131 @@ export const PROverview = memo(function PROverview() {
     }
   }, [github, owner, repo, conversation]);
 
-  const handleAddPRReaction = useCallback(
-    async (content: ReactionContent) => {
+  // Reactions made offline are queued: added ones are shown as queued until
+  // they're sent, removed ones disappear right away
+  const addReaction = useCallback(
+    async (
+      key: string,
+      content: ReactionContent,
+      add: () => Promise<Reaction>
+    ) => {
+      let reaction: Reaction;
       try {
-        const newReaction = await github.addIssueReaction(
-          owner,
-          repo,
-          pr.number,
-          content
-        );
-        setReactions((prev) => ({
-          ...prev,
-          issue: [...(prev.issue || []), newReaction],
-        }));
+        reaction = await add();
       } catch (error) {
-        console.error("Failed to add reaction:", error);
+        if (!isQueuedWrite(error)) {
+          console.error("Failed to add reaction:", error);
+          return;
+        }
+        const login = currentUser ?? "";
+        reaction = createQueuedReaction(
+          content,
+          { login, avatar_url: `${webUrl}/${login}.png` },
+          error.entryId
+        );
       }
+      setReactions((prev) => ({
+        ...prev,
+        [key]: [...(prev[key] || []), reaction],
+      }));
     },
-    [github, owner, repo, pr.number]
+    [currentUser, webUrl]
   );
 
-  const handleRemovePRReaction = useCallback(
-    async (reactionId: number) => {
-      try {
-        await github.deleteIssueReaction(owner, repo, pr.number, reactionId);
-        setReactions((prev) => ({
-          ...prev,
-          issue: (prev.issue || []).filter((r) => r.id !== reactionId),
-        }));
-      } catch (error) {
-        console.error("Failed to remove reaction:", error);
+  const removeReaction = useCallback(
+    async (key: string, reactionId: number, remove: () => Promise<void>) => {
+      const reaction = reactions[key]?.find((r) => r.id === reactionId);
+      const queuedEntryId = reaction && getQueuedReactionEntryId(reaction);
+      if (queuedEntryId) {
+        // Never sent, so there's nothing to delete on GitHub
+        github.discardOutboxEntry(queuedEntryId);
+      } else {
+        try {
+          await remove();
+        } catch (error) {
+          if (!isQueuedWrite(error)) {
+            console.error("Failed to remove reaction:", error);
+            return;
+          }
+        }
       }
+      setReactions((prev) => ({
+        ...prev,
+        [key]: (prev[key] || []).filter((r) => r.id !== reactionId),
+      }));
     },
-    [github, owner, repo, pr.number]
+    [github, reactions]
+  );
+
+  // Swap queued reactions for the real ones once they're sent
+  useEffect(() => {
+    return github.onOutboxReplayed((entry, result) => {
+      setReactions((prev) => {
+        for (const [key, list] of Object.entries(prev)) {
+          if (!list.some((r) => getQueuedReactionEntryId(r) === entry.id)) {
+            continue;
+          }
+          return {
+            ...prev,
+            [key]: list.map((r) =>
+              getQueuedReactionEntryId(r) === entry.id
+                ? (result as Reaction)
+                : r
+            ),
+          };
+        }
+        return prev;
+      });
+    });
+  }, [github]);
+
+  const handleAddPRReaction = useCallback(
+    (content: ReactionContent) =>
+      addReaction("issue", content, () =>
+        github.addIssueReaction(owner, repo, pr.number, content)
+      ),
+    [addReaction, github, owner, repo, pr.number]
+  );
+
+  const handleRemovePRReaction = useCallback(
+    (reactionId: number) =>
+      removeReaction("issue", reactionId, () =>
+        github.deleteIssueReaction(owner, repo, pr.number, reactionId)
+      ),
+    [removeReaction, github, owner, repo, pr.number]
   );
 
   const handleAddCommentReaction = useCallback(
-    async (commentId: number, content: ReactionContent) => {
-      try {
-        const newReaction = await github.addCommentReaction(
-          owner,
-          repo,
-          commentId,
-          content
-        );
-        setReactions((prev) => ({
-          ...prev,
-          [`comment-${commentId}`]: [
-            ...(prev[`comment-${commentId}`] || []),
-            newReaction,
-          ],
-        }));
-      } catch (error) {
-        console.error("Failed to add reaction:", error);
-      }
-    },
-    [github, owner, repo]
+    (commentId: number, content: ReactionContent) =>
+      addReaction(`comment-${commentId}`, content, () =>
+        github.addCommentReaction(owner, repo, commentId, content)
+      ),
+    [addReaction, github, owner, repo]
   );
 
   const handleRemoveCommentReaction = useCallback(
-    async (commentId: number, reactionId: number) => {
-      try {
-        await github.deleteCommentReaction(owner, repo, commentId, reactionId);
-        setReactions((prev) => ({
-          ...prev,
-          [`comment-${commentId}`]: (prev[`comment-${commentId}`] || []).filter(
-            (r) => r.id !== reactionId
-          ),
-        }));
-      } catch (error) {
-        console.error("Failed to remove reaction:", error);
-      }
-    },
-    [github, owner, repo]
+    (commentId: number, reactionId: number) =>
+      removeReaction(`comment-${commentId}`, reactionId, () =>
+        github.deleteCommentReaction(owner, repo, commentId, reactionId)
+      ),
+    [removeReaction, github, owner, repo]
   );
 
   // Review comment reactions (different from issue comments)
   const handleAddReviewCommentReaction = useCallback(
-    async (commentId: number, content: ReactionContent) => {
-      try {
-        const newReaction = await github.addReviewCommentReaction(
-          owner,
-          repo,
-          commentId,
-          content
-        );
-        setReactions((prev) => ({
-          ...prev,
-          [`review-comment-${commentId}`]: [
-            ...(prev[`review-comment-${commentId}`] || []),
-            newReaction,
-          ],
-        }));
-      } catch (error) {
-        console.error("Failed to add review comment reaction:", error);
-      }
-    },
-    [github, owner, repo]
+    (commentId: number, content: ReactionContent) =>
+      addReaction(`review-comment-${commentId}`, content, () =>
+        github.addReviewCommentReaction(owner, repo, commentId, content)
+      ),
+    [addReaction, github, owner, repo]
   );
 
   const handleRemoveReviewCommentReaction = useCallback(
-    async (commentId: number, reactionId: number) => {
-      try {
-        await github.deleteReviewCommentReaction(
-          owner,
-          repo,
-          commentId,
-          reactionId
-        );
-        setReactions((prev) => ({
-          ...prev,
-          [`review-comment-${commentId}`]: (
-            prev[`review-comment-${commentId}`] || []
-          ).filter((r) => r.id !== reactionId),
-        }));
-      } catch (error) {
-        console.error("Failed to remove review comment reaction:", error);
-      }
-    },
-    [github, owner, repo]
+    (commentId: number, reactionId: number) =>
+      removeReaction(`review-comment-${commentId}`, reactionId, () =>
+        github.deleteReviewCommentReaction(owner, repo, commentId, reactionId)
+      ),
+    [removeReaction, github, owner, repo]
   );
 
   // Thread actions (reply, resolve, unresolve)
@@ -798,11 +854,15 @@ export const PROverview = memo(function PROverview() {
     async (threadId: string) => {
       try {
         await github.resolveThread(threadId);
-        // Update local state
-        store.updateReviewThread(threadId, (t) => ({ ...t, isResolved: true }));
       } catch (error) {
-        console.error("Failed to resolve thread:", error);
+        // Queued offline writes are shown as applied
+        if (!isQueuedWrite(error)) {
+          console.error("Failed to resolve thread:", error);
+          return;
+        }
       }
+      // Update local state
+      store.updateReviewThread(threadId, (t) => ({ ...t, isResolved: true }));
     },
     [github, store]
   );
@@ -811,14 +871,17 @@ export const PROverview = memo(function PROverview() {
     async (threadId: string) => {
       try {
         await github.unresolveThread(threadId);
-        // Update local state
-        store.updateReviewThread(threadId, (t) => ({
-          ...t,
-          isResolved: false,
-        }));
       } catch (error) {
-        console.error("Failed to unresolve thread:", error);
+        if (!isQueuedWrite(error)) {
+          console.error("Failed to unresolve thread:", error);
+          return;
+        }
       }
+      // Update local state
+      store.updateReviewThread(threadId, (t) => ({
+        ...t,
+        isResolved: false,
+      }));
     },
     [github, store]
   );
@@ -1297,6 +1360,7 @@ export const PROverview = memo(function PROverview() {
                             key={`event-${index}`}
                             event={entry.data}
                             pr={pr}
+                            onCompareForcePush={handleCompareForcePush}
                           />
                         );
                       }
@@ -1343,6 +1407,20 @@ export const PROverview = memo(function PROverview() {
                       return null;
                     });
                   })()}
+
+                  {/* Comments waiting to be sent */}
+                  {queuedComments.map((comment) => (
+                    <CommentBox
+                      key={`queued-${comment.id}`}
+                      user={{
+                        login: currentUser ?? "",
+                        avatar_url: `${webUrl}/${currentUser}.png`,
+                      }}
+                      createdAt={new Date(comment.createdAt).toISOString()}
+                      body={comment.body}
+                      queued
+                    />
+                  ))}
                 </div>
 
                 {/* Archived repo notice */}
@@ -1577,7 +1655,7 @@ export const PROverview = memo(function PROverview() {
                     {/* Avatar */}
                     {currentUser && (
                       <img
-                        src={`https://github.com/${currentUser}.png`}
+                        src={`${webUrl}/${currentUser}.png`}
                         alt={currentUser}
                         className="w-10 h-10 rounded-full shrink-0"
                       />
@@ -1630,7 +1708,13 @@ export const PROverview = memo(function PROverview() {
             )}
 
             {activeTab === "commits" && (
-              <CommitsTab commits={commits} owner={owner} repo={repo} />
+              <CommitsTab
+                commits={commits}
+                owner={owner}
+                repo={repo}
+                reviewing={loadingDiffScope}
+                onReview={handleReviewCommits}
+              />
             )}
 
             {activeTab === "checks" && (
@@ -1972,7 +2056,9 @@ export const PROverview = memo(function PROverview() {
                   store.setPr({ ...pr, labels: newLabels });
 
                   // 3. Invalidate cache so future fetches get fresh data
-                  github.invalidateCache(`pr:${owner}/${repo}/${pr.number}`);
+                  github.invalidateCache(
+                    `pr:${repoCacheKey(owner, repo)}/${pr.number}`
+                  );
 
                   // 4. Refetch timeline (label change creates event)
                   github
@@ -2006,7 +2092,7 @@ export const PROverview = memo(function PROverview() {
             {/* Actions */}
             <div className="pt-2 border-t border-border space-y-2">
               <a
-                href={`https://github.com/${owner}/${repo}/pull/${pr.number}`}
+                href={`${webUrl}/${owner}/${repo}/pull/${pr.number}`}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="flex items-center gap-2 text-sm text-muted-foreground hover:text-blue-400"
@@ -2270,6 +2356,7 @@ function CommentBox({
   isFocused,
   onReply,
   isReplying,
+  queued,
 }: {
   id?: string;
   user: { login: string; avatar_url: string } | null;
@@ -2285,6 +2372,8 @@ function CommentBox({
   isFocused?: boolean;
   onReply?: (body: string) => Promise<void>;
   isReplying?: boolean;
+  // Waiting in the outbox to be sent
+  queued?: boolean;
 }) {
   const [replyText, setReplyText] = useState("");
   const [submitting, setSubmitting] = useState(false);
@@ -2332,6 +2421,14 @@ function CommentBox({
         <span className="text-muted-foreground">
           commented {getTimeAgo(new Date(createdAt))}
         </span>
+        {queued && (
+          <span
+            className="px-1.5 py-0.5 text-[10px] font-medium bg-muted text-muted-foreground rounded"
+            title="Will be sent to GitHub when you're back online"
+          >
+            Queued
+          </span>
+        )}
         {isAuthor && (
           <span className="ml-auto px-1.5 py-0.5 text-xs border border-border rounded text-muted-foreground">
             Author
@@ -2601,6 +2698,7 @@ function ReviewThreadBox({
   isFocused?: boolean;
   autoFocusReply?: boolean;
 }) {
+  const webUrl = useGitHubWebUrl();
   const [replyText, setReplyText] = useState("");
   const [submitting, setSubmitting] = useState(false);
   const [resolving, setResolving] = useState(false);
@@ -2729,7 +2827,7 @@ function ReviewThreadBox({
       {/* File header */}
       <div className="flex items-center gap-2 px-3 py-2 bg-card border-b border-border text-sm">
         <a
-          href={`https://github.com/${owner}/${repo}/blob/HEAD/${filePath}`}
+          href={`${webUrl}/${owner}/${repo}/blob/HEAD/${filePath}`}
           target="_blank"
           rel="noopener noreferrer"
           className="font-mono text-muted-foreground hover:text-blue-400 hover:underline"
@@ -2860,7 +2958,7 @@ function ReviewThreadBox({
               <div className="flex items-start gap-3">
                 {currentUser && (
                   <img
-                    src={`https://github.com/${currentUser}.png`}
+                    src={`${webUrl}/${currentUser}.png`}
                     alt={currentUser}
                     className="w-6 h-6 rounded-full shrink-0 mt-1"
                   />
@@ -2937,7 +3035,7 @@ function ReviewThreadBox({
             <div className="flex items-center gap-3">
               {currentUser && (
                 <img
-                  src={`https://github.com/${currentUser}.png`}
+                  src={`${webUrl}/${currentUser}.png`}
                   alt={currentUser}
                   className="w-6 h-6 rounded-full shrink-0"
                 />
@@ -3650,58 +3748,131 @@ function CommitsTab({
   commits,
   owner,
   repo,
+  reviewing,
+  onReview,
 }: {
   commits: PRCommit[];
   owner: string;
   repo: string;
+  reviewing: boolean;
+  onReview: (shas: string[]) => void;
 }) {
+  const webUrl = useGitHubWebUrl();
+  // Only contiguous ranges can be diffed, so a selection is [first, last]
+  const [anchor, setAnchor] = useState<number | null>(null);
+  const [range, setRange] = useState<[number, number] | null>(null);
+
+  const toggleCommit = (index: number, extend: boolean) => {
+    if (extend && anchor !== null) {
+      setRange([Math.min(anchor, index), Math.max(anchor, index)]);
+    } else if (range && range[0] === index && range[1] === index) {
+      setAnchor(null);
+      setRange(null);
+    } else {
+      setAnchor(index);
+      setRange([index, index]);
+    }
+  };
+
+  const selected = range ? commits.slice(range[0], range[1] + 1) : [];
+
   return (
-    <div className="border border-border rounded-md overflow-hidden divide-y divide-border">
-      {commits.map((commit) => (
-        <div
-          key={commit.sha}
-          className="flex items-center gap-3 p-3 hover:bg-card/30"
-        >
-          <img
-            src={commit.author?.avatar_url || commit.committer?.avatar_url}
-            alt={commit.commit.author?.name}
-            className="w-6 h-6 rounded-full"
-          />
-          <div className="flex-1 min-w-0">
-            <a
-              href={`https://github.com/${owner}/${repo}/commit/${commit.sha}`}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="text-sm font-medium truncate block hover:text-blue-400"
-            >
-              {commit.commit.message.split("\n")[0]}
-            </a>
-            <p className="text-xs text-muted-foreground">
-              {commit.commit.author?.name} committed{" "}
-              {commit.commit.author?.date &&
-                getTimeAgo(new Date(commit.commit.author.date))}
-            </p>
-          </div>
-          <div className="flex items-center gap-2">
-            <Check className="w-4 h-4 text-green-500" />
-            <a
-              href={`https://github.com/${owner}/${repo}/commit/${commit.sha}`}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="text-xs font-mono text-muted-foreground hover:text-blue-400"
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2 min-h-7">
+        <span className="text-xs text-muted-foreground">
+          {selected.length === 0
+            ? "Select a commit to review its changes (shift-click for a range)"
+            : selected.length === 1
+              ? `Commit ${selected[0].sha.slice(0, 7)} selected`
+              : `${selected.length} commits selected`}
+        </span>
+        {selected.length > 0 && (
+          <div className="flex items-center gap-1.5">
+            <button
+              onClick={() => {
+                setAnchor(null);
+                setRange(null);
+              }}
+              className="px-2 py-1 text-xs rounded-md text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
             >
-              {commit.sha.slice(0, 7)}
-            </a>
+              Clear
+            </button>
             <button
-              onClick={() => navigator.clipboard.writeText(commit.sha)}
-              className="p-1 text-muted-foreground hover:text-foreground rounded hover:bg-muted"
-              title="Copy commit SHA"
+              onClick={() => onReview(selected.map((c) => c.sha))}
+              disabled={reviewing}
+              className="flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium rounded-md bg-blue-500/20 text-blue-400 hover:bg-blue-500/30 transition-colors disabled:opacity-50"
             >
-              <Copy className="w-3.5 h-3.5" />
+              {reviewing ? (
+                <Loader2 className="w-3 h-3 animate-spin" />
+              ) : (
+                <Files className="w-3 h-3" />
+              )}
+              Review changes
             </button>
           </div>
-        </div>
-      ))}
+        )}
+      </div>
+      <div className="border border-border rounded-md overflow-hidden divide-y divide-border">
+        {commits.map((commit, index) => (
+          <div
+            key={commit.sha}
+            className={cn(
+              "flex items-center gap-3 p-3 hover:bg-card/30",
+              range &&
+                index >= range[0] &&
+                index <= range[1] &&
+                "bg-blue-500/10 hover:bg-blue-500/15"
+            )}
+          >
+            <Checkbox
+              checked={!!range && index >= range[0] && index <= range[1]}
+              onClick={(e) => {
+                e.preventDefault();
+                toggleCommit(index, e.shiftKey);
+              }}
+              aria-label={`Select commit ${commit.sha.slice(0, 7)}`}
+            />
+            <img
+              src={commit.author?.avatar_url || commit.committer?.avatar_url}
+              alt={commit.commit.author?.name}
+              className="w-6 h-6 rounded-full"
+            />
+            <div className="flex-1 min-w-0">
+              <a
+                href={`${webUrl}/${owner}/${repo}/commit/${commit.sha}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-sm font-medium truncate block hover:text-blue-400"
+              >
+                {commit.commit.message.split("\n")[0]}
+              </a>
+              <p className="text-xs text-muted-foreground">
+                {commit.commit.author?.name} committed{" "}
+                {commit.commit.author?.date &&
+                  getTimeAgo(new Date(commit.commit.author.date))}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Check className="w-4 h-4 text-green-500" />
+              <a
+                href={`${webUrl}/${owner}/${repo}/commit/${commit.sha}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-xs font-mono text-muted-foreground hover:text-blue-400"
+              >
+                {commit.sha.slice(0, 7)}
+              </a>
+              <button
+                onClick={() => navigator.clipboard.writeText(commit.sha)}
+                className="p-1 text-muted-foreground hover:text-foreground rounded hover:bg-muted"
+                title="Copy commit SHA"
+              >
+                <Copy className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
     </div>
   );
 }
@@ -3922,7 +4093,12 @@ function EmojiReactions({
   const groupedReactions = useMemo(() => {
     const groups: Record<
       string,
-      { count: number; users: string[]; userReactionId?: number }
+      {
+        count: number;
+        users: string[];
+        userReactionId?: number;
+        queued?: boolean;
+      }
     > = {};
 
     for (const reaction of reactions) {
@@ -3931,6 +4107,9 @@ function EmojiReactions({
         groups[content] = { count: 0, users: [] };
       }
       groups[content].count++;
+      if (getQueuedReactionEntryId(reaction)) {
+        groups[content].queued = true;
+      }
       if (reaction.user?.login) {
         groups[content].users.push(reaction.user.login);
         if (reaction.user.login === currentUser) {
@@ -4054,7 +4233,8 @@ function EmojiReactions({
                     "inline-flex items-center gap-1.5 px-2.5 py-1 text-xs rounded-full border transition-colors",
                     isUserReaction
                       ? "bg-blue-500/20 border-blue-500/50 text-blue-400"
-                      : "bg-muted/50 border-border hover:border-blue-500/50"
+                      : "bg-muted/50 border-border hover:border-blue-500/50",
+                    group.queued && "opacity-60"
                   )}
                 >
                   <span>{REACTION_EMOJIS[content]}</span>
@@ -4063,6 +4243,7 @@ function EmojiReactions({
               </TooltipTrigger>
               <TooltipContent>
                 {formatUsersTooltip(group.users, REACTION_EMOJIS[content])}
+                {group.queued && " (queued until you're back online)"}
               </TooltipContent>
             </Tooltip>
           );
@@ -4303,9 +4484,13 @@ function CommitGroup({ commits, prCommits, owner, repo }: CommitGroupProps) {
 interface TimelineItemProps {
   event: TimelineEvent;
   pr?: PullRequest;
+  // Show the diff a force push made to the head branch
+  onCompareForcePush?: (head: string) => void;
 }
 
-function TimelineItem({ event, pr }: TimelineItemProps) {
+function TimelineItem({ event, pr, onCompareForcePush }: TimelineItemProps) {
+  const webUrl = useGitHubWebUrl();
+
   // Commits are handled by CommitGroup
   if ("sha" in event && "author" in event) return null;
 
@@ -4664,7 +4849,7 @@ function TimelineItem({ event, pr }: TimelineItemProps) {
         const forcePush = event as { commit_id?: string };
         const commitUrl =
           forcePush.commit_id && pr
-            ? `https://github.com/${pr.base?.repo?.owner?.login || pr.user?.login}/${pr.base?.repo?.name || pr.head?.repo?.name}/commit/${forcePush.commit_id}`
+            ? `${webUrl}/${pr.base?.repo?.owner?.login || pr.user?.login}/${pr.base?.repo?.name || pr.head?.repo?.name}/commit/${forcePush.commit_id}`
             : undefined;
         return {
           icon: <GitBranch className="w-4 h-4" />,
@@ -4702,6 +4887,14 @@ function TimelineItem({ event, pr }: TimelineItemProps) {
                   )}
                 </>
               )}
+              {forcePush.commit_id && onCompareForcePush && (
+                <button
+                  onClick={() => onCompareForcePush(forcePush.commit_id!)}
+                  className="ml-2 text-xs text-blue-400 hover:underline"
+                >
+                  Compare changes
+                </button>
+              )}
             </span>
           ),
           color: "text-amber-400",
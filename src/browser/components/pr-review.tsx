@@ -33,6 +33,14 @@ import {
   ExternalLink,
   BookOpen,
   Smile,
+  GitCommit,
+  RefreshCw,
+  AlertTriangle,
+  History,
+  GitCompare,
+  FileDiff,
+  Download,
+  Upload,
 } from "lucide-react";
 import type { Reaction, ReactionContent } from "../contexts/github";
 import { Skeleton } from "../ui/skeleton";
@@ -46,6 +54,7 @@ import {
 import { cn } from "../cn";
 import { PRHeader } from "./pr-header";
 import { FileTree } from "./file-tree";
+import { ConversationsPanel } from "./conversations-panel";
 import { FileHeader } from "./file-header";
 import type { PullRequest, PullRequestFile, ReviewComment } from "@/api/types";
 import {
@@ -55,6 +64,9 @@ import {
   useGitHubSelector,
   usePRChecks,
   useCurrentUser,
+  useGitHubWebUrl,
+  createQueuedReaction,
+  getQueuedReactionEntryId,
 } from "../contexts/github";
 import { useCanWrite, useAuth } from "../contexts/auth";
 import { useTelemetry } from "../contexts/telemetry";
@@ -66,6 +78,8 @@ import {
   useHashNavigation,
   useDiffLoader,
   usePendingReviewLoader,
+  useLiveUpdates,
+  useNewChangesDetection,
   useCurrentUserLoader,
   useCommentActions,
   useReviewActions,
@@ -77,11 +91,21 @@ import {
   useIsCurrentFileLoading,
   useCurrentFileComments,
   useCurrentFilePendingComments,
+  useCurrentFileLevelComments,
+  useCurrentFileOutdatedThreads,
   useCommentCountsByFile,
   usePendingCommentCountsByFile,
   useCommentingRange,
   useCommentRangeLookup,
+  useCanApplySuggestions,
+  useUnresolvedThreads,
   getTimeAgo,
+  getCommentSuggestion,
+  isPatchOmitted,
+  LARGE_DIFF_CHANGES,
+  getLastReviewedCommit,
+  isRevisionDiffScope,
+  isUnknownRename,
   type LocalPendingComment,
   type ParsedDiff,
   type DiffLine,
@@ -98,9 +122,18 @@ import {
   DropdownMenuTrigger,
 } from "../ui/dropdown-menu";
 import { RadioGroup, RadioGroupItem } from "../ui/radio-group";
+import { Popover, PopoverTrigger, PopoverContent } from "../ui/popover";
 import { Keycap, KeycapGroup } from "../ui/keycap";
-import { Markdown, MarkdownEditor } from "../ui/markdown";
+import { Markdown, MarkdownEditor, SuggestionPreview } from "../ui/markdown";
 import { CommandPalette, useCommandPalette } from "./command-palette";
+import {
+  formatReviewJSON,
+  formatReviewMarkdown,
+  getPatchLines,
+  parseReviewExport,
+} from "../lib/review-export";
+import { parseDiffCached } from "../lib/diff";
+import { isQueuedWrite } from "../lib/outbox";
 import { useTabContext, type TabStatus } from "../contexts/tabs";
 
 // ============================================================================
@@ -324,6 +357,8 @@ function PRReviewLayout() {
   useHashNavigation();
   useDiffLoader();
   usePendingReviewLoader();
+  useLiveUpdates();
+  useNewChangesDetection();
   useCurrentUserLoader();
 
   // Listen for delete comment events from keyboard navigation
@@ -359,6 +394,31 @@ function PRReviewLayout() {
       );
   }, [removePendingComment]);
 
+  // Listen for resolve/unresolve thread events from keyboard navigation
+  const canWrite = useCanWrite();
+  const { resolveThread, unresolveThread } = useThreadActions();
+  useEffect(() => {
+    const handler = (
+      e: CustomEvent<{ threadId: string; resolve: boolean }>
+    ) => {
+      if (!canWrite) return;
+      if (e.detail.resolve) {
+        resolveThread(e.detail.threadId);
+      } else {
+        unresolveThread(e.detail.threadId);
+      }
+    };
+    window.addEventListener(
+      "pr-review:toggle-thread-resolved",
+      handler as EventListener
+    );
+    return () =>
+      window.removeEventListener(
+        "pr-review:toggle-thread-resolved",
+        handler as EventListener
+      );
+  }, [canWrite, resolveThread, unresolveThread]);
+
   // Clear comment/line focus when clicking outside
   useEffect(() => {
     const handleClickOutside = (e: MouseEvent) => {
@@ -411,8 +471,6 @@ function PRReviewLayout() {
     }
   }, [selectedFile, pr.number, owner, repo, track]);
 
-  const canWrite = useCanWrite();
-
   return (
     <div className="flex flex-col h-full">
       <PRHeader
@@ -468,10 +526,26 @@ const FilePanel = memo(function FilePanel({
   const store = usePRReviewStore();
   const files = usePRReviewSelector((s) => s.files);
   const selectedFile = usePRReviewSelector((s) => s.selectedFile);
+  const isRevisionDiff = usePRReviewSelector((s) =>
+    isRevisionDiffScope(s.diffScope)
+  );
   const selectedFiles = usePRReviewSelector((s) => s.selectedFiles);
   const viewedFiles = usePRReviewSelector((s) => s.viewedFiles);
+  const changedSinceViewed = usePRReviewSelector((s) => s.changedSinceViewed);
   const hideViewed = usePRReviewSelector((s) => s.hideViewed);
   const showOverview = usePRReviewSelector((s) => s.showOverview);
+  const changedFiles = usePRReviewSelector((s) => s.pr.changed_files);
+  const unknownRenames = usePRReviewSelector(
+    (s) => s.files.filter(isUnknownRename).length
+  );
+  const prUrl = usePRReviewSelector((s) => s.pr.html_url);
+  const diffScope = usePRReviewSelector((s) => s.diffScope);
+  const unresolvedThreadCount = usePRReviewSelector(
+    (s) => s.reviewThreads.filter((t) => !t.isResolved).length
+  );
+  const [sidebarView, setSidebarView] = useState<"files" | "conversations">(
+    "files"
+  );
 
   const commentCounts = useCommentCountsByFile();
   const pendingCommentCounts = usePendingCommentCountsByFile();
@@ -528,62 +602,336 @@ const FilePanel = memo(function FilePanel({
         </kbd>
       </button>
 
-      {/* Search button with hide-viewed toggle */}
-      <div className="mx-2 my-2 flex items-center gap-1.5">
+      {/* Files / Conversations toggle */}
+      <div className="mx-2 mt-2 flex items-center p-0.5 rounded-md bg-muted/50 border border-border text-xs">
+        {(["files", "conversations"] as const).map((view) => (
+          <button
+            key={view}
+            onClick={() => setSidebarView(view)}
+            className={cn(
+              "flex-1 flex items-center justify-center gap-1.5 px-2 py-1 rounded transition-colors",
+              sidebarView === view
+                ? "bg-background text-foreground shadow-sm"
+                : "text-muted-foreground hover:text-foreground"
+            )}
+          >
+            {view === "files" ? (
+              <>
+                <FileCode className="w-3.5 h-3.5" />
+                Files
+              </>
+            ) : (
+              <>
+                <MessageSquare className="w-3.5 h-3.5" />
+                Conversations
+                {unresolvedThreadCount > 0 && (
+                  <span className="px-1 rounded bg-muted text-[10px] tabular-nums">
+                    {unresolvedThreadCount}
+                  </span>
+                )}
+              </>
+            )}
+          </button>
+        ))}
+      </div>
+
+      {sidebarView === "conversations" ? (
+        <>
+          <div className="h-2" />
+          <ConversationsPanel onSelect={onFileSelect} />
+        </>
+      ) : (
+        <>
+          {/* Search button with hide-viewed toggle */}
+          <div className="mx-2 my-2 flex items-center gap-1.5">
+            <button
+              onClick={onOpenSearch}
+              className="flex-1 flex items-center gap-1.5 px-2 py-1.5 text-xs text-muted-foreground bg-muted/50 hover:bg-muted rounded-md border border-border transition-colors"
+            >
+              <Search className="w-3.5 h-3.5" />
+              <span className="flex-1 text-left">Search...</span>
+              <KeycapGroup keys={["cmd", "k"]} size="xs" />
+            </button>
+            <TooltipProvider delayDuration={300}>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <button
+                    onClick={store.toggleHideViewed}
+                    className={cn(
+                      "p-1.5 rounded-md border border-border transition-colors",
+                      hideViewed
+                        ? "bg-blue-500/20 text-blue-400 hover:bg-blue-500/30 border-blue-500/30"
+                        : "text-muted-foreground bg-muted/50 hover:bg-muted"
+                    )}
+                  >
+                    {hideViewed ? (
+                      <EyeOff className="w-3.5 h-3.5" />
+                    ) : (
+                      <Eye className="w-3.5 h-3.5" />
+                    )}
+                  </button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  {hideViewed ? "Show viewed files" : "Hide viewed files"}
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+          </div>
+
+          <LastReviewToggle />
+          <RevisionPicker />
+
+          <div className="border-t border-border/50" />
+
+          {/* GitHub couldn't list every file (see PR_FILES_LISTING_LIMIT) */}
+          {!diffScope && files.length < changedFiles && (
+            <div className="mx-2 my-2 flex items-start gap-2 px-2 py-1.5 text-xs rounded-md bg-amber-500/10 border border-amber-500/20">
+              <AlertTriangle className="w-3.5 h-3.5 text-amber-500 shrink-0 mt-0.5" />
+              <span className="text-amber-200">
+                Showing {files.length.toLocaleString()} of{" "}
+                {changedFiles.toLocaleString()} files. GitHub didn't list the
+                rest.{" "}
+                <a
+                  href={`${prUrl}/files`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="underline hover:text-amber-100"
+                >
+                  View on GitHub
+                </a>
+              </span>
+            </div>
+          )}
+          {!diffScope && unknownRenames > 0 && (
+            <div className="mx-2 my-2 flex items-start gap-2 px-2 py-1.5 text-xs rounded-md bg-amber-500/10 border border-amber-500/20">
+              <AlertTriangle className="w-3.5 h-3.5 text-amber-500 shrink-0 mt-0.5" />
+              <span className="text-amber-200">
+                {unknownRenames.toLocaleString()} renamed{" "}
+                {unknownRenames === 1 ? "file is" : "files are"} shown as added.
+                GitHub didn't list where they were moved from.
+              </span>
+            </div>
+          )}
+
+          <FileTree
+            files={files}
+            selectedFile={selectedFile}
+            selectedFiles={selectedFiles}
+            viewedFiles={viewedFiles}
+            changedSinceViewed={changedSinceViewed}
+            hideViewed={hideViewed}
+            commentCounts={commentCounts}
+            pendingCommentCounts={pendingCommentCounts}
+            onSelectFile={handleSelectFile}
+            onToggleFileSelection={store.toggleFileSelection}
+            onToggleViewed={store.toggleViewed}
+            onToggleViewedMultiple={store.toggleViewedMultiple}
+            onMarkFolderViewed={store.markFolderViewed}
+            onCopyDiff={copyDiff}
+            onCopyFile={copyFile}
+            onCopyMainVersion={copyMainVersion}
+            onCommentOnFile={
+              isRevisionDiff ? undefined : store.startFileComment
+            }
+          />
+        </>
+      )}
+    </aside>
+  );
+});
+
+// ============================================================================
+// Last Review Toggle
+// ============================================================================
+
+const LastReviewToggle = memo(function LastReviewToggle() {
+  const store = usePRReviewStore();
+  const active = usePRReviewSelector(
+    (s) => s.diffScope?.kind === "since-last-review"
+  );
+  const loadingDiffScope = usePRReviewSelector((s) => s.loadingDiffScope);
+  const lastReviewedCommit = usePRReviewSelector(getLastReviewedCommit);
+  const headSha = usePRReviewSelector((s) => s.pr.head.sha);
+
+  // Nothing new since the last review
+  if (!active && (!lastReviewedCommit || lastReviewedCommit === headSha)) {
+    return null;
+  }
+
+  return (
+    <button
+      onClick={store.toggleChangesSinceLastReview}
+      disabled={loadingDiffScope}
+      className={cn(
+        "mx-2 mb-2 flex items-center gap-2 px-2 py-1.5 text-xs rounded-md border transition-colors disabled:opacity-50",
+        active
+          ? "bg-blue-500/20 text-blue-400 hover:bg-blue-500/30 border-blue-500/30"
+          : "text-muted-foreground bg-muted/50 hover:bg-muted border-border"
+      )}
+    >
+      {loadingDiffScope ? (
+        <Loader2 className="w-3.5 h-3.5 animate-spin" />
+      ) : (
+        <History className="w-3.5 h-3.5" />
+      )}
+      <span className="flex-1 text-left">
+        {active
+          ? `Since your last review (${lastReviewedCommit?.slice(0, 7)})`
+          : "Changes since your last review"}
+      </span>
+      {active && <X className="w-3.5 h-3.5" />}
+    </button>
+  );
+});
+
+// ============================================================================
+// Revision Picker
+// ============================================================================
+
+const RevisionPicker = memo(function RevisionPicker() {
+  const store = usePRReviewStore();
+  const forcePushed = usePRReviewSelector((s) =>
+    s.timeline.some((e) => "event" in e && e.event === "head_ref_force_pushed")
+  );
+  const diffScope = usePRReviewSelector((s) => s.diffScope);
+  const revisions = usePRReviewSelector((s) => s.revisions);
+  const loadingRevisions = usePRReviewSelector((s) => s.loadingRevisions);
+  const loadingDiffScope = usePRReviewSelector((s) => s.loadingDiffScope);
+  const [open, setOpen] = useState(false);
+  const [base, setBase] = useState<string | null>(null);
+  const [head, setHead] = useState<string | null>(null);
+
+  const active = diffScope?.kind === "revisions";
+  // Only rebased (force-pushed) PRs have revisions worth comparing
+  if (!forcePushed && !active) return null;
+
+  // Default to the latest push
+  const from = base ?? revisions?.[revisions.length - 2]?.sha ?? null;
+  const to = head ?? revisions?.[revisions.length - 1]?.sha ?? null;
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next && !revisions) store.loadRevisions();
+  };
+
+  const handleShow = async () => {
+    if (!from || !to) return;
+    setOpen(false);
+    await store.showRevisions(from, to);
+    const { diffScope, files, selectedFile } = store.getSnapshot();
+    if (diffScope?.kind === "revisions" && !selectedFile && files.length > 0) {
+      store.selectFile(files[0].filename);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
         <button
-          onClick={onOpenSearch}
-          className="flex-1 flex items-center gap-1.5 px-2 py-1.5 text-xs text-muted-foreground bg-muted/50 hover:bg-muted rounded-md border border-border transition-colors"
+          disabled={loadingDiffScope}
+          className={cn(
+            "mx-2 mb-2 flex items-center gap-2 px-2 py-1.5 text-xs rounded-md border transition-colors disabled:opacity-50",
+            active
+              ? "bg-blue-500/20 text-blue-400 hover:bg-blue-500/30 border-blue-500/30"
+              : "text-muted-foreground bg-muted/50 hover:bg-muted border-border"
+          )}
         >
-          <Search className="w-3.5 h-3.5" />
-          <span className="flex-1 text-left">Search...</span>
-          <KeycapGroup keys={["cmd", "k"]} size="xs" />
+          {loadingDiffScope ? (
+            <Loader2 className="w-3.5 h-3.5 animate-spin" />
+          ) : (
+            <GitCompare className="w-3.5 h-3.5" />
+          )}
+          <span className="flex-1 text-left">
+            {active
+              ? `Revisions ${diffScope.base.slice(0, 7)}..${diffScope.head.slice(0, 7)}`
+              : "Compare pushed revisions"}
+          </span>
         </button>
-        <TooltipProvider delayDuration={300}>
-          <Tooltip>
-            <TooltipTrigger asChild>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 p-1">
+        {loadingRevisions || !revisions ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : revisions.length < 2 ? (
+          <div className="px-2 py-3 text-xs text-muted-foreground text-center">
+            Only one revision has been pushed
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center gap-2 px-2 py-1 text-[10px] uppercase tracking-wide text-muted-foreground">
+              <span className="flex-1">Revision</span>
+              <span className="w-8 text-center">From</span>
+              <span className="w-8 text-center">To</span>
+            </div>
+            <div className="max-h-72 overflow-y-auto">
+              {revisions
+                .map((revision, index) => ({ revision, index }))
+                .reverse()
+                .map(({ revision, index }) => (
+                  <div
+                    key={revision.sha}
+                    className="flex items-center gap-2 px-2 py-1.5 rounded-md hover:bg-muted/50"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <div className="text-xs">
+                        <span className="text-muted-foreground">
+                          #{index + 1}
+                        </span>{" "}
+                        <code className="font-mono">
+                          {revision.sha.slice(0, 7)}
+                        </code>
+                        {index === revisions.length - 1 && (
+                          <span className="ml-1.5 text-muted-foreground">
+                            (head)
+                          </span>
+                        )}
+                      </div>
+                      {revision.pushedAt && (
+                        <div className="text-[10px] text-muted-foreground truncate">
+                          Force-pushed
+                          {revision.pushedBy
+                            ? ` by ${revision.pushedBy}`
+                            : ""}{" "}
+                          {getTimeAgo(new Date(revision.pushedAt))}
+                        </div>
+                      )}
+                    </div>
+                    {(
+                      [
+                        [from, setBase],
+                        [to, setHead],
+                      ] as const
+                    ).map(([selected, select], column) => (
+                      <button
+                        key={column}
+                        onClick={() => select(revision.sha)}
+                        className="w-8 flex justify-center"
+                        title={column === 0 ? "Compare from" : "Compare to"}
+                      >
+                        {selected === revision.sha ? (
+                          <CheckCircle2 className="w-3.5 h-3.5 text-blue-400" />
+                        ) : (
+                          <Circle className="w-3.5 h-3.5 text-muted-foreground" />
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                ))}
+            </div>
+            <div className="flex justify-end gap-2 px-2 pt-2 pb-1 border-t border-border/50">
               <button
-                onClick={store.toggleHideViewed}
-                className={cn(
-                  "p-1.5 rounded-md border border-border transition-colors",
-                  hideViewed
-                    ? "bg-blue-500/20 text-blue-400 hover:bg-blue-500/30 border-blue-500/30"
-                    : "text-muted-foreground bg-muted/50 hover:bg-muted"
-                )}
+                onClick={handleShow}
+                disabled={!from || !to || from === to}
+                className="px-3 py-1 text-xs font-medium rounded-md bg-blue-500/20 text-blue-300 hover:bg-blue-500/30 transition-colors disabled:opacity-50"
               >
-                {hideViewed ? (
-                  <EyeOff className="w-3.5 h-3.5" />
-                ) : (
-                  <Eye className="w-3.5 h-3.5" />
-                )}
+                Show diff
               </button>
-            </TooltipTrigger>
-            <TooltipContent>
-              {hideViewed ? "Show viewed files" : "Hide viewed files"}
-            </TooltipContent>
-          </Tooltip>
-        </TooltipProvider>
-      </div>
-
-      <div className="border-t border-border/50" />
-
-      <FileTree
-        files={files}
-        selectedFile={selectedFile}
-        selectedFiles={selectedFiles}
-        viewedFiles={viewedFiles}
-        hideViewed={hideViewed}
-        commentCounts={commentCounts}
-        pendingCommentCounts={pendingCommentCounts}
-        onSelectFile={handleSelectFile}
-        onToggleFileSelection={store.toggleFileSelection}
-        onToggleViewed={store.toggleViewed}
-        onToggleViewedMultiple={store.toggleViewedMultiple}
-        onMarkFolderViewed={store.markFolderViewed}
-        onCopyDiff={copyDiff}
-        onCopyFile={copyFile}
-        onCopyMainVersion={copyMainVersion}
-      />
-    </aside>
+            </div>
+          </>
+        )}
+      </PopoverContent>
+    </Popover>
   );
 });
 
@@ -618,6 +966,168 @@ const ReadOnlyBanner = memo(function ReadOnlyBanner() {
   );
 });
 
+// ============================================================================
+// New Changes Banner
+// ============================================================================
+
+// Changed files listed inline; the rest are in the tooltip
+const MAX_LISTED_CHANGED_FILES = 3;
+
+const NewChangesBanner = memo(function NewChangesBanner() {
+  const store = usePRReviewStore();
+  const newChanges = usePRReviewSelector((s) => s.newChanges);
+  const applying = usePRReviewSelector((s) => s.applyingNewChanges);
+
+  if (!newChanges) return null;
+
+  const { changedFiles } = newChanges;
+  const listed = changedFiles
+    .slice(0, MAX_LISTED_CHANGED_FILES)
+    .map((f) => f.split("/").pop())
+    .join(", ");
+  const more = changedFiles.length - MAX_LISTED_CHANGED_FILES;
+
+  return (
+    <div className="shrink-0 bg-blue-500/10 border-b border-blue-500/20 px-4 py-2 flex items-center justify-between gap-3">
+      <div
+        className="flex items-center gap-2 text-sm min-w-0"
+        title={changedFiles.join("\n")}
+      >
+        <GitCommit className="w-4 h-4 text-blue-400 shrink-0" />
+        <span className="text-blue-200 truncate">
+          <span className="font-medium">
+            New changes pushed ({newChanges.pr.head.sha.slice(0, 7)})
+          </span>
+          <span className="text-blue-200/70 ml-1.5">
+            {changedFiles.length === 0
+              ? "– No file changes"
+              : `– ${listed}${more > 0 ? ` and ${more} more` : ""}`}
+          </span>
+        </span>
+      </div>
+      <button
+        onClick={() => store.applyNewChanges()}
+        disabled={applying}
+        className="flex items-center gap-1.5 px-3 py-1 text-xs font-medium rounded-md bg-blue-500/20 text-blue-200 hover:bg-blue-500/30 transition-colors disabled:opacity-50 shrink-0"
+      >
+        {applying ? (
+          <Loader2 className="w-3 h-3 animate-spin" />
+        ) : (
+          <RefreshCw className="w-3 h-3" />
+        )}
+        Refresh
+      </button>
+    </div>
+  );
+});
+
+// ============================================================================
+// Diff Scope Banner
+// ============================================================================
+
+const DiffScopeBanner = memo(function DiffScopeBanner() {
+  const store = usePRReviewStore();
+  const diffScope = usePRReviewSelector((s) => s.diffScope);
+  const commits = usePRReviewSelector((s) => s.commits);
+
+  if (!diffScope) return null;
+
+  let label: string;
+  let detail: string | null = null;
+  if (diffScope.kind === "since-last-review") {
+    label = "changes since your last review";
+    if (diffScope.rewritten) {
+      detail = "force-pushed since, commenting is unavailable";
+    }
+  } else if (diffScope.kind === "revisions") {
+    label = "changes between revisions";
+    detail = "commenting is unavailable";
+  } else if (diffScope.commits?.length === 1) {
+    const commit = commits.find((c) => c.sha === diffScope.head);
+    label = `commit ${diffScope.head.slice(0, 7)}`;
+    detail = commit?.commit.message.split("\n")[0] ?? null;
+  } else {
+    label = `${diffScope.commits?.length ?? 0} commits`;
+  }
+
+  return (
+    <div className="shrink-0 bg-blue-500/10 border-b border-blue-500/20 px-4 py-2 flex items-center justify-between gap-3">
+      <div className="flex items-center gap-2 text-sm min-w-0">
+        <History className="w-4 h-4 text-blue-400 shrink-0" />
+        <span className="text-blue-200 truncate">
+          <span className="font-medium">Reviewing {label}</span>
+          <span className="text-blue-200/70 ml-1.5">
+            – {detail ? `${detail} ` : ""}
+            <span className="font-mono">
+              ({diffScope.base.slice(0, 7)}..{diffScope.head.slice(0, 7)})
+            </span>
+          </span>
+        </span>
+      </div>
+      <button
+        onClick={store.showFullDiff}
+        className="flex items-center gap-1.5 px-3 py-1 text-xs font-medium rounded-md bg-blue-500/20 text-blue-200 hover:bg-blue-500/30 transition-colors shrink-0"
+      >
+        <X className="w-3 h-3" />
+        Show all changes
+      </button>
+    </div>
+  );
+});
+
+// ============================================================================
+// Suggestion Batch Bar
+// ============================================================================
+
+const SuggestionBatchBar = memo(function SuggestionBatchBar() {
+  const store = usePRReviewStore();
+  const selected = usePRReviewSelector((s) => s.selectedSuggestions);
+  const applying = usePRReviewSelector((s) => s.applyingSuggestions);
+  const error = usePRReviewSelector((s) => s.suggestionError);
+
+  if (selected.size === 0 && !error) return null;
+
+  return (
+    <div className="shrink-0 bg-green-500/10 border-b border-green-500/20 px-4 py-2 flex items-center justify-between gap-3">
+      <div className="flex items-center gap-2 text-sm min-w-0">
+        <FileDiff className="w-4 h-4 text-green-400 shrink-0" />
+        {selected.size > 0 && (
+          <span className="text-green-200 font-medium shrink-0">
+            {selected.size} suggestion{selected.size === 1 ? "" : "s"} selected
+          </span>
+        )}
+        {error && (
+          <span className="text-red-300 truncate">Couldn't apply: {error}</span>
+        )}
+      </div>
+      <div className="flex items-center gap-2 shrink-0">
+        {selected.size > 0 && (
+          <button
+            onClick={() => store.applySuggestions([...selected])}
+            disabled={applying}
+            className="flex items-center gap-1.5 px-3 py-1 text-xs font-medium rounded-md bg-green-600 text-white hover:bg-green-700 transition-colors disabled:opacity-50"
+          >
+            {applying ? (
+              <Loader2 className="w-3 h-3 animate-spin" />
+            ) : (
+              <GitCommit className="w-3 h-3" />
+            )}
+            Commit suggestions
+          </button>
+        )}
+        <button
+          onClick={store.clearSelectedSuggestions}
+          disabled={applying}
+          className="flex items-center gap-1.5 px-3 py-1 text-xs font-medium rounded-md bg-green-500/20 text-green-200 hover:bg-green-500/30 transition-colors disabled:opacity-50"
+        >
+          <X className="w-3 h-3" />
+          {selected.size > 0 ? "Clear" : "Dismiss"}
+        </button>
+      </div>
+    </div>
+  );
+});
+
 // ============================================================================
 // Diff Panel (Main Content)
 // ============================================================================
@@ -629,9 +1139,14 @@ const DiffPanel = memo(function DiffPanel() {
   const files = usePRReviewSelector((s) => s.files);
   const selectedFile = usePRReviewSelector((s) => s.selectedFile);
   const viewedFiles = usePRReviewSelector((s) => s.viewedFiles);
+  const changedSinceViewed = usePRReviewSelector((s) => s.changedSinceViewed);
   const selectedFiles = usePRReviewSelector((s) => s.selectedFiles);
   const showOverview = usePRReviewSelector((s) => s.showOverview);
   const diffViewMode = usePRReviewSelector((s) => s.diffViewMode);
+  const requestedLargeDiffs = usePRReviewSelector((s) => s.requestedLargeDiffs);
+  const isRevisionDiff = usePRReviewSelector((s) =>
+    isRevisionDiffScope(s.diffScope)
+  );
 
   const currentFile = useCurrentFile();
   const parsedDiff = useCurrentDiff();
@@ -641,11 +1156,22 @@ const DiffPanel = memo(function DiffPanel() {
     ? files.findIndex((f) => f.filename === selectedFile)
     : -1;
 
+  const patchOmitted = !!currentFile && isPatchOmitted(currentFile);
+  const hasTextDiff = !!currentFile?.patch || patchOmitted;
+  const isDeferredLargeDiff =
+    patchOmitted &&
+    !parsedDiff &&
+    currentFile.changes > LARGE_DIFF_CHANGES &&
+    !requestedLargeDiffs.has(currentFile.filename);
+
   // Show overview panel
   if (showOverview) {
     return (
       <main className="flex-1 overflow-hidden flex flex-col">
         <ReadOnlyBanner />
+        <NewChangesBanner />
+        <DiffScopeBanner />
+        <SuggestionBatchBar />
         <PROverview />
       </main>
     );
@@ -654,6 +1180,9 @@ const DiffPanel = memo(function DiffPanel() {
   return (
     <main className="flex-1 overflow-hidden flex flex-col">
       <ReadOnlyBanner />
+      <NewChangesBanner />
+      <DiffScopeBanner />
+      <SuggestionBatchBar />
 
       {currentFile ? (
         <div className="flex flex-col flex-1 min-h-0">
@@ -663,6 +1192,9 @@ const DiffPanel = memo(function DiffPanel() {
               <FileHeader
                 file={currentFile}
                 isViewed={viewedFiles.has(currentFile.filename)}
+                changedSinceViewed={changedSinceViewed.has(
+                  currentFile.filename
+                )}
                 onToggleViewed={() => store.toggleViewed(currentFile.filename)}
                 currentIndex={currentIndex}
                 totalFiles={files.length}
@@ -670,22 +1202,45 @@ const DiffPanel = memo(function DiffPanel() {
                 onNextFile={() => store.navigateToNextUnviewedFile()}
                 diffViewMode={diffViewMode}
                 onToggleDiffViewMode={() => store.toggleDiffViewMode()}
+                onCommentOnFile={
+                  isRevisionDiff
+                    ? undefined
+                    : () => store.startFileComment(currentFile.filename)
+                }
               />
             </div>
           </div>
 
+          <FileLevelComments />
+          <OutdatedThreads />
+
           {/* Scrollable diff content - DiffViewer handles its own virtualized scroll */}
           <div className="flex-1 min-h-0 flex flex-col">
             {parsedDiff && parsedDiff.hunks.length > 0 ? (
               <DiffViewer diff={parsedDiff} viewMode={diffViewMode} />
-            ) : isLoading || (currentFile.patch && !parsedDiff) ? (
-              // Show skeleton if loading OR if file has patch but diff isn't ready yet
+            ) : isDeferredLargeDiff ? (
+              <div className="p-4 text-sm text-muted-foreground text-center flex-1 flex flex-col items-center justify-center gap-3">
+                <span>
+                  Large file ({currentFile.changes.toLocaleString()} changed
+                  lines). GitHub didn't include its diff.
+                </span>
+                <button
+                  onClick={() => store.loadLargeDiff(currentFile.filename)}
+                  className="px-3 py-1.5 text-xs font-medium rounded-md bg-muted hover:bg-muted/80 text-foreground transition-colors"
+                >
+                  Load diff
+                </button>
+              </div>
+            ) : isLoading || (hasTextDiff && !parsedDiff) ? (
+              // Show skeleton if loading OR if file has changes but diff isn't ready yet
               <DiffSkeleton />
             ) : (
               <div className="p-4 text-sm text-muted-foreground text-center flex-1 flex items-center justify-center">
-                {!currentFile.patch
-                  ? "Binary file or file too large to display"
-                  : "No changes to display"}
+                {patchOmitted
+                  ? "Binary file or contents unavailable"
+                  : !currentFile.patch
+                    ? "Binary file or file too large to display"
+                    : "No changes to display"}
               </div>
             )}
           </div>
@@ -725,6 +1280,7 @@ const KeybindsBar = memo(function KeybindsBar() {
   const pendingCommentsCount = usePRReviewSelector(
     (s) => s.pendingComments.length
   );
+  const unresolvedThreads = useUnresolvedThreads();
 
   const showEscape =
     gotoLineMode ||
@@ -818,6 +1374,9 @@ const KeybindsBar = memo(function KeybindsBar() {
               <span className="flex items-center gap-1.5 text-muted-foreground">
                 <Keycap keyName="r" size="xs" /> reply
               </span>
+              <span className="flex items-center gap-1.5 text-muted-foreground">
+                <Keycap keyName="x" size="xs" /> resolve
+              </span>
               <span className="flex items-center gap-1.5 text-muted-foreground">
                 <Keycap keyName="e" size="xs" /> edit
               </span>
@@ -879,13 +1438,28 @@ const KeybindsBar = memo(function KeybindsBar() {
                 <Keycap keyName="j" size="xs" />
                 <Keycap keyName="k" size="xs" /> prev/next file
               </span>
+              <span className="flex items-center gap-1.5 text-muted-foreground">
+                <Keycap keyName="n" size="xs" />
+                <Keycap keyName="p" size="xs" /> next/prev thread
+              </span>
               <span className="flex items-center gap-1.5 text-muted-foreground">
                 <Keycap keyName="v" size="xs" /> mark viewed
               </span>
+              <span className="flex items-center gap-1.5 text-muted-foreground">
+                <Keycap keyName="z" size="xs" /> undo
+              </span>
             </>
           )}
         </div>
         <div className="flex items-center gap-3">
+          {unresolvedThreads.total > 0 && (
+            <span className="text-muted-foreground text-xs">
+              {unresolvedThreads.current !== null
+                ? `${unresolvedThreads.current}/${unresolvedThreads.total}`
+                : unresolvedThreads.total}{" "}
+              unresolved
+            </span>
+          )}
           {pendingCommentsCount > 0 && (
             <span className="text-yellow-400 text-xs">
               {pendingCommentsCount} pending comment
@@ -1696,6 +2270,25 @@ const DiffViewer = memo(function DiffViewer({
     virtualizer,
   ]);
 
+  // Scroll to the focused comment's thread, e.g. after jumping to it from
+  // another file. Its row isn't rendered until it's scrolled to.
+  const scrolledToCommentRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (focusedCommentId === null) {
+      scrolledToCommentRef.current = null;
+      return;
+    }
+    if (scrolledToCommentRef.current === focusedCommentId) return;
+    const rowIndex = virtualRows.findIndex(
+      (row) =>
+        row.type === "comment-thread" &&
+        row.comments.some((c) => c.id === focusedCommentId)
+    );
+    if (rowIndex === -1) return;
+    scrolledToCommentRef.current = focusedCommentId;
+    virtualizer.scrollToIndex(rowIndex, { align: "auto" });
+  }, [focusedCommentId, virtualRows, virtualizer]);
+
   return (
     <LineDragContext.Provider value={dragValue}>
       <div ref={parentRef} className="flex-1 overflow-auto themed-scrollbar">
@@ -2327,8 +2920,66 @@ const SkipBlockRow = memo(function SkipBlockRow({
 // Inline Comment Form
 // ============================================================================
 
+/**
+ * New-side text of the commented lines in the current diff, or undefined if
+ * any of them isn't shown (e.g. it's in a collapsed block).
+ */
+function useCommentedLines(
+  line: number | null | undefined,
+  startLine: number | null | undefined
+): string[] | undefined {
+  const diff = useCurrentDiff();
+  const selectedFile = usePRReviewSelector((s) => s.selectedFile);
+  const expandedSkipBlocks = usePRReviewSelector((s) => s.expandedSkipBlocks);
+
+  return useMemo(() => {
+    if (!diff || !line) return undefined;
+    const first = startLine ?? line;
+
+    const diffLines = diff.hunks.flatMap((hunk) =>
+      hunk.type === "hunk" ? hunk.lines : []
+    );
+    for (const [key, lines] of Object.entries(expandedSkipBlocks)) {
+      if (key.startsWith(`${selectedFile}:`)) diffLines.push(...lines);
+    }
+
+    const textByLine = new Map<number, string>();
+    for (const diffLine of diffLines) {
+      const number = diffLine.newLineNumber;
+      if (diffLine.type === "delete" || !number) continue;
+      if (number < first || number > line) continue;
+      textByLine.set(
+        number,
+        diffLine.content
+          .filter((segment) => segment.type !== "delete")
+          .map((segment) => segment.value)
+          .join("")
+      );
+    }
+
+    const lines: string[] = [];
+    for (let number = first; number <= line; number++) {
+      const text = textByLine.get(number);
+      if (text === undefined) return undefined;
+      lines.push(text);
+    }
+    return lines;
+  }, [diff, line, startLine, selectedFile, expandedSkipBlocks]);
+}
+
+// Renders suggestion blocks as a diff against the commented lines
+function useRenderSuggestion(original: string[] | undefined) {
+  return useCallback(
+    (lines: string[]) => (
+      <SuggestionPreview original={original ?? null} suggested={lines} />
+    ),
+    [original]
+  );
+}
+
 interface InlineCommentFormProps {
-  line: number;
+  // Without a line, the comment is on the whole file
+  line?: number;
   startLine?: number;
 }
 
@@ -2341,6 +2992,7 @@ const InlineCommentForm = memo(function InlineCommentForm({
   const currentUser = useCurrentUser();
   const { startDeviceAuth } = useAuth();
   const { addPendingComment } = useCommentActions();
+  const commentedLines = useCommentedLines(line, startLine);
   const [text, setText] = useState("");
   const [submitting, setSubmitting] = useState(false);
 
@@ -2349,7 +3001,7 @@ const InlineCommentForm = memo(function InlineCommentForm({
 
     setSubmitting(true);
     try {
-      await addPendingComment(line, text.trim(), startLine);
+      await addPendingComment(line ?? null, text.trim(), startLine);
       setText("");
     } finally {
       setSubmitting(false);
@@ -2370,7 +3022,12 @@ const InlineCommentForm = memo(function InlineCommentForm({
     [handleSubmit, store]
   );
 
-  const lineLabel = startLine ? `lines ${startLine}-${line}` : `line ${line}`;
+  const lineLabel =
+    line === undefined
+      ? "this file"
+      : startLine
+        ? `lines ${startLine}-${line}`
+        : `line ${line}`;
 
   // Show sign-in prompt for read-only users
   if (!canWrite) {
@@ -2443,6 +3100,7 @@ const InlineCommentForm = memo(function InlineCommentForm({
           placeholder="Leave a comment..."
           minHeight="100px"
           autoFocus
+          suggestionLines={commentedLines}
         />
       </div>
 
@@ -2476,6 +3134,327 @@ const InlineCommentForm = memo(function InlineCommentForm({
   );
 });
 
+// ============================================================================
+// File-Level Comments
+// ============================================================================
+
+const FileLevelComments = memo(function FileLevelComments() {
+  const selectedFile = usePRReviewSelector((s) => s.selectedFile);
+  const commentingOnFile = usePRReviewSelector((s) => s.commentingOnFile);
+  const focusedCommentId = usePRReviewSelector((s) => s.focusedCommentId);
+  const focusedPendingCommentId = usePRReviewSelector(
+    (s) => s.focusedPendingCommentId
+  );
+  const editingCommentId = usePRReviewSelector((s) => s.editingCommentId);
+  const editingPendingCommentId = usePRReviewSelector(
+    (s) => s.editingPendingCommentId
+  );
+  const replyingToCommentId = usePRReviewSelector((s) => s.replyingToCommentId);
+  const { comments, pendingComments } = useCurrentFileLevelComments();
+
+  // Group replies under the comment that started the thread
+  const threads = useMemo(() => {
+    const threadMap = new Map<number, ReviewComment[]>();
+    for (const comment of comments) {
+      if (!comment.in_reply_to_id) threadMap.set(comment.id, [comment]);
+    }
+    for (const comment of comments) {
+      if (comment.in_reply_to_id) {
+        threadMap.get(comment.in_reply_to_id)?.push(comment);
+      }
+    }
+    return [...threadMap.values()];
+  }, [comments]);
+
+  const isCommenting =
+    commentingOnFile !== null && commentingOnFile === selectedFile;
+  if (!isCommenting && threads.length === 0 && pendingComments.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="shrink-0 max-h-[40%] overflow-y-auto border-b border-border">
+      <div className="flex items-center gap-1.5 px-4 pt-2 text-xs text-muted-foreground">
+        <MessageSquare className="w-3.5 h-3.5" />
+        Comments on this file
+      </div>
+      {threads.map((thread) => (
+        <CommentThread
+          key={thread[0].id}
+          comments={thread}
+          focusedCommentId={focusedCommentId}
+          editingCommentId={editingCommentId}
+          replyingToCommentId={replyingToCommentId}
+        />
+      ))}
+      {pendingComments.map((comment) => (
+        <PendingCommentItem
+          key={comment.id}
+          comment={comment}
+          isFocused={focusedPendingCommentId === comment.id}
+          isEditing={editingPendingCommentId === comment.id}
+        />
+      ))}
+      {isCommenting && <InlineCommentForm />}
+    </div>
+  );
+});
+
+// ============================================================================
+// Outdated Threads
+// ============================================================================
+
+const OutdatedThreads = memo(function OutdatedThreads() {
+  const focusedCommentId = usePRReviewSelector((s) => s.focusedCommentId);
+  const editingCommentId = usePRReviewSelector((s) => s.editingCommentId);
+  const replyingToCommentId = usePRReviewSelector((s) => s.replyingToCommentId);
+  const threads = useCurrentFileOutdatedThreads();
+  const [expanded, setExpanded] = useState(false);
+
+  // Open when one of its comments is focused, e.g. from a link
+  const hasFocusedComment = threads.some((thread) =>
+    thread.some((c) => c.id === focusedCommentId)
+  );
+  useEffect(() => {
+    if (hasFocusedComment) setExpanded(true);
+  }, [hasFocusedComment]);
+
+  if (threads.length === 0) return null;
+
+  return (
+    <div className="shrink-0 max-h-[40%] overflow-y-auto border-b border-border">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center gap-1.5 px-4 py-2 text-xs text-muted-foreground hover:text-foreground transition-colors"
+      >
+        {expanded ? (
+          <ChevronDown className="w-3.5 h-3.5" />
+        ) : (
+          <ChevronRight className="w-3.5 h-3.5" />
+        )}
+        <History className="w-3.5 h-3.5" />
+        Outdated ({threads.length})
+        <span className="text-muted-foreground/70">
+          · lines changed since these were commented on
+        </span>
+      </button>
+      {expanded &&
+        threads.map((thread) => (
+          <OutdatedThread
+            key={thread[0].id}
+            comments={thread}
+            focusedCommentId={focusedCommentId}
+            editingCommentId={editingCommentId}
+            replyingToCommentId={replyingToCommentId}
+          />
+        ))}
+    </div>
+  );
+});
+
+const OutdatedThread = memo(function OutdatedThread(props: CommentThreadProps) {
+  const store = usePRReviewStore();
+  const currentFile = useCurrentFile();
+  const root = props.comments[0];
+  const location = usePRReviewSelector(
+    (s) => s.outdatedThreadLocations[root.id]
+  );
+  const [showCurrent, setShowCurrent] = useState(false);
+
+  useEffect(() => {
+    store.locateOutdatedThread(root.id);
+  }, [store, root.id]);
+
+  const side = root.side === "LEFT" ? "LEFT" : "RIGHT";
+  const line = root.original_line ?? null;
+  const startLine = root.original_start_line ?? line;
+  const lineLabel =
+    startLine !== null && startLine !== line
+      ? `lines ${startLine}-${line}`
+      : `line ${line}`;
+
+  // The new lines can only be focused if the diff shows them
+  const inDiff =
+    !!location &&
+    !!currentFile?.patch &&
+    getPatchLines(currentFile.patch, "RIGHT").has(location.line);
+
+  const handleGoToLine = () => {
+    if (!location) return;
+    store.setFocusedLine(location.line, "new");
+    store.setSelectionAnchor(
+      location.startLine !== location.line ? location.startLine : null,
+      "new"
+    );
+  };
+
+  return (
+    <div className="mx-4 my-2 rounded-lg border border-border overflow-hidden">
+      <div className="flex items-center gap-2 px-3 py-1.5 text-xs text-muted-foreground bg-muted/30 border-b border-border">
+        <span>
+          {side === "LEFT" ? "Original " : "Was on "}
+          {line !== null ? lineLabel : "a line"}
+          {root.original_commit_id && (
+            <>
+              {" "}
+              at{" "}
+              <code className="font-mono">
+                {root.original_commit_id.slice(0, 7)}
+              </code>
+            </>
+          )}
+        </span>
+        {location && (
+          <button
+            onClick={() => setShowCurrent(!showCurrent)}
+            className="ml-auto flex items-center gap-1 px-1.5 py-0.5 rounded hover:text-foreground hover:bg-muted transition-colors"
+          >
+            <GitCompare className="w-3 h-3" />
+            {showCurrent ? "Hide current version" : "Show current version"}
+          </button>
+        )}
+      </div>
+
+      {root.diff_hunk && (
+        <DiffHunkSnippet
+          diffHunk={root.diff_hunk}
+          path={root.path}
+          side={side}
+          startLine={startLine}
+          line={line}
+        />
+      )}
+
+      {showCurrent && location && (
+        <div className="border-t border-border">
+          <div className="flex items-center gap-2 px-3 py-1.5 text-xs text-muted-foreground bg-muted/30 border-b border-border">
+            <span>
+              Now on{" "}
+              {location.startLine !== location.line
+                ? `lines ${location.startLine}-${location.line}`
+                : `line ${location.line}`}
+            </span>
+            {inDiff && (
+              <button
+                onClick={handleGoToLine}
+                className="ml-auto px-1.5 py-0.5 rounded hover:text-foreground hover:bg-muted transition-colors"
+              >
+                Go to line
+              </button>
+            )}
+          </div>
+          <DiffHunkSnippet
+            diffHunk={location.diffHunk}
+            path={root.path}
+            side="RIGHT"
+            startLine={location.startLine}
+            line={location.line}
+          />
+        </div>
+      )}
+
+      <CommentThread {...props} />
+    </div>
+  );
+});
+
+interface DiffHunkSnippetProps {
+  diffHunk: string;
+  path: string;
+  side: "LEFT" | "RIGHT";
+  // Commented lines to highlight, on `side`
+  startLine: number | null;
+  line: number | null;
+}
+
+// Lines shown before the commented ones
+const SNIPPET_CONTEXT_LINES = 4;
+
+/**
+ * A diff hunk quoted in a comment, syntax highlighted by the diff worker and
+ * trimmed to the lines before the commented ones.
+ */
+const DiffHunkSnippet = memo(function DiffHunkSnippet({
+  diffHunk,
+  path,
+  side,
+  startLine,
+  line,
+}: DiffHunkSnippetProps) {
+  const [parsedDiff, setParsedDiff] = useState<ParsedDiff | null>(null);
+
+  useEffect(() => {
+    parseDiffCached(diffHunk, path).then(setParsedDiff).catch(console.error);
+  }, [diffHunk, path]);
+
+  const lines = useMemo(() => {
+    const hunk = parsedDiff?.hunks.find((h) => h.type === "hunk");
+    if (!hunk || hunk.type !== "hunk") return [];
+    const lineOn = (l: DiffLine) =>
+      side === "LEFT" ? l.oldLineNumber : l.newLineNumber;
+    const start = hunk.lines.findIndex((l) => lineOn(l) === startLine);
+    return start === -1
+      ? hunk.lines
+      : hunk.lines.slice(Math.max(0, start - SNIPPET_CONTEXT_LINES));
+  }, [parsedDiff, side, startLine]);
+
+  if (lines.length === 0) return null;
+
+  const isCommented = (l: DiffLine) => {
+    const number = side === "LEFT" ? l.oldLineNumber : l.newLineNumber;
+    return (
+      number !== undefined &&
+      startLine !== null &&
+      line !== null &&
+      number >= startLine &&
+      number <= line
+    );
+  };
+
+  return (
+    <div className="bg-[#0d1117] overflow-x-auto">
+      <table className="w-full text-xs font-mono">
+        <tbody>
+          {lines.map((l, i) => (
+            <tr
+              key={i}
+              className={cn(
+                l.type === "insert" && "bg-green-500/15",
+                l.type === "delete" && "bg-red-500/15",
+                isCommented(l) && "shadow-[inset_2px_0_0] shadow-yellow-500"
+              )}
+            >
+              <td className="w-10 text-right px-2 py-0.5 text-muted-foreground select-none border-r border-border/50">
+                {l.type !== "insert" ? l.oldLineNumber : ""}
+              </td>
+              <td className="w-10 text-right px-2 py-0.5 text-muted-foreground select-none border-r border-border/50">
+                {l.type !== "delete" ? l.newLineNumber : ""}
+              </td>
+              <td className="px-2 py-0.5 whitespace-pre">
+                <span
+                  className={cn(
+                    "select-none mr-1",
+                    l.type === "insert" && "text-green-400",
+                    l.type === "delete" && "text-red-400"
+                  )}
+                >
+                  {l.type === "insert" ? "+" : l.type === "delete" ? "-" : " "}
+                </span>
+                {l.content.map((seg, j) => (
+                  <span
+                    key={j}
+                    dangerouslySetInnerHTML={{ __html: seg.html }}
+                  />
+                ))}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+});
+
 // ============================================================================
 // Comment Thread
 // ============================================================================
@@ -2731,6 +3710,7 @@ const CommentItem = memo(function CommentItem({
 }: CommentItemProps) {
   const store = usePRReviewStore();
   const github = useGitHubStore();
+  const webUrl = useGitHubWebUrl();
   const currentUser = usePRReviewSelector((s) => s.currentUser);
   const viewerPermission = usePRReviewSelector((s) => s.viewerPermission);
   const canWrite = useCanWrite();
@@ -2742,6 +3722,22 @@ const CommentItem = memo(function CommentItem({
       viewerPermission === "ADMIN" ||
       viewerPermission === "MAINTAIN");
 
+  // Suggested changes
+  const canApplySuggestions = useCanApplySuggestions();
+  const suggestion = useMemo(() => getCommentSuggestion(comment), [comment]);
+  const suggestionSelected = usePRReviewSelector((s) =>
+    s.selectedSuggestions.has(comment.id)
+  );
+  const suggestionApplied = usePRReviewSelector((s) =>
+    s.appliedSuggestions.has(comment.id)
+  );
+  const applyingSuggestions = usePRReviewSelector((s) => s.applyingSuggestions);
+  const commentedLines = useCommentedLines(
+    suggestion?.endLine,
+    suggestion?.startLine
+  );
+  const renderSuggestion = useRenderSuggestion(commentedLines);
+
   // Reactions state
   const [reactions, setReactions] = useState<Reaction[]>([]);
   const [loadingReactions, setLoadingReactions] = useState(false);
@@ -2766,39 +3762,76 @@ const CommentItem = memo(function CommentItem({
     fetchReactions();
   }, [github, owner, repo, comment.id]);
 
+  // Reactions made offline are queued: added ones are shown as queued until
+  // they're sent, removed ones disappear right away
   const handleAddReaction = useCallback(
     async (content: ReactionContent) => {
+      let reaction: Reaction;
       try {
-        const newReaction = await github.addReviewCommentReaction(
+        reaction = await github.addReviewCommentReaction(
           owner,
           repo,
           comment.id,
           content
         );
-        setReactions((prev) => [...prev, newReaction]);
       } catch (error) {
-        console.error("Failed to add reaction:", error);
+        if (!isQueuedWrite(error)) {
+          console.error("Failed to add reaction:", error);
+          return;
+        }
+        const login = currentUser ?? "";
+        reaction = createQueuedReaction(
+          content,
+          { login, avatar_url: `${webUrl}/${login}.png` },
+          error.entryId
+        );
       }
+      setReactions((prev) => [...prev, reaction]);
     },
-    [github, owner, repo, comment.id]
+    [github, owner, repo, comment.id, currentUser, webUrl]
   );
 
   const handleRemoveReaction = useCallback(
     async (reactionId: number) => {
-      try {
-        await github.deleteReviewCommentReaction(
-          owner,
-          repo,
-          comment.id,
-          reactionId
-        );
-        setReactions((prev) => prev.filter((r) => r.id !== reactionId));
-      } catch (error) {
-        console.error("Failed to remove reaction:", error);
+      const reaction = reactions.find((r) => r.id === reactionId);
+      const queuedEntryId = reaction && getQueuedReactionEntryId(reaction);
+      if (queuedEntryId) {
+        // Never sent, so there's nothing to delete on GitHub
+        github.discardOutboxEntry(queuedEntryId);
+      } else {
+        try {
+          await github.deleteReviewCommentReaction(
+            owner,
+            repo,
+            comment.id,
+            reactionId
+          );
+        } catch (error) {
+          if (!isQueuedWrite(error)) {
+            console.error("Failed to remove reaction:", error);
+            return;
+          }
+        }
       }
+      setReactions((prev) => prev.filter((r) => r.id !== reactionId));
     },
-    [github, owner, repo, comment.id]
+    [github, owner, repo, comment.id, reactions]
   );
+
+  // Swap queued reactions for the real ones once they're sent
+  useEffect(() => {
+    return github.onOutboxReplayed((entry, result) => {
+      setReactions((prev) =>
+        prev.some((r) => getQueuedReactionEntryId(r) === entry.id)
+          ? prev.map((r) =>
+              getQueuedReactionEntryId(r) === entry.id
+                ? (result as Reaction)
+                : r
+            )
+          : prev
+      );
+    });
+  }, [github]);
   const timeAgo = useMemo(
     () => getTimeAgo(new Date(comment.created_at)),
     [comment.created_at]
@@ -2910,7 +3943,12 @@ const CommentItem = memo(function CommentItem({
           ) : (
             <>
               <div className="mt-1 text-sm text-foreground/90">
-                <Markdown html={comment.body_html}>{comment.body}</Markdown>
+                <Markdown
+                  html={comment.body_html}
+                  renderSuggestion={renderSuggestion}
+                >
+                  {comment.body}
+                </Markdown>
               </div>
 
               {/* Reactions */}
@@ -2939,6 +3977,46 @@ const CommentItem = memo(function CommentItem({
                     )}
                   </button>
                 )}
+                {suggestion &&
+                  canApplySuggestions &&
+                  (suggestionApplied ? (
+                    <span className="flex items-center gap-1 text-xs text-green-400">
+                      <Check className="w-3 h-3" />
+                      Suggestion applied
+                    </span>
+                  ) : (
+                    <>
+                      <button
+                        onClick={() => store.applySuggestions([comment.id])}
+                        disabled={applyingSuggestions}
+                        className="flex items-center gap-1 text-xs text-muted-foreground hover:text-green-400 transition-colors disabled:opacity-50"
+                        title="Commit this suggestion to the head branch"
+                      >
+                        <FileDiff className="w-3 h-3" />
+                        Apply suggestion
+                      </button>
+                      <button
+                        onClick={() =>
+                          store.toggleSuggestionSelected(comment.id)
+                        }
+                        disabled={applyingSuggestions}
+                        className={cn(
+                          "flex items-center gap-1 text-xs transition-colors disabled:opacity-50",
+                          suggestionSelected
+                            ? "text-green-400 hover:text-green-300"
+                            : "text-muted-foreground hover:text-foreground"
+                        )}
+                        title="Apply several suggestions as one commit"
+                      >
+                        {suggestionSelected ? (
+                          <CheckCircle2 className="w-3 h-3" />
+                        ) : (
+                          <Circle className="w-3 h-3" />
+                        )}
+                        {suggestionSelected ? "Added to batch" : "Add to batch"}
+                      </button>
+                    </>
+                  ))}
                 {canEditComment && (
                   <>
                     <button
@@ -3023,7 +4101,12 @@ function EmojiReactions({
   const groupedReactions = useMemo(() => {
     const groups: Record<
       string,
-      { count: number; users: string[]; userReactionId?: number }
+      {
+        count: number;
+        users: string[];
+        userReactionId?: number;
+        queued?: boolean;
+      }
     > = {};
 
     for (const reaction of reactions) {
@@ -3032,6 +4115,9 @@ function EmojiReactions({
         groups[content] = { count: 0, users: [] };
       }
       groups[content].count++;
+      if (getQueuedReactionEntryId(reaction)) {
+        groups[content].queued = true;
+      }
       if (reaction.user?.login) {
         groups[content].users.push(reaction.user.login);
         if (reaction.user.login === currentUser) {
@@ -3161,7 +4247,8 @@ function EmojiReactions({
                     "inline-flex items-center gap-1 px-2 py-0.5 text-xs rounded-full border transition-colors",
                     isUserReaction
                       ? "bg-blue-500/20 border-blue-500/50 text-blue-400"
-                      : "bg-muted/50 border-border hover:border-blue-500/50"
+                      : "bg-muted/50 border-border hover:border-blue-500/50",
+                    group.queued && "opacity-60"
                   )}
                 >
                   <span>{REACTION_EMOJIS[content]}</span>
@@ -3170,6 +4257,7 @@ function EmojiReactions({
               </TooltipTrigger>
               <TooltipContent>
                 {formatUsersTooltip(group.users, REACTION_EMOJIS[content])}
+                {group.queued && " (queued until you're back online)"}
               </TooltipContent>
             </Tooltip>
           );
@@ -3197,6 +4285,9 @@ const PendingCommentItem = memo(function PendingCommentItem({
   const store = usePRReviewStore();
   const { removePendingComment, updatePendingComment } = useCommentActions();
   const currentUser = usePRReviewSelector((s) => s.currentUser);
+  const webUrl = useGitHubWebUrl();
+  const commentedLines = useCommentedLines(comment.line, comment.start_line);
+  const renderSuggestion = useRenderSuggestion(commentedLines);
   const [editText, setEditText] = useState(comment.body);
   const [saving, setSaving] = useState(false);
   const commentRef = useRef<HTMLDivElement>(null);
@@ -3268,7 +4359,7 @@ const PendingCommentItem = memo(function PendingCommentItem({
       >
         <div className="flex items-start gap-3">
           <img
-            src={`https://github.com/${currentUser || "ghost"}.png`}
+            src={`${webUrl}/${currentUser || "ghost"}.png`}
             alt={currentUser || "You"}
             className="w-6 h-6 rounded-full shrink-0"
             loading="lazy"
@@ -3281,6 +4372,22 @@ const PendingCommentItem = memo(function PendingCommentItem({
                 <span className="px-1.5 py-0.5 text-[10px] font-medium bg-yellow-500/20 text-yellow-500 rounded">
                   Pending
                 </span>
+                {comment.outboxId && (
+                  <span
+                    className="px-1.5 py-0.5 text-[10px] font-medium bg-muted text-muted-foreground rounded"
+                    title="Will be sent to GitHub when you're back online"
+                  >
+                    Queued
+                  </span>
+                )}
+                {comment.outdated && (
+                  <span
+                    className="px-1.5 py-0.5 text-[10px] font-medium bg-muted text-muted-foreground rounded"
+                    title="The commented lines changed in a newer push"
+                  >
+                    Outdated
+                  </span>
+                )}
               </div>
             </div>
 
@@ -3293,6 +4400,7 @@ const PendingCommentItem = memo(function PendingCommentItem({
                   placeholder="Edit your comment..."
                   minHeight="60px"
                   autoFocus
+                  suggestionLines={commentedLines}
                 />
                 <div className="flex justify-end gap-2 mt-3">
                   <button
@@ -3314,7 +4422,9 @@ const PendingCommentItem = memo(function PendingCommentItem({
             ) : (
               <>
                 <div className="mt-1 text-sm text-foreground/90">
-                  <Markdown>{comment.body}</Markdown>
+                  <Markdown renderSuggestion={renderSuggestion}>
+                    {comment.body}
+                  </Markdown>
                 </div>
                 <div className="flex items-center gap-3 mt-2">
                   <button
@@ -3357,6 +4467,115 @@ const PendingCommentItem = memo(function PendingCommentItem({
 // Submit Review Dropdown (GitHub-style)
 // ============================================================================
 
+// Save the draft review to a file, or load one exported from this PR
+const DraftReviewTransfer = memo(function DraftReviewTransfer() {
+  const store = usePRReviewStore();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const handleExport = useCallback(
+    (format: "md" | "json") => {
+      const review = store.exportDraftReview();
+      const content =
+        format === "md"
+          ? formatReviewMarkdown(review)
+          : formatReviewJSON(review);
+      const blob = new Blob([content], {
+        type: format === "md" ? "text/markdown" : "application/json",
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${review.repo}-${review.number}-review.${format}`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    },
+    [store]
+  );
+
+  const handleImport = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      // Allow importing the same file again
+      e.target.value = "";
+      if (!file) return;
+
+      try {
+        const review = parseReviewExport(await file.text());
+        const { imported, outdated } = await store.importDraftReview(review);
+        setStatus(
+          imported === 0
+            ? "No new comments to import"
+            : `Imported ${imported} comment${imported !== 1 ? "s" : ""}` +
+                (outdated > 0 ? `, ${outdated} outdated` : "")
+        );
+      } catch (error) {
+        console.error("Failed to import review:", error);
+        setStatus(
+          error instanceof Error ? error.message : "Failed to import review"
+        );
+      }
+    },
+    [store]
+  );
+
+  const buttonClass =
+    "flex items-center gap-1 px-1.5 py-1 text-xs text-muted-foreground rounded-md hover:text-foreground hover:bg-muted transition-colors";
+
+  return (
+    <div className="flex items-center gap-0.5 mr-auto min-w-0">
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          handleExport("md");
+        }}
+        className={buttonClass}
+        title="Export the draft review as Markdown"
+      >
+        <Download className="w-3.5 h-3.5" />
+        .md
+      </button>
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          handleExport("json");
+        }}
+        className={buttonClass}
+        title="Export the draft review as JSON, to import it later"
+      >
+        <Download className="w-3.5 h-3.5" />
+        .json
+      </button>
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          inputRef.current?.click();
+        }}
+        className={buttonClass}
+        title="Import a draft review exported as JSON"
+      >
+        <Upload className="w-3.5 h-3.5" />
+        Import
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="application/json,.json"
+        onChange={handleImport}
+        className="hidden"
+      />
+      {status && (
+        <span
+          className="ml-1 text-[10px] text-muted-foreground truncate"
+          title={status}
+        >
+          {status}
+        </span>
+      )}
+    </div>
+  );
+});
+
 const SubmitReviewDropdown = memo(function SubmitReviewDropdown() {
   const store = usePRReviewStore();
   const { submitReview } = useReviewActions();
@@ -3657,7 +4876,8 @@ const SubmitReviewDropdown = memo(function SubmitReviewDropdown() {
         <DropdownMenuSeparator />
 
         {/* Submit buttons */}
-        <div className="p-2 flex justify-end gap-2">
+        <div className="p-2 flex items-center justify-end gap-2">
+          <DraftReviewTransfer />
           <button
             onClick={(e) => {
               e.stopPropagation();
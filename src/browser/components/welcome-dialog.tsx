@@ -15,6 +15,9 @@ import {
   Globe,
   ArrowRight,
   Clock,
+  Server,
+  UserPlus,
+  HardDrive,
 } from "lucide-react";
 import { BookmarkletDialog, useShowBookmarklet } from "./bookmarklet";
 import {
@@ -28,12 +31,24 @@ import {
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "../ui/dropdown-menu";
 import { Button } from "../ui/button";
-import { useAuth } from "../contexts/auth";
+import { useAuth, useGitHubHost } from "../contexts/auth";
+import {
+  DEFAULT_GITHUB_HOST,
+  getWebUrl,
+  isGitHubDotCom,
+  resolveGitHubHost,
+} from "@/api/github-host";
 import { useCurrentUser } from "../contexts/github";
+import { CACHE_BUDGET_OPTIONS, persistentCache } from "../lib/persistent-cache";
 import { useOpenPRReviewTab } from "../contexts/tabs";
 import { cn } from "../cn";
 import { isMac } from "../ui/keycap";
@@ -902,6 +917,8 @@ export function WelcomeDialog() {
     enableAnonymousMode,
     showWelcomeDialog,
     setShowWelcomeDialog,
+    isAddingAccount,
+    cancelAddAccount,
   } = useAuth();
   const openPRReviewTab = useOpenPRReviewTab();
 
@@ -945,14 +962,24 @@ export function WelcomeDialog() {
   // Handle close dialog
   const handleClose = useCallback(() => {
     setShowWelcomeDialog(false);
-    cancelDeviceAuth();
-  }, [setShowWelcomeDialog, cancelDeviceAuth]);
+    if (isAddingAccount) {
+      cancelAddAccount();
+    } else {
+      cancelDeviceAuth();
+    }
+  }, [
+    setShowWelcomeDialog,
+    isAddingAccount,
+    cancelAddAccount,
+    cancelDeviceAuth,
+  ]);
 
-  // Show if: not authenticated and not anonymous, OR explicitly requested via showWelcomeDialog (only when not authenticated), OR rate limited
+  // Show if: not authenticated and not anonymous, OR explicitly requested via showWelcomeDialog (only when not authenticated), OR rate limited, OR adding another account
   const shouldShow =
     (!isAuthenticated && !isAnonymous) ||
     (showWelcomeDialog && !isAuthenticated) ||
-    isRateLimited;
+    isRateLimited ||
+    isAddingAccount;
 
   if (!shouldShow) {
     return null;
@@ -962,8 +989,10 @@ export function WelcomeDialog() {
   const hasCode = !!deviceAuth.userCode;
   const hasError = deviceAuth.status === "error";
 
-  // Show close button when user is anonymous and explicitly opened the dialog (but not if rate limited)
-  const showCloseButton = isAnonymous && showWelcomeDialog && !isRateLimited;
+  // Show close button when user is anonymous and explicitly opened the dialog (but not if rate limited),
+  // or when adding another account
+  const showCloseButton =
+    (isAnonymous && showWelcomeDialog && !isRateLimited) || isAddingAccount;
 
   // Disable sample PRs when rate limited and not authenticated
   const samplePRsDisabled = isRateLimited && !isAuthenticated;
@@ -989,7 +1018,9 @@ export function WelcomeDialog() {
                 <h2 className="text-lg font-semibold text-foreground">
                   Pulldash
                 </h2>
-                <p className="text-sm text-muted-foreground">Fast PR reviews</p>
+                <p className="text-sm text-muted-foreground">
+                  {isAddingAccount ? "Add another account" : "Fast PR reviews"}
+                </p>
               </div>
             </div>
 
@@ -1101,6 +1132,8 @@ export function WelcomeDialog() {
                   )}
                 </Button>
 
+                <EnterpriseHostForm disabled={isPending} />
+
                 <p className="text-xs text-center text-muted-foreground">
                   All GitHub API calls are made directly from your device.
                   Pulldash does not store your GitHub token.
@@ -1126,7 +1159,12 @@ export function WelcomeDialog() {
           </div>
 
           {/* Right Side - Try Without Signing In */}
-          <div className="w-[320px] p-6 bg-card/30">
+          <div
+            className={cn(
+              "w-[320px] p-6 bg-card/30",
+              isAddingAccount && "hidden"
+            )}
+          >
             <div className="mb-4">
               <h3 className="font-semibold text-sm flex items-center gap-2">
                 <Globe className="w-4 h-4 text-muted-foreground" />
@@ -1186,14 +1224,196 @@ export function WelcomeDialog() {
   );
 }
 
+// ============================================================================
+// Enterprise Host Form - Configure a GitHub Enterprise Server host
+// ============================================================================
+
+function EnterpriseHostForm({ disabled }: { disabled: boolean }) {
+  const { signInHost: host, setSignInHost } = useAuth();
+  const isEnterprise = !isGitHubDotCom(host.hostname);
+  const [expanded, setExpanded] = useState(false);
+  const [hostname, setHostname] = useState(isEnterprise ? host.hostname : "");
+  const [clientId, setClientId] = useState(isEnterprise ? host.clientId : "");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = useCallback(
+    (e: React.FormEvent) => {
+      e.preventDefault();
+      const resolved = resolveGitHubHost(hostname, clientId);
+      if (!resolved) {
+        setError("Enter a valid hostname and OAuth App client ID");
+        return;
+      }
+      setError(null);
+      setSignInHost(resolved);
+      setExpanded(false);
+    },
+    [hostname, clientId, setSignInHost]
+  );
+
+  const handleUseGitHubDotCom = useCallback(() => {
+    setSignInHost(DEFAULT_GITHUB_HOST);
+    setHostname("");
+    setClientId("");
+  }, [setSignInHost]);
+
+  if (!expanded) {
+    return (
+      <div className="flex items-center justify-center gap-1.5 text-xs text-muted-foreground">
+        <Server className="w-3 h-3" />
+        {isEnterprise ? (
+          <>
+            <span>
+              Signing in to{" "}
+              <span className="font-mono text-foreground">{host.hostname}</span>
+            </span>
+            <button
+              onClick={() => setExpanded(true)}
+              disabled={disabled}
+              className="hover:text-foreground transition-colors underline-offset-2 hover:underline"
+            >
+              Change
+            </button>
+            <span>·</span>
+            <button
+              onClick={handleUseGitHubDotCom}
+              disabled={disabled}
+              className="hover:text-foreground transition-colors underline-offset-2 hover:underline"
+            >
+              Use github.com
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={() => setExpanded(true)}
+            disabled={disabled}
+            className="hover:text-foreground transition-colors"
+          >
+            Using GitHub Enterprise Server?
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="space-y-2 p-3 rounded-md border border-border bg-card/50"
+    >
+      <label className="block text-xs font-medium text-foreground">
+        Hostname
+        <input
+          type="text"
+          value={hostname}
+          onChange={(e) => setHostname(e.target.value)}
+          placeholder="github.example.com"
+          autoFocus
+          className="mt-1 w-full h-8 px-2 rounded-md border border-border bg-background text-xs font-mono placeholder:text-muted-foreground/50 focus:outline-none focus:ring-1 focus:ring-ring"
+        />
+      </label>
+      <label className="block text-xs font-medium text-foreground">
+        OAuth App client ID
+        <input
+          type="text"
+          value={clientId}
+          onChange={(e) => setClientId(e.target.value)}
+          placeholder="Ov23liAbCdEfGhIjKlMn"
+          className="mt-1 w-full h-8 px-2 rounded-md border border-border bg-background text-xs font-mono placeholder:text-muted-foreground/50 focus:outline-none focus:ring-1 focus:ring-ring"
+        />
+      </label>
+      <p className="text-[11px] text-muted-foreground">
+        Register an OAuth App with device flow enabled on your Enterprise Server
+        instance.
+      </p>
+      {error && <p className="text-[11px] text-destructive">{error}</p>}
+      <div className="flex gap-2">
+        <Button type="submit" size="sm" className="flex-1">
+          Save
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          onClick={() => {
+            setExpanded(false);
+            setError(null);
+          }}
+        >
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+// ============================================================================
+// Cache Budget Menu - How much PR data is kept for offline use
+// ============================================================================
+
+function formatMegabytes(bytes: number): string {
+  const mb = bytes / 1024 / 1024;
+  return `${mb < 10 ? mb.toFixed(1) : Math.round(mb)} MB`;
+}
+
+function CacheBudgetMenu() {
+  const [maxBytes, setMaxBytes] = useState(
+    () => persistentCache.getUsage().maxBytes
+  );
+  const { totalBytes } = persistentCache.getUsage();
+
+  const handleChange = (value: string) => {
+    persistentCache.setMaxBytes(Number(value));
+    setMaxBytes(Number(value));
+  };
+
+  return (
+    <DropdownMenuSub>
+      <DropdownMenuSubTrigger className="cursor-pointer">
+        <HardDrive className="w-4 h-4" />
+        Offline cache
+      </DropdownMenuSubTrigger>
+      <DropdownMenuSubContent>
+        <DropdownMenuLabel className="text-xs text-muted-foreground font-normal">
+          {formatMegabytes(totalBytes)} used
+        </DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={String(maxBytes)}
+          onValueChange={handleChange}
+        >
+          {CACHE_BUDGET_OPTIONS.map((bytes) => (
+            <DropdownMenuRadioItem
+              key={bytes}
+              value={String(bytes)}
+              className="cursor-pointer"
+            >
+              {formatMegabytes(bytes)}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuSubContent>
+    </DropdownMenuSub>
+  );
+}
+
 // ============================================================================
 // User Menu Button - Shows logout option when authenticated, or sign-in for anonymous
 // ============================================================================
 
 export function UserMenuButton({ className }: { className?: string }) {
-  const { isAuthenticated, isAnonymous, logout, setShowWelcomeDialog } =
-    useAuth();
+  const {
+    isAuthenticated,
+    isAnonymous,
+    logout,
+    setShowWelcomeDialog,
+    accounts,
+    activeAccountId,
+    switchAccount,
+    startAddAccount,
+  } = useAuth();
+  const host = useGitHubHost();
   const currentUser = useCurrentUser()?.login ?? null;
+  const otherAccounts = accounts.filter((a) => a.id !== activeAccountId);
   const showBookmarklet = useShowBookmarklet();
   const [bookmarkletOpen, setBookmarkletOpen] = useState(false);
 
@@ -1238,7 +1458,7 @@ export function UserMenuButton({ className }: { className?: string }) {
           >
             {currentUser ? (
               <img
-                src={`https://github.com/${currentUser}.png`}
+                src={`${getWebUrl(host)}/${currentUser}.png`}
                 alt={currentUser}
                 className="w-5 h-5 rounded-full ring-1 ring-border"
               />
@@ -1247,20 +1467,22 @@ export function UserMenuButton({ className }: { className?: string }) {
             )}
           </button>
         </DropdownMenuTrigger>
-        <DropdownMenuContent align="end" className="w-48">
+        <DropdownMenuContent align="end" className="w-56">
           {currentUser && (
             <>
               <DropdownMenuLabel className="font-normal">
                 <div className="flex items-center gap-2">
                   <img
-                    src={`https://github.com/${currentUser}.png`}
+                    src={`${getWebUrl(host)}/${currentUser}.png`}
                     alt={currentUser}
                     className="w-8 h-8 rounded-full"
                   />
                   <div className="flex flex-col">
                     <span className="text-sm font-medium">{currentUser}</span>
                     <span className="text-xs text-muted-foreground">
-                      Signed in with GitHub
+                      {isGitHubDotCom(host.hostname)
+                        ? "Signed in with GitHub"
+                        : host.hostname}
                     </span>
                   </div>
                 </div>
@@ -1268,6 +1490,48 @@ export function UserMenuButton({ className }: { className?: string }) {
               <DropdownMenuSeparator />
             </>
           )}
+          {otherAccounts.length > 0 && (
+            <>
+              <DropdownMenuLabel className="text-xs text-muted-foreground">
+                Switch account
+              </DropdownMenuLabel>
+              {otherAccounts.map((account) => (
+                <DropdownMenuItem
+                  key={account.id}
+                  onClick={() => switchAccount(account.id)}
+                  className="cursor-pointer"
+                >
+                  {account.login ? (
+                    <img
+                      src={`${getWebUrl(account.host)}/${account.login}.png`}
+                      alt={account.login}
+                      className="w-4 h-4 rounded-full"
+                    />
+                  ) : (
+                    <Github className="w-4 h-4" />
+                  )}
+                  <div className="flex flex-col min-w-0">
+                    <span className="text-sm truncate">
+                      {account.login ?? "Unknown account"}
+                    </span>
+                    <span className="text-[11px] text-muted-foreground truncate">
+                      {account.host.hostname}
+                    </span>
+                  </div>
+                </DropdownMenuItem>
+              ))}
+            </>
+          )}
+          <DropdownMenuItem
+            onClick={startAddAccount}
+            className="cursor-pointer"
+          >
+            <UserPlus className="w-4 h-4" />
+            Add account
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <CacheBudgetMenu />
+          <DropdownMenuSeparator />
           {showBookmarklet && (
             <>
               <DropdownMenuItem
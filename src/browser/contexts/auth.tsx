@@ -6,17 +6,24 @@ import {
   useCallback,
   type ReactNode,
 } from "react";
+import {
+  DEFAULT_GITHUB_HOST,
+  resolveGitHubHost,
+  type GitHubHost,
+} from "@/api/github-host";
 
 // ============================================================================
 // GitHub OAuth App Configuration
 // ============================================================================
 
-// OAuth App Client ID - enables simple user authentication like GitHub CLI.
-// Users just authorize and get access to their repos based on scopes.
-// No app installation required on repos/orgs.
-export const GITHUB_CLIENT_ID = "Ov23ct2e5eDCkITh5xlh";
+// The OAuth App client ID and endpoints for github.com and GitHub Enterprise
+// Server hosts are defined in @/api/github-host.
 
 // Storage keys
+const ACCOUNTS_STORAGE_KEY = "pulldash_github_accounts";
+const ACTIVE_ACCOUNT_KEY = "pulldash_github_active_account";
+const HOST_STORAGE_KEY = "pulldash_github_host";
+// Legacy single-account keys, migrated into ACCOUNTS_STORAGE_KEY
 const TOKEN_STORAGE_KEY = "pulldash_github_token";
 const TOKEN_EXPIRY_KEY = "pulldash_github_token_expiry";
 
@@ -47,20 +54,39 @@ interface DeviceAuthState {
   error: string | null;
 }
 
+// A signed-in account. Each account is tied to the host that issued its token.
+export interface GitHubAccount {
+  id: string;
+  host: GitHubHost;
+  token: string;
+  // Filled in once the current user has been fetched
+  login: string | null;
+}
+
 interface AuthState {
-  isAuthenticated: boolean;
+  accounts: GitHubAccount[];
+  activeAccountId: string | null;
   isLoading: boolean;
-  token: string | null;
   deviceAuth: DeviceAuthState;
   // Anonymous mode - user can browse public repos without auth
   isAnonymous: boolean;
   // Rate limit state
   isRateLimited: boolean;
+  // Host used for the next sign-in (github.com or Enterprise Server)
+  signInHost: GitHubHost;
+  // Signing in to an additional account while already authenticated
+  isAddingAccount: boolean;
 }
 
 interface AuthContextValue extends AuthState {
+  isAuthenticated: boolean;
+  token: string | null;
+  activeAccount: GitHubAccount | null;
+  // Host of the active account, or the sign-in host when signed out
+  host: GitHubHost;
   startDeviceAuth: () => Promise<void>;
   cancelDeviceAuth: () => void;
+  // Sign out of the active account
   logout: () => void;
   // Enable anonymous browsing mode
   enableAnonymousMode: () => void;
@@ -71,6 +97,15 @@ interface AuthContextValue extends AuthState {
   setShowWelcomeDialog: (show: boolean) => void;
   // Set rate limit state (called by GitHub context when rate limited)
   setRateLimited: (limited: boolean) => void;
+  // Choose the host used for the next sign-in
+  setSignInHost: (host: GitHubHost) => void;
+  // Multiple accounts
+  switchAccount: (accountId: string) => void;
+  removeAccount: (accountId: string) => void;
+  startAddAccount: () => void;
+  cancelAddAccount: () => void;
+  // Record the login for an account (called by GitHub context once fetched)
+  setAccountLogin: (accountId: string, login: string) => void;
 }
 
 // ============================================================================
@@ -83,52 +118,155 @@ const AuthContext = createContext<AuthContextValue | null>(null);
 // Helper Functions
 // ============================================================================
 
-function getStoredToken(): string | null {
+const IDLE_DEVICE_AUTH: DeviceAuthState = {
+  status: "idle",
+  userCode: null,
+  verificationUri: null,
+  error: null,
+};
+
+interface StoredAccount {
+  id: string;
+  hostname: string;
+  clientId: string;
+  token: string;
+  login: string | null;
+}
+
+function createAccountId(): string {
+  return `account-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function getLegacyToken(): string | null {
   try {
     const token = localStorage.getItem(TOKEN_STORAGE_KEY);
     const expiry = localStorage.getItem(TOKEN_EXPIRY_KEY);
+    if (!token) return null;
+    if (expiry && new Date(expiry) <= new Date()) return null;
+    return token;
+  } catch {
+    return null;
+  }
+}
 
-    // Check if token exists and hasn't expired
-    if (token) {
-      if (expiry) {
-        const expiryDate = new Date(expiry);
-        if (expiryDate > new Date()) {
-          return token;
+function clearLegacyToken(): void {
+  try {
+    localStorage.removeItem(TOKEN_STORAGE_KEY);
+    localStorage.removeItem(TOKEN_EXPIRY_KEY);
+  } catch {
+    // Ignore
+  }
+}
+
+function getStoredAccounts(): {
+  accounts: GitHubAccount[];
+  activeAccountId: string | null;
+} {
+  try {
+    const stored = localStorage.getItem(ACCOUNTS_STORAGE_KEY);
+    if (stored) {
+      const accounts: GitHubAccount[] = [];
+      for (const account of JSON.parse(stored) as StoredAccount[]) {
+        const host = resolveGitHubHost(account.hostname, account.clientId);
+        if (host && account.token) {
+          accounts.push({
+            id: account.id,
+            host,
+            token: account.token,
+            login: account.login ?? null,
+          });
         }
-        // Token expired, clear it
-        clearStoredToken();
-        return null;
       }
-      // No expiry set, token is valid (GitHub tokens don't expire unless revoked)
-      return token;
+      const activeId = localStorage.getItem(ACTIVE_ACCOUNT_KEY);
+      const active = accounts.find((a) => a.id === activeId) ?? accounts[0];
+      return { accounts, activeAccountId: active?.id ?? null };
+    }
+
+    // Migration: convert the single stored token into an account
+    const legacyToken = getLegacyToken();
+    if (legacyToken) {
+      const account: GitHubAccount = {
+        id: createAccountId(),
+        host: getStoredHost(),
+        token: legacyToken,
+        login: null,
+      };
+      storeAccounts([account], account.id);
+      clearLegacyToken();
+      return { accounts: [account], activeAccountId: account.id };
     }
-    return null;
   } catch {
-    return null;
+    // Ignore
   }
+  return { accounts: [], activeAccountId: null };
 }
 
-function storeToken(token: string, expiresIn?: number): void {
+function storeAccounts(
+  accounts: GitHubAccount[],
+  activeAccountId: string | null
+): void {
   try {
-    localStorage.setItem(TOKEN_STORAGE_KEY, token);
-    if (expiresIn) {
-      const expiryDate = new Date(Date.now() + expiresIn * 1000);
-      localStorage.setItem(TOKEN_EXPIRY_KEY, expiryDate.toISOString());
+    const stored: StoredAccount[] = accounts.map((account) => ({
+      id: account.id,
+      hostname: account.host.hostname,
+      clientId: account.host.clientId,
+      token: account.token,
+      login: account.login,
+    }));
+    localStorage.setItem(ACCOUNTS_STORAGE_KEY, JSON.stringify(stored));
+    if (activeAccountId) {
+      localStorage.setItem(ACTIVE_ACCOUNT_KEY, activeAccountId);
+    } else {
+      localStorage.removeItem(ACTIVE_ACCOUNT_KEY);
     }
   } catch {
-    console.error("Failed to store token in localStorage");
+    console.error("Failed to store accounts in localStorage");
   }
 }
 
-function clearStoredToken(): void {
+function getStoredHost(): GitHubHost {
   try {
-    localStorage.removeItem(TOKEN_STORAGE_KEY);
-    localStorage.removeItem(TOKEN_EXPIRY_KEY);
+    const stored = localStorage.getItem(HOST_STORAGE_KEY);
+    if (stored) {
+      const { hostname, clientId } = JSON.parse(stored);
+      return resolveGitHubHost(hostname, clientId) ?? DEFAULT_GITHUB_HOST;
+    }
+  } catch {
+    // Ignore
+  }
+  return DEFAULT_GITHUB_HOST;
+}
+
+function storeHost(host: GitHubHost): void {
+  try {
+    if (host.hostname === DEFAULT_GITHUB_HOST.hostname) {
+      localStorage.removeItem(HOST_STORAGE_KEY);
+    } else {
+      localStorage.setItem(
+        HOST_STORAGE_KEY,
+        JSON.stringify({ hostname: host.hostname, clientId: host.clientId })
+      );
+    }
   } catch {
     // Ignore
   }
 }
 
+// Remove an account, activating the next one if it was active
+function withoutAccount(state: AuthState, accountId: string): AuthState {
+  const accounts = state.accounts.filter((a) => a.id !== accountId);
+  const activeAccountId =
+    state.activeAccountId === accountId
+      ? (accounts[0]?.id ?? null)
+      : state.activeAccountId;
+  return {
+    ...state,
+    accounts,
+    activeAccountId,
+    isRateLimited: activeAccountId ? state.isRateLimited : false,
+  };
+}
+
 // ============================================================================
 // Provider
 // ============================================================================
@@ -158,23 +296,29 @@ function setStoredAnonymousMode(enabled: boolean): void {
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [state, setState] = useState<AuthState>(() => {
-    const token = getStoredToken();
-    const isAnonymous = !token && getStoredAnonymousMode();
+    const { accounts, activeAccountId } = getStoredAccounts();
+    const isAnonymous = accounts.length === 0 && getStoredAnonymousMode();
     return {
-      isAuthenticated: !!token,
+      accounts,
+      activeAccountId,
       isLoading: false,
-      token,
-      deviceAuth: {
-        status: "idle",
-        userCode: null,
-        verificationUri: null,
-        error: null,
-      },
+      deviceAuth: IDLE_DEVICE_AUTH,
       isAnonymous,
       isRateLimited: false,
+      signInHost: getStoredHost(),
+      isAddingAccount: false,
     };
   });
 
+  const activeAccount =
+    state.accounts.find((a) => a.id === state.activeAccountId) ?? null;
+  const isAuthenticated = !!activeAccount;
+
+  // Persist accounts whenever they change
+  useEffect(() => {
+    storeAccounts(state.accounts, state.activeAccountId);
+  }, [state.accounts, state.activeAccountId]);
+
   // Track polling abort controller
   const [abortController, setAbortController] =
     useState<AbortController | null>(null);
@@ -187,11 +331,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     (limited: boolean) => {
       setState((prev) => ({ ...prev, isRateLimited: limited }));
       // If rate limited and anonymous, force show the welcome dialog
-      if (limited && !state.isAuthenticated) {
+      if (limited && !isAuthenticated) {
         setShowWelcomeDialog(true);
       }
     },
-    [state.isAuthenticated]
+    [isAuthenticated]
   );
 
   // Cleanup on unmount
@@ -218,6 +362,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       },
     }));
 
+    const host = state.signInHost;
+
     try {
       // Step 1: Request device code via our API (GitHub doesn't support CORS)
       const deviceCodeRes = await fetch("/api/auth/device/code", {
@@ -226,6 +372,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           Accept: "application/json",
           "Content-Type": "application/json",
         },
+        body: JSON.stringify({
+          hostname: host.hostname,
+          client_id: host.clientId,
+        }),
         signal: newController.signal,
       });
 
@@ -275,6 +425,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
             },
             body: JSON.stringify({
               device_code: deviceCode.device_code,
+              hostname: host.hostname,
+              client_id: host.clientId,
             }),
             signal: newController.signal,
           });
@@ -299,22 +451,24 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           }
 
           if (tokenData.access_token) {
-            // Success! Store the token and disable anonymous mode
-            storeToken(tokenData.access_token);
+            // Success! Add the account, make it active and disable anonymous mode
+            const account: GitHubAccount = {
+              id: createAccountId(),
+              host,
+              token: tokenData.access_token,
+              login: null,
+            };
             setStoredAnonymousMode(false);
-            setState({
-              isAuthenticated: true,
+            setState((prev) => ({
+              ...prev,
+              accounts: [...prev.accounts, account],
+              activeAccountId: account.id,
               isLoading: false,
-              token: tokenData.access_token,
-              deviceAuth: {
-                status: "success",
-                userCode: null,
-                verificationUri: null,
-                error: null,
-              },
+              deviceAuth: { ...IDLE_DEVICE_AUTH, status: "success" },
               isAnonymous: false,
               isRateLimited: false,
-            });
+              isAddingAccount: false,
+            }));
             return;
           }
         } catch (err) {
@@ -332,12 +486,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         setState((prev) => ({
           ...prev,
           isLoading: false,
-          deviceAuth: {
-            status: "idle",
-            userCode: null,
-            verificationUri: null,
-            error: null,
-          },
+          deviceAuth: IDLE_DEVICE_AUTH,
         }));
         return;
       }
@@ -353,40 +502,112 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         },
       }));
     }
-  }, [abortController]);
+  }, [abortController, state.signInHost]);
 
   const cancelDeviceAuth = useCallback(() => {
     abortController?.abort();
     setState((prev) => ({
       ...prev,
       isLoading: false,
-      deviceAuth: {
-        status: "idle",
-        userCode: null,
-        verificationUri: null,
-        error: null,
-      },
+      deviceAuth: IDLE_DEVICE_AUTH,
     }));
   }, [abortController]);
 
-  const logout = useCallback(() => {
-    clearStoredToken();
+  const removeAccount = useCallback((accountId: string) => {
     setStoredAnonymousMode(false);
-    setState({
-      isAuthenticated: false,
+    setState((prev) => ({
+      ...withoutAccount(prev, accountId),
       isLoading: false,
-      token: null,
-      deviceAuth: {
-        status: "idle",
-        userCode: null,
-        verificationUri: null,
-        error: null,
-      },
+      deviceAuth: IDLE_DEVICE_AUTH,
       isAnonymous: false,
-      isRateLimited: false,
+    }));
+  }, []);
+
+  const logout = useCallback(() => {
+    if (state.activeAccountId) {
+      removeAccount(state.activeAccountId);
+    }
+  }, [state.activeAccountId, removeAccount]);
+
+  const switchAccount = useCallback((accountId: string) => {
+    setState((prev) =>
+      prev.accounts.some((a) => a.id === accountId)
+        ? { ...prev, activeAccountId: accountId, isRateLimited: false }
+        : prev
+    );
+  }, []);
+
+  const setAccountLogin = useCallback((accountId: string, login: string) => {
+    setState((prev) => {
+      const account = prev.accounts.find((a) => a.id === accountId);
+      if (!account || account.login === login) return prev;
+
+      // Signing in to an account we already have: keep the existing entry
+      // (tabs may refer to its id) and give it the new token
+      const existing = prev.accounts.find(
+        (a) =>
+          a.id !== accountId &&
+          a.login === login &&
+          a.host.hostname === account.host.hostname
+      );
+      if (existing) {
+        return {
+          ...prev,
+          accounts: prev.accounts
+            .filter((a) => a.id !== accountId)
+            .map((a) =>
+              a.id === existing.id ? { ...a, token: account.token } : a
+            ),
+          activeAccountId:
+            prev.activeAccountId === accountId
+              ? existing.id
+              : prev.activeAccountId,
+        };
+      }
+
+      return {
+        ...prev,
+        accounts: prev.accounts.map((a) =>
+          a.id === accountId ? { ...a, login } : a
+        ),
+      };
     });
   }, []);
 
+  const startAddAccount = useCallback(() => {
+    setState((prev) => ({ ...prev, isAddingAccount: true }));
+  }, []);
+
+  const cancelAddAccount = useCallback(() => {
+    abortController?.abort();
+    setState((prev) => ({
+      ...prev,
+      isLoading: false,
+      deviceAuth: IDLE_DEVICE_AUTH,
+      isAddingAccount: false,
+    }));
+  }, [abortController]);
+
+  const setSignInHost = useCallback(
+    (host: GitHubHost) => {
+      if (
+        host.hostname === state.signInHost.hostname &&
+        host.clientId === state.signInHost.clientId
+      ) {
+        return;
+      }
+      abortController?.abort();
+      storeHost(host);
+      setState((prev) => ({
+        ...prev,
+        isLoading: false,
+        deviceAuth: IDLE_DEVICE_AUTH,
+        signInHost: host,
+      }));
+    },
+    [abortController, state.signInHost]
+  );
+
   const enableAnonymousMode = useCallback(() => {
     setStoredAnonymousMode(true);
     setState((prev) => ({
@@ -397,14 +618,24 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const value: AuthContextValue = {
     ...state,
+    isAuthenticated,
+    token: activeAccount?.token ?? null,
+    activeAccount,
+    host: activeAccount?.host ?? state.signInHost,
     startDeviceAuth,
     cancelDeviceAuth,
     logout,
     enableAnonymousMode,
-    canWrite: state.isAuthenticated && !state.isAnonymous,
+    canWrite: isAuthenticated && !state.isAnonymous,
     showWelcomeDialog,
     setShowWelcomeDialog,
     setRateLimited,
+    setSignInHost,
+    switchAccount,
+    removeAccount,
+    startAddAccount,
+    cancelAddAccount,
+    setAccountLogin,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -441,3 +672,8 @@ export function useCanWrite(): boolean {
   const { canWrite } = useAuth();
   return canWrite;
 }
+
+export function useGitHubHost(): GitHubHost {
+  const { host } = useAuth();
+  return host;
+}
@@ -4,11 +4,48 @@ import {
   useEffect,
   useRef,
   useCallback,
+  useMemo,
   useSyncExternalStore,
   type ReactNode,
 } from "react";
 import { Octokit } from "@octokit/core";
 import type { components } from "@octokit/openapi-types";
+import {
+  DEFAULT_GITHUB_HOST,
+  getWebUrl,
+  withFixtureApi,
+  type GitHubHost,
+} from "@/api/github-host";
+import { persistentCache } from "@/browser/lib/persistent-cache";
+import {
+  BatchedGraphQLError,
+  fragmentsCompatible,
+  getErrorOperationIndex,
+  mergeOperations,
+  parseOperation,
+  splitResult,
+  unprefixError,
+  type GraphQLErrorLike,
+  type ParsedOperation,
+} from "@/browser/lib/graphql-batch";
+import {
+  RequestScheduler,
+  getErrorHeaders,
+  getRequestResource,
+  isNetworkError,
+  type RateLimitBudgets,
+  type RequestPriority,
+} from "@/browser/lib/request-scheduler";
+import {
+  Outbox,
+  QueuedWriteError,
+  WriteConflictError,
+  type OutboxEntry,
+} from "@/browser/lib/outbox";
+import {
+  subscribeToLiveEvents,
+  type LiveEvent,
+} from "@/browser/lib/live-events";
 import { useAuth } from "./auth";
 
 // Re-export types
@@ -159,6 +196,28 @@ export interface ReviewThread {
   };
 }
 
+export type FileViewedState = "VIEWED" | "UNVIEWED" | "DISMISSED";
+
+// A commit the PR's head branch pointed at
+export interface PRRevision {
+  sha: string;
+  // Force push that made it the head; unknown for plain pushes
+  pushedAt: string | null;
+  pushedBy: string | null;
+}
+
+// How two commits relate, and the files changed from their merge base
+interface Comparison {
+  status: "diverged" | "ahead" | "behind" | "identical";
+  files: PullRequestFile[];
+}
+
+// New content for a file in a commit made from the browser
+export interface FileChange {
+  path: string;
+  content: string;
+}
+
 export interface PendingReview {
   id: string;
   databaseId: number;
@@ -169,19 +228,70 @@ export interface PendingReview {
       databaseId: number;
       body: string;
       path: string;
-      line: number;
+      // Null for comments on the whole file
+      line: number | null;
       startLine: number | null;
+      subjectType: "LINE" | "FILE";
     }>;
   };
 }
 
+// GitHub stops listing a PR's files through REST after this many
+export const PR_FILES_LISTING_LIMIT = 3000;
+
+interface PullRequestChangedFile {
+  path: string;
+  additions: number;
+  deletions: number;
+  changeType:
+    | "ADDED"
+    | "CHANGED"
+    | "COPIED"
+    | "DELETED"
+    | "MODIFIED"
+    | "RENAMED";
+}
+
+const CHANGE_TYPE_STATUS: Record<
+  PullRequestChangedFile["changeType"],
+  PullRequestFile["status"]
+> = {
+  ADDED: "added",
+  CHANGED: "changed",
+  COPIED: "copied",
+  DELETED: "removed",
+  MODIFIED: "modified",
+  RENAMED: "renamed",
+};
+
+// Cursors that are an offset (base64 "cursor:1" for the first item) can be
+// moved to start after any item instead of paging there
+function moveCursor(firstCursor: string | null, offset: number): string | null {
+  if (!firstCursor) return null;
+  try {
+    const match = /^(.*\D)?1$/.exec(atob(firstCursor));
+    return match ? btoa(`${match[1] ?? ""}${offset}`) : null;
+  } catch {
+    return null;
+  }
+}
+
 // ============================================================================
 // Persistent Cache with Stale-While-Revalidate
 // ============================================================================
 
+// Validators from a REST response, sent back as If-None-Match /
+// If-Modified-Since when revalidating
+interface CacheValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
 interface CacheEntry<T> {
   data: T;
   timestamp: number;
+  // One set of validators per page for paginated requests
+  validators?: CacheValidators[];
 }
 
 interface PendingRequest<T> {
@@ -192,51 +302,60 @@ interface PendingRequest<T> {
 const DEFAULT_CACHE_TTL = 30_000; // 30 seconds
 const STORAGE_PREFIX = "gh_cache:";
 
+// Persisted entries used to live in localStorage, which ran out of quota
+// quickly. Drop them now that they're kept in IndexedDB.
+function clearLegacyStorage() {
+  try {
+    for (let i = localStorage.length - 1; i >= 0; i--) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(STORAGE_PREFIX)) {
+        localStorage.removeItem(key);
+      }
+    }
+  } catch {
+    // Ignore storage errors
+  }
+}
+
 class RequestCache {
   private cache = new Map<string, CacheEntry<unknown>>();
   private pending = new Map<string, PendingRequest<unknown>>();
   private persistKeys = new Set<string>(); // Keys that should be persisted
-
-  constructor() {
+  private storagePrefix: string;
+  // Resolves once persisted entries have been loaded into memory
+  readonly ready: Promise<void>;
+
+  // Each account gets its own namespace so persisted entries don't leak
+  // between accounts
+  constructor(namespace: string) {
+    this.storagePrefix = `${STORAGE_PREFIX}${namespace}:`;
+    clearLegacyStorage();
     // Load persisted cache on startup
-    this.loadFromStorage();
+    this.ready = this.loadFromStorage();
   }
 
-  private loadFromStorage() {
-    try {
-      for (let i = 0; i < localStorage.length; i++) {
-        const key = localStorage.key(i);
-        if (key?.startsWith(STORAGE_PREFIX)) {
-          const cacheKey = key.slice(STORAGE_PREFIX.length);
-          const stored = localStorage.getItem(key);
-          if (stored) {
-            const entry = JSON.parse(stored) as CacheEntry<unknown>;
-            this.cache.set(cacheKey, entry);
-            this.persistKeys.add(cacheKey);
-          }
-        }
+  private async loadFromStorage() {
+    const entries = await persistentCache.getAllWithPrefix<CacheEntry<unknown>>(
+      this.storagePrefix
+    );
+    for (const { key, value } of entries) {
+      const cacheKey = key.slice(this.storagePrefix.length);
+      // Don't clobber anything fetched while we were loading
+      if (!this.cache.has(cacheKey)) {
+        this.cache.set(cacheKey, value);
       }
-    } catch {
-      // Ignore storage errors
+      this.persistKeys.add(cacheKey);
     }
   }
 
   private saveToStorage(key: string, entry: CacheEntry<unknown>) {
-    try {
-      localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(entry));
-      this.persistKeys.add(key);
-    } catch {
-      // Ignore storage errors (quota exceeded, etc.)
-    }
+    this.persistKeys.add(key);
+    persistentCache.set(this.storagePrefix + key, entry);
   }
 
   private removeFromStorage(key: string) {
-    try {
-      localStorage.removeItem(STORAGE_PREFIX + key);
-      this.persistKeys.delete(key);
-    } catch {
-      // Ignore
-    }
+    if (!this.persistKeys.delete(key)) return;
+    persistentCache.delete(this.storagePrefix + key);
   }
 
   /**
@@ -246,8 +365,11 @@ class RequestCache {
     const entry = this.cache.get(key);
     if (!entry) return null;
     if (Date.now() - entry.timestamp > ttl) {
-      this.cache.delete(key);
-      this.removeFromStorage(key);
+      // Keep entries with validators around for conditional revalidation
+      if (!entry.validators) {
+        this.cache.delete(key);
+        this.removeFromStorage(key);
+      }
       return null;
     }
     return entry.data as T;
@@ -267,14 +389,36 @@ class RequestCache {
     return { data: entry.data as T, isStale };
   }
 
-  set<T>(key: string, data: T, persist = false): void {
-    const entry = { data, timestamp: Date.now() };
+  set<T>(
+    key: string,
+    data: T,
+    persist = false,
+    validators?: CacheValidators[]
+  ): void {
+    const entry = { data, timestamp: Date.now(), validators };
     this.cache.set(key, entry);
-    if (persist || this.persistKeys.has(key)) {
+    // Validated responses are cheap to revalidate and are what we serve
+    // when offline, so they're always persisted
+    if (persist || validators || this.persistKeys.has(key)) {
       this.saveToStorage(key, entry);
     }
   }
 
+  /**
+   * Get cached data and validators regardless of age, for conditional requests.
+   */
+  getRevalidatable<T>(
+    key: string
+  ): { data: T; validators: CacheValidators[]; timestamp: number } | null {
+    const entry = this.cache.get(key);
+    if (!entry?.validators) return null;
+    return {
+      data: entry.data as T,
+      validators: entry.validators,
+      timestamp: entry.timestamp,
+    };
+  }
+
   getPending<T>(key: string): Promise<T> | null {
     const pending = this.pending.get(key);
     if (!pending) return null;
@@ -297,9 +441,8 @@ class RequestCache {
       // Clear all pending requests
       this.pending.clear();
       // Clear persisted cache
-      for (const key of this.persistKeys) {
-        this.removeFromStorage(key);
-      }
+      this.persistKeys.clear();
+      persistentCache.deletePrefix(this.storagePrefix);
       return;
     }
     for (const key of this.cache.keys()) {
@@ -316,6 +459,27 @@ class RequestCache {
     }
   }
 
+  /**
+   * Mark a key and its sub-keys (`${key}:...`) stale without dropping them.
+   * Entries with validators are revalidated with a conditional request, so
+   * an event that didn't change anything costs a 304.
+   */
+  expire(key: string): void {
+    const matches = (k: string) => k === key || k.startsWith(`${key}:`);
+    for (const [k, entry] of this.cache) {
+      if (!matches(k)) continue;
+      if (entry.validators) {
+        this.cache.set(k, { ...entry, timestamp: 0 });
+      } else {
+        this.cache.delete(k);
+        this.removeFromStorage(k);
+      }
+    }
+    for (const k of this.pending.keys()) {
+      if (matches(k)) this.pending.delete(k);
+    }
+  }
+
   /**
    * Check if we have any cached data (fresh or stale) for a key.
    */
@@ -325,12 +489,86 @@ class RequestCache {
 }
 
 // ============================================================================
-// GraphQL Batcher - Combines multiple queries within a time window
+// Queued Reactions - Stand-ins for reactions added while offline
+// ============================================================================
+
+const QUEUED_REACTION_PREFIX = "queued:";
+// Negative so they never collide with GitHub's IDs
+let nextQueuedReactionId = -1;
+
+/**
+ * Reaction shown while adding it is queued in the outbox. Its node_id refers
+ * to the outbox entry, so it can be discarded or swapped for the real
+ * reaction once the write is replayed.
+ */
+export function createQueuedReaction(
+  content: ReactionContent,
+  user: { login: string; avatar_url: string },
+  entryId: string
+): Reaction {
+  return {
+    id: nextQueuedReactionId--,
+    node_id: `${QUEUED_REACTION_PREFIX}${entryId}`,
+    user: user as Reaction["user"],
+    content,
+    created_at: new Date().toISOString(),
+  };
+}
+
+// Outbox entry of a queued reaction, or null for reactions on GitHub
+export function getQueuedReactionEntryId(reaction: Reaction): string | null {
+  return reaction.node_id.startsWith(QUEUED_REACTION_PREFIX)
+    ? reaction.node_id.slice(QUEUED_REACTION_PREFIX.length)
+    : null;
+}
+
+// ============================================================================
+// Cache Keys
+// ============================================================================
+
+/**
+ * Owner/repo part of cache keys. GitHub names are case-insensitive, and URLs
+ * keep whatever casing was typed while webhooks use the canonical one.
+ */
+export function repoCacheKey(owner: string, repo: string): string {
+  return `${owner}/${repo}`.toLowerCase();
+}
+
+// ============================================================================
+// Fixture Mode - Recorded responses served by the Node server
+// ============================================================================
+
+declare global {
+  interface Window {
+    // Injected by src/node/main.ts when PULLDASH_FIXTURES is set
+    __PULLDASH_FIXTURES__?: boolean;
+  }
+}
+
+// Fixtures are recorded per query, so GraphQL queries aren't merged in this
+// mode: which queries share a document depends on timing.
+function isFixtureMode(): boolean {
+  return typeof window !== "undefined" && window.__PULLDASH_FIXTURES__ === true;
+}
+
+// Where API requests for a host go. Links and URL parsing keep using the
+// real host.
+function getApiHost(host: GitHubHost): GitHubHost {
+  return isFixtureMode() ? withFixtureApi(host, window.location.origin) : host;
+}
+
+// ============================================================================
+// GraphQL Batcher - Merges queries within a time window into one request
 // ============================================================================
 
+// GitHub limits the total node count per request, so cap how many queries
+// share a document
+const MAX_QUERIES_PER_BATCH = 10;
+
 interface BatchedQuery {
   query: string;
   variables: Record<string, unknown>;
+  priority: RequestPriority;
   resolve: (data: unknown) => void;
   reject: (error: Error) => void;
 }
@@ -338,26 +576,45 @@ interface BatchedQuery {
 class GraphQLBatcher {
   private queue: BatchedQuery[] = [];
   private timeout: ReturnType<typeof setTimeout> | null = null;
-  private octokit: Octokit;
+  private graphql: Octokit["graphql"];
   private batchWindowMs: number;
+  private mergeQueries: boolean;
 
-  constructor(octokit: Octokit, batchWindowMs = 5) {
-    this.octokit = octokit;
+  constructor(
+    octokit: Octokit,
+    graphqlUrl: string,
+    batchWindowMs = 5,
+    mergeQueries = true
+  ) {
+    this.graphql = GraphQLBatcher.createGraphQL(octokit, graphqlUrl);
     this.batchWindowMs = batchWindowMs; // 5ms batch window for near-instant batching
+    this.mergeQueries = mergeQueries;
+  }
+
+  // Point GraphQL at an explicit endpoint. The base URL is reset to the
+  // endpoint's origin so Octokit doesn't rewrite the URL from a /api/v3
+  // REST base URL.
+  private static createGraphQL(octokit: Octokit, graphqlUrl: string) {
+    return octokit.graphql.defaults({
+      baseUrl: new URL(graphqlUrl).origin,
+      url: graphqlUrl,
+    });
   }
 
-  updateOctokit(octokit: Octokit) {
-    this.octokit = octokit;
+  updateOctokit(octokit: Octokit, graphqlUrl: string) {
+    this.graphql = GraphQLBatcher.createGraphQL(octokit, graphqlUrl);
   }
 
   async query<T>(
     query: string,
-    variables: Record<string, unknown> = {}
+    variables: Record<string, unknown> = {},
+    priority: RequestPriority = "interactive"
   ): Promise<T> {
     return new Promise((resolve, reject) => {
       this.queue.push({
         query,
         variables,
+        priority,
         resolve: resolve as (data: unknown) => void,
         reject,
       });
@@ -375,17 +632,114 @@ class GraphQLBatcher {
     const batch = this.queue.splice(0);
     if (batch.length === 0) return;
 
-    // Execute all queries in parallel (GitHub doesn't support query batching in a single request)
-    await Promise.all(
-      batch.map(async ({ query, variables, resolve, reject }) => {
-        try {
-          const result = await this.octokit.graphql(query, variables);
-          resolve(result);
-        } catch (error) {
-          reject(error instanceof Error ? error : new Error(String(error)));
-        }
-      })
+    // Group queries that can share a document. Mutations and anything the
+    // merger can't rewrite are sent on their own.
+    const groups: Array<Array<{ item: BatchedQuery; op: ParsedOperation }>> =
+      [];
+    const standalone: BatchedQuery[] = [];
+    let group: Array<{ item: BatchedQuery; op: ParsedOperation }> = [];
+    let fragments = new Map<string, string[]>();
+
+    for (const item of batch) {
+      const op = this.mergeQueries ? parseOperation(item.query) : null;
+      if (!op) {
+        standalone.push(item);
+        continue;
+      }
+      if (
+        group.length >= MAX_QUERIES_PER_BATCH ||
+        !fragmentsCompatible(fragments, op)
+      ) {
+        groups.push(group);
+        group = [];
+        fragments = new Map();
+      }
+      group.push({ item, op });
+      for (const [name, tokens] of op.fragments) fragments.set(name, tokens);
+    }
+    groups.push(group);
+
+    for (const g of groups) {
+      // Nothing to gain from rewriting a lone query
+      if (g.length === 1) standalone.push(g[0].item);
+    }
+
+    await Promise.all([
+      ...standalone.map((item) => this.execute(item)),
+      ...groups.filter((g) => g.length > 1).map((g) => this.executeMerged(g)),
+    ]);
+  }
+
+  private async execute({
+    query,
+    variables,
+    priority,
+    resolve,
+    reject,
+  }: BatchedQuery) {
+    try {
+      const result = await this.graphql(query, {
+        ...variables,
+        request: { priority },
+      });
+      resolve(result);
+    } catch (error) {
+      reject(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  private async executeMerged(
+    group: Array<{ item: BatchedQuery; op: ParsedOperation }>
+  ) {
+    const ops = group.map((g) => g.op);
+    const merged = mergeOperations(
+      ops,
+      group.map((g) => g.item.variables)
     );
+    // The merged request is as urgent as its most urgent query
+    const priority = group.some((g) => g.item.priority === "interactive")
+      ? "interactive"
+      : group.some((g) => g.item.priority === "prefetch")
+        ? "prefetch"
+        : "background";
+
+    let data: Record<string, unknown> | undefined;
+    let errors: GraphQLErrorLike[] = [];
+    try {
+      data = await this.graphql<Record<string, unknown>>(merged.query, {
+        ...merged.variables,
+        request: { priority },
+      });
+    } catch (error) {
+      // Partial results: GitHub returns data alongside per-field errors
+      const responseErrors =
+        error && typeof error === "object" && "errors" in error
+          ? (error as { errors?: GraphQLErrorLike[] }).errors
+          : undefined;
+      const unattributed =
+        !responseErrors ||
+        responseErrors.some((e) => getErrorOperationIndex(e) === null);
+      if (unattributed) {
+        const rejection =
+          error instanceof Error ? error : new Error(String(error));
+        for (const { item } of group) item.reject(rejection);
+        return;
+      }
+      data = (error as { data?: Record<string, unknown> }).data;
+      errors = responseErrors;
+    }
+
+    group.forEach(({ item, op }, index) => {
+      const result = splitResult(data, index, op);
+      const own = errors
+        .filter((e) => getErrorOperationIndex(e) === index)
+        .map((e) => unprefixError(e, index));
+      if (own.length > 0) {
+        item.reject(new BatchedGraphQLError(own, result));
+      } else {
+        item.resolve(result);
+      }
+    });
   }
 }
 
@@ -427,6 +781,10 @@ interface GitHubState {
   prListQueries: string[];
   prListPage: number;
   prChecks: Map<string, PRCheckState>;
+  // Set when requests fail to reach GitHub; reads are served from cache
+  offline: boolean;
+  // Age of the oldest cached data served while offline
+  offlineDataAsOf: number | null;
 }
 
 type Listener = () => void;
@@ -435,7 +793,7 @@ type Listener = () => void;
 // GitHub Store - Combines API client + state management
 // ============================================================================
 
-function createGitHubStore() {
+function createGitHubStore(cacheNamespace: string) {
   let state: GitHubState = {
     ready: false,
     error: null,
@@ -450,15 +808,22 @@ function createGitHubStore() {
     prListQueries: [],
     prListPage: 1,
     prChecks: new Map(),
+    offline: false,
+    offlineDataAsOf: null,
   };
 
   const listeners = new Set<Listener>();
-  const cache = new RequestCache();
+  const cache = new RequestCache(cacheNamespace);
+  // Rate limits are per token, so each store schedules its own requests
+  const scheduler = new RequestScheduler();
   let octokit: Octokit | null = null;
   let batcher: GraphQLBatcher | null = null;
+  let host: GitHubHost = DEFAULT_GITHUB_HOST;
+  let currentToken: string | null = null;
   let onUnauthorized: (() => void) | null = null;
   let prListAbortController: AbortController | null = null;
   let onRateLimited: (() => void) | null = null;
+  let stopLiveEvents: (() => void) | null = null;
 
   function setOnUnauthorized(callback: () => void) {
     onUnauthorized = callback;
@@ -468,11 +833,41 @@ function createGitHubStore() {
     onRateLimited = callback;
   }
 
-  // Helper to wrap octokit with error hooks
+  // Helper to wrap octokit with scheduling and error hooks. Requests default
+  // to interactive priority; pass `request: { priority }` to lower it.
   function wrapOctokitWithHooks(octokitInstance: Octokit) {
     octokitInstance.hook.wrap("request", async (request, options) => {
+      const resource = getRequestResource(options.url);
+      const priority: RequestPriority =
+        options.request?.priority ?? "interactive";
+      const idempotent =
+        options.method === "GET" ||
+        options.method === "HEAD" ||
+        (resource === "graphql" &&
+          !/^\s*mutation\b/.test(String(options.query ?? "")));
+
       try {
-        return await request(options);
+        return await scheduler.schedule(
+          { resource, priority, idempotent },
+          async () => {
+            try {
+              const response = await request(options);
+              scheduler.updateBudget(resource, response.headers);
+              if (state.offline) setOffline(false);
+              return response;
+            } catch (error) {
+              const headers = getErrorHeaders(error);
+              if (headers) {
+                scheduler.updateBudget(resource, headers);
+                // Any response (even 304) means we reached GitHub
+                if (state.offline) setOffline(false);
+              } else if (isNetworkError(error)) {
+                setOffline(true);
+              }
+              throw error;
+            }
+          }
+        );
       } catch (error) {
         if (error && typeof error === "object" && "status" in error) {
           if (error.status === 401) {
@@ -520,6 +915,131 @@ function createGitHubStore() {
     return () => listeners.delete(listener);
   }
 
+  // ---------------------------------------------------------------------------
+  // Conditional Requests
+  // ---------------------------------------------------------------------------
+
+  // GitHub answers conditional requests with 304 Not Modified when nothing
+  // changed, and 304 responses don't count against the rate limit.
+
+  type ValidatorHeaders = { etag?: string; "last-modified"?: string };
+
+  function getConditionalHeaders(
+    validators: CacheValidators | undefined
+  ): Record<string, string> {
+    if (validators?.etag) return { "if-none-match": validators.etag };
+    if (validators?.lastModified) {
+      return { "if-modified-since": validators.lastModified };
+    }
+    return {};
+  }
+
+  function getValidators(headers: ValidatorHeaders): CacheValidators {
+    return { etag: headers.etag, lastModified: headers["last-modified"] };
+  }
+
+  function isNotModified(error: unknown): boolean {
+    return (
+      !!error &&
+      typeof error === "object" &&
+      "status" in error &&
+      error.status === 304
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Offline
+  // ---------------------------------------------------------------------------
+
+  function isOffline() {
+    return (
+      state.offline ||
+      (typeof navigator !== "undefined" && navigator.onLine === false)
+    );
+  }
+
+  function setOffline(offline: boolean) {
+    if (offline === state.offline) return;
+    setState({ offline, offlineDataAsOf: null });
+    // Send anything written while we were offline
+    if (!offline) replayOutbox();
+  }
+
+  function markServedFromCache(timestamp: number) {
+    setState((s) => ({
+      offline: true,
+      offlineDataAsOf: Math.min(s.offlineDataAsOf ?? timestamp, timestamp),
+    }));
+  }
+
+  /**
+   * Run a GET, revalidating against the validators of a previous response.
+   * Returns the previously cached data if the server says it's unchanged.
+   */
+  async function fetchIfModified<T>(
+    cacheKey: string,
+    request: (
+      headers: Record<string, string>
+    ) => Promise<{ data: T; headers: ValidatorHeaders }>
+  ): Promise<{ data: T; validators: CacheValidators[] }> {
+    const previous = cache.getRevalidatable<T>(cacheKey);
+    try {
+      const res = await request(getConditionalHeaders(previous?.validators[0]));
+      return { data: res.data, validators: [getValidators(res.headers)] };
+    } catch (error) {
+      if (previous && isNotModified(error)) return previous;
+      if (previous && isNetworkError(error)) {
+        markServedFromCache(previous.timestamp);
+        return previous;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch every page of a paginated endpoint, revalidating each page
+   * separately. Pages that come back 304 reuse the previously cached items.
+   */
+  async function fetchPagesIfModified<T>(
+    cacheKey: string,
+    fetchPage: (
+      page: number,
+      headers: Record<string, string>
+    ) => Promise<{ data: T[]; headers: ValidatorHeaders }>,
+    perPage = 100
+  ): Promise<{ data: T[]; validators: CacheValidators[] }> {
+    const previous = cache.getRevalidatable<T[]>(cacheKey);
+    const items: T[] = [];
+    const validators: CacheValidators[] = [];
+    let page = 1;
+
+    while (true) {
+      const index = page - 1;
+      let data: T[];
+      try {
+        const res = await fetchPage(
+          page,
+          getConditionalHeaders(previous?.validators[index])
+        );
+        data = res.data;
+        validators.push(getValidators(res.headers));
+      } catch (error) {
+        if (previous && isNetworkError(error)) {
+          markServedFromCache(previous.timestamp);
+          return previous;
+        }
+        if (!previous || !isNotModified(error)) throw error;
+        data = previous.data.slice(index * perPage, (index + 1) * perPage);
+        validators.push(previous.validators[index]);
+      }
+      items.push(...data);
+      if (data.length < perPage) break;
+      page++;
+    }
+
+    return { data: items, validators };
+  }
+
   // ---------------------------------------------------------------------------
   // Initialization
   // ---------------------------------------------------------------------------
@@ -540,37 +1060,69 @@ function createGitHubStore() {
     };
   }
 
-  function initialize(token: string) {
-    // Load cached user immediately for instant UI
-    const cachedUser =
-      cache.getStale<components["schemas"]["private-user"]>("user:current");
-    if (cachedUser) {
-      setState({ currentUser: extractUserData(cachedUser.data) });
-    }
+  function getHost() {
+    return host;
+  }
+
+  // Anonymous sessions can read public repos but not write
+  function isAuthenticated() {
+    return currentToken !== null;
+  }
+
+  function initialize(token: string, githubHost: GitHubHost) {
+    // Already initialized with this token
+    if (octokit && token === currentToken && githubHost === host) return;
+
+    host = githubHost;
+    currentToken = token;
+    scheduler.reset();
 
-    octokit = new Octokit({ auth: token });
+    const api = getApiHost(host);
+    octokit = new Octokit({ auth: token, baseUrl: api.apiUrl });
     wrapOctokitWithHooks(octokit);
-    batcher = new GraphQLBatcher(octokit);
+    batcher = new GraphQLBatcher(octokit, api.graphqlUrl, 5, !isFixtureMode());
 
     setState({ ready: true, error: null });
 
-    // Revalidate current user in background
+    // Webhook events for the repos this token can read. Servers without
+    // webhooks configured refuse the stream, and polling keeps data fresh
+    // either way.
+    stopLiveEvents?.();
+    stopLiveEvents = subscribeToLiveEvents(
+      { token, hostname: host.hostname },
+      applyLiveEvent
+    );
+
+    // Load cached user and revalidate in background
     fetchCurrentUser();
+
+    // Send writes queued in a previous session
+    replayOutbox();
   }
 
-  function initializeAnonymous() {
+  function initializeAnonymous(githubHost: GitHubHost) {
+    host = githubHost;
+    currentToken = null;
+    scheduler.reset();
+    stopLiveEvents?.();
+    stopLiveEvents = null;
+
     // Create an unauthenticated Octokit instance for public repo access
     // GitHub allows 60 requests/hour for unauthenticated requests
-    octokit = new Octokit();
+    const api = getApiHost(host);
+    octokit = new Octokit({ baseUrl: api.apiUrl });
     wrapOctokitWithHooks(octokit);
-    batcher = new GraphQLBatcher(octokit);
+    batcher = new GraphQLBatcher(octokit, api.graphqlUrl, 5, !isFixtureMode());
 
     setState({ ready: true, error: null, currentUser: null });
   }
 
   function reset() {
+    stopLiveEvents?.();
+    stopLiveEvents = null;
     octokit = null;
     batcher = null;
+    currentToken = null;
     cache.invalidate();
     setState({
       ready: false,
@@ -586,6 +1138,8 @@ function createGitHubStore() {
       prListQueries: [],
       prListPage: 1,
       prChecks: new Map(),
+      offline: false,
+      offlineDataAsOf: null,
     });
   }
 
@@ -594,6 +1148,8 @@ function createGitHubStore() {
   // ---------------------------------------------------------------------------
 
   async function fetchCurrentUser() {
+    // Persisted user data lets us show the avatar before the request returns
+    await cache.ready;
     if (!octokit) return;
 
     const cacheKey = "user:current";
@@ -621,7 +1177,7 @@ function createGitHubStore() {
 
     // Fetch fresh data (in background if we had stale data)
     const promise = octokit.request("GET /user").then((r) => {
-      cache.set(cacheKey, r.data, true); // persist to localStorage
+      cache.set(cacheKey, r.data, true); // persist to IndexedDB
       return r.data;
     });
     cache.setPending(cacheKey, promise);
@@ -651,6 +1207,9 @@ function createGitHubStore() {
     if (!octokit || !batcher) return;
 
     const { backgroundRefresh = false } = options ?? {};
+    const priority: RequestPriority = backgroundRefresh
+      ? "background"
+      : "interactive";
 
     // Abort any in-flight request
     prListAbortController?.abort();
@@ -672,6 +1231,10 @@ function createGitHubStore() {
       return;
     }
 
+    // Persisted lists are what make the first paint instant
+    await cache.ready;
+    if (abortController.signal.aborted) return;
+
     const cacheKey = `prlist:${queries.sort().join("|")}:${page}:${perPage}`;
     const FRESH_TTL = 30_000; // 30 seconds
 
@@ -706,7 +1269,9 @@ function createGitHubStore() {
     try {
       // Fetch PRs with caching, passing the abort signal
       const results = await Promise.all(
-        queries.map((q) => searchPRs(q, page, perPage, abortController.signal))
+        queries.map((q) =>
+          searchPRs(q, page, perPage, abortController.signal, priority)
+        )
       );
 
       // Check if aborted before processing results
@@ -749,7 +1314,7 @@ function createGitHubStore() {
 
       if (prIdentifiers.length > 0) {
         try {
-          const enrichmentMap = await getPREnrichment(prIdentifiers);
+          const enrichmentMap = await getPREnrichment(prIdentifiers, priority);
 
           // Check if aborted after enrichment
           if (abortController.signal.aborted) return;
@@ -818,10 +1383,15 @@ function createGitHubStore() {
   // ---------------------------------------------------------------------------
 
   function getPRCheckKey(owner: string, repo: string, number: number) {
-    return `${owner}/${repo}/${number}`;
+    return `${repoCacheKey(owner, repo)}/${number}`;
   }
 
-  async function fetchPRChecks(owner: string, repo: string, number: number) {
+  async function fetchPRChecks(
+    owner: string,
+    repo: string,
+    number: number,
+    priority: RequestPriority = "interactive"
+  ) {
     if (!octokit) return;
 
     const key = getPRCheckKey(owner, repo, number);
@@ -837,12 +1407,14 @@ function createGitHubStore() {
     });
 
     try {
-      const prData = await getPR(owner, repo, number);
+      const prData = await getPR(owner, repo, number, priority);
       const [checksData, workflowRunsData] = await Promise.all([
-        getPRChecksForSha(owner, repo, prData.head.sha),
-        getWorkflowRunsForSha(owner, repo, prData.head.sha).catch(() => ({
-          workflow_runs: [],
-        })),
+        getPRChecksForSha(owner, repo, prData.head.sha, priority),
+        getWorkflowRunsForSha(owner, repo, prData.head.sha, priority).catch(
+          () => ({
+            workflow_runs: [],
+          })
+        ),
       ]);
 
       const checkRuns = checksData.checkRuns || [];
@@ -941,7 +1513,7 @@ function createGitHubStore() {
     for (const key of state.prChecks.keys()) {
       const [owner, repo, number] = key.split("/");
       if (owner && repo && number) {
-        fetchPRChecks(owner, repo, parseInt(number, 10));
+        fetchPRChecks(owner, repo, parseInt(number, 10), "background");
       }
     }
   }
@@ -954,7 +1526,8 @@ function createGitHubStore() {
     query: string,
     page = 1,
     perPage = 30,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    priority: RequestPriority = "interactive"
   ) {
     if (!octokit) throw new Error("Not initialized");
 
@@ -976,19 +1549,20 @@ function createGitHubStore() {
       >(cacheKey);
     if (pending) return pending;
 
-    const promise = octokit
-      .request("GET /search/issues", {
+    const promise = fetchIfModified(cacheKey, (headers) =>
+      octokit!.request("GET /search/issues", {
         q: query,
         sort: "updated",
         order: "desc",
         per_page: perPage,
         page,
-        request: { signal },
+        headers,
+        request: { signal, priority },
       })
-      .then((res) => {
-        cache.set(cacheKey, res.data);
-        return res.data;
-      });
+    ).then(({ data, validators }) => {
+      cache.set(cacheKey, data, false, validators);
+      return data;
+    });
 
     cache.setPending(cacheKey, promise);
     return promise;
@@ -1062,11 +1636,12 @@ function createGitHubStore() {
   async function getPR(
     owner: string,
     repo: string,
-    number: number
+    number: number,
+    priority: RequestPriority = "interactive"
   ): Promise<PullRequest> {
     if (!octokit) throw new Error("Not initialized");
 
-    const cacheKey = `pr:${owner}/${repo}/${number}`;
+    const cacheKey = `pr:${repoCacheKey(owner, repo)}/${number}`;
 
     const cached = cache.get<PullRequest>(cacheKey);
     if (cached) return cached;
@@ -1074,20 +1649,22 @@ function createGitHubStore() {
     const pending = cache.getPending<PullRequest>(cacheKey);
     if (pending) return pending;
 
-    const promise = octokit
-      .request("GET /repos/{owner}/{repo}/pulls/{pull_number}", {
+    const promise = fetchIfModified(cacheKey, (headers) =>
+      octokit!.request("GET /repos/{owner}/{repo}/pulls/{pull_number}", {
         owner,
         repo,
         pull_number: number,
         headers: {
           // Request full media type to get both body and body_html with signed attachment URLs
           accept: "application/vnd.github.full+json",
+          ...headers,
         },
+        request: { priority },
       })
-      .then((res) => {
-        cache.set(cacheKey, res.data as PullRequest);
-        return res.data as PullRequest;
-      });
+    ).then(({ data, validators }) => {
+      cache.set(cacheKey, data as PullRequest, false, validators);
+      return data as PullRequest;
+    });
 
     cache.setPending(cacheKey, promise);
     return promise;
@@ -1097,10 +1674,28 @@ function createGitHubStore() {
     owner: string,
     repo: string,
     number: number
+  ): Promise<PullRequestFile[]> {
+    const files = await getListedPRFiles(owner, repo, number);
+    if (files.length < PR_FILES_LISTING_LIMIT) return files;
+
+    // The listing stops at the limit; the GraphQL connection has the rest
+    try {
+      const unlisted = await getUnlistedPRFiles(owner, repo, number, files);
+      return unlisted.length > 0 ? [...files, ...unlisted] : files;
+    } catch (error) {
+      console.error("Failed to fetch files beyond the listing limit:", error);
+      return files;
+    }
+  }
+
+  async function getListedPRFiles(
+    owner: string,
+    repo: string,
+    number: number
   ): Promise<PullRequestFile[]> {
     if (!octokit) throw new Error("Not initialized");
 
-    const cacheKey = `pr:${owner}/${repo}/${number}:files`;
+    const cacheKey = `pr:${repoCacheKey(owner, repo)}/${number}:files`;
 
     const cached = cache.get<PullRequestFile[]>(cacheKey);
     if (cached) return cached;
@@ -1109,26 +1704,23 @@ function createGitHubStore() {
     if (pending) return pending;
 
     const promise = (async () => {
-      const files: PullRequestFile[] = [];
-      let page = 1;
-
-      while (true) {
-        const { data } = await octokit!.request(
-          "GET /repos/{owner}/{repo}/pulls/{pull_number}/files",
-          {
-            owner,
-            repo,
-            pull_number: number,
-            per_page: 100,
-            page,
-          }
-        );
-        files.push(...data);
-        if (data.length < 100) break;
-        page++;
-      }
+      const { data: files, validators } = await fetchPagesIfModified(
+        cacheKey,
+        (page, headers) =>
+          octokit!.request(
+            "GET /repos/{owner}/{repo}/pulls/{pull_number}/files",
+            {
+              owner,
+              repo,
+              pull_number: number,
+              per_page: 100,
+              page,
+              headers,
+            }
+          )
+      );
 
-      cache.set(cacheKey, files);
+      cache.set(cacheKey, files, false, validators);
       return files;
     })();
 
@@ -1136,52 +1728,186 @@ function createGitHubStore() {
     return promise;
   }
 
-  async function getPRComments(
+  // GraphQL only has paths and line counts, so these files have no patch
+  // (the diff is computed from contents) and no blob sha. It doesn't have the
+  // old path of renames either; the comparison of the PR's commits does, for
+  // files within its own limit.
+  async function getUnlistedPRFiles(
     owner: string,
     repo: string,
-    number: number
-  ): Promise<ReviewComment[]> {
-    if (!octokit) throw new Error("Not initialized");
+    number: number,
+    listed: PullRequestFile[]
+  ): Promise<PullRequestFile[]> {
+    if (!batcher) throw new Error("Not initialized");
 
-    const cacheKey = `pr:${owner}/${repo}/${number}:comments`;
+    // Sub-key of the listing so expiring the listing drops it too
+    const cacheKey = `pr:${repoCacheKey(owner, repo)}/${number}:files:unlisted`;
 
-    const cached = cache.get<ReviewComment[]>(cacheKey);
+    const cached = cache.get<PullRequestFile[]>(cacheKey);
     if (cached) return cached;
 
-    const pending = cache.getPending<ReviewComment[]>(cacheKey);
+    const pending = cache.getPending<PullRequestFile[]>(cacheKey);
     if (pending) return pending;
 
     const promise = (async () => {
-      const comments: ReviewComment[] = [];
-      let page = 1;
+      const listedPaths = new Set(listed.map((f) => f.filename));
+      const unlisted: PullRequestFile[] = [];
+      const webUrl = `https://${host.hostname}/${owner}/${repo}`;
+      const apiUrl = `${getApiHost(host).apiUrl}/repos/${owner}/${repo}`;
+
+      // Skip past the listed files when the cursors allow it
+      const probe = await batcher!.query<{
+        repository: {
+          pullRequest: {
+            files: { pageInfo: { endCursor: string | null } };
+          };
+        };
+      }>(
+        `query ($owner: String!, $repo: String!, $number: Int!) { repository(owner: $owner, name: $repo) { pullRequest(number: $number) { files(first: 1) { pageInfo { endCursor } } } } }`,
+        { owner, repo, number }
+      );
+      let after = moveCursor(
+        probe.repository.pullRequest.files.pageInfo.endCursor,
+        listed.length
+      );
+      let skipping = after !== null;
+      let baseRefOid = "";
+      let headRefOid = "";
 
       while (true) {
-        const { data } = await octokit!.request(
-          "GET /repos/{owner}/{repo}/pulls/{pull_number}/comments",
-          {
-            owner,
-            repo,
-            pull_number: number,
-            per_page: 100,
-            page,
-            headers: {
-              // Request full media type to get both body and body_html with signed attachment URLs
-              accept: "application/vnd.github.full+json",
-            },
-          }
-        );
-        comments.push(...(data as ReviewComment[]));
-        if (data.length < 100) break;
-        page++;
-      }
-
-      cache.set(cacheKey, comments);
-      return comments;
-    })();
-
-    cache.setPending(cacheKey, promise);
-    return promise;
-  }
+        let data: {
+          repository: {
+            pullRequest: {
+              baseRefOid: string;
+              headRefOid: string;
+              files: {
+                pageInfo: { hasNextPage: boolean; endCursor: string | null };
+                nodes: PullRequestChangedFile[];
+              };
+            };
+          };
+        };
+        try {
+          data = await batcher!.query(
+            `
+            query ($owner: String!, $repo: String!, $number: Int!, $after: String) {
+              repository(owner: $owner, name: $repo) {
+                pullRequest(number: $number) {
+                  baseRefOid
+                  headRefOid
+                  files(first: 100, after: $after) {
+                    pageInfo { hasNextPage endCursor }
+                    nodes { path additions deletions changeType }
+                  }
+                }
+              }
+            }
+          `,
+            { owner, repo, number, after }
+          );
+        } catch (error) {
+          // A made-up cursor GitHub doesn't accept: page from the start
+          if (!skipping) throw error;
+          skipping = false;
+          after = null;
+          continue;
+        }
+        skipping = false;
+
+        const { files } = data.repository.pullRequest;
+        ({ baseRefOid, headRefOid } = data.repository.pullRequest);
+        for (const file of files.nodes) {
+          if (listedPaths.has(file.path)) continue;
+          const path = file.path.split("/").map(encodeURIComponent).join("/");
+          unlisted.push({
+            sha: null,
+            filename: file.path,
+            status: CHANGE_TYPE_STATUS[file.changeType],
+            additions: file.additions,
+            deletions: file.deletions,
+            changes: file.additions + file.deletions,
+            blob_url: `${webUrl}/blob/${headRefOid}/${path}`,
+            raw_url: `${webUrl}/raw/${headRefOid}/${path}`,
+            contents_url: `${apiUrl}/contents/${path}?ref=${headRefOid}`,
+          });
+        }
+
+        if (!files.pageInfo.hasNextPage) break;
+        after = files.pageInfo.endCursor;
+      }
+
+      const renames = unlisted.filter(
+        (f) => f.status === "renamed" || f.status === "copied"
+      );
+      if (renames.length > 0) {
+        try {
+          const { files } = await getComparison(
+            owner,
+            repo,
+            baseRefOid,
+            headRefOid
+          );
+          const previous = new Map(
+            files.map((f) => [f.filename, f.previous_filename])
+          );
+          for (const file of renames) {
+            file.previous_filename = previous.get(file.filename);
+          }
+        } catch (error) {
+          console.error("Failed to look up renamed files:", error);
+        }
+      }
+
+      cache.set(cacheKey, unlisted);
+      return unlisted;
+    })();
+
+    cache.setPending(cacheKey, promise);
+    return promise;
+  }
+
+  async function getPRComments(
+    owner: string,
+    repo: string,
+    number: number
+  ): Promise<ReviewComment[]> {
+    if (!octokit) throw new Error("Not initialized");
+
+    const cacheKey = `pr:${repoCacheKey(owner, repo)}/${number}:comments`;
+
+    const cached = cache.get<ReviewComment[]>(cacheKey);
+    if (cached) return cached;
+
+    const pending = cache.getPending<ReviewComment[]>(cacheKey);
+    if (pending) return pending;
+
+    const promise = (async () => {
+      const { data: comments, validators } =
+        await fetchPagesIfModified<ReviewComment>(cacheKey, (page, headers) =>
+          octokit!.request(
+            "GET /repos/{owner}/{repo}/pulls/{pull_number}/comments",
+            {
+              owner,
+              repo,
+              pull_number: number,
+              per_page: 100,
+              page,
+              headers: {
+                // Request full media type to get both body and body_html with signed attachment URLs
+                accept: "application/vnd.github.full+json",
+                ...headers,
+              },
+            }
+          )
+        );
+
+      cache.set(cacheKey, comments, false, validators);
+      return comments;
+    })();
+
+    cache.setPending(cacheKey, promise);
+    return promise;
+  }
 
   async function createPRComment(
     owner: string,
@@ -1194,6 +1920,7 @@ function createGitHubStore() {
       path?: string;
       line?: number;
       side?: "LEFT" | "RIGHT";
+      subject_type?: "line" | "file";
     }
   ): Promise<ReviewComment> {
     if (!octokit) throw new Error("Not initialized");
@@ -1212,6 +1939,20 @@ function createGitHubStore() {
         }
       );
       result = data;
+    } else if (options?.subject_type === "file") {
+      const { data } = await octokit.request(
+        "POST /repos/{owner}/{repo}/pulls/{pull_number}/comments",
+        {
+          owner,
+          repo,
+          pull_number: number,
+          body,
+          commit_id: options.commit_id!,
+          path: options.path!,
+          subject_type: "file",
+        }
+      );
+      result = data;
     } else {
       const { data } = await octokit.request(
         "POST /repos/{owner}/{repo}/pulls/{pull_number}/comments",
@@ -1229,7 +1970,7 @@ function createGitHubStore() {
       result = data;
     }
 
-    cache.invalidate(`pr:${owner}/${repo}/${number}:comments`);
+    cache.invalidate(`pr:${repoCacheKey(owner, repo)}/${number}:comments`);
     return result;
   }
 
@@ -1240,7 +1981,7 @@ function createGitHubStore() {
   ): Promise<Review[]> {
     if (!octokit) throw new Error("Not initialized");
 
-    const cacheKey = `pr:${owner}/${repo}/${number}:reviews`;
+    const cacheKey = `pr:${repoCacheKey(owner, repo)}/${number}:reviews`;
 
     const cached = cache.get<Review[]>(cacheKey);
     if (cached) return cached;
@@ -1299,7 +2040,7 @@ function createGitHubStore() {
       }
     );
 
-    cache.invalidate(`pr:${owner}/${repo}/${number}`);
+    cache.invalidate(`pr:${repoCacheKey(owner, repo)}/${number}`);
     return data;
   }
 
@@ -1325,7 +2066,7 @@ function createGitHubStore() {
       }
     );
 
-    cache.invalidate(`pr:${owner}/${repo}/${number}`);
+    cache.invalidate(`pr:${repoCacheKey(owner, repo)}/${number}`);
     return data;
   }
 
@@ -1346,13 +2087,18 @@ function createGitHubStore() {
         review_id: reviewId,
       }
     );
-    cache.invalidate(`pr:${owner}/${repo}/${number}`);
+    cache.invalidate(`pr:${repoCacheKey(owner, repo)}/${number}`);
   }
 
-  async function getPRChecksForSha(owner: string, repo: string, sha: string) {
+  async function getPRChecksForSha(
+    owner: string,
+    repo: string,
+    sha: string,
+    priority: RequestPriority = "interactive"
+  ) {
     if (!octokit) throw new Error("Not initialized");
 
-    const cacheKey = `checks:${owner}/${repo}/${sha}`;
+    const cacheKey = `checks:${repoCacheKey(owner, repo)}/${sha}`;
 
     type ChecksResult = { checkRuns: CheckRun[]; status: CombinedStatus };
 
@@ -1362,18 +2108,37 @@ function createGitHubStore() {
     const pending = cache.getPending<ChecksResult>(cacheKey);
     if (pending) return pending;
 
+    // Each request is revalidated separately under its own key
+    const checkRunsKey = `${cacheKey}:check-runs`;
+    const statusKey = `${cacheKey}:status`;
+
     const promise = Promise.all([
-      octokit.request("GET /repos/{owner}/{repo}/commits/{ref}/check-runs", {
-        owner,
-        repo,
-        ref: sha,
-      }),
-      octokit.request("GET /repos/{owner}/{repo}/commits/{ref}/status", {
-        owner,
-        repo,
-        ref: sha,
-      }),
+      fetchIfModified(checkRunsKey, (headers) =>
+        octokit!.request("GET /repos/{owner}/{repo}/commits/{ref}/check-runs", {
+          owner,
+          repo,
+          ref: sha,
+          headers,
+          request: { priority },
+        })
+      ),
+      fetchIfModified(statusKey, (headers) =>
+        octokit!.request("GET /repos/{owner}/{repo}/commits/{ref}/status", {
+          owner,
+          repo,
+          ref: sha,
+          headers,
+          request: { priority },
+        })
+      ),
     ]).then(([checkRunsRes, statusRes]) => {
+      cache.set(
+        checkRunsKey,
+        checkRunsRes.data,
+        false,
+        checkRunsRes.validators
+      );
+      cache.set(statusKey, statusRes.data, false, statusRes.validators);
       const result = {
         checkRuns: checkRunsRes.data.check_runs,
         status: statusRes.data,
@@ -1389,11 +2154,12 @@ function createGitHubStore() {
   async function getWorkflowRunsForSha(
     owner: string,
     repo: string,
-    sha: string
+    sha: string,
+    priority: RequestPriority = "interactive"
   ) {
     if (!octokit) throw new Error("Not initialized");
 
-    const cacheKey = `workflow-runs:${owner}/${repo}/${sha}`;
+    const cacheKey = `workflow-runs:${repoCacheKey(owner, repo)}/${sha}`;
 
     type WorkflowRunsResult = {
       workflow_runs: Array<{
@@ -1412,20 +2178,22 @@ function createGitHubStore() {
     const pending = cache.getPending<WorkflowRunsResult>(cacheKey);
     if (pending) return pending;
 
-    const promise = octokit
-      .request("GET /repos/{owner}/{repo}/actions/runs", {
+    const promise = fetchIfModified(cacheKey, (headers) =>
+      octokit!.request("GET /repos/{owner}/{repo}/actions/runs", {
         owner,
         repo,
         head_sha: sha,
         per_page: 50,
+        headers,
+        request: { priority },
       })
-      .then((res) => {
-        const result = {
-          workflow_runs: res.data.workflow_runs,
-        };
-        cache.set(cacheKey, result);
-        return result;
-      });
+    ).then(({ data, validators }) => {
+      const result = {
+        workflow_runs: data.workflow_runs,
+      };
+      cache.set(cacheKey, result, false, validators);
+      return result;
+    });
 
     cache.setPending(cacheKey, promise);
     return promise;
@@ -1448,7 +2216,7 @@ function createGitHubStore() {
     );
 
     // Invalidate workflow runs cache for this repo
-    cache.invalidate(`workflow-runs:${owner}/${repo}`);
+    cache.invalidate(`workflow-runs:${repoCacheKey(owner, repo)}`);
   }
 
   async function mergePR(
@@ -1475,14 +2243,14 @@ function createGitHubStore() {
       }
     );
 
-    cache.invalidate(`pr:${owner}/${repo}/${number}`);
+    cache.invalidate(`pr:${repoCacheKey(owner, repo)}/${number}`);
     return data;
   }
 
   async function getPRCommits(owner: string, repo: string, number: number) {
     if (!octokit) throw new Error("Not initialized");
 
-    const cacheKey = `pr:${owner}/${repo}/${number}:commits`;
+    const cacheKey = `pr:${repoCacheKey(owner, repo)}/${number}:commits`;
 
     const cached = cache.get<components["schemas"]["commit"][]>(cacheKey);
     if (cached) return cached;
@@ -1507,6 +2275,69 @@ function createGitHubStore() {
     return promise;
   }
 
+  function getComparison(
+    owner: string,
+    repo: string,
+    base: string,
+    head: string
+  ): Promise<Comparison> {
+    if (!octokit) throw new Error("Not initialized");
+
+    const cacheKey = `compare:${repoCacheKey(owner, repo)}/${base}...${head}`;
+
+    // Commits don't change, so neither does their comparison
+    const cached = cache.get<Comparison>(cacheKey, Infinity);
+    if (cached) return Promise.resolve(cached);
+
+    const pending = cache.getPending<Comparison>(cacheKey);
+    if (pending) return pending;
+
+    const promise = octokit
+      .request("GET /repos/{owner}/{repo}/compare/{basehead}", {
+        owner,
+        repo,
+        basehead: `${base}...${head}`,
+      })
+      .then((res) => {
+        const comparison: Comparison = {
+          status: res.data.status,
+          files: res.data.files ?? [],
+        };
+        cache.set(cacheKey, comparison);
+        return comparison;
+      });
+
+    cache.setPending(cacheKey, promise);
+    return promise;
+  }
+
+  /**
+   * Files changed between two commits. Three-dot comparison, so the diff
+   * starts at their merge base (which differs from `base` after a rebase).
+   */
+  async function getCompareFiles(
+    owner: string,
+    repo: string,
+    base: string,
+    head: string
+  ): Promise<PullRequestFile[]> {
+    return (await getComparison(owner, repo, base, head)).files;
+  }
+
+  /**
+   * Whether `head` contains `base`, i.e. `base` wasn't rewritten by a force
+   * push on the way to `head`.
+   */
+  async function isAncestor(
+    owner: string,
+    repo: string,
+    base: string,
+    head: string
+  ): Promise<boolean> {
+    const { status } = await getComparison(owner, repo, base, head);
+    return status === "ahead" || status === "identical";
+  }
+
   async function requestReviewers(
     owner: string,
     repo: string,
@@ -1525,7 +2356,7 @@ function createGitHubStore() {
       }
     );
 
-    cache.invalidate(`pr:${owner}/${repo}/${number}`);
+    cache.invalidate(`pr:${repoCacheKey(owner, repo)}/${number}`);
     return data;
   }
 
@@ -1547,13 +2378,13 @@ function createGitHubStore() {
       }
     );
 
-    cache.invalidate(`pr:${owner}/${repo}/${number}`);
+    cache.invalidate(`pr:${repoCacheKey(owner, repo)}/${number}`);
   }
 
   async function getRepoCollaborators(owner: string, repo: string) {
     if (!octokit) throw new Error("Not initialized");
 
-    const cacheKey = `repo:${owner}/${repo}:collaborators`;
+    const cacheKey = `repo:${repoCacheKey(owner, repo)}:collaborators`;
 
     const cached = cache.get<components["schemas"]["collaborator"][]>(
       cacheKey,
@@ -1598,7 +2429,7 @@ function createGitHubStore() {
       }
     );
 
-    cache.invalidate(`pr:${owner}/${repo}/${issueNumber}`);
+    cache.invalidate(`pr:${repoCacheKey(owner, repo)}/${issueNumber}`);
     return data;
   }
 
@@ -1620,13 +2451,13 @@ function createGitHubStore() {
       }
     );
 
-    cache.invalidate(`pr:${owner}/${repo}/${issueNumber}`);
+    cache.invalidate(`pr:${repoCacheKey(owner, repo)}/${issueNumber}`);
   }
 
   async function getRepoLabels(owner: string, repo: string) {
     if (!octokit) throw new Error("Not initialized");
 
-    const cacheKey = `repo:${owner}/${repo}:labels`;
+    const cacheKey = `repo:${repoCacheKey(owner, repo)}:labels`;
 
     const cached = cache.get<
       Array<{ name: string; color: string; description: string | null }>
@@ -1694,7 +2525,7 @@ function createGitHubStore() {
       }
     );
 
-    cache.invalidate(`pr:${owner}/${repo}/${issueNumber}`);
+    cache.invalidate(`pr:${repoCacheKey(owner, repo)}/${issueNumber}`);
     return data;
   }
 
@@ -1716,7 +2547,7 @@ function createGitHubStore() {
       }
     );
 
-    cache.invalidate(`pr:${owner}/${repo}/${issueNumber}`);
+    cache.invalidate(`pr:${repoCacheKey(owner, repo)}/${issueNumber}`);
   }
 
   async function convertToDraft(owner: string, repo: string, number: number) {
@@ -1734,7 +2565,7 @@ function createGitHubStore() {
       { input: { pullRequestId: prData.repository.pullRequest.id } }
     );
 
-    cache.invalidate(`pr:${owner}/${repo}/${number}`);
+    cache.invalidate(`pr:${repoCacheKey(owner, repo)}/${number}`);
   }
 
   async function markReadyForReview(
@@ -1756,7 +2587,7 @@ function createGitHubStore() {
       { input: { pullRequestId: prData.repository.pullRequest.id } }
     );
 
-    cache.invalidate(`pr:${owner}/${repo}/${number}`);
+    cache.invalidate(`pr:${repoCacheKey(owner, repo)}/${number}`);
   }
 
   async function updateBranch(owner: string, repo: string, number: number) {
@@ -1771,10 +2602,119 @@ function createGitHubStore() {
       }
     );
 
-    cache.invalidate(`pr:${owner}/${repo}/${number}`);
+    cache.invalidate(`pr:${repoCacheKey(owner, repo)}/${number}`);
     return data;
   }
 
+  // Git tree modes ("100644", "100755", ...) of files at a commit
+  async function getFileModes(
+    owner: string,
+    repo: string,
+    sha: string,
+    paths: string[]
+  ): Promise<Map<string, string>> {
+    if (!batcher) throw new Error("Not initialized");
+
+    const dirs = [
+      ...new Set(paths.map((p) => p.slice(0, Math.max(0, p.lastIndexOf("/"))))),
+    ];
+    const data: {
+      repository: Record<
+        string,
+        { entries?: Array<{ name: string; mode: number }> } | null
+      >;
+    } = await batcher.query(
+      `
+      query ($owner: String!, $repo: String!, ${dirs.map((_, i) => `$dir${i}: String!`).join(", ")}) {
+        repository(owner: $owner, name: $repo) {
+          ${dirs.map((_, i) => `dir${i}: object(expression: $dir${i}) { ... on Tree { entries { name mode } } }`).join("\n")}
+        }
+      }
+    `,
+      {
+        owner,
+        repo,
+        ...Object.fromEntries(
+          dirs.map((dir, i) => [`dir${i}`, `${sha}:${dir}`])
+        ),
+      }
+    );
+
+    const modes = new Map<string, string>();
+    dirs.forEach((dir, i) => {
+      for (const entry of data.repository[`dir${i}`]?.entries ?? []) {
+        const path = dir ? `${dir}/${entry.name}` : entry.name;
+        modes.set(path, entry.mode.toString(8));
+      }
+    });
+    return modes;
+  }
+
+  /**
+   * Commit new file contents on top of parentSha and move the branch to it.
+   * The ref update isn't forced, so it fails if the branch moved meanwhile.
+   */
+  async function commitFileChanges(
+    owner: string,
+    repo: string,
+    branch: string,
+    parentSha: string,
+    message: string,
+    files: FileChange[]
+  ) {
+    if (!octokit) throw new Error("Not initialized");
+
+    const [{ data: parent }, modes] = await Promise.all([
+      octokit.request("GET /repos/{owner}/{repo}/git/commits/{commit_sha}", {
+        owner,
+        repo,
+        commit_sha: parentSha,
+      }),
+      getFileModes(
+        owner,
+        repo,
+        parentSha,
+        files.map((f) => f.path)
+      ),
+    ]);
+
+    const { data: tree } = await octokit.request(
+      "POST /repos/{owner}/{repo}/git/trees",
+      {
+        owner,
+        repo,
+        base_tree: parent.tree.sha,
+        tree: files.map((f) => ({
+          path: f.path,
+          mode: (modes.get(f.path) ?? "100644") as "100644" | "100755",
+          type: "blob" as const,
+          content: f.content,
+        })),
+      }
+    );
+
+    const { data: commit } = await octokit.request(
+      "POST /repos/{owner}/{repo}/git/commits",
+      {
+        owner,
+        repo,
+        message,
+        tree: tree.sha,
+        parents: [parentSha],
+      }
+    );
+
+    await octokit.request("PATCH /repos/{owner}/{repo}/git/refs/{ref}", {
+      owner,
+      repo,
+      ref: `heads/${branch}`,
+      sha: commit.sha,
+      force: false,
+    });
+
+    return commit;
+  }
+
   // Reaction types: +1, -1, laugh, hooray, confused, heart, rocket, eyes
   type ReactionContent =
     | "+1"
@@ -1793,7 +2733,7 @@ function createGitHubStore() {
   ) {
     if (!octokit) throw new Error("Not initialized");
 
-    const cacheKey = `reactions:issue:${owner}/${repo}/${issueNumber}`;
+    const cacheKey = `reactions:issue:${repoCacheKey(owner, repo)}/${issueNumber}`;
 
     const cached = cache.get<components["schemas"]["reaction"][]>(
       cacheKey,
@@ -1833,7 +2773,9 @@ function createGitHubStore() {
       }
     );
 
-    cache.invalidate(`reactions:issue:${owner}/${repo}/${issueNumber}`);
+    cache.invalidate(
+      `reactions:issue:${repoCacheKey(owner, repo)}/${issueNumber}`
+    );
     return data;
   }
 
@@ -1855,7 +2797,9 @@ function createGitHubStore() {
       }
     );
 
-    cache.invalidate(`reactions:issue:${owner}/${repo}/${issueNumber}`);
+    cache.invalidate(
+      `reactions:issue:${repoCacheKey(owner, repo)}/${issueNumber}`
+    );
   }
 
   async function getCommentReactions(
@@ -1865,7 +2809,7 @@ function createGitHubStore() {
   ) {
     if (!octokit) throw new Error("Not initialized");
 
-    const cacheKey = `reactions:comment:${owner}/${repo}/${commentId}`;
+    const cacheKey = `reactions:comment:${repoCacheKey(owner, repo)}/${commentId}`;
 
     const cached = cache.get<components["schemas"]["reaction"][]>(
       cacheKey,
@@ -1905,7 +2849,9 @@ function createGitHubStore() {
       }
     );
 
-    cache.invalidate(`reactions:comment:${owner}/${repo}/${commentId}`);
+    cache.invalidate(
+      `reactions:comment:${repoCacheKey(owner, repo)}/${commentId}`
+    );
     return data;
   }
 
@@ -1927,7 +2873,9 @@ function createGitHubStore() {
       }
     );
 
-    cache.invalidate(`reactions:comment:${owner}/${repo}/${commentId}`);
+    cache.invalidate(
+      `reactions:comment:${repoCacheKey(owner, repo)}/${commentId}`
+    );
   }
 
   // Pull Request Review Comment Reactions (different from issue comments)
@@ -1938,7 +2886,7 @@ function createGitHubStore() {
   ) {
     if (!octokit) throw new Error("Not initialized");
 
-    const cacheKey = `reactions:review-comment:${owner}/${repo}/${commentId}`;
+    const cacheKey = `reactions:review-comment:${repoCacheKey(owner, repo)}/${commentId}`;
 
     const cached = cache.get<components["schemas"]["reaction"][]>(
       cacheKey,
@@ -1978,7 +2926,9 @@ function createGitHubStore() {
       }
     );
 
-    cache.invalidate(`reactions:review-comment:${owner}/${repo}/${commentId}`);
+    cache.invalidate(
+      `reactions:review-comment:${repoCacheKey(owner, repo)}/${commentId}`
+    );
     return data;
   }
 
@@ -2000,7 +2950,9 @@ function createGitHubStore() {
       }
     );
 
-    cache.invalidate(`reactions:review-comment:${owner}/${repo}/${commentId}`);
+    cache.invalidate(
+      `reactions:review-comment:${repoCacheKey(owner, repo)}/${commentId}`
+    );
   }
 
   async function closePR(owner: string, repo: string, number: number) {
@@ -2016,7 +2968,7 @@ function createGitHubStore() {
       }
     );
 
-    cache.invalidate(`pr:${owner}/${repo}/${number}`);
+    cache.invalidate(`pr:${repoCacheKey(owner, repo)}/${number}`);
     return data;
   }
 
@@ -2033,7 +2985,7 @@ function createGitHubStore() {
       }
     );
 
-    cache.invalidate(`pr:${owner}/${repo}/${number}`);
+    cache.invalidate(`pr:${repoCacheKey(owner, repo)}/${number}`);
     return data;
   }
 
@@ -2070,7 +3022,7 @@ function createGitHubStore() {
   ): Promise<IssueComment[]> {
     if (!octokit) throw new Error("Not initialized");
 
-    const cacheKey = `pr:${owner}/${repo}/${number}:conversation`;
+    const cacheKey = `pr:${repoCacheKey(owner, repo)}/${number}:conversation`;
 
     const cached = cache.get<IssueComment[]>(cacheKey);
     if (cached) return cached;
@@ -2114,7 +3066,7 @@ function createGitHubStore() {
         body,
       }
     );
-    cache.invalidate(`pr:${owner}/${repo}/${number}:conversation`);
+    cache.invalidate(`pr:${repoCacheKey(owner, repo)}/${number}:conversation`);
     return data;
   }
 
@@ -2125,7 +3077,7 @@ function createGitHubStore() {
   ): Promise<TimelineEvent[]> {
     if (!octokit) throw new Error("Not initialized");
 
-    const cacheKey = `pr:${owner}/${repo}/${number}:timeline`;
+    const cacheKey = `pr:${repoCacheKey(owner, repo)}/${number}:timeline`;
 
     const cached = cache.get<TimelineEvent[]>(cacheKey);
     if (cached) return cached;
@@ -2153,11 +3105,12 @@ function createGitHubStore() {
     owner: string,
     repo: string,
     path: string,
-    ref: string
+    ref: string,
+    priority: RequestPriority = "interactive"
   ): Promise<string> {
     if (!octokit) throw new Error("Not initialized");
 
-    const cacheKey = `file:${owner}/${repo}/${ref}/${path}`;
+    const cacheKey = `file:${repoCacheKey(owner, repo)}/${ref}/${path}`;
 
     const cached = cache.get<string>(cacheKey, 300_000);
     if (cached) return cached;
@@ -2167,18 +3120,23 @@ function createGitHubStore() {
 
     const promise = (async () => {
       try {
-        const response = await octokit!.request(
-          "GET /repos/{owner}/{repo}/contents/{path}",
-          {
-            owner,
-            repo,
-            path,
-            ref,
-            headers: { Accept: "application/vnd.github.raw+json" },
-          }
+        const { data, validators } = await fetchIfModified(
+          cacheKey,
+          (headers) =>
+            octokit!.request("GET /repos/{owner}/{repo}/contents/{path}", {
+              owner,
+              repo,
+              path,
+              ref,
+              headers: {
+                Accept: "application/vnd.github.raw+json",
+                ...headers,
+              },
+              request: { priority },
+            })
         );
-        const content = response.data as unknown as string;
-        cache.set(cacheKey, content);
+        const content = data as unknown as string;
+        cache.set(cacheKey, content, false, validators);
         return content;
       } catch (error: unknown) {
         if (
@@ -2211,7 +3169,8 @@ function createGitHubStore() {
   }
 
   async function getPREnrichment(
-    prs: Array<{ owner: string; repo: string; number: number }>
+    prs: Array<{ owner: string; repo: string; number: number }>,
+    priority: RequestPriority = "interactive"
   ): Promise<Map<string, PREnrichment>> {
     if (!batcher || prs.length === 0) return new Map();
 
@@ -2322,7 +3281,7 @@ function createGitHubStore() {
           } | null;
         }
       >
-    >(`query { ${prQueries} }`);
+    >(`query { ${prQueries} }`, {}, priority);
 
     const enrichmentMap = new Map<string, PREnrichment>();
 
@@ -2552,6 +3511,190 @@ function createGitHubStore() {
     );
   }
 
+  /**
+   * The viewer's "Viewed" checkbox state for each file in a PR. DISMISSED
+   * means the file was viewed but has changed since.
+   */
+  async function getFileViewedStates(
+    owner: string,
+    repo: string,
+    number: number
+  ): Promise<Record<string, FileViewedState>> {
+    if (!batcher) throw new Error("Not initialized");
+
+    const states: Record<string, FileViewedState> = {};
+    let after: string | null = null;
+
+    while (true) {
+      const data: {
+        repository: {
+          pullRequest: {
+            files: {
+              pageInfo: { hasNextPage: boolean; endCursor: string | null };
+              nodes: Array<{
+                path: string;
+                viewerViewedState: FileViewedState;
+              }>;
+            };
+          };
+        };
+      } = await batcher.query(
+        `
+        query ($owner: String!, $repo: String!, $number: Int!, $after: String) {
+          repository(owner: $owner, name: $repo) {
+            pullRequest(number: $number) {
+              files(first: 100, after: $after) {
+                pageInfo { hasNextPage endCursor }
+                nodes { path viewerViewedState }
+              }
+            }
+          }
+        }
+      `,
+        { owner, repo, number, after }
+      );
+
+      const { files } = data.repository.pullRequest;
+      for (const file of files.nodes) {
+        states[file.path] = file.viewerViewedState;
+      }
+      if (!files.pageInfo.hasNextPage) break;
+      after = files.pageInfo.endCursor;
+    }
+
+    return states;
+  }
+
+  /**
+   * Heads the PR has had, oldest first and ending at the current head.
+   * GitHub only records force pushes, so heads reached by plain pushes in
+   * between aren't listed.
+   */
+  async function getPRRevisions(
+    owner: string,
+    repo: string,
+    number: number
+  ): Promise<PRRevision[]> {
+    if (!batcher) throw new Error("Not initialized");
+
+    const revisions: PRRevision[] = [];
+    const addRevision = (revision: PRRevision) => {
+      if (revisions[revisions.length - 1]?.sha !== revision.sha) {
+        revisions.push(revision);
+      }
+    };
+    let headRefOid = "";
+    let after: string | null = null;
+
+    while (true) {
+      const data: {
+        repository: {
+          pullRequest: {
+            headRefOid: string;
+            timelineItems: {
+              pageInfo: { hasNextPage: boolean; endCursor: string | null };
+              nodes: Array<{
+                createdAt: string;
+                actor: { login: string } | null;
+                beforeCommit: { oid: string } | null;
+                afterCommit: { oid: string } | null;
+              }>;
+            };
+          };
+        };
+      } = await batcher.query(
+        `
+        query ($owner: String!, $repo: String!, $number: Int!, $after: String) {
+          repository(owner: $owner, name: $repo) {
+            pullRequest(number: $number) {
+              headRefOid
+              timelineItems(itemTypes: [HEAD_REF_FORCE_PUSHED_EVENT], first: 100, after: $after) {
+                pageInfo { hasNextPage endCursor }
+                nodes {
+                  ... on HeadRefForcePushedEvent {
+                    createdAt
+                    actor { login }
+                    beforeCommit { oid }
+                    afterCommit { oid }
+                  }
+                }
+              }
+            }
+          }
+        }
+      `,
+        { owner, repo, number, after }
+      );
+
+      const { pullRequest } = data.repository;
+      headRefOid = pullRequest.headRefOid;
+      for (const event of pullRequest.timelineItems.nodes) {
+        if (event.beforeCommit) {
+          addRevision({
+            sha: event.beforeCommit.oid,
+            pushedAt: null,
+            pushedBy: null,
+          });
+        }
+        if (event.afterCommit) {
+          addRevision({
+            sha: event.afterCommit.oid,
+            pushedAt: event.createdAt,
+            pushedBy: event.actor?.login ?? null,
+          });
+        }
+      }
+      if (!pullRequest.timelineItems.pageInfo.hasNextPage) break;
+      after = pullRequest.timelineItems.pageInfo.endCursor;
+    }
+
+    addRevision({ sha: headRefOid, pushedAt: null, pushedBy: null });
+    return revisions;
+  }
+
+  async function markFileAsViewed(
+    pullRequestId: string,
+    path: string
+  ): Promise<void> {
+    if (!batcher) throw new Error("Not initialized");
+    await batcher.query(
+      `mutation ($input: MarkFileAsViewedInput!) { markFileAsViewed(input: $input) { clientMutationId } }`,
+      { input: { pullRequestId, path } }
+    );
+  }
+
+  async function unmarkFileAsViewed(
+    pullRequestId: string,
+    path: string
+  ): Promise<void> {
+    if (!batcher) throw new Error("Not initialized");
+    await batcher.query(
+      `mutation ($input: UnmarkFileAsViewedInput!) { unmarkFileAsViewed(input: $input) { clientMutationId } }`,
+      { input: { pullRequestId, path } }
+    );
+  }
+
+  /**
+   * Current head commit of a PR. Cheap enough to poll for new pushes.
+   */
+  async function getPRHeadSha(
+    owner: string,
+    repo: string,
+    number: number,
+    priority: RequestPriority = "interactive"
+  ): Promise<string> {
+    if (!batcher) throw new Error("Not initialized");
+
+    const data = await batcher.query<{
+      repository: { pullRequest: { headRefOid: string } };
+    }>(
+      `query ($owner: String!, $repo: String!, $number: Int!) { repository(owner: $owner, name: $repo) { pullRequest(number: $number) { headRefOid } } }`,
+      { owner, repo, number },
+      priority
+    );
+    return data.repository.pullRequest.headRefOid;
+  }
+
   async function getPendingReview(
     owner: string,
     repo: string,
@@ -2576,7 +3719,7 @@ function createGitHubStore() {
                 databaseId
                 viewerDidAuthor
                 comments(first: 100) {
-                    nodes { id databaseId body path line startLine }
+                    nodes { id databaseId body path line startLine subjectType }
                 }
               }
             }
@@ -2598,7 +3741,16 @@ function createGitHubStore() {
     owner: string,
     repo: string,
     number: number,
-    options: { path: string; line: number; body: string; startLine?: number }
+    options: {
+      path: string;
+      line: number;
+      body: string;
+      startLine?: number;
+      // Defaults to the PR head
+      commitId?: string;
+      // "file" comments on the whole file, ignoring the lines
+      subjectType?: "line" | "file";
+    }
   ): Promise<{
     reviewId: string;
     commentId: string;
@@ -2613,6 +3765,39 @@ function createGitHubStore() {
       { owner, repo, number }
     );
 
+    // Only review threads can be on a whole file
+    if (options.subjectType === "file") {
+      const data = await batcher.query<{
+        addPullRequestReviewThread: {
+          thread: {
+            comments: {
+              nodes: Array<{
+                id: string;
+                databaseId: number;
+                pullRequestReview: { id: string };
+              }>;
+            };
+          };
+        };
+      }>(
+        `mutation ($input: AddPullRequestReviewThreadInput!) { addPullRequestReviewThread(input: $input) { thread { comments(first: 1) { nodes { id databaseId pullRequestReview { id } } } } } }`,
+        {
+          input: {
+            pullRequestId: prData.repository.pullRequest.id,
+            path: options.path,
+            body: options.body,
+            subjectType: "FILE",
+          },
+        }
+      );
+      const [comment] = data.addPullRequestReviewThread.thread.comments.nodes;
+      return {
+        reviewId: comment.pullRequestReview.id,
+        commentId: comment.id,
+        commentDatabaseId: comment.databaseId,
+      };
+    }
+
     const input: Record<string, unknown> = {
       pullRequestId: prData.repository.pullRequest.id,
       path: options.path,
@@ -2624,6 +3809,10 @@ function createGitHubStore() {
       input.startLine = options.startLine;
     }
 
+    if (options.commitId) {
+      input.commitOID = options.commitId;
+    }
+
     const data = await batcher.query<{
       addPullRequestReviewComment: {
         comment: {
@@ -2674,6 +3863,24 @@ function createGitHubStore() {
       { input: { pullRequestReviewId: reviewId, event, body: body ?? "" } }
     );
   }
+  /**
+   * Submit the viewer's pending review without knowing its ID up front.
+   * Used when the review's comments were queued offline, so the review
+   * didn't exist yet when the submission was made.
+   */
+  async function submitViewerPendingReview(
+    owner: string,
+    repo: string,
+    number: number,
+    event: "APPROVE" | "REQUEST_CHANGES" | "COMMENT",
+    body?: string
+  ): Promise<void> {
+    const review = await getPendingReview(owner, repo, number);
+    if (!review) {
+      throw new WriteConflictError("There is no pending review to submit");
+    }
+    await submitPendingReview(review.id, event, body);
+  }
 
   async function updateComment(
     owner: string,
@@ -2731,19 +3938,330 @@ function createGitHubStore() {
     return promise;
   }
 
+  // ---------------------------------------------------------------------------
+  // Offline Outbox
+  // ---------------------------------------------------------------------------
+
+  // Writes that can't reach GitHub are persisted and replayed in order once
+  // we're back online. Callers get a QueuedWriteError so they can show the
+  // change as queued instead of failed.
+
+  const queueableWrites = {
+    addPendingComment,
+    submitPendingReview,
+    submitViewerPendingReview,
+    createPRConversationComment,
+    addIssueReaction,
+    deleteIssueReaction,
+    addCommentReaction,
+    deleteCommentReaction,
+    addReviewCommentReaction,
+    deleteReviewCommentReaction,
+    resolveThread,
+    unresolveThread,
+    markFileAsViewed,
+    unmarkFileAsViewed,
+  };
+
+  type QueueableWrite = keyof typeof queueableWrites;
+
+  // Writes that set state rather than create something, so sending them
+  // twice is harmless. Others may have reached GitHub before the connection
+  // dropped, and replaying them would create a duplicate.
+  const idempotentWrites = new Set<QueueableWrite>([
+    "resolveThread",
+    "unresolveThread",
+    "markFileAsViewed",
+    "unmarkFileAsViewed",
+  ]);
+
+  type OutboxOperation = {
+    [K in QueueableWrite]: {
+      type: K;
+      args: Parameters<(typeof queueableWrites)[K]>;
+    };
+  }[QueueableWrite];
+
+  const outbox = new Outbox<OutboxOperation>(
+    `pulldash_outbox:${cacheNamespace}`
+  );
+  const replayListeners = new Set<
+    (entry: OutboxEntry<OutboxOperation>, result: unknown) => void
+  >();
+
+  function describeOperation(op: OutboxOperation): string {
+    switch (op.type) {
+      case "addPendingComment":
+        return op.args[3].subjectType === "file"
+          ? `Comment on ${op.args[3].path}`
+          : `Comment on ${op.args[3].path}:${op.args[3].line}`;
+      case "submitPendingReview":
+        return "Submit review";
+      case "submitViewerPendingReview":
+        return `Submit review on #${op.args[2]}`;
+      case "createPRConversationComment":
+        return `Comment on #${op.args[2]}`;
+      case "addIssueReaction":
+      case "addCommentReaction":
+      case "addReviewCommentReaction":
+        return `Add ${op.args[3]} reaction`;
+      case "deleteIssueReaction":
+      case "deleteCommentReaction":
+      case "deleteReviewCommentReaction":
+        return "Remove reaction";
+      case "resolveThread":
+        return "Resolve thread";
+      case "unresolveThread":
+        return "Unresolve thread";
+      case "markFileAsViewed":
+        return `Mark ${op.args[1]} as viewed`;
+      case "unmarkFileAsViewed":
+        return `Unmark ${op.args[1]} as viewed`;
+    }
+  }
+
+  function hasQueuedWrites() {
+    return outbox
+      .getEntries()
+      .some((e) => e.status === "queued" || e.status === "replaying");
+  }
+
+  function enqueueWrite(op: OutboxOperation): never {
+    const label = describeOperation(op);
+    const entry = outbox.add(op, label);
+    if (!isOffline()) replayOutbox();
+    throw new QueuedWriteError(entry.id, label);
+  }
+
+  // Wrap a write so it's queued when offline, or when earlier writes are
+  // still waiting (so writes are always applied in order). A write that fails
+  // mid-flight is only queued if it's safe to send again or the browser
+  // knows it never left.
+  function queueable<K extends QueueableWrite>(
+    type: K
+  ): (typeof queueableWrites)[K] {
+    const write = queueableWrites[type] as (
+      ...args: unknown[]
+    ) => Promise<unknown>;
+    const queued = async (...args: unknown[]) => {
+      const op = { type, args } as OutboxOperation;
+      if (isOffline() || hasQueuedWrites()) enqueueWrite(op);
+      try {
+        return await write(...args);
+      } catch (error) {
+        const neverSent =
+          typeof navigator !== "undefined" && navigator.onLine === false;
+        if (
+          isNetworkError(error) &&
+          (idempotentWrites.has(type) || neverSent)
+        ) {
+          enqueueWrite(op);
+        }
+        throw error;
+      }
+    };
+    return queued as (typeof queueableWrites)[K];
+  }
+
+  async function getThreadResolved(threadId: string): Promise<boolean> {
+    const data = await graphql<{ node: { isResolved: boolean } | null }>(
+      `
+        query ($id: ID!) {
+          node(id: $id) {
+            ... on PullRequestReviewThread {
+              isResolved
+            }
+          }
+        }
+      `,
+      { id: threadId }
+    );
+    if (!data.node) {
+      throw new WriteConflictError("The thread no longer exists");
+    }
+    return data.node.isResolved;
+  }
+
+  async function replayOperation(op: OutboxOperation): Promise<unknown> {
+    // Someone may have resolved or unresolved the thread in the meantime
+    if (op.type === "resolveThread" || op.type === "unresolveThread") {
+      const isResolved = await getThreadResolved(op.args[0]);
+      if (isResolved === (op.type === "resolveThread")) return undefined;
+    }
+    const write = queueableWrites[op.type] as (
+      ...args: unknown[]
+    ) => Promise<unknown>;
+    return write(...op.args);
+  }
+
+  async function replayOutbox() {
+    if (!octokit || isOffline()) return;
+    await outbox.replay(replayOperation, (entry, result) =>
+      replayListeners.forEach((l) => l(entry, result))
+    );
+  }
+
+  function getOutboxEntries() {
+    return outbox.getEntries();
+  }
+
+  function subscribeOutbox(listener: Listener) {
+    return outbox.subscribe(listener);
+  }
+
+  /**
+   * Listen for queued writes that were successfully replayed, e.g. to attach
+   * the IDs of a queued pending comment once it's created.
+   */
+  function onOutboxReplayed(
+    listener: (entry: OutboxEntry<OutboxOperation>, result: unknown) => void
+  ) {
+    replayListeners.add(listener);
+    return () => {
+      replayListeners.delete(listener);
+    };
+  }
+
+  function retryOutboxEntry(id: string) {
+    outbox.update(id, {
+      status: "queued",
+      error: undefined,
+      attempts: undefined,
+    });
+    replayOutbox();
+  }
+
+  function discardOutboxEntry(id: string) {
+    outbox.remove(id);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Live Events
+  // ---------------------------------------------------------------------------
+
+  const liveListeners = new Set<(event: LiveEvent) => void>();
+
+  function isInPRList(owner: string, repo: string, number: number) {
+    const repoPath = `/repos/${owner}/${repo}`.toLowerCase();
+    return state.prList.items.some(
+      (item) =>
+        item.number === number &&
+        item.repository_url.toLowerCase().endsWith(repoPath)
+    );
+  }
+
+  /**
+   * Apply a webhook event pushed by the server: expire exactly the cached
+   * data it affects, refresh list state that shows it, and let open views
+   * refetch their slice.
+   */
+  function applyLiveEvent(event: LiveEvent) {
+    if (!state.ready) return;
+    const { owner, repo, number, sha } = event;
+    const prKey =
+      number !== undefined ? `pr:${repoCacheKey(owner, repo)}/${number}` : null;
+
+    switch (event.kind) {
+      case "pull_request":
+        // Pushes, edits and state changes can touch anything on the PR
+        if (prKey) cache.expire(prKey);
+        break;
+      case "review":
+        if (prKey) {
+          cache.expire(`${prKey}:reviews`);
+          cache.expire(`${prKey}:timeline`);
+        }
+        break;
+      case "review_comment":
+        if (prKey) cache.expire(`${prKey}:comments`);
+        break;
+      case "issue_comment":
+        if (prKey) {
+          cache.expire(`${prKey}:conversation`);
+          cache.expire(`${prKey}:timeline`);
+        }
+        break;
+      case "checks":
+        if (sha) {
+          cache.expire(`checks:${repoCacheKey(owner, repo)}/${sha}`);
+          cache.expire(`workflow-runs:${repoCacheKey(owner, repo)}/${sha}`);
+        }
+        break;
+      case "review_thread":
+        // Threads come from GraphQL and aren't cached
+        break;
+    }
+
+    if (number !== undefined) {
+      // Check badges also reflect review decisions and new pushes
+      if (
+        event.kind !== "review_comment" &&
+        event.kind !== "review_thread" &&
+        event.kind !== "issue_comment" &&
+        state.prChecks.has(getPRCheckKey(owner, repo, number))
+      ) {
+        fetchPRChecks(owner, repo, number, "background");
+      }
+      if (
+        (event.kind === "pull_request" || event.kind === "review") &&
+        isInPRList(owner, repo, number)
+      ) {
+        cache.expire("search:prs");
+        cache.expire("prlist");
+        refreshPRList();
+      }
+    }
+
+    liveListeners.forEach((l) => l(event));
+  }
+
+  /**
+   * Listen for live events, e.g. to refetch the parts of an open PR that
+   * changed.
+   */
+  function onLiveEvent(listener: (event: LiveEvent) => void) {
+    liveListeners.add(listener);
+    return () => {
+      liveListeners.delete(listener);
+    };
+  }
+
   function invalidateCache(pattern?: string) {
     cache.invalidate(pattern);
   }
 
+  function getRateLimitBudgets() {
+    return scheduler.getBudgets();
+  }
+
+  function subscribeRateLimit(listener: Listener) {
+    return scheduler.subscribe(listener);
+  }
+
   return {
     // State
     getState,
     subscribe,
     initialize,
     initializeAnonymous,
+    getHost,
+    isAuthenticated,
     reset,
     setOnUnauthorized,
     setOnRateLimited,
+    getRateLimitBudgets,
+    subscribeRateLimit,
+    setOffline,
+    // Offline outbox
+    getOutboxEntries,
+    subscribeOutbox,
+    onOutboxReplayed,
+    replayOutbox,
+    retryOutboxEntry,
+    discardOutboxEntry,
+    // Live events
+    applyLiveEvent,
+    onLiveEvent,
     // State actions
     fetchPRList,
     refreshPRList,
@@ -2756,6 +4274,8 @@ function createGitHubStore() {
     searchUsers,
     getPR,
     getPRFiles,
+    getCompareFiles,
+    isAncestor,
     getPRComments,
     createPRComment,
     getPRReviews,
@@ -2768,7 +4288,7 @@ function createGitHubStore() {
     mergePR,
     getPRCommits,
     getPRConversation,
-    createPRConversationComment,
+    createPRConversationComment: queueable("createPRConversationComment"),
     getPRTimeline,
     getFileContent,
     requestReviewers,
@@ -2782,32 +4302,39 @@ function createGitHubStore() {
     convertToDraft,
     markReadyForReview,
     updateBranch,
+    commitFileChanges,
     closePR,
     reopenPR,
     deleteBranch,
     restoreBranch,
     // Reactions
     getIssueReactions,
-    addIssueReaction,
-    deleteIssueReaction,
+    addIssueReaction: queueable("addIssueReaction"),
+    deleteIssueReaction: queueable("deleteIssueReaction"),
     getCommentReactions,
-    addCommentReaction,
-    deleteCommentReaction,
+    addCommentReaction: queueable("addCommentReaction"),
+    deleteCommentReaction: queueable("deleteCommentReaction"),
     // Review comment reactions
     getReviewCommentReactions,
-    addReviewCommentReaction,
-    deleteReviewCommentReaction,
+    addReviewCommentReaction: queueable("addReviewCommentReaction"),
+    deleteReviewCommentReaction: queueable("deleteReviewCommentReaction"),
     // GraphQL
     graphql,
     getPREnrichment,
     getReviewThreads,
-    resolveThread,
-    unresolveThread,
+    getPRHeadSha,
+    resolveThread: queueable("resolveThread"),
+    unresolveThread: queueable("unresolveThread"),
+    getFileViewedStates,
+    getPRRevisions,
+    markFileAsViewed: queueable("markFileAsViewed"),
+    unmarkFileAsViewed: queueable("unmarkFileAsViewed"),
     getPendingReview,
-    addPendingComment,
+    addPendingComment: queueable("addPendingComment"),
     deletePendingComment,
     updatePendingComment,
-    submitPendingReview,
+    submitPendingReview: queueable("submitPendingReview"),
+    submitViewerPendingReview: queueable("submitViewerPendingReview"),
     updateComment,
     deleteComment,
     getUserProfile,
@@ -2823,42 +4350,118 @@ export type GitHubStore = ReturnType<typeof createGitHubStore>;
 
 const GitHubContext = createContext<GitHubStore | null>(null);
 
+interface GitHubAccountStores {
+  // Store for a signed-in account (created on first use)
+  getStoreForAccount: (accountId: string) => GitHubStore;
+}
+
+const GitHubAccountStoresContext = createContext<GitHubAccountStores | null>(
+  null
+);
+
 // ============================================================================
 // Provider
 // ============================================================================
 
-export function GitHubProvider({ children }: { children: ReactNode }) {
-  const { token, isAuthenticated, isAnonymous, logout, setRateLimited } =
-    useAuth();
-  const storeRef = useRef<GitHubStore | null>(null);
-
-  if (!storeRef.current) {
-    storeRef.current = createGitHubStore();
-  }
+// Store used when signed out or browsing anonymously
+const ANONYMOUS_STORE_KEY = "anonymous";
 
-  const store = storeRef.current;
+export function GitHubProvider({ children }: { children: ReactNode }) {
+  const {
+    accounts,
+    activeAccount,
+    isAnonymous,
+    signInHost,
+    removeAccount,
+    setAccountLogin,
+    setRateLimited,
+  } = useAuth();
+  const storesRef = useRef<Map<string, GitHubStore>>(new Map());
+
+  // Latest auth callbacks, read by store handlers created earlier
+  const callbacksRef = useRef({ removeAccount, setRateLimited });
+  callbacksRef.current = { removeAccount, setRateLimited };
+
+  // One store per account, so each account keeps its own client and cache
+  const getStore = useCallback((key: string) => {
+    let store = storesRef.current.get(key);
+    if (!store) {
+      store = createGitHubStore(key);
+      // Log the account out when its token is revoked
+      if (key !== ANONYMOUS_STORE_KEY) {
+        store.setOnUnauthorized(() => callbacksRef.current.removeAccount(key));
+      }
+      store.setOnRateLimited(() => callbacksRef.current.setRateLimited(true));
+      storesRef.current.set(key, store);
+    }
+    return store;
+  }, []);
 
-  // Set up unauthorized handler to logout when token is revoked
-  useEffect(() => {
-    store.setOnUnauthorized(logout);
-  }, [store, logout]);
+  const store = getStore(activeAccount?.id ?? ANONYMOUS_STORE_KEY);
 
-  // Set up rate limit handler
-  useEffect(() => {
-    store.setOnRateLimited(() => setRateLimited(true));
-  }, [store, setRateLimited]);
+  const accountStores = useMemo<GitHubAccountStores>(
+    () => ({ getStoreForAccount: getStore }),
+    [getStore]
+  );
 
-  // Initialize/reset when token or anonymous mode changes
+  // Initialize/reset when the active account, anonymous mode or host changes
   useEffect(() => {
-    if (isAuthenticated && token) {
-      store.initialize(token);
+    if (activeAccount) {
+      store.initialize(activeAccount.token, activeAccount.host);
     } else if (isAnonymous) {
       // Initialize in anonymous mode (no token, limited to public repos)
-      store.initializeAnonymous();
+      store.initializeAnonymous(signInHost);
     } else {
       store.reset();
     }
-  }, [store, token, isAuthenticated, isAnonymous]);
+  }, [store, activeAccount, isAnonymous, signInHost]);
+
+  // Drop stores for accounts that were signed out
+  useEffect(() => {
+    for (const [key, accountStore] of storesRef.current) {
+      if (
+        key !== ANONYMOUS_STORE_KEY &&
+        !accounts.some((account) => account.id === key)
+      ) {
+        accountStore.reset();
+        storesRef.current.delete(key);
+      }
+    }
+  }, [accounts]);
+
+  // Record the login of the active account once the user is fetched
+  useEffect(() => {
+    if (!activeAccount) return;
+    const syncLogin = () => {
+      const login = store.getState().currentUser?.login;
+      if (login && login !== activeAccount.login) {
+        setAccountLogin(activeAccount.id, login);
+      }
+    };
+    syncLogin();
+    const unsubscribe = store.subscribe(syncLogin);
+    return () => {
+      unsubscribe();
+    };
+  }, [store, activeAccount, setAccountLogin]);
+
+  // Track connectivity for every account, so each can queue writes while
+  // offline and replay them once the connection is back
+  useEffect(() => {
+    const setOffline = (offline: boolean) => {
+      for (const accountStore of storesRef.current.values()) {
+        accountStore.setOffline(offline);
+      }
+    };
+    const handleOnline = () => setOffline(false);
+    const handleOffline = () => setOffline(true);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, []);
 
   // Auto-refresh PR list every 60 seconds
   useEffect(() => {
@@ -2880,6 +4483,50 @@ export function GitHubProvider({ children }: { children: ReactNode }) {
     return () => clearInterval(interval);
   }, [store]);
 
+  return (
+    <GitHubAccountStoresContext.Provider value={accountStores}>
+      <GitHubContext.Provider value={store}>{children}</GitHubContext.Provider>
+    </GitHubAccountStoresContext.Provider>
+  );
+}
+
+// ============================================================================
+// Account Scope - Use a specific account's store for a subtree
+// ============================================================================
+
+/**
+ * Provides the store for the given account to its children, so a PR tab
+ * keeps using the account that opened it after the active account changes.
+ * Falls back to the active account's store if the account is unknown.
+ */
+export function GitHubAccountScope({
+  accountId,
+  children,
+}: {
+  accountId?: string;
+  children: ReactNode;
+}) {
+  const { accounts } = useAuth();
+  const accountStores = useContext(GitHubAccountStoresContext);
+  if (!accountStores) {
+    throw new Error("GitHubAccountScope must be used within GitHubProvider");
+  }
+
+  const account = accountId
+    ? accounts.find((a) => a.id === accountId)
+    : undefined;
+  const store = account ? accountStores.getStoreForAccount(account.id) : null;
+
+  useEffect(() => {
+    if (store && account) {
+      store.initialize(account.token, account.host);
+    }
+  }, [store, account]);
+
+  if (!store) {
+    return <>{children}</>;
+  }
+
   return (
     <GitHubContext.Provider value={store}>{children}</GitHubContext.Provider>
   );
@@ -2913,10 +4560,50 @@ export function useGitHubReady() {
   return { ready, error };
 }
 
+/**
+ * Web URL of the host this store talks to (e.g. "https://github.com"), for
+ * links and avatars.
+ */
+export function useGitHubWebUrl(): string {
+  const store = useGitHubStore();
+  // Read on every state change, so it follows initialize() with a new host
+  return useGitHubSelector(() => getWebUrl(store.getHost()));
+}
+
 export function useCurrentUser(): CurrentUserData | null {
   return useGitHubSelector((s) => s.currentUser);
 }
 
+export function useRateLimitBudgets(): RateLimitBudgets {
+  const store = useGitHubStore();
+  return useSyncExternalStore(
+    store.subscribeRateLimit,
+    store.getRateLimitBudgets,
+    store.getRateLimitBudgets
+  );
+}
+
+export function useOfflineState() {
+  const offline = useGitHubSelector((s) => s.offline);
+  const dataAsOf = useGitHubSelector((s) => s.offlineDataAsOf);
+  return { offline, dataAsOf };
+}
+
+export function useOutbox() {
+  const store = useGitHubStore();
+  const entries = useSyncExternalStore(
+    store.subscribeOutbox,
+    store.getOutboxEntries,
+    store.getOutboxEntries
+  );
+  return {
+    entries,
+    retry: store.retryOutboxEntry,
+    discard: store.discardOutboxEntry,
+    replay: store.replayOutbox,
+  };
+}
+
 export function usePRList() {
   return useGitHubSelector((s) => s.prList);
 }
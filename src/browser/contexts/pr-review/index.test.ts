@@ -1,7 +1,14 @@
 import { test, expect, beforeEach } from "bun:test";
 import type { PullRequest, PullRequestFile, ReviewComment } from "@/api/types";
-import { PRReviewStore, sortFilesLikeTree } from "./index";
-import type { GitHubStore } from "@/browser/contexts/github";
+import {
+  PRReviewStore,
+  sortFilesLikeTree,
+  getScopedCommit,
+  getCommentDiffLine,
+  type LocalPendingComment,
+} from "./index";
+import type { GitHubStore, Review } from "@/browser/contexts/github";
+import { fillTemplate } from "@/browser/lib/saved-replies";
 
 // Mock localStorage
 const storage = new Map<string, string>();
@@ -32,6 +39,8 @@ function createMockGitHubStore(): GitHubStore {
       viewerCanMergeAsAdmin: false,
     }),
     invalidateCache: () => {},
+    isAncestor: async () => true,
+    isAuthenticated: () => false,
     getPR: async () => createMockPR(),
     mergePR: async () => ({ merged: true }),
     closePR: async () => {},
@@ -276,6 +285,70 @@ test("toggleViewedMultiple marks multiple files", () => {
   expect(viewedFiles.has("src/utils.ts")).toBe(true);
 });
 
+test("files changed since being viewed are un-viewed and visited first", () => {
+  const viewed = createStore();
+  viewed.toggleViewedMultiple(["src/index.ts", "README.md"]);
+
+  const store = createStore({
+    files: [
+      createMockFile("src/index.ts"),
+      createMockFile("src/utils.ts"),
+      { ...createMockFile("README.md"), sha: "rewritten" },
+    ],
+  });
+
+  const { viewedFiles, changedSinceViewed } = store.getSnapshot();
+  expect([...viewedFiles]).toEqual(["src/index.ts"]);
+  expect([...changedSinceViewed]).toEqual(["README.md"]);
+
+  store.navigateToNextUnviewedFile();
+  expect(store.getSnapshot().selectedFile).toBe("README.md");
+
+  store.toggleViewed("README.md");
+  expect(store.getSnapshot().changedSinceViewed.size).toBe(0);
+});
+
+test("loadViewedFiles adopts GitHub's viewed state and toggles write back", async () => {
+  const writes: string[] = [];
+  const github = {
+    ...createMockGitHubStore(),
+    isAuthenticated: () => true,
+    getFileViewedStates: async () => ({
+      "src/index.ts": "VIEWED",
+      "src/utils.ts": "DISMISSED",
+      "README.md": "UNVIEWED",
+    }),
+    markFileAsViewed: async (_id: string, path: string) => {
+      writes.push(`mark ${path}`);
+    },
+    unmarkFileAsViewed: async (_id: string, path: string) => {
+      writes.push(`unmark ${path}`);
+    },
+  } as unknown as GitHubStore;
+  storage.set("pr-test-repo-1-viewed", JSON.stringify(["README.md"]));
+  const store = new PRReviewStore(github, {
+    pr: createMockPR(),
+    files: [
+      createMockFile("src/index.ts"),
+      createMockFile("src/utils.ts"),
+      createMockFile("README.md"),
+    ],
+    comments: [],
+    owner: "test",
+    repo: "repo",
+    viewerPermission: "WRITE",
+  });
+
+  await store.loadViewedFiles();
+
+  expect([...store.getSnapshot().viewedFiles]).toEqual(["src/index.ts"]);
+
+  store.markFolderViewed("src", ["src/index.ts", "src/utils.ts"], true);
+  store.toggleViewed("src/index.ts");
+
+  expect(writes).toEqual(["mark src/utils.ts", "unmark src/index.ts"]);
+});
+
 // ============================================================================
 // Line Selection
 // ============================================================================
@@ -391,6 +464,345 @@ test("removePendingComment removes comment and focuses line", () => {
   expect(state.focusedLine).toBe(10);
 });
 
+test("syncPendingComments adds unsynced comments to the pending review", async () => {
+  const added: Array<{ path: string; subjectType?: string }> = [];
+  const github = {
+    ...createMockGitHubStore(),
+    addPendingComment: async (
+      _owner: string,
+      _repo: string,
+      _number: number,
+      options: { path: string; subjectType?: string }
+    ) => {
+      if (options.path === "README.md") throw new Error("Unprocessable");
+      added.push(options);
+      return {
+        reviewId: "review-1",
+        commentId: `node-${added.length}`,
+        commentDatabaseId: added.length,
+      };
+    },
+  } as unknown as GitHubStore;
+  const store = new PRReviewStore(github, {
+    pr: createMockPR(),
+    files: [createMockFile("src/index.ts"), createMockFile("README.md")],
+    comments: [],
+    owner: "test",
+    repo: "repo",
+    viewerPermission: "WRITE",
+  });
+  const comment = (id: string, path: string): LocalPendingComment => ({
+    id,
+    path,
+    line: 1,
+    body: "Pending",
+    side: "RIGHT",
+  });
+  store.addPendingComment(comment("line", "src/index.ts"));
+  store.addPendingComment({
+    ...comment("file", "src/index.ts"),
+    subject_type: "file",
+  });
+  store.addPendingComment({
+    ...comment("outdated", "gone.ts"),
+    outdated: true,
+  });
+  store.addPendingComment(comment("failing", "README.md"));
+
+  await expect(store.syncPendingComments()).rejects.toThrow("Unprocessable");
+
+  // Comments added before the failure keep their IDs for the next attempt
+  const { pendingComments } = store.getSnapshot();
+  expect(added).toMatchObject([
+    { path: "src/index.ts" },
+    { path: "src/index.ts", subjectType: "file" },
+  ]);
+  expect(pendingComments.map((c) => c.nodeId)).toEqual([
+    "node-1",
+    "node-2",
+    undefined,
+    undefined,
+  ]);
+  expect(store.getPendingReviewNodeId()).toBe("review-1");
+});
+
+test("startFileComment comments on the whole file", () => {
+  const store = createStore();
+
+  store.startFileComment("src/utils.ts");
+  expect(store.getSnapshot().selectedFile).toBe("src/utils.ts");
+  expect(store.getSnapshot().commentingOnFile).toBe("src/utils.ts");
+
+  store.addPendingComment({
+    id: "local-1",
+    path: "src/utils.ts",
+    line: 0,
+    body: "Please split this module",
+    side: "RIGHT",
+    subject_type: "file",
+  });
+  expect(store.getSnapshot().commentingOnFile).toBeNull();
+
+  store.removePendingComment("local-1");
+  expect(store.getSnapshot().focusedLine).toBeNull();
+});
+
+test("a draft review exported as JSON imports back, flagging lost anchors", async () => {
+  const exporter = createStore();
+  exporter.setReviewBody("Looks close");
+  const comment = (id: string, path: string, line: number) => ({
+    id,
+    path,
+    line,
+    body: `Comment ${id}`,
+    side: "RIGHT" as const,
+  });
+  exporter.addPendingComment(comment("a", "src/index.ts", 2));
+  exporter.addPendingComment({
+    ...comment("b", "README.md", 0),
+    subject_type: "file",
+  });
+  exporter.addPendingComment(comment("c", "src/utils.ts", 9));
+
+  const review = exporter.exportDraftReview();
+  expect(review.comments[0]).toMatchObject({
+    line: 2,
+    startLine: null,
+    diffHunk: "@@ -1,1 +1,2 @@\n line1\n+added",
+  });
+  expect(review.comments[1]).toMatchObject({ line: null, diffHunk: null });
+  expect(review.comments[2].diffHunk).toBeNull();
+
+  storage.clear();
+  const importer = createStore();
+  expect(await importer.importDraftReview(review)).toEqual({
+    imported: 3,
+    outdated: 1,
+  });
+  const state = importer.getSnapshot();
+  expect(state.reviewBody).toBe("Looks close");
+  expect(state.pendingComments.map((c) => [c.path, c.outdated])).toEqual([
+    ["src/utils.ts", true],
+    ["src/index.ts", undefined],
+    ["README.md", undefined],
+  ]);
+
+  // Already pending comments aren't duplicated
+  expect(await importer.importDraftReview(review)).toEqual({
+    imported: 0,
+    outdated: 0,
+  });
+  await expect(
+    importer.importDraftReview({ ...review, number: 2 })
+  ).rejects.toThrow("test/repo#2");
+});
+
+test("outdated threads stay off the diff until they can be located", async () => {
+  const github = {
+    ...createMockGitHubStore(),
+    getFileContent: async () => {
+      throw new Error("Not Found");
+    },
+  } as unknown as GitHubStore;
+  const outdated = (id: number, side: "LEFT" | "RIGHT") =>
+    ({
+      ...createMockComment(id, "src/index.ts", 0),
+      line: null,
+      original_line: 2,
+      original_commit_id: "old123",
+      side,
+    }) as unknown as ReviewComment;
+  const current = createMockComment(3, "src/index.ts", 3);
+  const store = new PRReviewStore(github, {
+    pr: createMockPR(),
+    files: [createMockFile("src/index.ts")],
+    comments: [outdated(1, "RIGHT"), outdated(2, "LEFT"), current],
+    owner: "test",
+    repo: "repo",
+    viewerPermission: "WRITE",
+  });
+
+  expect(getCommentDiffLine(outdated(1, "RIGHT"), null)).toBeNull();
+  expect(getCommentDiffLine(outdated(1, "RIGHT"), "old123")).toBe(2);
+  expect(getCommentDiffLine(current, null)).toBe(3);
+
+  await Promise.all([
+    store.locateOutdatedThread(1),
+    store.locateOutdatedThread(2),
+  ]);
+  const { outdatedThreadLocations, locatingOutdatedThreads } =
+    store.getSnapshot();
+  // The file couldn't be read at the original commit
+  expect(outdatedThreadLocations[1]).toBeNull();
+  // Removed lines aren't in the head
+  expect(outdatedThreadLocations[2]).toBeNull();
+  expect(locatingOutdatedThreads.size).toBe(0);
+});
+
+test("n/p navigation walks unresolved threads across files", () => {
+  const comment = (id: number, path: string, line: number) => ({
+    ...createMockComment(id, path, line),
+    pull_request_review_thread_id: `thread_${id}`,
+  });
+  const store = createStore({
+    comments: [
+      comment(1, "src/utils.ts", 2),
+      { ...comment(2, "src/index.ts", 3), is_resolved: true },
+      comment(3, "src/index.ts", 1),
+      { ...comment(4, "src/index.ts", 1), in_reply_to_id: 3 },
+      comment(5, "README.md", 1),
+    ],
+  });
+  const focused = () => {
+    const { selectedFile, focusedCommentId } = store.getSnapshot();
+    return [selectedFile, focusedCommentId];
+  };
+
+  // From the overview, files are in tree order
+  store.navigateToThread("next");
+  expect(focused()).toEqual(["src/index.ts", 3]);
+  store.navigateToThread("next");
+  expect(focused()).toEqual(["src/utils.ts", 1]);
+  store.navigateToThread("next");
+  expect(focused()).toEqual(["README.md", 5]);
+  store.navigateToThread("next");
+  expect(focused()).toEqual(["src/index.ts", 3]);
+
+  // A reply is in its thread
+  store.setFocusedCommentId(4);
+  store.navigateToThread("prev");
+  expect(focused()).toEqual(["README.md", 5]);
+
+  // Without a focused thread, the focused line is the starting point
+  store.selectFile("src/utils.ts");
+  store.setFocusedLine(3);
+  store.navigateToThread("prev");
+  expect(focused()).toEqual(["src/utils.ts", 1]);
+});
+
+test("resolveThreads resolves threads in bulk and reports failures", async () => {
+  const github = {
+    ...createMockGitHubStore(),
+    resolveThread: async (threadId: string) => {
+      if (threadId === "thread_2") throw new Error("Forbidden");
+    },
+  } as unknown as GitHubStore;
+  const store = new PRReviewStore(github, {
+    pr: createMockPR(),
+    files: [createMockFile("src/index.ts")],
+    comments: [1, 2, 3].map((id) => ({
+      ...createMockComment(id, "src/index.ts", id),
+      pull_request_review_thread_id: `thread_${id}`,
+    })),
+    owner: "test",
+    repo: "repo",
+    viewerPermission: "WRITE",
+  });
+  store.setReviewThreads(
+    [1, 2, 3].map((id) => ({
+      id: `thread_${id}`,
+      isResolved: false,
+      resolvedBy: null,
+      pullRequestReview: null,
+      comments: { nodes: [] },
+    }))
+  );
+
+  const pending = store.resolveThreads(["thread_1", "thread_2"]);
+  expect([...store.getSnapshot().resolvingThreads]).toEqual([
+    "thread_1",
+    "thread_2",
+  ]);
+  // Threads already being resolved aren't sent twice
+  expect(await store.resolveThreads(["thread_1"])).toEqual([]);
+
+  expect(await pending).toEqual(["thread_2"]);
+  const state = store.getSnapshot();
+  expect(state.resolvingThreads.size).toBe(0);
+  expect(state.reviewThreads.map((t) => t.isResolved)).toEqual([
+    true,
+    false,
+    false,
+  ]);
+  expect(state.comments.map((c) => c.is_resolved ?? false)).toEqual([
+    true,
+    false,
+    false,
+  ]);
+});
+
+test("saved reply templates leave inherited properties alone", () => {
+  expect(
+    fillTemplate("{{constructor}} {{toString}} {{author}}", {
+      author: "octocat",
+    })
+  ).toBe("{{constructor}} {{toString}} octocat");
+});
+
+test("saved reply templates are filled from the comment being written", () => {
+  const store = createStore({
+    comments: [createMockComment(7, "src/utils.ts", 3)],
+  });
+  store.setCurrentUser("reviewer");
+  const template =
+    "@{{author}}: {{file}}:{{line}} in {{repo}}#{{number}} {{x}}";
+
+  expect(fillTemplate(template, store.getTemplateVariables())).toBe(
+    "@testuser: {{file}}:{{line}} in test/repo#1 {{x}}"
+  );
+
+  store.selectFile("src/index.ts");
+  store.startCommenting(4, 2);
+  expect(fillTemplate(template, store.getTemplateVariables())).toBe(
+    "@testuser: src/index.ts:2-4 in test/repo#1 {{x}}"
+  );
+
+  store.cancelCommenting();
+  store.startReplying(7);
+  expect(store.getTemplateVariables()).toMatchObject({
+    file: "src/utils.ts",
+    line: "3",
+    reviewer: "reviewer",
+  });
+});
+
+test("undo and redo revert viewed toggles and pending comment edits", () => {
+  const store = createStore();
+  store.selectFile("src/index.ts");
+
+  store.markFolderViewed("src", ["src/index.ts", "src/utils.ts"], true);
+  store.addPendingComment({
+    id: "local-1",
+    path: "src/index.ts",
+    line: 10,
+    body: "Test comment",
+    side: "RIGHT",
+  });
+  store.updatePendingCommentBody("local-1", "Edited");
+  store.removePendingComment("local-1");
+
+  store.undo();
+  expect(store.getSnapshot().pendingComments[0].body).toBe("Edited");
+  store.undo();
+  expect(store.getSnapshot().pendingComments[0].body).toBe("Test comment");
+  store.undo();
+  expect(store.getSnapshot().pendingComments).toHaveLength(0);
+  store.undo();
+  expect(store.getSnapshot().viewedFiles.size).toBe(0);
+  store.undo();
+
+  store.redo();
+  expect(store.getSnapshot().viewedFiles.size).toBe(2);
+  store.redo();
+  store.redo();
+  expect(store.getSnapshot().pendingComments[0].body).toBe("Edited");
+
+  // A new change drops what's left to redo
+  store.setReviewBody("LGTM");
+  store.redo();
+  expect(store.getSnapshot().pendingComments).toHaveLength(1);
+});
+
 // ============================================================================
 // Comments
 // ============================================================================
@@ -688,3 +1100,462 @@ test("clearOverviewScrollTarget clears the target", () => {
 
   expect(store.getSnapshot().overviewScrollTarget).toBeNull();
 });
+
+// ============================================================================
+// New Changes
+// ============================================================================
+
+function createStoreWithNewPush() {
+  const pushedPR = createMockPR({
+    head: { ref: "feature", sha: "new789" },
+  } as Partial<PullRequest>);
+  const pushedFiles = [
+    { ...createMockFile("src/index.ts"), sha: "changed" },
+    createMockFile("src/utils.ts"),
+    createMockFile("src/added.ts"),
+  ];
+  const github = {
+    ...createMockGitHubStore(),
+    getPRHeadSha: async () => "new789",
+    getPR: async () => pushedPR,
+    getPRFiles: async () => pushedFiles,
+    getPRComments: async () => [],
+  } as unknown as GitHubStore;
+
+  return new PRReviewStore(github, {
+    pr: createMockPR(),
+    files: [
+      createMockFile("src/index.ts"),
+      createMockFile("src/utils.ts"),
+      createMockFile("README.md"),
+    ],
+    comments: [],
+    owner: "test",
+    repo: "repo",
+    viewerPermission: "WRITE",
+  });
+}
+
+test("checkForNewChanges lists files changed by a new push", async () => {
+  const store = createStoreWithNewPush();
+
+  await store.checkForNewChanges();
+
+  const { newChanges, pr } = store.getSnapshot();
+  expect(pr.head.sha).toBe("abc123");
+  expect(newChanges?.pr.head.sha).toBe("new789");
+  expect(newChanges?.changedFiles).toEqual([
+    "src/added.ts",
+    "src/index.ts",
+    "README.md",
+  ]);
+});
+
+test("applyNewChanges keeps viewed state, unchanged diffs and pending comments", async () => {
+  const store = createStoreWithNewPush();
+  store.toggleViewed("src/utils.ts");
+  store.setLoadedDiff("src/utils.ts", { hunks: [] });
+  store.setLoadedDiff("src/index.ts", { hunks: [] });
+  store.addPendingComment({
+    id: "local-1",
+    path: "src/utils.ts",
+    line: 2,
+    body: "Pending",
+    side: "RIGHT",
+  });
+
+  await store.checkForNewChanges();
+  await store.applyNewChanges();
+
+  const state = store.getSnapshot();
+  expect(state.newChanges).toBeNull();
+  expect(state.pr.head.sha).toBe("new789");
+  expect(state.files.map((f) => f.filename)).toContain("src/added.ts");
+  expect(state.viewedFiles.has("src/utils.ts")).toBe(true);
+  expect(state.loadedDiffs["src/utils.ts"]).toBeDefined();
+  expect(state.loadedDiffs["src/index.ts"]).toBeUndefined();
+  expect(state.pendingComments).toHaveLength(1);
+  expect(state.pendingComments[0].line).toBe(2);
+});
+
+test("applyNewChanges takes outdated pending comments off GitHub's review", async () => {
+  const pushedPR = createMockPR({
+    head: { ref: "feature", sha: "new789" },
+  } as Partial<PullRequest>);
+  const added: string[] = [];
+  const deleted: string[] = [];
+  const github = {
+    ...createMockGitHubStore(),
+    isAuthenticated: () => true,
+    getPRHeadSha: async () => "new789",
+    getPR: async () => pushedPR,
+    getPRFiles: async () => [
+      { ...createMockFile("src/index.ts"), sha: "changed" },
+      createMockFile("src/utils.ts"),
+    ],
+    getPRComments: async () => [],
+    getFileContent: async () => {
+      throw new Error("Not found");
+    },
+    addPendingComment: async (
+      _owner: string,
+      _repo: string,
+      _number: number,
+      options: { path: string }
+    ) => {
+      added.push(options.path);
+      return {
+        reviewId: "review-1",
+        commentId: `node-${options.path}`,
+        commentDatabaseId: added.length,
+      };
+    },
+    deletePendingComment: async (commentId: string) => {
+      deleted.push(commentId);
+    },
+  } as unknown as GitHubStore;
+  const store = new PRReviewStore(github, {
+    pr: createMockPR(),
+    files: [
+      createMockFile("src/index.ts"),
+      createMockFile("src/utils.ts"),
+      createMockFile("README.md"),
+    ],
+    comments: [],
+    owner: "test",
+    repo: "repo",
+    viewerPermission: "WRITE",
+  });
+  for (const path of ["src/index.ts", "src/utils.ts", "README.md"]) {
+    store.addPendingComment({
+      id: `local-${path}`,
+      path,
+      line: 2,
+      body: "Pending",
+      side: "RIGHT",
+    });
+  }
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  expect(store.getSnapshot().pendingComments.every((c) => c.nodeId)).toBe(true);
+
+  await store.checkForNewChanges();
+  await store.applyNewChanges();
+
+  // The changed file's old content can't be loaded and README.md is gone
+  const comments = store.getSnapshot().pendingComments;
+  const byPath = (path: string) => comments.find((c) => c.path === path)!;
+  expect(deleted.sort()).toEqual(["node-README.md", "node-src/index.ts"]);
+  expect(added).toHaveLength(3);
+  expect(byPath("src/index.ts")).toMatchObject({
+    outdated: true,
+    nodeId: undefined,
+  });
+  expect(byPath("README.md")).toMatchObject({
+    outdated: true,
+    nodeId: undefined,
+  });
+  expect(byPath("src/utils.ts").nodeId).toBe("node-src/utils.ts");
+});
+
+// ============================================================================
+// Changes Since Last Review
+// ============================================================================
+
+test("showChangesSinceLastReview narrows files to the interdiff and toggles back", async () => {
+  const compared: string[] = [];
+  const github = {
+    ...createMockGitHubStore(),
+    getCompareFiles: async (_o: string, _r: string, base: string) => {
+      compared.push(base);
+      return [createMockFile("src/utils.ts")];
+    },
+  } as unknown as GitHubStore;
+  const store = new PRReviewStore(github, {
+    pr: createMockPR(),
+    files: [
+      createMockFile("src/index.ts"),
+      createMockFile("src/utils.ts"),
+      createMockFile("README.md"),
+    ],
+    comments: [],
+    owner: "test",
+    repo: "repo",
+    viewerPermission: "WRITE",
+  });
+  store.setCurrentUser("me");
+  store.setReviews([
+    {
+      user: { login: "me" },
+      state: "COMMENTED",
+      commit_id: "old111",
+      submitted_at: "2024-01-01T00:00:00Z",
+    },
+    {
+      user: { login: "me" },
+      state: "APPROVED",
+      commit_id: "old222",
+      submitted_at: "2024-01-02T00:00:00Z",
+    },
+    {
+      user: { login: "someone" },
+      state: "APPROVED",
+      commit_id: "old333",
+      submitted_at: "2024-01-03T00:00:00Z",
+    },
+  ] as unknown as Review[]);
+  store.selectFile("README.md");
+
+  await store.showChangesSinceLastReview();
+
+  let state = store.getSnapshot();
+  expect(compared).toEqual(["old222"]);
+  expect(state.diffScope?.base).toBe("old222");
+  expect(state.files.map((f) => f.filename)).toEqual(["src/utils.ts"]);
+  expect(state.selectedFile).toBe("src/utils.ts");
+
+  store.toggleChangesSinceLastReview();
+
+  state = store.getSnapshot();
+  expect(state.diffScope).toBeNull();
+  expect(state.files).toHaveLength(3);
+  expect(state.selectedFile).toBe("src/utils.ts");
+});
+
+test("showChangesSinceLastReview diffs revisions when the reviewed commit was force-pushed away", async () => {
+  const compared: string[] = [];
+  const github = {
+    ...createMockGitHubStore(),
+    isAncestor: async () => false,
+    getCompareFiles: async (
+      _o: string,
+      _r: string,
+      base: string,
+      head: string
+    ) => {
+      compared.push(`${base}...${head}`);
+      return [
+        { ...createMockFile("same.ts"), sha: "blob1" },
+        { ...createMockFile("logo.png"), sha: `logo-${head}` },
+      ];
+    },
+    getFileContent: async (
+      _o: string,
+      _r: string,
+      path: string,
+      ref: string
+    ) => (path === "logo.png" ? `\0${ref}` : "unchanged"),
+  } as unknown as GitHubStore;
+  const store = new PRReviewStore(github, {
+    pr: createMockPR(),
+    files: [createMockFile("same.ts"), createMockFile("logo.png")],
+    comments: [],
+    owner: "test",
+    repo: "repo",
+    viewerPermission: "WRITE",
+  });
+  store.setCurrentUser("me");
+  store.setReviews([
+    {
+      user: { login: "me" },
+      state: "COMMENTED",
+      commit_id: "rebased",
+      submitted_at: "2024-01-01T00:00:00Z",
+    },
+  ] as unknown as Review[]);
+
+  await store.showChangesSinceLastReview();
+
+  const state = store.getSnapshot();
+  // Each revision is compared to the PR base, never to each other
+  expect(compared.sort()).toEqual(["def456...abc123", "def456...rebased"]);
+  expect(state.diffScope).toMatchObject({
+    kind: "since-last-review",
+    base: "rebased",
+    rewritten: true,
+  });
+  expect(state.files.map((f) => f.filename)).toEqual(["logo.png"]);
+  expect(state.loadedDiffs["logo.png"]).toEqual({ hunks: [] });
+
+  store.selectFile("logo.png");
+  store.startCommenting(1);
+  expect(store.getSnapshot().commentingOnLine).toBeNull();
+});
+
+test("showCommits diffs a contiguous commit range from the first commit's parent", async () => {
+  const compared: string[] = [];
+  const github = {
+    ...createMockGitHubStore(),
+    getCompareFiles: async (
+      _o: string,
+      _r: string,
+      base: string,
+      head: string
+    ) => {
+      compared.push(`${base}...${head}`);
+      return [createMockFile("README.md")];
+    },
+    getPRCommits: async () => [
+      { sha: "c1", parents: [{ sha: "c0" }] },
+      { sha: "c2", parents: [{ sha: "c1" }] },
+      { sha: "c3", parents: [{ sha: "c2" }] },
+    ],
+  } as unknown as GitHubStore;
+  const store = new PRReviewStore(github, {
+    pr: createMockPR(),
+    files: [createMockFile("src/index.ts"), createMockFile("README.md")],
+    comments: [],
+    owner: "test",
+    repo: "repo",
+    viewerPermission: "WRITE",
+  });
+  await store.loadPRData();
+
+  await store.showCommits(["c3", "c2"]);
+
+  const state = store.getSnapshot();
+  expect(compared).toEqual(["c1...c3"]);
+  expect(state.diffScope?.commits).toEqual(["c2", "c3"]);
+  expect(getScopedCommit(state)).toBe("c3");
+});
+
+test("showForcePush diffs the files either revision changes", async () => {
+  const github = {
+    ...createMockGitHubStore(),
+    getPRRevisions: async () => [
+      { sha: "rev1", pushedAt: null, pushedBy: null },
+      { sha: "rev2", pushedAt: "2024-01-02T00:00:00Z", pushedBy: "author" },
+    ],
+    getCompareFiles: async (
+      _o: string,
+      _r: string,
+      _b: string,
+      head: string
+    ) =>
+      head === "rev1"
+        ? [
+            { ...createMockFile("same.ts"), sha: "blob1" },
+            { ...createMockFile("reverted.ts"), sha: "blob2" },
+            { ...createMockFile("logo.png"), sha: "blob3" },
+          ]
+        : [
+            { ...createMockFile("same.ts"), sha: "blob1" },
+            { ...createMockFile("logo.png"), sha: "blob4" },
+          ],
+    getFileContent: async (
+      _o: string,
+      _r: string,
+      path: string,
+      ref: string
+    ) => (path === "logo.png" ? `\0${ref}` : "unchanged"),
+  } as unknown as GitHubStore;
+  const store = new PRReviewStore(github, {
+    pr: createMockPR(),
+    files: [createMockFile("src/index.ts")],
+    comments: [],
+    owner: "test",
+    repo: "repo",
+    viewerPermission: "WRITE",
+  });
+
+  await store.showForcePush("rev2");
+
+  const state = store.getSnapshot();
+  expect(state.diffScope).toMatchObject({
+    kind: "revisions",
+    base: "rev1",
+    head: "rev2",
+  });
+  expect(state.files.map((f) => f.filename)).toEqual(["logo.png"]);
+  expect(state.loadedDiffs["logo.png"]).toEqual({ hunks: [] });
+
+  store.selectFile("logo.png");
+  store.startCommenting(1);
+  expect(store.getSnapshot().commentingOnLine).toBeNull();
+});
+
+test("applySuggestions commits selected suggestions to the head repo", async () => {
+  const commits: Array<{
+    owner: string;
+    repo: string;
+    branch: string;
+    parent: string;
+    message: string;
+    files: Array<{ path: string; content: string }>;
+  }> = [];
+  const github = {
+    ...createMockGitHubStore(),
+    getPRHeadSha: async () => "abc123",
+    getFileContent: async (_o: string, _r: string, path: string) =>
+      path === "src/index.ts" ? "one\ntwo\nthree\nfour\n" : "a\r\nb\r\n",
+    commitFileChanges: async (
+      owner: string,
+      repo: string,
+      branch: string,
+      parent: string,
+      message: string,
+      files: Array<{ path: string; content: string }>
+    ) => {
+      commits.push({ owner, repo, branch, parent, message, files });
+      return { sha: "new123" };
+    },
+  } as unknown as GitHubStore;
+  const suggest = (
+    id: number,
+    path: string,
+    line: number,
+    body: string,
+    startLine?: number
+  ) => ({
+    ...createMockComment(id, path, line),
+    start_line: startLine ?? null,
+    side: "RIGHT" as const,
+    body,
+  });
+  const store = new PRReviewStore(github, {
+    pr: createMockPR({
+      head: {
+        ref: "feature",
+        sha: "abc123",
+        repo: { name: "fork", owner: { login: "contributor" } },
+      },
+    } as Partial<PullRequest>),
+    files: [createMockFile("src/index.ts"), createMockFile("README.md")],
+    comments: [
+      suggest(1, "src/index.ts", 3, "```suggestion\nTWO\nTHREE\n```", 2),
+      suggest(2, "src/index.ts", 4, "Drop this\n```suggestion\n```"),
+      suggest(3, "README.md", 1, "````suggestion\nA\n````"),
+      createMockComment(4, "README.md", 2),
+    ],
+    owner: "test",
+    repo: "repo",
+    viewerPermission: "WRITE",
+  });
+
+  store.toggleSuggestionSelected(1);
+  store.toggleSuggestionSelected(2);
+  store.toggleSuggestionSelected(3);
+  expect(await store.applySuggestions([1, 2, 3])).toBe(true);
+
+  expect(commits).toEqual([
+    {
+      owner: "contributor",
+      repo: "fork",
+      branch: "feature",
+      parent: "abc123",
+      message: "Apply suggestions from code review",
+      files: [
+        { path: "src/index.ts", content: "one\nTWO\nTHREE\n" },
+        { path: "README.md", content: "A\r\nb\r\n" },
+      ],
+    },
+  ]);
+  const state = store.getSnapshot();
+  expect(state.selectedSuggestions.size).toBe(0);
+  expect([...state.appliedSuggestions]).toEqual([1, 2, 3]);
+
+  // Applied suggestions and comments without one can't be applied
+  expect(await store.applySuggestions([1])).toBe(false);
+  expect(await store.applySuggestions([4])).toBe(false);
+  expect(store.getSnapshot().suggestionError).not.toBeNull();
+  expect(commits).toHaveLength(1);
+});
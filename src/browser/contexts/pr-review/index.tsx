@@ -13,11 +13,14 @@ import type {
   ReviewComment,
   PendingReviewComment,
 } from "@/api/types";
+import { getWebUrl } from "@/api/github-host";
 import {
   MentionSuggestionsProvider,
+  TemplateVariablesProvider,
   type MentionUser,
 } from "@/browser/ui/markdown";
 import {
+  repoCacheKey,
   type GitHubStore,
   type Review,
   type IssueComment,
@@ -26,7 +29,23 @@ import {
   type PRCommit,
   type TimelineEvent,
   type ReviewThread,
+  type PRRevision,
 } from "@/browser/contexts/github";
+import { diffService } from "@/browser/lib/diff";
+import { isQueuedWrite } from "@/browser/lib/outbox";
+import {
+  applyLineEdits,
+  getSuggestion,
+  type LineEdit,
+} from "@/browser/lib/suggestions";
+import {
+  getDiffHunk,
+  getPatchLines,
+  REVIEW_EXPORT_FORMAT,
+  REVIEW_EXPORT_VERSION,
+  type ReviewExport,
+} from "@/browser/lib/review-export";
+import type { TemplateVariables } from "@/browser/lib/saved-replies";
 
 // ============================================================================
 // File Sorting (match file tree order)
@@ -67,6 +86,92 @@ export function sortFilesLikeTree<T extends { filename: string }>(
   });
 }
 
+/**
+ * Files whose diff differs between two versions of a PR's file list,
+ * including files that were added or dropped.
+ */
+function getChangedFiles(
+  oldFiles: PullRequestFile[],
+  newFiles: PullRequestFile[]
+): string[] {
+  const remaining = new Map(oldFiles.map((f) => [f.filename, f]));
+  const changed = new Set<string>();
+  for (const file of newFiles) {
+    const old = remaining.get(file.filename);
+    if (
+      !old ||
+      old.sha !== file.sha ||
+      old.patch !== file.patch ||
+      // Files listed without a sha are only known by their head commit
+      (!file.sha && old.blob_url !== file.blob_url)
+    ) {
+      changed.add(file.filename);
+    }
+    remaining.delete(file.filename);
+  }
+  for (const filename of remaining.keys()) {
+    changed.add(filename);
+  }
+  return sortFilesLikeTree([...changed].map((filename) => ({ filename }))).map(
+    (f) => f.filename
+  );
+}
+
+// ============================================================================
+// Omitted Patches
+// ============================================================================
+
+// GitHub leaves out `patch` for large diffs. Those are computed from the
+// file contents instead, and past this many changed lines only once the
+// user asks for it.
+export const LARGE_DIFF_CHANGES = 5_000;
+
+/**
+ * Whether a file has textual changes GitHub didn't include a patch for.
+ * Binary files and pure renames have no changed lines.
+ */
+export function isPatchOmitted(file: PullRequestFile): boolean {
+  return !file.patch && file.changes > 0;
+}
+
+/**
+ * Whether a file was renamed (or copied) from a path GitHub didn't say. Only
+ * files beyond the listing limit can be, and their diff shows them as added.
+ */
+export function isUnknownRename(file: PullRequestFile): boolean {
+  return (
+    (file.status === "renamed" || file.status === "copied") &&
+    !file.previous_filename
+  );
+}
+
+function isBinaryContent(content: string): boolean {
+  return content.includes("\0");
+}
+
+// ============================================================================
+// Viewed Versions
+// ============================================================================
+
+// FNV-1a, enough to tell two patches apart
+function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+}
+
+/**
+ * Identifies a file's contents, so a file marked viewed can be un-viewed
+ * when they change. Null when there's nothing to compare.
+ */
+export function getFileVersion(file: PullRequestFile): string | null {
+  if (file.sha) return file.sha;
+  return file.patch ? `patch:${hashString(file.patch)}` : null;
+}
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -77,6 +182,193 @@ export interface LocalPendingComment extends PendingReviewComment {
   nodeId?: string;
   // Database ID (for REST API compatibility)
   databaseId?: number;
+  // Outbox entry, while the comment is queued to be sent once back online
+  outboxId?: string;
+  // The commented lines changed in a later push and couldn't be re-anchored
+  outdated?: boolean;
+  // Commit the comment was made on, when not the PR head
+  commit_id?: string;
+}
+
+/**
+ * Whether a comment is on the whole file rather than on lines.
+ */
+export function isFileComment(comment: {
+  subject_type?: "line" | "file";
+}): boolean {
+  return comment.subject_type === "file";
+}
+
+/**
+ * Whether a comment's lines changed in a later push, so it no longer has a
+ * line in the PR's diff.
+ */
+export function isOutdatedComment(comment: {
+  line?: number | null;
+  subject_type?: "line" | "file";
+}): boolean {
+  return comment.line == null && !isFileComment(comment);
+}
+
+/**
+ * Line a comment is shown on in the diff, or null when it isn't shown there:
+ * outdated comments are listed apart, and a commit scope only shows the
+ * comments made on that commit.
+ */
+export function getCommentDiffLine(
+  comment: ReviewComment,
+  scopedCommit: string | null
+): number | null {
+  if (scopedCommit) {
+    return comment.original_commit_id === scopedCommit
+      ? (comment.original_line ?? null)
+      : null;
+  }
+  return comment.line ?? null;
+}
+
+// Where a thread is shown in its file: comments on the whole file and
+// outdated threads come before the diff. Null if it isn't shown.
+function getThreadPosition(
+  comment: ReviewComment,
+  scopedCommit: string | null
+): number | null {
+  if (isFileComment(comment)) return -2;
+  if (isOutdatedComment(comment) && !scopedCommit) return -1;
+  return getCommentDiffLine(comment, scopedCommit);
+}
+
+/**
+ * Unresolved threads in the order they're shown, across files. Each is given
+ * by the comment that started it.
+ */
+export function getUnresolvedThreads(state: {
+  comments: ReviewComment[];
+  files: PullRequestFile[];
+  diffScope: DiffScope | null;
+  pr: PullRequest;
+}): ReviewComment[] {
+  const scopedCommit = getScopedCommit(state);
+  const fileIndex = new Map(state.files.map((f, i) => [f.filename, i]));
+  const threads: Array<{
+    comment: ReviewComment;
+    file: number;
+    position: number;
+  }> = [];
+
+  for (const comment of state.comments) {
+    if (comment.in_reply_to_id || comment.is_resolved) continue;
+    const file = fileIndex.get(comment.path);
+    const position = getThreadPosition(comment, scopedCommit);
+    if (file === undefined || position === null) continue;
+    threads.push({ comment, file, position });
+  }
+
+  return threads
+    .sort(
+      (a, b) =>
+        a.file - b.file ||
+        a.position - b.position ||
+        a.comment.id - b.comment.id
+    )
+    .map((t) => t.comment);
+}
+
+export interface CommentSuggestion extends LineEdit {
+  path: string;
+}
+
+/**
+ * The edit a comment's suggested change makes to the PR head, or null if it
+ * has none (or it's on removed or outdated lines, which can't be applied).
+ */
+export function getCommentSuggestion(
+  comment: ReviewComment
+): CommentSuggestion | null {
+  if (comment.line == null || comment.side === "LEFT") return null;
+  const lines = getSuggestion(comment.body);
+  if (!lines) return null;
+  return {
+    path: comment.path,
+    startLine: comment.start_line ?? comment.line,
+    endLine: comment.line,
+    lines,
+  };
+}
+
+// A change that undo/redo can revert and reapply
+interface HistoryEntry {
+  undo: () => void;
+  redo: () => void;
+}
+
+const MAX_HISTORY = 100;
+const REVIEW_BODY_BURST_MS = 1_000;
+
+// A push made while reviewing, waiting for the reviewer to pick it up
+export interface NewChanges {
+  pr: PullRequest;
+  files: PullRequestFile[];
+  // Files added, removed or modified since the loaded head
+  changedFiles: string[];
+}
+
+// Part of the PR's history shown instead of the whole PR
+export interface DiffScope {
+  kind: "since-last-review" | "commits" | "revisions";
+  // Commit the diff starts from instead of the PR base
+  base: string;
+  // Commit the diff ends at; new comments are anchored to it
+  head: string;
+  // Reviewed commits, oldest first (for "commits")
+  commits?: string[];
+  // The base was force-pushed away, so the diff is between the two
+  // revisions (for "since-last-review")
+  rewritten?: boolean;
+}
+
+/**
+ * Whether the diff is between two revisions of the PR rather than part of
+ * it. Its lines don't map onto the PR's diff, so they can't be commented on.
+ */
+export function isRevisionDiffScope(diffScope: DiffScope | null): boolean {
+  return diffScope?.kind === "revisions" || !!diffScope?.rewritten;
+}
+
+/**
+ * Commit that comments are anchored to when it isn't the PR head, i.e. while
+ * reviewing a range of older commits.
+ */
+export function getScopedCommit(state: {
+  diffScope: DiffScope | null;
+  pr: PullRequest;
+}): string | null {
+  const head = state.diffScope?.head;
+  return head && head !== state.pr.head.sha ? head : null;
+}
+
+/**
+ * Head commit at the current user's latest submitted review.
+ */
+export function getLastReviewedCommit(state: {
+  reviews: Review[];
+  currentUser: string | null;
+}): string | null {
+  let latest: Review | null = null;
+  for (const review of state.reviews) {
+    if (
+      review.user?.login !== state.currentUser ||
+      review.state === "PENDING" ||
+      !review.commit_id ||
+      !review.submitted_at
+    ) {
+      continue;
+    }
+    if (!latest || review.submitted_at > latest.submitted_at!) {
+      latest = review;
+    }
+  }
+  return latest?.commit_id ?? null;
 }
 
 interface LineSegment {
@@ -114,6 +406,14 @@ export interface CommentingOnLine {
   startLine?: number;
 }
 
+// Where an outdated thread's lines are in the PR head
+export interface OutdatedThreadLocation {
+  line: number;
+  startLine: number;
+  // The lines with some context, as a unified diff hunk
+  diffHunk: string;
+}
+
 // ============================================================================
 // Store State
 // ============================================================================
@@ -161,6 +461,8 @@ interface PRReviewState {
   // PR data (fetched after initial load)
   reviews: Review[];
   reviewThreads: ReviewThread[];
+  // Threads being resolved from the conversations panel
+  resolvingThreads: Set<string>;
   timeline: TimelineEvent[];
   conversation: IssueComment[];
   commits: PRCommit[];
@@ -169,6 +471,25 @@ interface PRReviewState {
   workflowRunsAwaitingApproval: WorkflowRunAwaitingApproval[];
   branchDeleted: boolean;
 
+  // Pushes made since the PR was loaded
+  newChanges: NewChanges | null;
+  applyingNewChanges: boolean;
+
+  // Set while showing part of the PR's history; `files` then only has the
+  // files changed within it
+  diffScope: DiffScope | null;
+  loadingDiffScope: boolean;
+  // Heads the PR has had, loaded when the revision picker is opened
+  revisions: PRRevision[] | null;
+  loadingRevisions: boolean;
+
+  // Suggested changes picked to be applied together, by comment ID
+  selectedSuggestions: Set<number>;
+  // Applied this session; the comments only turn outdated once refetched
+  appliedSuggestions: Set<number>;
+  applyingSuggestions: boolean;
+  suggestionError: string | null;
+
   // Loading states
   loading: boolean;
   loadingChecks: boolean;
@@ -199,11 +520,15 @@ interface PRReviewState {
 
   // Viewed files
   viewedFiles: Set<string>;
+  // Un-viewed because their contents changed after being marked viewed
+  changedSinceViewed: Set<string>;
   hideViewed: boolean;
 
   // Diffs
   loadedDiffs: Record<string, ParsedDiff>;
   loadingFiles: Set<string>;
+  // Large files without a patch that the user asked to diff anyway
+  requestedLargeDiffs: Set<string>;
   // Map of "filename:skipIndex" -> expanded lines content
   expandedSkipBlocks: Record<string, DiffLine[]>;
   expandingSkipBlocks: Set<string>;
@@ -219,6 +544,8 @@ interface PRReviewState {
   selectionAnchorSide: "old" | "new" | null;
   focusedSkipBlockIndex: number | null; // Index of focused skip block for keyboard navigation
   commentingOnLine: CommentingOnLine | null;
+  // File a whole-file comment is being written on
+  commentingOnFile: string | null;
   gotoLineMode: boolean;
   gotoLineInput: string;
   gotoLineSide: "old" | "new"; // Which side to target in goto mode
@@ -234,6 +561,10 @@ interface PRReviewState {
   focusedPendingCommentId: string | null;
   editingPendingCommentId: string | null;
 
+  // Outdated threads, by root comment ID. Null if the lines are gone.
+  outdatedThreadLocations: Record<number, OutdatedThreadLocation | null>;
+  locatingOutdatedThreads: Set<number>;
+
   // Review
   pendingReviewId: number | null;
   reviewBody: string;
@@ -274,6 +605,18 @@ export class PRReviewStore {
   private github: GitHubStore;
   // Track recently approved workflow IDs to filter out stale API responses
   private recentlyApprovedWorkflowIds = new Set<number>();
+  // Viewed changes GitHub hasn't confirmed yet, so a load that was in flight
+  // when they were made doesn't revert them
+  private unsyncedViewed = new Map<string, boolean>();
+  // Version of each file when it was marked viewed
+  private viewedVersions: Record<string, string> = {};
+  // The PR's own file list while an interdiff replaces it
+  private prFiles: PullRequestFile[] | null = null;
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+  // Review body edits in quick succession are undone as one
+  private reviewBodyBurst: { entry: HistoryEntry; editedAt: number } | null =
+    null;
 
   constructor(
     github: GitHubStore,
@@ -300,6 +643,12 @@ export class PRReviewStore {
       if (stored) {
         viewedFiles = new Set(JSON.parse(stored));
       }
+      const versions = localStorage.getItem(
+        `${this.storageKey}-viewed-versions`
+      );
+      if (versions) {
+        this.viewedVersions = JSON.parse(versions);
+      }
     } catch {}
 
     // Load pending comments from localStorage
@@ -321,6 +670,10 @@ export class PRReviewStore {
     // Sort files to match file tree order (folders first, then alphabetically)
     const sortedFiles = sortFilesLikeTree(initialState.files);
 
+    // Files may have changed since they were marked viewed
+    const viewed = this.reconcileViewedFiles(sortedFiles, viewedFiles);
+    this.persistViewedFiles(viewed.viewedFiles);
+
     this.state = {
       ...initialState,
       files: sortedFiles,
@@ -329,6 +682,7 @@ export class PRReviewStore {
       // PR data (loaded separately)
       reviews: [],
       reviewThreads: [],
+      resolvingThreads: new Set(),
       timeline: [],
       conversation: [],
       commits: [],
@@ -336,6 +690,16 @@ export class PRReviewStore {
       checksLastUpdated: null,
       workflowRunsAwaitingApproval: [],
       branchDeleted: false,
+      newChanges: null,
+      applyingNewChanges: false,
+      diffScope: null,
+      loadingDiffScope: false,
+      revisions: null,
+      loadingRevisions: false,
+      selectedSuggestions: new Set(),
+      appliedSuggestions: new Set(),
+      applyingSuggestions: false,
+      suggestionError: null,
 
       // Loading states
       loading: true,
@@ -360,11 +724,13 @@ export class PRReviewStore {
       selectedFiles: new Set(),
       showOverview: true,
       overviewScrollTarget: null,
-      viewedFiles,
+      viewedFiles: viewed.viewedFiles,
+      changedSinceViewed: viewed.changedSinceViewed,
       hideViewed: true,
       diffViewMode,
       loadedDiffs: {},
       loadingFiles: new Set(),
+      requestedLargeDiffs: new Set(),
       expandedSkipBlocks: {},
       expandingSkipBlocks: new Set(),
       navigableItems: {},
@@ -375,6 +741,7 @@ export class PRReviewStore {
       selectionAnchorSide: null,
       focusedSkipBlockIndex: null,
       commentingOnLine: null,
+      commentingOnFile: null,
       gotoLineMode: false,
       gotoLineInput: "",
       gotoLineSide: "new",
@@ -383,6 +750,8 @@ export class PRReviewStore {
       replyingToCommentId: null,
       focusedPendingCommentId: null,
       editingPendingCommentId: null,
+      outdatedThreadLocations: {},
+      locatingOutdatedThreads: new Set(),
       pendingReviewId: null,
       pendingComments,
       reviewBody,
@@ -528,34 +897,49 @@ export class PRReviewStore {
     }
   };
 
+  // Files that changed since they were viewed come before other unviewed
+  // files
+  private getUnviewedTargets(): Array<(filename: string) => boolean> {
+    const { viewedFiles, changedSinceViewed, selectedFile } = this.state;
+    return [
+      (filename) =>
+        changedSinceViewed.has(filename) && filename !== selectedFile,
+      (filename) => !viewedFiles.has(filename),
+    ];
+  }
+
   navigateToNextUnviewedFile = () => {
-    const { files, selectedFile, viewedFiles } = this.state;
+    const { files, selectedFile } = this.state;
     const currentIdx = selectedFile
       ? files.findIndex((f) => f.filename === selectedFile)
       : -1;
 
     // Search forward then wrap
-    for (let i = 0; i < files.length; i++) {
-      const idx = (currentIdx + 1 + i) % files.length;
-      if (!viewedFiles.has(files[idx].filename)) {
-        this.selectFile(files[idx].filename);
-        return;
+    for (const isTarget of this.getUnviewedTargets()) {
+      for (let i = 0; i < files.length; i++) {
+        const idx = (currentIdx + 1 + i) % files.length;
+        if (isTarget(files[idx].filename)) {
+          this.selectFile(files[idx].filename);
+          return;
+        }
       }
     }
   };
 
   navigateToPrevUnviewedFile = () => {
-    const { files, selectedFile, viewedFiles } = this.state;
+    const { files, selectedFile } = this.state;
     const currentIdx = selectedFile
       ? files.findIndex((f) => f.filename === selectedFile)
       : files.length;
 
     // Search backward then wrap
-    for (let i = 0; i < files.length; i++) {
-      const idx = (currentIdx - 1 - i + files.length) % files.length;
-      if (!viewedFiles.has(files[idx].filename)) {
-        this.selectFile(files[idx].filename);
-        return;
+    for (const isTarget of this.getUnviewedTargets()) {
+      for (let i = 0; i < files.length; i++) {
+        const idx = (currentIdx - 1 - i + files.length) % files.length;
+        if (isTarget(files[idx].filename)) {
+          this.selectFile(files[idx].filename);
+          return;
+        }
       }
     }
   };
@@ -564,6 +948,70 @@ export class PRReviewStore {
     this.set({ selectedFiles: new Set() });
   };
 
+  // ---------------------------------------------------------------------------
+  // Thread Navigation
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Focus the next or previous unresolved thread, across files. Starts from
+   * the focused thread, or else from the focused line.
+   */
+  navigateToThread = (direction: "next" | "prev") => {
+    const threads = getUnresolvedThreads(this.state);
+    if (threads.length === 0) return;
+    const {
+      files,
+      comments,
+      selectedFile,
+      showOverview,
+      focusedLine,
+      focusedCommentId,
+    } = this.state;
+
+    const focused = comments.find((c) => c.id === focusedCommentId);
+    const focusedThread = focused?.in_reply_to_id ?? focused?.id;
+    let index = threads.findIndex((t) => t.id === focusedThread);
+
+    if (index !== -1) {
+      index =
+        direction === "next"
+          ? (index + 1) % threads.length
+          : (index - 1 + threads.length) % threads.length;
+    } else {
+      // Compare positions in the order the threads are in
+      const scopedCommit = getScopedCommit(this.state);
+      const file =
+        showOverview || !selectedFile
+          ? -1
+          : files.findIndex((f) => f.filename === selectedFile);
+      const line = focusedLine ?? -Infinity;
+      const compare = (thread: ReviewComment) =>
+        files.findIndex((f) => f.filename === thread.path) - file ||
+        (getThreadPosition(thread, scopedCommit) ?? 0) - line;
+
+      if (direction === "next") {
+        // A thread on the focused line is the next one
+        index = threads.findIndex((t) => compare(t) >= 0);
+        if (index === -1) index = 0;
+      } else {
+        index = threads.findLastIndex((t) => compare(t) < 0);
+        if (index === -1) index = threads.length - 1;
+      }
+    }
+
+    const thread = threads[index];
+    this.selectFile(thread.path);
+    this.set({
+      focusedCommentId: thread.id,
+      focusedLine: null,
+      focusedLineSide: null,
+      selectionAnchor: null,
+      selectionAnchorSide: null,
+      focusedSkipBlockIndex: null,
+      focusedPendingCommentId: null,
+    });
+  };
+
   // ---------------------------------------------------------------------------
   // Viewed Files Actions
   // ---------------------------------------------------------------------------
@@ -574,9 +1022,61 @@ export class PRReviewStore {
         `${this.storageKey}-viewed`,
         JSON.stringify([...viewedFiles])
       );
+      localStorage.setItem(
+        `${this.storageKey}-viewed-versions`,
+        JSON.stringify(this.viewedVersions)
+      );
     } catch {}
   }
 
+  /**
+   * Un-view files whose version differs from the one they were viewed at.
+   * Their recorded version is kept, so they stay flagged until viewed again.
+   */
+  private reconcileViewedFiles(
+    files: PullRequestFile[],
+    viewedFiles: Set<string>
+  ): { viewedFiles: Set<string>; changedSinceViewed: Set<string> } {
+    const nextViewed = new Set(viewedFiles);
+    const changedSinceViewed = new Set<string>();
+    for (const file of files) {
+      const version = getFileVersion(file);
+      if (!version) continue;
+      const viewedVersion = this.viewedVersions[file.filename];
+      if (viewedVersion === undefined) {
+        // Viewed elsewhere, or before versions were recorded
+        if (nextViewed.has(file.filename)) {
+          this.viewedVersions[file.filename] = version;
+        }
+      } else if (viewedVersion !== version) {
+        nextViewed.delete(file.filename);
+        changedSinceViewed.add(file.filename);
+      }
+    }
+    return { viewedFiles: nextViewed, changedSinceViewed };
+  }
+
+  // Apply a viewed state the user chose, recording the version of newly
+  // viewed files
+  private updateViewedFiles(
+    next: Set<string>,
+    extra: Partial<PRReviewState> = {}
+  ) {
+    const { files, viewedFiles } = this.state;
+    const changedSinceViewed = new Set(this.state.changedSinceViewed);
+    for (const file of files) {
+      if (next.has(file.filename)) {
+        const version = getFileVersion(file);
+        if (version) this.viewedVersions[file.filename] = version;
+        changedSinceViewed.delete(file.filename);
+      } else if (viewedFiles.has(file.filename)) {
+        delete this.viewedVersions[file.filename];
+      }
+    }
+    this.persistViewedFiles(next);
+    this.set({ viewedFiles: next, changedSinceViewed, ...extra });
+  }
+
   private persistPendingComments(pendingComments: LocalPendingComment[]) {
     try {
       localStorage.setItem(
@@ -603,16 +1103,116 @@ export class PRReviewStore {
     } catch {}
   }
 
-  toggleViewed = (filename: string) => {
+  /**
+   * Adopt the viewed state from GitHub's "Viewed" checkboxes. localStorage
+   * only covers the time until this loads.
+   */
+  loadViewedFiles = async (): Promise<void> => {
+    const { owner, repo, pr } = this.state;
+    if (!this.github.isAuthenticated()) return;
+
+    try {
+      const states = await this.github.getFileViewedStates(
+        owner,
+        repo,
+        pr.number
+      );
+      const next = new Set<string>();
+      const dismissed: string[] = [];
+      for (const [path, state] of Object.entries(states)) {
+        if (state === "VIEWED") {
+          next.add(path);
+        } else if (state === "DISMISSED") {
+          // GitHub un-views files that change after being viewed too
+          dismissed.push(path);
+        } else {
+          delete this.viewedVersions[path];
+        }
+      }
+      for (const [path, viewed] of this.unsyncedViewed) {
+        if (viewed) {
+          next.add(path);
+        } else {
+          next.delete(path);
+        }
+      }
+
+      // What GitHub calls viewed is viewed at the current version
+      const files = this.getPRFiles();
+      for (const file of files) {
+        const version = getFileVersion(file);
+        if (version && next.has(file.filename)) {
+          this.viewedVersions[file.filename] = version;
+        }
+      }
+      const { viewedFiles, changedSinceViewed } = this.reconcileViewedFiles(
+        files,
+        next
+      );
+      for (const path of dismissed) {
+        if (!viewedFiles.has(path)) changedSinceViewed.add(path);
+      }
+      this.persistViewedFiles(viewedFiles);
+      this.set({ viewedFiles, changedSinceViewed });
+    } catch (error) {
+      console.error("Failed to load viewed files:", error);
+    }
+  };
+
+  private syncViewed(filenames: string[], viewed: boolean) {
+    if (!this.github.isAuthenticated()) return;
+    const pullRequestId = this.state.pr.node_id;
+
+    for (const path of filenames) {
+      this.unsyncedViewed.set(path, viewed);
+      const write = viewed
+        ? this.github.markFileAsViewed(pullRequestId, path)
+        : this.github.unmarkFileAsViewed(pullRequestId, path);
+      write
+        .catch((error) => {
+          // Queued offline writes are applied once back online
+          if (!isQueuedWrite(error)) {
+            console.error("Failed to sync viewed state:", error);
+          }
+        })
+        .finally(() => {
+          if (this.unsyncedViewed.get(path) === viewed) {
+            this.unsyncedViewed.delete(path);
+          }
+        });
+    }
+  }
+
+  // Mark files viewed or not, on GitHub too
+  private setViewed(
+    filenames: string[],
+    viewed: boolean,
+    extra: Partial<PRReviewState> = {}
+  ) {
     const next = new Set(this.state.viewedFiles);
-    const wasViewed = next.has(filename);
-    if (wasViewed) {
-      next.delete(filename);
-    } else {
-      next.add(filename);
+    for (const filename of filenames) {
+      if (viewed) {
+        next.add(filename);
+      } else {
+        next.delete(filename);
+      }
     }
-    this.persistViewedFiles(next);
-    this.set({ viewedFiles: next });
+    this.updateViewedFiles(next, extra);
+    this.syncViewed(filenames, viewed);
+  }
+
+  private recordViewed(filenames: string[], viewed: boolean) {
+    if (filenames.length === 0) return;
+    this.recordHistory({
+      undo: () => this.setViewed(filenames, !viewed),
+      redo: () => this.setViewed(filenames, viewed),
+    });
+  }
+
+  toggleViewed = (filename: string) => {
+    const wasViewed = this.state.viewedFiles.has(filename);
+    this.setViewed([filename], !wasViewed);
+    this.recordViewed([filename], !wasViewed);
 
     // When marking a file as viewed, navigate to the next file
     if (!wasViewed && filename === this.state.selectedFile) {
@@ -621,18 +1221,12 @@ export class PRReviewStore {
   };
 
   toggleViewedMultiple = (filenames: string[]) => {
-    const next = new Set(this.state.viewedFiles);
-    const allViewed = filenames.every((f) => next.has(f));
+    const { viewedFiles } = this.state;
+    const allViewed = filenames.every((f) => viewedFiles.has(f));
+    const changed = filenames.filter((f) => viewedFiles.has(f) === allViewed);
 
-    for (const filename of filenames) {
-      if (allViewed) {
-        next.delete(filename);
-      } else {
-        next.add(filename);
-      }
-    }
-    this.persistViewedFiles(next);
-    this.set({ viewedFiles: next, selectedFiles: new Set() });
+    this.setViewed(changed, !allViewed, { selectedFiles: new Set() });
+    this.recordViewed(changed, !allViewed);
   };
 
   markFolderViewed = (
@@ -640,16 +1234,12 @@ export class PRReviewStore {
     filenames: string[],
     markAsViewed: boolean
   ) => {
-    const next = new Set(this.state.viewedFiles);
-    for (const filename of filenames) {
-      if (markAsViewed) {
-        next.add(filename);
-      } else {
-        next.delete(filename);
-      }
-    }
-    this.persistViewedFiles(next);
-    this.set({ viewedFiles: next });
+    const { viewedFiles } = this.state;
+    const changed = filenames.filter(
+      (f) => viewedFiles.has(f) !== markAsViewed
+    );
+    this.setViewed(changed, markAsViewed);
+    this.recordViewed(changed, markAsViewed);
   };
 
   toggleHideViewed = () => {
@@ -685,6 +1275,13 @@ export class PRReviewStore {
     this.set({ loadingFiles: next });
   };
 
+  loadLargeDiff = (filename: string) => {
+    if (this.state.requestedLargeDiffs.has(filename)) return;
+    const next = new Set(this.state.requestedLargeDiffs);
+    next.add(filename);
+    this.set({ requestedLargeDiffs: next });
+  };
+
   setLoadedDiff = (filename: string, diff: ParsedDiff) => {
     // Pre-compute navigable items for O(1) navigation (Fix 2)
     const navigableItems: NavigableItem[] = [];
@@ -1028,11 +1625,12 @@ export class PRReviewStore {
     const commentableLines = navigableLines.map((n) => n.lineNum);
 
     // Helper to get all comments for a line (sorted for thread navigation)
+    const scopedCommit = getScopedCommit(this.state);
     const getLineComments = (line: number) => {
       const lineComments = comments.filter(
         (c) =>
           c.path === selectedFile &&
-          (c.line === line || c.original_line === line)
+          getCommentDiffLine(c, scopedCommit) === line
       );
       // Sort: root comments first, then replies by ID
       return lineComments.sort((a, b) => {
@@ -1130,6 +1728,11 @@ export class PRReviewStore {
           this.set({ focusedPendingCommentId: linePending[pendingIdx - 1].id });
           return;
         }
+        // Whole-file comments sit above every line
+        if (isFileComment(focusedPending)) {
+          this.set({ focusedPendingCommentId: null });
+          return;
+        }
         // No more pending comments above, go back to line (default to 'new' side)
         this.set({
           focusedLine: pendingLine,
@@ -1150,7 +1753,7 @@ export class PRReviewStore {
         return;
       }
 
-      const commentLine = focusedComment.line ?? focusedComment.original_line;
+      const commentLine = getCommentDiffLine(focusedComment, scopedCommit);
       const lineComments = commentLine ? getLineComments(commentLine) : [];
       const commentIdx = lineComments.findIndex(
         (c) => c.id === focusedCommentId
@@ -1535,12 +2138,13 @@ export class PRReviewStore {
   };
 
   startCommenting = (line: number, startLine?: number) => {
+    if (this.isRevisionDiff()) return;
     this.set({ commentingOnLine: { line, startLine } });
   };
 
   startCommentingOnFocusedLine = () => {
     const { focusedLine, selectionAnchor } = this.state;
-    if (!focusedLine) return;
+    if (!focusedLine || this.isRevisionDiff()) return;
 
     const startLine = selectionAnchor
       ? Math.min(focusedLine, selectionAnchor)
@@ -1557,8 +2161,17 @@ export class PRReviewStore {
     });
   };
 
+  /**
+   * Start a comment on a whole file, selecting it first when needed.
+   */
+  startFileComment = (filename = this.state.selectedFile) => {
+    if (!filename || this.isRevisionDiff()) return;
+    if (filename !== this.state.selectedFile) this.selectFile(filename);
+    this.set({ commentingOnFile: filename });
+  };
+
   cancelCommenting = () => {
-    this.set({ commentingOnLine: null });
+    this.set({ commentingOnLine: null, commentingOnFile: null });
   };
 
   enterGotoMode = () => {
@@ -1781,35 +2394,189 @@ export class PRReviewStore {
   };
 
   updatePendingCommentBody = (id: string, body: string) => {
-    const pendingComments = this.state.pendingComments.map((c) =>
-      c.id === id ? { ...c, body } : c
-    );
-    this.persistPendingComments(pendingComments);
-    this.set({ pendingComments, editingPendingCommentId: null });
+    const previous = this.state.pendingComments.find((c) => c.id === id);
+    this.writePendingCommentBody(id, body);
+    if (previous && previous.body !== body) {
+      this.recordHistory({
+        undo: () => this.writePendingCommentBody(id, previous.body),
+        redo: () => this.writePendingCommentBody(id, body),
+      });
+    }
   };
 
+  /**
+   * Add a comment to the pending review, and create it on GitHub.
+   */
   addPendingComment = (comment: LocalPendingComment) => {
-    const pendingComments = [...this.state.pendingComments, comment];
-    this.persistPendingComments(pendingComments);
-    this.set({
-      pendingComments,
-      commentingOnLine: null,
-      focusedLine: null,
-      focusedLineSide: null,
-      selectionAnchor: null,
-      selectionAnchorSide: null,
-      focusedPendingCommentId: comment.id,
-      focusedCommentId: null,
+    this.insertPendingComment(comment);
+    this.recordHistory({
+      undo: () => this.deletePendingComment(comment.id),
+      redo: () => this.insertPendingComment(comment),
     });
-    this.recomputeCommentRangeLookup();
   };
 
+  /**
+   * Remove a comment from the pending review, and from GitHub.
+   */
   removePendingComment = (id: string) => {
-    // Find the comment to get its line before deleting
     const comment = this.state.pendingComments.find((c) => c.id === id);
-    const commentLine = comment?.line;
-
-    const pendingComments = this.state.pendingComments.filter(
+    this.deletePendingComment(id);
+    if (comment) {
+      this.recordHistory({
+        undo: () => this.insertPendingComment(comment),
+        redo: () => this.deletePendingComment(id),
+      });
+    }
+  };
+
+  private writePendingCommentBody(id: string, body: string) {
+    const comment = this.state.pendingComments.find((c) => c.id === id);
+    const pendingComments = this.state.pendingComments.map((c) =>
+      c.id === id ? { ...c, body } : c
+    );
+    this.persistPendingComments(pendingComments);
+    this.set({ pendingComments, editingPendingCommentId: null });
+
+    if (comment?.nodeId) {
+      this.github
+        .updatePendingComment(comment.nodeId, body)
+        .catch((error) =>
+          console.error("Failed to update comment on GitHub:", error)
+        );
+    }
+  }
+
+  // Inserted comments are (re-)created on GitHub, so any IDs they had from
+  // before they were removed are dropped
+  private insertPendingComment(comment: LocalPendingComment) {
+    const inserted: LocalPendingComment = {
+      ...comment,
+      nodeId: undefined,
+      databaseId: undefined,
+      outboxId: undefined,
+    };
+    const pendingComments = [...this.state.pendingComments, inserted];
+    this.persistPendingComments(pendingComments);
+    this.set({
+      pendingComments,
+      commentingOnLine: null,
+      commentingOnFile: null,
+      focusedLine: null,
+      focusedLineSide: null,
+      selectionAnchor: null,
+      selectionAnchorSide: null,
+      focusedPendingCommentId: comment.id,
+      focusedCommentId: null,
+    });
+    this.recomputeCommentRangeLookup();
+    this.createPendingCommentOnGitHub(inserted);
+  }
+
+  private async createPendingCommentOnGitHub(comment: LocalPendingComment) {
+    if (!this.github.isAuthenticated()) return;
+    const { owner, repo, pr } = this.state;
+    // Undone while it was being sent
+    const removed = () =>
+      !this.state.pendingComments.some((c) => c.id === comment.id);
+
+    try {
+      const result = await this.github.addPendingComment(
+        owner,
+        repo,
+        pr.number,
+        {
+          path: comment.path,
+          line: comment.line,
+          body: comment.body,
+          startLine: comment.start_line,
+          commitId: comment.commit_id,
+          subjectType: comment.subject_type,
+        }
+      );
+      if (removed()) {
+        this.deletePendingCommentOnGitHub({
+          ...comment,
+          nodeId: result.commentId,
+        });
+        return;
+      }
+      this.updatePendingCommentWithGitHubIds(
+        comment.id,
+        result.reviewId,
+        result.commentId,
+        result.commentDatabaseId
+      );
+    } catch (error) {
+      if (isQueuedWrite(error)) {
+        // Offline: the comment is sent (and gets its IDs) on replay
+        if (removed()) {
+          this.github.discardOutboxEntry(error.entryId);
+        } else {
+          this.setPendingCommentOutboxId(comment.id, error.entryId);
+        }
+        return;
+      }
+      console.error("Failed to sync pending comment to GitHub:", error);
+    }
+  }
+
+  /**
+   * Add the pending comments that aren't on GitHub's pending review yet
+   * (whose sync failed, or that were moved) to it, creating the review if
+   * needed. Throws on the first one that can't be added; the ones added
+   * before it stay on the review.
+   */
+  syncPendingComments = async (): Promise<void> => {
+    const { owner, repo, pr } = this.state;
+    for (const comment of this.state.pendingComments) {
+      if (comment.outdated || comment.nodeId || comment.outboxId) continue;
+      try {
+        const result = await this.github.addPendingComment(
+          owner,
+          repo,
+          pr.number,
+          {
+            path: comment.path,
+            line: comment.line,
+            body: comment.body,
+            startLine: comment.start_line,
+            commitId: comment.commit_id,
+            subjectType: comment.subject_type,
+          }
+        );
+        this.updatePendingCommentWithGitHubIds(
+          comment.id,
+          result.reviewId,
+          result.commentId,
+          result.commentDatabaseId
+        );
+      } catch (error) {
+        if (!isQueuedWrite(error)) throw error;
+        this.setPendingCommentOutboxId(comment.id, error.entryId);
+      }
+    }
+  };
+
+  private deletePendingCommentOnGitHub(comment: LocalPendingComment) {
+    // Never sent: just drop it from the outbox
+    if (comment.outboxId) {
+      this.github.discardOutboxEntry(comment.outboxId);
+    } else if (comment.nodeId) {
+      this.github
+        .deletePendingComment(comment.nodeId)
+        .catch((error) =>
+          console.error("Failed to delete comment from GitHub:", error)
+        );
+    }
+  }
+
+  private deletePendingComment(id: string) {
+    // Find the comment to get its line before deleting
+    const comment = this.state.pendingComments.find((c) => c.id === id);
+    const commentLine =
+      comment && !isFileComment(comment) ? comment.line : undefined;
+
+    const pendingComments = this.state.pendingComments.filter(
       (c) => c.id !== id
     );
     this.persistPendingComments(pendingComments);
@@ -1821,7 +2588,8 @@ export class PRReviewStore {
       focusedLineSide: commentLine ? "new" : null,
     });
     this.recomputeCommentRangeLookup();
-  };
+    if (comment) this.deletePendingCommentOnGitHub(comment);
+  }
 
   updatePendingCommentWithGitHubIds = (
     localId: string,
@@ -1831,7 +2599,12 @@ export class PRReviewStore {
   ) => {
     const pendingComments = this.state.pendingComments.map((c) =>
       c.id === localId
-        ? { ...c, nodeId: commentNodeId, databaseId: commentDatabaseId }
+        ? {
+            ...c,
+            nodeId: commentNodeId,
+            databaseId: commentDatabaseId,
+            outboxId: undefined,
+          }
         : c
     );
     // Also store the review node ID
@@ -1840,6 +2613,14 @@ export class PRReviewStore {
     this.set({ pendingComments });
   };
 
+  setPendingCommentOutboxId = (localId: string, outboxId: string) => {
+    const pendingComments = this.state.pendingComments.map((c) =>
+      c.id === localId ? { ...c, outboxId } : c
+    );
+    this.persistPendingComments(pendingComments);
+    this.set({ pendingComments });
+  };
+
   // Store the pending review node ID for submission
   private pendingReviewNodeId: string | null = null;
 
@@ -1860,7 +2641,9 @@ export class PRReviewStore {
   deleteComment = (commentId: number) => {
     // Find the comment to get its line before deleting
     const comment = this.state.comments.find((c) => c.id === commentId);
-    const commentLine = comment?.line ?? comment?.original_line;
+    const commentLine = comment
+      ? getCommentDiffLine(comment, getScopedCommit(this.state))
+      : null;
 
     this.set({
       comments: this.state.comments.filter((c) => c.id !== commentId),
@@ -1891,9 +2674,29 @@ export class PRReviewStore {
   };
 
   setReviewBody = (body: string) => {
+    const previous = this.state.reviewBody;
+    if (body === previous) return;
+    this.writeReviewBody(body);
+
+    const now = Date.now();
+    const burst = this.reviewBodyBurst;
+    if (burst && now - burst.editedAt < REVIEW_BODY_BURST_MS) {
+      burst.entry.redo = () => this.writeReviewBody(body);
+      burst.editedAt = now;
+      return;
+    }
+    const entry: HistoryEntry = {
+      undo: () => this.writeReviewBody(previous),
+      redo: () => this.writeReviewBody(body),
+    };
+    this.recordHistory(entry);
+    this.reviewBodyBurst = { entry, editedAt: now };
+  };
+
+  private writeReviewBody(body: string) {
     this.persistReviewBody(body);
     this.set({ reviewBody: body });
-  };
+  }
 
   openReviewPanel = () => {
     this.set({ showReviewPanel: true });
@@ -1908,6 +2711,10 @@ export class PRReviewStore {
   };
 
   clearReviewState = () => {
+    // Undoing would touch comments of the submitted review
+    this.undoStack = [];
+    this.redoStack = [];
+    this.reviewBodyBurst = null;
     this.clearPendingState();
     this.set({
       pendingComments: [],
@@ -1918,6 +2725,353 @@ export class PRReviewStore {
     });
   };
 
+  // ---------------------------------------------------------------------------
+  // Draft Review Export/Import
+  // ---------------------------------------------------------------------------
+
+  /**
+   * The review body and pending comments, with the diff each comment is on.
+   */
+  exportDraftReview = (): ReviewExport => {
+    const { owner, repo, pr, reviewBody, pendingComments } = this.state;
+    const patches = new Map(
+      this.getPRFiles().map((f) => [f.filename, f.patch])
+    );
+
+    return {
+      format: REVIEW_EXPORT_FORMAT,
+      version: REVIEW_EXPORT_VERSION,
+      owner,
+      repo,
+      number: pr.number,
+      headSha: pr.head.sha,
+      exportedAt: new Date().toISOString(),
+      body: reviewBody,
+      comments: pendingComments.map((c) => {
+        const onLines = !isFileComment(c);
+        const patch = patches.get(c.path);
+        // Lines on another commit, or that moved, don't match the patch
+        const quotable = onLines && patch && !c.commit_id && !c.outdated;
+        return {
+          path: c.path,
+          line: onLines ? c.line : null,
+          startLine: onLines ? (c.start_line ?? null) : null,
+          side: c.side,
+          body: c.body,
+          commitId: c.commit_id ?? null,
+          diffHunk: quotable
+            ? getDiffHunk(patch, c.side, c.start_line ?? c.line, c.line)
+            : null,
+        };
+      }),
+    };
+  };
+
+  /**
+   * Re-create the pending comments of a review exported from this PR.
+   * Comments whose lines no longer exist are kept but flagged outdated, and
+   * aren't sent to GitHub. Comments that are already pending are skipped.
+   */
+  importDraftReview = async (
+    review: ReviewExport
+  ): Promise<{ imported: number; outdated: number }> => {
+    const { owner, repo, pr } = this.state;
+    if (
+      review.owner !== owner ||
+      review.repo !== repo ||
+      review.number !== pr.number
+    ) {
+      throw new Error(
+        `This review is for ${review.owner}/${review.repo}#${review.number}`
+      );
+    }
+
+    const comments = (await this.anchorImportedComments(review)).filter(
+      (c) =>
+        !this.state.pendingComments.some(
+          (p) =>
+            p.path === c.path &&
+            p.side === c.side &&
+            p.line === c.line &&
+            p.start_line === c.start_line &&
+            p.body === c.body
+        )
+    );
+
+    const body = review.body.trim();
+    if (body && !this.state.reviewBody.includes(body)) {
+      const current = this.state.reviewBody.trim();
+      this.setReviewBody(current ? `${current}\n\n${body}` : body);
+    }
+
+    if (comments.length > 0) {
+      this.insertImportedComments(comments);
+      this.recordHistory({
+        undo: () => comments.forEach((c) => this.deletePendingComment(c.id)),
+        redo: () => this.insertImportedComments(comments),
+      });
+    }
+
+    return {
+      imported: comments.length,
+      outdated: comments.filter((c) => c.outdated).length,
+    };
+  };
+
+  // Outdated comments have no lines to go on, so they stay local
+  private insertImportedComments(comments: LocalPendingComment[]) {
+    const outdated = comments.filter((c) => c.outdated);
+    if (outdated.length > 0) {
+      const pendingComments = [...this.state.pendingComments, ...outdated];
+      this.persistPendingComments(pendingComments);
+      this.set({ pendingComments });
+    }
+    for (const comment of comments) {
+      if (!comment.outdated) this.insertPendingComment(comment);
+    }
+  }
+
+  // Moves comments from the exported head to the current one, flagging
+  // those whose lines are gone or no longer in the diff
+  private async anchorImportedComments(
+    review: ReviewExport
+  ): Promise<LocalPendingComment[]> {
+    const { owner, repo, pr } = this.state;
+    const files = new Map(this.getPRFiles().map((f) => [f.filename, f]));
+    const getContent = (path: string, ref: string) =>
+      this.github.getFileContent(owner, repo, path, ref).catch(() => null);
+    const stamp = Date.now();
+
+    return Promise.all(
+      review.comments.map(async (c, index) => {
+        const comment: LocalPendingComment = {
+          id: `pending-${stamp}-import-${index}`,
+          path: c.path,
+          line: c.line ?? 0,
+          start_line: c.startLine ?? undefined,
+          body: c.body,
+          side: c.side,
+          commit_id: c.commitId ?? undefined,
+          subject_type: c.line === null ? "file" : undefined,
+        };
+        const file = files.get(c.path);
+        if (!file) return { ...comment, outdated: true };
+        // Whole-file comments only need the file, and comments on an older
+        // commit stay anchored to it
+        if (c.line === null || c.commitId) return comment;
+
+        let line = c.line;
+        let startLine = c.startLine;
+        if (c.side === "RIGHT" && review.headSha !== pr.head.sha) {
+          const [oldContent, newContent] = await Promise.all([
+            getContent(c.path, review.headSha),
+            getContent(c.path, pr.head.sha),
+          ]);
+          if (oldContent === null || newContent === null) {
+            return { ...comment, outdated: true };
+          }
+          const [mappedLine, mappedStart] = await diffService.mapLines(
+            oldContent,
+            newContent,
+            [c.line, c.startLine ?? c.line]
+          );
+          if (mappedLine === null || mappedStart === null) {
+            return { ...comment, outdated: true };
+          }
+          line = mappedLine;
+          startLine = c.startLine !== null ? mappedStart : null;
+        }
+
+        // Without a patch there's nothing to check against
+        const shown = file.patch ? getPatchLines(file.patch, c.side) : null;
+        const anchored =
+          !shown || (shown.has(line) && shown.has(startLine ?? line));
+        return {
+          ...comment,
+          line,
+          start_line: startLine ?? undefined,
+          outdated: anchored ? undefined : true,
+        };
+      })
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Outdated Threads
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Find where an outdated thread's lines moved to in the PR head, by mapping
+   * them from the commit the thread was made on.
+   */
+  locateOutdatedThread = async (commentId: number) => {
+    const { owner, repo, pr, comments, outdatedThreadLocations } = this.state;
+    if (
+      commentId in outdatedThreadLocations ||
+      this.state.locatingOutdatedThreads.has(commentId)
+    ) {
+      return;
+    }
+    const comment = comments.find((c) => c.id === commentId);
+    if (!comment) return;
+
+    const setLocation = (location: OutdatedThreadLocation | null) => {
+      const locating = new Set(this.state.locatingOutdatedThreads);
+      locating.delete(commentId);
+      this.set({
+        outdatedThreadLocations: {
+          ...this.state.outdatedThreadLocations,
+          [commentId]: location,
+        },
+        locatingOutdatedThreads: locating,
+      });
+    };
+
+    const line = comment.original_line;
+    const startLine = comment.original_start_line ?? line;
+    // Removed lines have nowhere to go in the head
+    if (!line || !startLine || comment.side === "LEFT") {
+      setLocation(null);
+      return;
+    }
+
+    const locating = new Set(this.state.locatingOutdatedThreads);
+    locating.add(commentId);
+    this.set({ locatingOutdatedThreads: locating });
+
+    try {
+      const getContent = (ref: string) =>
+        this.github.getFileContent(owner, repo, comment.path, ref);
+      const [oldContent, newContent] = await Promise.all([
+        getContent(comment.original_commit_id),
+        getContent(pr.head.sha),
+      ]);
+      const [mappedLine, mappedStart] = await diffService.mapLines(
+        oldContent,
+        newContent,
+        [line, startLine]
+      );
+      if (mappedLine === null || mappedStart === null) {
+        setLocation(null);
+        return;
+      }
+
+      const lines = newContent.replace(/\r?\n$/, "").split(/\r?\n/);
+      const CONTEXT_LINES = 3;
+      const first = Math.max(1, mappedStart - CONTEXT_LINES);
+      const last = Math.min(lines.length, mappedLine + CONTEXT_LINES);
+      const count = last - first + 1;
+      setLocation({
+        line: mappedLine,
+        startLine: mappedStart,
+        diffHunk: [
+          `@@ -${first},${count} +${first},${count} @@`,
+          ...lines.slice(first - 1, last).map((l) => ` ${l}`),
+        ].join("\n"),
+      });
+    } catch (error) {
+      console.error("Failed to locate outdated thread:", error);
+      setLocation(null);
+    }
+  };
+
+  // ---------------------------------------------------------------------------
+  // Saved Reply Templates
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Values for {{variables}} in saved replies. The file and line are those of
+   * the comment being written, replied to or edited, if any.
+   */
+  getTemplateVariables = (): TemplateVariables => {
+    const {
+      owner,
+      repo,
+      pr,
+      currentUser,
+      selectedFile,
+      focusedLine,
+      commentingOnLine,
+      commentingOnFile,
+      replyingToCommentId,
+      editingPendingCommentId,
+      comments,
+      pendingComments,
+    } = this.state;
+
+    const formatLine = (line?: number | null, startLine?: number | null) => {
+      if (!line) return undefined;
+      return startLine && startLine !== line
+        ? `${startLine}-${line}`
+        : String(line);
+    };
+
+    let file: string | undefined;
+    let line: string | undefined;
+    const replyingTo =
+      replyingToCommentId !== null
+        ? comments.find((c) => c.id === replyingToCommentId)
+        : undefined;
+    const editing = editingPendingCommentId
+      ? pendingComments.find((c) => c.id === editingPendingCommentId)
+      : undefined;
+
+    if (commentingOnLine && selectedFile) {
+      file = selectedFile;
+      line = formatLine(commentingOnLine.line, commentingOnLine.startLine);
+    } else if (commentingOnFile) {
+      file = commentingOnFile;
+    } else if (replyingTo) {
+      file = replyingTo.path;
+      line = formatLine(replyingTo.line, replyingTo.start_line);
+    } else if (editing) {
+      file = editing.path;
+      line = isFileComment(editing)
+        ? undefined
+        : formatLine(editing.line, editing.start_line);
+    } else if (selectedFile) {
+      file = selectedFile;
+      line = formatLine(focusedLine);
+    }
+
+    return {
+      author: pr.user?.login,
+      reviewer: currentUser ?? undefined,
+      title: pr.title,
+      number: String(pr.number),
+      repo: `${owner}/${repo}`,
+      file,
+      line,
+    };
+  };
+
+  // ---------------------------------------------------------------------------
+  // Undo/Redo (viewed files, pending comments and the review body)
+  // ---------------------------------------------------------------------------
+
+  private recordHistory(entry: HistoryEntry) {
+    this.undoStack.push(entry);
+    if (this.undoStack.length > MAX_HISTORY) this.undoStack.shift();
+    this.redoStack = [];
+    this.reviewBodyBurst = null;
+  }
+
+  undo = () => {
+    const entry = this.undoStack.pop();
+    if (!entry) return;
+    this.reviewBodyBurst = null;
+    entry.undo();
+    this.redoStack.push(entry);
+  };
+
+  redo = () => {
+    const entry = this.redoStack.pop();
+    if (!entry) return;
+    this.reviewBodyBurst = null;
+    entry.redo();
+    this.undoStack.push(entry);
+  };
+
   // ---------------------------------------------------------------------------
   // Clear All
   // ---------------------------------------------------------------------------
@@ -2094,6 +3248,8 @@ export class PRReviewStore {
   loadPRData = async (): Promise<void> => {
     const { owner, repo, pr } = this.state;
 
+    this.loadViewedFiles();
+
     try {
       const [
         reviewsData,
@@ -2220,6 +3376,601 @@ export class PRReviewStore {
     }
   };
 
+  // ---------------------------------------------------------------------------
+  // New Changes (pushes made while reviewing)
+  // ---------------------------------------------------------------------------
+
+  private checkingForNewChanges = false;
+
+  /**
+   * Look for a newer head commit. What it changed is kept in `newChanges`
+   * until the reviewer applies it, so the diff doesn't shift under them.
+   */
+  checkForNewChanges = async (): Promise<void> => {
+    if (this.checkingForNewChanges || this.state.applyingNewChanges) return;
+    const { owner, repo, pr, newChanges } = this.state;
+    this.checkingForNewChanges = true;
+
+    try {
+      const headSha = await this.github.getPRHeadSha(
+        owner,
+        repo,
+        pr.number,
+        "background"
+      );
+      if (headSha === pr.head.sha || headSha === newChanges?.pr.head.sha) {
+        return;
+      }
+
+      // Cached PR data describes the old head
+      this.github.invalidateCache(
+        `pr:${repoCacheKey(owner, repo)}/${pr.number}`
+      );
+      const [latestPr, latestFiles] = await Promise.all([
+        this.github.getPR(owner, repo, pr.number),
+        this.github.getPRFiles(owner, repo, pr.number),
+      ]);
+      if (latestPr.head.sha === this.state.pr.head.sha) return;
+
+      this.set({
+        newChanges: {
+          pr: latestPr,
+          files: latestFiles,
+          changedFiles: getChangedFiles(this.getPRFiles(), latestFiles),
+        },
+      });
+    } catch (error) {
+      console.error("Failed to check for new changes:", error);
+    } finally {
+      this.checkingForNewChanges = false;
+    }
+  };
+
+  /**
+   * Switch to the newer head. Viewed state is kept, diffs of unchanged files
+   * stay loaded, and pending comments on changed files are moved to where
+   * their lines ended up (or flagged outdated if the lines changed). GitHub's
+   * copies of the pending comments are what get submitted, so synced ones
+   * that moved are re-created there at their new lines, and outdated ones are
+   * taken off.
+   */
+  applyNewChanges = async (): Promise<void> => {
+    const { newChanges, owner, repo } = this.state;
+    if (!newChanges || this.state.applyingNewChanges) return;
+
+    // An interdiff ends at the old head
+    this.showFullDiff();
+    this.set({ applyingNewChanges: true });
+
+    try {
+      const { pendingComments, recreate } = this.unsyncMovedPendingComments(
+        this.state.pendingComments,
+        await this.reanchorPendingComments(newChanges)
+      );
+
+      const changed = new Set(newChanges.changedFiles);
+      const unchanged = <T,>(record: Record<string, T>) =>
+        Object.fromEntries(
+          Object.entries(record).filter(([filename]) => !changed.has(filename))
+        );
+      const expandedSkipBlocks = Object.fromEntries(
+        Object.entries(this.state.expandedSkipBlocks).filter(
+          ([key]) => !changed.has(key.slice(0, key.lastIndexOf(":")))
+        )
+      );
+
+      const files = sortFilesLikeTree(newChanges.files);
+      const { selectedFile } = this.state;
+      const selectedChanged =
+        selectedFile !== null && changed.has(selectedFile);
+      const selectedRemoved =
+        selectedFile !== null &&
+        !files.some((f) => f.filename === selectedFile);
+
+      const viewed = this.reconcileViewedFiles(files, this.state.viewedFiles);
+
+      this.persistPendingComments(pendingComments);
+      this.persistViewedFiles(viewed.viewedFiles);
+      this.set({
+        pr: newChanges.pr,
+        files,
+        viewedFiles: viewed.viewedFiles,
+        changedSinceViewed: viewed.changedSinceViewed,
+        newChanges: null,
+        applyingNewChanges: false,
+        revisions: null,
+        loadedDiffs: unchanged(this.state.loadedDiffs),
+        navigableItems: unchanged(this.state.navigableItems),
+        expandedSkipBlocks,
+        pendingComments,
+        selectedFiles: new Set(),
+        outdatedThreadLocations: {},
+        // Line positions in a changed diff no longer mean the same thing
+        ...(selectedChanged && {
+          focusedLine: null,
+          focusedLineSide: null,
+          selectionAnchor: null,
+          selectionAnchorSide: null,
+          focusedSkipBlockIndex: null,
+          commentingOnLine: null,
+        }),
+      });
+      this.recomputeCommentRangeLookup();
+      if (selectedRemoved) this.selectOverview();
+      for (const comment of recreate) {
+        this.createPendingCommentOnGitHub({
+          ...comment,
+          commit_id: newChanges.pr.head.sha,
+        });
+      }
+
+      // Comments, threads, checks and commits all move with the push
+      const comments = await this.github.getPRComments(
+        owner,
+        repo,
+        newChanges.pr.number
+      );
+      this.setComments(comments as ReviewComment[]);
+      await this.loadPRData();
+    } catch (error) {
+      console.error("Failed to apply new changes:", error);
+      this.set({ applyingNewChanges: false });
+    }
+  };
+
+  // Takes synced comments whose anchor changed off GitHub, returning the
+  // ones to create again at their new lines
+  private unsyncMovedPendingComments(
+    previous: LocalPendingComment[],
+    reanchored: LocalPendingComment[]
+  ): {
+    pendingComments: LocalPendingComment[];
+    recreate: LocalPendingComment[];
+  } {
+    const recreate: LocalPendingComment[] = [];
+    const pendingComments = reanchored.map((comment, i) => {
+      const before = previous[i];
+      const synced = !!before.nodeId || !!before.outboxId;
+      const moved =
+        comment.outdated ||
+        comment.line !== before.line ||
+        comment.start_line !== before.start_line;
+      if (!synced || !moved) return comment;
+
+      this.deletePendingCommentOnGitHub(before);
+      const unsynced: LocalPendingComment = {
+        ...comment,
+        nodeId: undefined,
+        databaseId: undefined,
+        outboxId: undefined,
+      };
+      if (!comment.outdated) recreate.push(unsynced);
+      return unsynced;
+    });
+    return { pendingComments, recreate };
+  }
+
+  private async reanchorPendingComments(
+    newChanges: NewChanges
+  ): Promise<LocalPendingComment[]> {
+    const { owner, repo, pr, pendingComments } = this.state;
+    const changed = new Set(newChanges.changedFiles);
+    const stillInPR = new Set(newChanges.files.map((f) => f.filename));
+    const getContent = (path: string, ref: string) =>
+      this.github.getFileContent(owner, repo, path, ref).catch(() => null);
+
+    const byFile = new Map<string, LocalPendingComment[]>();
+    for (const comment of pendingComments) {
+      // Comments on an older commit stay anchored to it
+      if (!changed.has(comment.path) || comment.commit_id) continue;
+      // Whole-file comments only go stale with the file
+      if (isFileComment(comment) && stillInPR.has(comment.path)) continue;
+      byFile.set(comment.path, [...(byFile.get(comment.path) ?? []), comment]);
+    }
+
+    const updated = new Map<string, LocalPendingComment>();
+    const markOutdated = (comments: LocalPendingComment[]) => {
+      for (const c of comments) updated.set(c.id, { ...c, outdated: true });
+    };
+
+    await Promise.all(
+      [...byFile].map(async ([path, comments]) => {
+        if (!stillInPR.has(path)) {
+          markOutdated(comments);
+          return;
+        }
+
+        for (const side of ["LEFT", "RIGHT"] as const) {
+          const sideComments = comments.filter((c) => c.side === side);
+          const [oldRef, newRef] =
+            side === "RIGHT"
+              ? [pr.head.sha, newChanges.pr.head.sha]
+              : [pr.base.sha, newChanges.pr.base.sha];
+          if (sideComments.length === 0 || oldRef === newRef) continue;
+
+          const [oldContent, newContent] = await Promise.all([
+            getContent(path, oldRef),
+            getContent(path, newRef),
+          ]);
+          if (oldContent === null || newContent === null) {
+            markOutdated(sideComments);
+            continue;
+          }
+
+          const mapped = await diffService.mapLines(
+            oldContent,
+            newContent,
+            sideComments.flatMap((c) => [c.line, c.start_line ?? c.line])
+          );
+          sideComments.forEach((c, i) => {
+            const line = mapped[i * 2];
+            const startLine = mapped[i * 2 + 1];
+            if (line === null || startLine === null) {
+              markOutdated([c]);
+            } else {
+              updated.set(c.id, {
+                ...c,
+                line,
+                start_line: c.start_line !== undefined ? startLine : undefined,
+                outdated: undefined,
+              });
+            }
+          });
+        }
+      })
+    );
+
+    return pendingComments.map((c) => updated.get(c.id) ?? c);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Diff Scope (changes since the last review, or a range of commits)
+  // ---------------------------------------------------------------------------
+
+  private getPRFiles(): PullRequestFile[] {
+    return this.prFiles ?? this.state.files;
+  }
+
+  private isRevisionDiff(): boolean {
+    return isRevisionDiffScope(this.state.diffScope);
+  }
+
+  // Swap the file list, dropping everything derived from the old diffs
+  private setDiffFiles(
+    files: PullRequestFile[],
+    diffScope: DiffScope | null,
+    loadedDiffs: Record<string, ParsedDiff> = {}
+  ): void {
+    const { selectedFile } = this.state;
+    const keepSelection =
+      selectedFile !== null && files.some((f) => f.filename === selectedFile);
+
+    this.set({
+      files,
+      diffScope,
+      loadingDiffScope: false,
+      loadedDiffs,
+      loadingFiles: new Set(),
+      navigableItems: {},
+      expandedSkipBlocks: {},
+      selectedFiles: new Set(),
+      focusedLine: null,
+      focusedLineSide: null,
+      selectionAnchor: null,
+      selectionAnchorSide: null,
+      focusedSkipBlockIndex: null,
+      commentingOnLine: null,
+    });
+    if (!keepSelection && selectedFile !== null) {
+      if (files.length > 0) {
+        this.selectFile(files[0].filename);
+      } else {
+        this.selectOverview();
+      }
+    }
+  }
+
+  private async showDiffScope(diffScope: DiffScope): Promise<void> {
+    const { owner, repo, pr } = this.state;
+    if (this.state.loadingDiffScope) return;
+
+    this.set({ loadingDiffScope: true });
+    try {
+      // After a force push the last reviewed commit isn't in the head's
+      // history, and a diff from their merge base has the wrong tree and
+      // line numbers
+      if (
+        diffScope.kind === "since-last-review" &&
+        !(await this.github.isAncestor(
+          owner,
+          repo,
+          diffScope.base,
+          diffScope.head
+        ))
+      ) {
+        diffScope = { ...diffScope, rewritten: true };
+      }
+
+      const { files, diffs } = isRevisionDiffScope(diffScope)
+        ? await this.getRevisionDiffs(diffScope.base, diffScope.head)
+        : {
+            files: await this.github.getCompareFiles(
+              owner,
+              repo,
+              diffScope.base,
+              diffScope.head
+            ),
+            diffs: {},
+          };
+      // A push may have been applied meanwhile
+      if (this.state.pr.head.sha !== pr.head.sha) {
+        this.set({ loadingDiffScope: false });
+        return;
+      }
+      this.prFiles = this.getPRFiles();
+      this.setDiffFiles(sortFilesLikeTree(files), diffScope, diffs);
+    } catch (error) {
+      console.error("Failed to load diff scope:", error);
+      this.set({ loadingDiffScope: false });
+    }
+  }
+
+  /**
+   * Show only what changed between the head at the user's last review and
+   * the current head.
+   */
+  showChangesSinceLastReview = async (): Promise<void> => {
+    const { pr } = this.state;
+    const base = getLastReviewedCommit(this.state);
+    if (!base || base === pr.head.sha) return;
+
+    await this.showDiffScope({
+      kind: "since-last-review",
+      base,
+      head: pr.head.sha,
+    });
+  };
+
+  /**
+   * Show the changes made by a contiguous range of the PR's commits.
+   */
+  showCommits = async (shas: string[]): Promise<void> => {
+    const { commits } = this.state;
+    const indexes = shas
+      .map((sha) => commits.findIndex((c) => c.sha === sha))
+      .filter((i) => i !== -1)
+      .sort((a, b) => a - b);
+    if (indexes.length === 0) return;
+
+    const range = commits.slice(indexes[0], indexes[indexes.length - 1] + 1);
+    const base = range[0].parents[0]?.sha;
+    if (!base) return;
+
+    await this.showDiffScope({
+      kind: "commits",
+      base,
+      head: range[range.length - 1].sha,
+      commits: range.map((c) => c.sha),
+    });
+  };
+
+  // Diff the files either revision changes in the PR from one head to the
+  // other. Each revision's changes start at its own merge base, so a rebase
+  // only shows upstream changes to files the PR touches.
+  private async getRevisionDiffs(
+    base: string,
+    head: string
+  ): Promise<{
+    files: PullRequestFile[];
+    diffs: Record<string, ParsedDiff>;
+  }> {
+    const { owner, repo, pr } = this.state;
+    const [baseFiles, headFiles] = await Promise.all([
+      this.github.getCompareFiles(owner, repo, pr.base.sha, base),
+      this.github.getCompareFiles(owner, repo, pr.base.sha, head),
+    ]);
+    const before = new Map(baseFiles.map((f) => [f.filename, f]));
+    const after = new Map(headFiles.map((f) => [f.filename, f]));
+
+    const files: PullRequestFile[] = [];
+    const diffs: Record<string, ParsedDiff> = {};
+    await Promise.all(
+      [...new Set([...before.keys(), ...after.keys()])].map(async (path) => {
+        const oldFile = before.get(path);
+        const newFile = after.get(path);
+        if (oldFile && newFile && oldFile.sha === newFile.sha) return;
+
+        // Missing files read as empty
+        const [oldContent, newContent] = await Promise.all([
+          oldFile?.status === "removed"
+            ? ""
+            : this.github.getFileContent(owner, repo, path, base),
+          newFile?.status === "removed"
+            ? ""
+            : this.github.getFileContent(owner, repo, path, head),
+        ]);
+        if (oldContent === newContent) return;
+
+        const diff =
+          isBinaryContent(oldContent) || isBinaryContent(newContent)
+            ? { hunks: [] }
+            : await diffService.diffContents(oldContent, newContent, path);
+        let additions = 0;
+        let deletions = 0;
+        for (const hunk of diff.hunks) {
+          if (hunk.type !== "hunk") continue;
+          for (const line of hunk.lines) {
+            if (line.type === "insert") additions++;
+            if (line.type === "delete") deletions++;
+          }
+        }
+
+        files.push({
+          ...(newFile ?? oldFile)!,
+          sha: newFile?.sha ?? null,
+          status: !oldContent ? "added" : !newContent ? "removed" : "modified",
+          additions,
+          deletions,
+          changes: additions + deletions,
+          patch: undefined,
+          previous_filename: undefined,
+        });
+        diffs[path] = diff;
+      })
+    );
+
+    return { files, diffs };
+  }
+
+  loadRevisions = async (): Promise<void> => {
+    const { owner, repo, pr } = this.state;
+    if (this.state.loadingRevisions) return;
+
+    this.set({ loadingRevisions: true });
+    try {
+      const revisions = await this.github.getPRRevisions(
+        owner,
+        repo,
+        pr.number
+      );
+      this.set({ revisions, loadingRevisions: false });
+    } catch (error) {
+      console.error("Failed to load revisions:", error);
+      this.set({ loadingRevisions: false });
+    }
+  };
+
+  /**
+   * Show what changed between two heads the PR has had, e.g. before and
+   * after a force push.
+   */
+  showRevisions = async (base: string, head: string): Promise<void> => {
+    if (base === head) return;
+    await this.showDiffScope({ kind: "revisions", base, head });
+  };
+
+  /**
+   * Show what a force push to `head` changed, compared to the head before it.
+   */
+  showForcePush = async (head: string): Promise<void> => {
+    if (!this.state.revisions) await this.loadRevisions();
+    const revisions = this.state.revisions ?? [];
+    const index = revisions.findIndex((r) => r.sha === head);
+    if (index <= 0) return;
+    await this.showRevisions(revisions[index - 1].sha, head);
+  };
+
+  showFullDiff = () => {
+    if (!this.prFiles) return;
+    const files = this.prFiles;
+    this.prFiles = null;
+    this.setDiffFiles(files, null);
+  };
+
+  toggleChangesSinceLastReview = () => {
+    if (this.state.diffScope?.kind === "since-last-review") {
+      this.showFullDiff();
+    } else {
+      this.showChangesSinceLastReview();
+    }
+  };
+
+  // ---------------------------------------------------------------------------
+  // Suggested Changes
+  // ---------------------------------------------------------------------------
+
+  toggleSuggestionSelected = (commentId: number) => {
+    const selectedSuggestions = new Set(this.state.selectedSuggestions);
+    if (!selectedSuggestions.delete(commentId)) {
+      selectedSuggestions.add(commentId);
+    }
+    this.set({ selectedSuggestions, suggestionError: null });
+  };
+
+  clearSelectedSuggestions = () => {
+    this.set({ selectedSuggestions: new Set(), suggestionError: null });
+  };
+
+  /**
+   * Apply suggested changes from review comments as a single commit on the
+   * head branch, then switch to the new head.
+   */
+  applySuggestions = async (commentIds: number[]): Promise<boolean> => {
+    const { owner, repo, pr, comments } = this.state;
+    if (this.state.applyingSuggestions || commentIds.length === 0) {
+      return false;
+    }
+
+    this.set({ applyingSuggestions: true, suggestionError: null });
+
+    try {
+      if (!pr.head.repo) {
+        throw new Error("The head repository no longer exists");
+      }
+
+      const editsByPath = new Map<string, CommentSuggestion[]>();
+      for (const id of commentIds) {
+        const comment = comments.find((c) => c.id === id);
+        const suggestion = comment && getCommentSuggestion(comment);
+        if (!suggestion || this.state.appliedSuggestions.has(id)) {
+          throw new Error("A suggestion can no longer be applied");
+        }
+        editsByPath.set(suggestion.path, [
+          ...(editsByPath.get(suggestion.path) ?? []),
+          suggestion,
+        ]);
+      }
+
+      const files = await Promise.all(
+        [...editsByPath].map(async ([path, edits]) => {
+          const content = await this.github.getFileContent(
+            owner,
+            repo,
+            path,
+            pr.head.sha
+          );
+          return { path, content: applyLineEdits(content, edits) };
+        })
+      );
+
+      await this.github.commitFileChanges(
+        pr.head.repo.owner.login,
+        pr.head.repo.name,
+        pr.head.ref,
+        pr.head.sha,
+        commentIds.length === 1
+          ? "Apply suggestion from code review"
+          : "Apply suggestions from code review",
+        files
+      );
+
+      const appliedSuggestions = new Set(this.state.appliedSuggestions);
+      const selectedSuggestions = new Set(this.state.selectedSuggestions);
+      for (const id of commentIds) {
+        appliedSuggestions.add(id);
+        selectedSuggestions.delete(id);
+      }
+      this.set({
+        appliedSuggestions,
+        selectedSuggestions,
+        applyingSuggestions: false,
+      });
+
+      // Our own push; no need to wait for it to be noticed
+      await this.checkForNewChanges();
+      await this.applyNewChanges();
+      return true;
+    } catch (e) {
+      console.error("Failed to apply suggestions:", e);
+      this.set({
+        applyingSuggestions: false,
+        suggestionError:
+          e instanceof Error ? e.message : "Failed to apply suggestions",
+      });
+      return false;
+    }
+  };
+
   // ---------------------------------------------------------------------------
   // PR Mutations
   // ---------------------------------------------------------------------------
@@ -2245,7 +3996,9 @@ export class PRReviewStore {
       });
 
       // Invalidate timeline cache and refetch
-      this.github.invalidateCache(`pr:${owner}/${repo}/${pr.number}:timeline`);
+      this.github.invalidateCache(
+        `pr:${repoCacheKey(owner, repo)}/${pr.number}:timeline`
+      );
 
       // Refetch PR and timeline to get updated state
       const [updatedPR, updatedTimeline] = await Promise.all([
@@ -2406,7 +4159,7 @@ export class PRReviewStore {
    */
   private invalidatePRCaches(owner: string, repo: string, prNumber: number) {
     // Invalidate all PR-related caches (using pattern matching)
-    this.github.invalidateCache(`pr:${owner}/${repo}/${prNumber}`);
+    this.github.invalidateCache(`pr:${repoCacheKey(owner, repo)}/${prNumber}`);
   }
 
   /**
@@ -2529,7 +4282,9 @@ export class PRReviewStore {
       await this.github.updateBranch(owner, repo, pr.number);
 
       // Invalidate cache BEFORE refetch so we get fresh data
-      this.github.invalidateCache(`pr:${owner}/${repo}/${pr.number}`);
+      this.github.invalidateCache(
+        `pr:${repoCacheKey(owner, repo)}/${pr.number}`
+      );
 
       // Refetch PR to get updated state (branch update changes many fields)
       const updatedPR = await this.github.getPR(owner, repo, pr.number);
@@ -2542,6 +4297,51 @@ export class PRReviewStore {
     }
   };
 
+  // ---------------------------------------------------------------------------
+  // Review Threads
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Resolve several review threads at once. Returns the threads that
+   * couldn't be resolved.
+   */
+  resolveThreads = async (threadIds: string[]): Promise<string[]> => {
+    const ids = threadIds.filter((id) => !this.state.resolvingThreads.has(id));
+    if (ids.length === 0) return [];
+    this.set({
+      resolvingThreads: new Set([...this.state.resolvingThreads, ...ids]),
+    });
+
+    const results = await Promise.allSettled(
+      ids.map((id) => this.github.resolveThread(id))
+    );
+    const resolved = new Set<string>();
+    results.forEach((result, i) => {
+      // Queued offline writes are shown as applied
+      if (result.status === "fulfilled" || isQueuedWrite(result.reason)) {
+        resolved.add(ids[i]);
+      } else {
+        console.error("Failed to resolve thread:", result.reason);
+      }
+    });
+
+    const resolving = new Set(this.state.resolvingThreads);
+    ids.forEach((id) => resolving.delete(id));
+    this.set({
+      resolvingThreads: resolving,
+      reviewThreads: this.state.reviewThreads.map((t) =>
+        resolved.has(t.id) ? { ...t, isResolved: true } : t
+      ),
+      comments: this.state.comments.map((c) =>
+        c.pull_request_review_thread_id &&
+        resolved.has(c.pull_request_review_thread_id)
+          ? { ...c, is_resolved: true }
+          : c
+      ),
+    });
+    return ids.filter((id) => !resolved.has(id));
+  };
+
   // ---------------------------------------------------------------------------
   // State Setters (for component updates)
   // ---------------------------------------------------------------------------
@@ -2634,6 +4434,7 @@ export function PRReviewProvider({
   const suggestedUsers = useMemo(() => {
     const seen = new Set<string>();
     const users: MentionUser[] = [];
+    const webUrl = getWebUrl(github.getHost());
 
     const addUser = (
       login: string | undefined,
@@ -2643,7 +4444,7 @@ export function PRReviewProvider({
       seen.add(login.toLowerCase());
       users.push({
         login,
-        avatar_url: avatar_url || `https://github.com/${login}.png`,
+        avatar_url: avatar_url || `${webUrl}/${login}.png`,
       });
     };
 
@@ -2672,7 +4473,7 @@ export function PRReviewProvider({
     }
 
     return users;
-  }, [pr, comments]);
+  }, [github, pr, comments]);
 
   return (
     <PRReviewContext.Provider value={storeRef.current}>
@@ -2681,7 +4482,11 @@ export function PRReviewProvider({
         owner={owner}
         repo={repo}
       >
-        {children}
+        <TemplateVariablesProvider
+          getVariables={storeRef.current.getTemplateVariables}
+        >
+          {children}
+        </TemplateVariablesProvider>
       </MentionSuggestionsProvider>
     </PRReviewContext.Provider>
   );
@@ -2742,6 +4547,9 @@ export { useCurrentDiff } from "./useCurrentDiff";
 export { useIsCurrentFileLoading } from "./useIsCurrentFileLoading";
 export { useCurrentFileComments } from "./useCurrentFileComments";
 export { useCurrentFilePendingComments } from "./useCurrentFilePendingComments";
+export { useCurrentFileLevelComments } from "./useCurrentFileLevelComments";
+export { useCurrentFileOutdatedThreads } from "./useCurrentFileOutdatedThreads";
+export { useUnresolvedThreads } from "./useUnresolvedThreads";
 export { useSelectionRange } from "./useSelectionRange";
 export { useIsLineFocused } from "./useIsLineFocused";
 export { useIsLineInSelection } from "./useIsLineInSelection";
@@ -2757,8 +4565,11 @@ export { useHashNavigation } from "./useHashNavigation";
 export { useDiffLoader } from "./useDiffLoader";
 export { useCurrentUserLoader } from "./useCurrentUserLoader";
 export { usePendingReviewLoader } from "./usePendingReviewLoader";
+export { useLiveUpdates } from "./useLiveUpdates";
+export { useNewChangesDetection } from "./useNewChangesDetection";
 export { useThreadActions } from "./useThreadActions";
 export { useCommentActions } from "./useCommentActions";
 export { useReviewActions } from "./useReviewActions";
 export { useSkipBlockExpansion } from "./useSkipBlockExpansion";
 export { useFileCopyActions } from "./useFileCopyActions";
+export { useCanApplySuggestions } from "./useCanApplySuggestions";
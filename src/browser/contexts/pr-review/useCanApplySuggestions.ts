@@ -0,0 +1,29 @@
+import { useCanWrite } from "@/browser/contexts/auth";
+import { usePRReviewSelector } from ".";
+
+/**
+ * Whether the viewer can push suggested changes to the head branch: the PR's
+ * author, or a collaborator when the head branch is in the base repo or
+ * maintainers are allowed to edit it.
+ */
+export function useCanApplySuggestions(): boolean {
+  const canWrite = useCanWrite();
+  const pr = usePRReviewSelector((s) => s.pr);
+  const currentUser = usePRReviewSelector((s) => s.currentUser);
+  const viewerPermission = usePRReviewSelector((s) => s.viewerPermission);
+  const branchDeleted = usePRReviewSelector((s) => s.branchDeleted);
+
+  if (!canWrite || pr.state !== "open" || branchDeleted || !pr.head.repo) {
+    return false;
+  }
+  if (currentUser !== null && currentUser === pr.user.login) return true;
+
+  const hasWritePermission =
+    viewerPermission === "ADMIN" ||
+    viewerPermission === "MAINTAIN" ||
+    viewerPermission === "WRITE";
+  return (
+    hasWritePermission &&
+    (pr.head.repo.id === pr.base.repo.id || pr.maintainer_can_modify)
+  );
+}
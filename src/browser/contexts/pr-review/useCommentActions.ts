@@ -4,6 +4,7 @@ import { useTelemetry } from "@/browser/contexts/telemetry";
 import {
   usePRReviewStore,
   usePRReviewSelector,
+  getScopedCommit,
   type LocalPendingComment,
 } from ".";
 
@@ -15,25 +16,32 @@ export function useCommentActions() {
   const pr = usePRReviewSelector((s) => s.pr);
   const { track } = useTelemetry();
 
+  // A null line comments on the whole file
   const addPendingComment = async (
-    line: number,
+    line: number | null,
     body: string,
     startLine?: number
   ) => {
     const state = store.getSnapshot();
     if (!state.selectedFile) return;
+    // Reviewing older commits: line numbers are from the last of them
+    const commitId =
+      line === null ? undefined : (getScopedCommit(state) ?? undefined);
 
     // Create a local comment first for immediate UI feedback
     const localId = `pending-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     const newComment: LocalPendingComment = {
       id: localId,
       path: state.selectedFile,
-      line,
+      line: line ?? 0,
       start_line: startLine,
       body,
       side: "RIGHT",
+      commit_id: commitId,
+      subject_type: line === null ? "file" : undefined,
     };
 
+    // Also creates it on GitHub, which adds it to the pending review
     store.addPendingComment(newComment);
 
     // Track comment added
@@ -44,59 +52,15 @@ export function useCommentActions() {
       is_pending: true,
       has_range: !!startLine && startLine !== line,
     });
-
-    // Sync to GitHub via GraphQL - this creates/adds to the pending review
-    try {
-      const result = await github.addPendingComment(owner, repo, pr.number, {
-        path: state.selectedFile,
-        line,
-        body,
-        startLine,
-      });
-      // Update the local comment with GitHub IDs
-      store.updatePendingCommentWithGitHubIds(
-        localId,
-        result.reviewId,
-        result.commentId,
-        result.commentDatabaseId
-      );
-    } catch (error) {
-      console.error("Failed to sync pending comment to GitHub:", error);
-    }
   };
 
+  // The store keeps GitHub in sync, and can undo these
   const removePendingComment = async (id: string) => {
-    const state = store.getSnapshot();
-    const comment = state.pendingComments.find((c) => c.id === id);
-
-    // Remove locally first
     store.removePendingComment(id);
-
-    // Delete from GitHub via GraphQL if it was synced
-    if (comment?.nodeId) {
-      try {
-        await github.deletePendingComment(comment.nodeId);
-      } catch (error) {
-        console.error("Failed to delete comment from GitHub:", error);
-      }
-    }
   };
 
   const updatePendingComment = async (id: string, newBody: string) => {
-    const state = store.getSnapshot();
-    const comment = state.pendingComments.find((c) => c.id === id);
-
-    // Update locally first
     store.updatePendingCommentBody(id, newBody);
-
-    // Update on GitHub via GraphQL if it was synced
-    if (comment?.nodeId) {
-      try {
-        await github.updatePendingComment(comment.nodeId, newBody);
-      } catch (error) {
-        console.error("Failed to update comment on GitHub:", error);
-      }
-    }
   };
 
   const updateComment = async (commentId: number, newBody: string) => {
@@ -1,6 +1,6 @@
 import { useMemo } from "react";
 import type { ReviewComment } from "@/api/types";
-import { usePRReviewSelector } from ".";
+import { usePRReviewSelector, getScopedCommit, isOutdatedComment } from ".";
 
 const EMPTY_COMMENTS: ReviewComment[] = [];
 
@@ -8,8 +8,25 @@ const EMPTY_COMMENTS: ReviewComment[] = [];
 export function useCurrentFileComments(): ReviewComment[] {
   const selectedFile = usePRReviewSelector((s) => s.selectedFile);
   const comments = usePRReviewSelector((s) => s.comments);
+  const scopedCommit = usePRReviewSelector(getScopedCommit);
   return useMemo(() => {
     if (!selectedFile) return EMPTY_COMMENTS;
-    return comments.filter((c) => c.path === selectedFile);
-  }, [selectedFile, comments]);
+    if (scopedCommit) {
+      // Lines of an older commit: only comments made on it line up
+      return comments
+        .filter(
+          (c) =>
+            c.path === selectedFile && c.original_commit_id === scopedCommit
+        )
+        .map((c) => ({
+          ...c,
+          line: c.original_line,
+          start_line: c.original_start_line,
+        }));
+    }
+    // Outdated comments are listed apart from the diff
+    return comments.filter(
+      (c) => c.path === selectedFile && !isOutdatedComment(c)
+    );
+  }, [selectedFile, comments, scopedCommit]);
 }
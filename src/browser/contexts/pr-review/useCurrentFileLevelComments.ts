@@ -0,0 +1,28 @@
+import { useMemo } from "react";
+import type { ReviewComment } from "@/api/types";
+import {
+  usePRReviewSelector,
+  isFileComment,
+  type LocalPendingComment,
+} from ".";
+
+/** Get comments on the current file as a whole, rather than on its lines */
+export function useCurrentFileLevelComments(): {
+  comments: ReviewComment[];
+  pendingComments: LocalPendingComment[];
+} {
+  const selectedFile = usePRReviewSelector((s) => s.selectedFile);
+  const comments = usePRReviewSelector((s) => s.comments);
+  const pendingComments = usePRReviewSelector((s) => s.pendingComments);
+  return useMemo(
+    () => ({
+      comments: comments.filter(
+        (c) => c.path === selectedFile && isFileComment(c)
+      ),
+      pendingComments: pendingComments.filter(
+        (c) => c.path === selectedFile && isFileComment(c)
+      ),
+    }),
+    [selectedFile, comments, pendingComments]
+  );
+}
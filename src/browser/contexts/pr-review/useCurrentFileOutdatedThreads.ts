@@ -0,0 +1,36 @@
+import { useMemo } from "react";
+import type { ReviewComment } from "@/api/types";
+import { usePRReviewSelector, getScopedCommit, isOutdatedComment } from ".";
+
+const EMPTY_THREADS: ReviewComment[][] = [];
+
+/**
+ * Get threads on the current file whose lines changed in a later push,
+ * each as its comments with the one that started it first
+ */
+export function useCurrentFileOutdatedThreads(): ReviewComment[][] {
+  const selectedFile = usePRReviewSelector((s) => s.selectedFile);
+  const comments = usePRReviewSelector((s) => s.comments);
+  const scopedCommit = usePRReviewSelector(getScopedCommit);
+  return useMemo(() => {
+    // A commit scope shows threads on that commit's own lines
+    if (!selectedFile || scopedCommit) return EMPTY_THREADS;
+
+    const threadMap = new Map<number, ReviewComment[]>();
+    for (const comment of comments) {
+      if (
+        comment.path === selectedFile &&
+        !comment.in_reply_to_id &&
+        isOutdatedComment(comment)
+      ) {
+        threadMap.set(comment.id, [comment]);
+      }
+    }
+    for (const comment of comments) {
+      if (comment.in_reply_to_id) {
+        threadMap.get(comment.in_reply_to_id)?.push(comment);
+      }
+    }
+    return threadMap.size > 0 ? [...threadMap.values()] : EMPTY_THREADS;
+  }, [selectedFile, comments, scopedCommit]);
+}
@@ -1,5 +1,10 @@
 import { useMemo } from "react";
-import { usePRReviewSelector, type LocalPendingComment } from ".";
+import {
+  usePRReviewSelector,
+  getScopedCommit,
+  isFileComment,
+  type LocalPendingComment,
+} from ".";
 
 const EMPTY_PENDING_COMMENTS: LocalPendingComment[] = [];
 
@@ -7,8 +12,16 @@ const EMPTY_PENDING_COMMENTS: LocalPendingComment[] = [];
 export function useCurrentFilePendingComments(): LocalPendingComment[] {
   const selectedFile = usePRReviewSelector((s) => s.selectedFile);
   const pendingComments = usePRReviewSelector((s) => s.pendingComments);
+  const scopedCommit = usePRReviewSelector(getScopedCommit);
   return useMemo(() => {
     if (!selectedFile) return EMPTY_PENDING_COMMENTS;
-    return pendingComments.filter((c) => c.path === selectedFile);
-  }, [selectedFile, pendingComments]);
+    // Comments belong to the diff of the commit they were made on. Those on
+    // the whole file are shown above the diff instead.
+    return pendingComments.filter(
+      (c) =>
+        c.path === selectedFile &&
+        (c.commit_id ?? null) === scopedCommit &&
+        !isFileComment(c)
+    );
+  }, [selectedFile, pendingComments, scopedCommit]);
 }
@@ -1,8 +1,16 @@
 import { useEffect } from "react";
 import type { PullRequestFile } from "@/api/types";
 import { diffService } from "@/browser/lib/diff";
+import { persistentCache } from "@/browser/lib/persistent-cache";
 import { useGitHub } from "@/browser/contexts/github";
-import { usePRReviewStore, usePRReviewSelector, type ParsedDiff } from ".";
+import {
+  usePRReviewStore,
+  usePRReviewSelector,
+  isPatchOmitted,
+  isUnknownRename,
+  LARGE_DIFF_CHANGES,
+  type ParsedDiff,
+} from ".";
 
 const diffCache = new Map<string, ParsedDiff>();
 const pendingFetches = new Map<
@@ -11,13 +19,53 @@ const pendingFetches = new Map<
 >();
 const MAX_CACHE_SIZE = 100;
 
+// Parsed diffs are also persisted to IndexedDB, keyed by file sha (or blob
+// URL for files listed without one, which pins the head commit instead) and
+// the commit the diff starts from.
+// Bump the version when the ParsedDiff shape or highlighting changes.
+const PERSISTED_DIFF_PREFIX = "diff:v1:";
+
+function addToDiffCache(cacheKey: string, parsed: ParsedDiff) {
+  if (diffCache.size >= MAX_CACHE_SIZE) {
+    const firstKey = diffCache.keys().next().value;
+    if (firstKey) diffCache.delete(firstKey);
+  }
+  diffCache.set(cacheKey, parsed);
+}
+
+// Binaries and pure renames have nothing to diff
+function hasNoDiff(file: PullRequestFile): boolean {
+  return !file.patch && !isPatchOmitted(file);
+}
+
+function getDiffKey(file: PullRequestFile): string | null {
+  return file.sha ?? (file.blob_url || null);
+}
+
+// Large files without a patch wait until the user asks for them
+function isDeferred(file: PullRequestFile, requested: Set<string>): boolean {
+  return (
+    isPatchOmitted(file) &&
+    file.changes > LARGE_DIFF_CHANGES &&
+    !requested.has(file.filename)
+  );
+}
+
+function isBinaryContent(content: unknown): boolean {
+  return typeof content !== "string" || content.includes("\0");
+}
+
 // Check if a diff is already cached with full syntax highlighting (sync check)
-function getFullDiffFromCache(file: PullRequestFile): ParsedDiff | null {
-  if (!file.patch || !file.sha) {
+function getFullDiffFromCache(
+  file: PullRequestFile,
+  baseRef: string
+): ParsedDiff | null {
+  const diffKey = getDiffKey(file);
+  if (!diffKey || hasNoDiff(file)) {
     return { hunks: [] };
   }
   // Only return if we have the full content version with proper syntax highlighting
-  return diffCache.get(`${file.sha}:full`) ?? null;
+  return diffCache.get(`${diffKey}:${baseRef}:full`) ?? null;
 }
 
 // Abort all pending fetches (used when navigating rapidly)
@@ -38,13 +86,14 @@ async function fetchParsedDiff(
   baseRef?: string,
   headRef?: string
 ): Promise<ParsedDiff> {
-  if (!file.patch || !file.sha) {
+  const diffKey = getDiffKey(file);
+  if (!diffKey || hasNoDiff(file)) {
     return { hunks: [] };
   }
 
   // Cache key includes whether we have file content (for better highlighting)
   const hasContent = !!(getFileContent && baseRef && headRef);
-  const cacheKey = hasContent ? `${file.sha}:full` : file.sha;
+  const cacheKey = hasContent ? `${diffKey}:${baseRef}:full` : diffKey;
 
   // Check cache first
   if (diffCache.has(cacheKey)) {
@@ -82,40 +131,71 @@ async function fetchParsedDiff(
   }
 
   const fetchPromise = (async () => {
+    // Reuse a diff parsed in a previous session
+    const persisted = await persistentCache.get<ParsedDiff>(
+      PERSISTED_DIFF_PREFIX + cacheKey
+    );
+    if (persisted?.hunks) {
+      pendingFetches.delete(cacheKey);
+      addToDiffCache(cacheKey, persisted);
+      return persisted;
+    }
+
     let oldContent: string | undefined;
     let newContent: string | undefined;
 
     // Fetch file content for better syntax highlighting if getter is provided
     if (getFileContent && baseRef && headRef) {
+      // Without a patch the content is the diff, so failures aren't ignored
+      const getContent = (path: string, ref: string) =>
+        file.patch
+          ? getFileContent(path, ref).catch(() => "")
+          : getFileContent(path, ref);
       try {
         const [oldResult, newResult] = await Promise.all([
           // For deleted files or renames, use previous_filename for base
-          file.status === "added"
+          file.status === "added" || isUnknownRename(file)
             ? Promise.resolve("")
-            : getFileContent(
-                file.previous_filename || file.filename,
-                baseRef
-              ).catch(() => ""),
+            : getContent(file.previous_filename || file.filename, baseRef),
           // For deleted files, new content is empty
           file.status === "removed"
             ? Promise.resolve("")
-            : getFileContent(file.filename, headRef).catch(() => ""),
+            : getContent(file.filename, headRef),
         ]);
         oldContent = oldResult;
         newContent = newResult;
-      } catch {
+      } catch (error) {
         // If fetching content fails, continue without it
+        if (!file.patch) throw error;
       }
     }
 
     // Use WebWorker for diff parsing (off main thread)
-    const parsed = await diffService.parseDiff(
-      file.patch!,
-      file.filename,
-      file.previous_filename,
-      oldContent,
-      newContent
-    );
+    let parsed: ParsedDiff;
+    if (file.patch) {
+      parsed = await diffService.parseDiff(
+        file.patch,
+        file.filename,
+        file.previous_filename,
+        oldContent,
+        newContent
+      );
+    } else if (
+      oldContent === undefined ||
+      newContent === undefined ||
+      isBinaryContent(oldContent) ||
+      isBinaryContent(newContent)
+    ) {
+      parsed = { hunks: [] };
+    } else {
+      // GitHub omitted the patch; diff the contents ourselves
+      parsed = await diffService.diffContents(
+        oldContent,
+        newContent,
+        file.filename,
+        file.previous_filename
+      );
+    }
 
     // Clean up pending entry
     pendingFetches.delete(cacheKey);
@@ -125,11 +205,8 @@ async function fetchParsedDiff(
     }
 
     // Add to cache
-    if (diffCache.size >= MAX_CACHE_SIZE) {
-      const firstKey = diffCache.keys().next().value;
-      if (firstKey) diffCache.delete(firstKey);
-    }
-    diffCache.set(cacheKey, parsed);
+    addToDiffCache(cacheKey, parsed);
+    persistentCache.set(PERSISTED_DIFF_PREFIX + cacheKey, parsed);
 
     return parsed;
   })();
@@ -149,10 +226,16 @@ export function useDiffLoader() {
   const github = useGitHub();
   const owner = usePRReviewSelector((s) => s.owner);
   const repo = usePRReviewSelector((s) => s.repo);
-  const pr = usePRReviewSelector((s) => s.pr);
   const selectedFile = usePRReviewSelector((s) => s.selectedFile);
   const files = usePRReviewSelector((s) => s.files);
   const loadedDiffs = usePRReviewSelector((s) => s.loadedDiffs);
+  const requestedLargeDiffs = usePRReviewSelector((s) => s.requestedLargeDiffs);
+  const baseRef = usePRReviewSelector(
+    (s) => s.diffScope?.base ?? s.pr.base.sha
+  );
+  const headRef = usePRReviewSelector(
+    (s) => s.diffScope?.head ?? s.pr.head.sha
+  );
 
   useEffect(() => {
     if (!selectedFile) return;
@@ -163,7 +246,7 @@ export function useDiffLoader() {
     const currentFile = selectedFile;
 
     // Check cache synchronously - only use if we have full content version
-    const cached = getFullDiffFromCache(file);
+    const cached = getFullDiffFromCache(file, baseRef);
     if (cached) {
       if (!loadedDiffs[currentFile]) {
         store.setLoadedDiff(currentFile, cached);
@@ -174,6 +257,9 @@ export function useDiffLoader() {
     // Already loaded in store
     if (loadedDiffs[currentFile]) return;
 
+    // Shown as "large file, click to load" until requested
+    if (isDeferred(file, requestedLargeDiffs)) return;
+
     // Abort ALL pending fetches - only care about current file
     abortAllPendingFetches();
 
@@ -191,9 +277,12 @@ export function useDiffLoader() {
     // Create file content getter for better syntax highlighting
     const getFileContent: FileContentGetter = (path, ref) =>
       github.getFileContent(owner, repo, path, ref);
+    // Prefetches yield to interactive requests and pause when the budget runs low
+    const getPrefetchFileContent: FileContentGetter = (path, ref) =>
+      github.getFileContent(owner, repo, path, ref, "prefetch");
 
     // Fetch immediately with full file content for better highlighting
-    fetchParsedDiff(file, undefined, getFileContent, pr.base.sha, pr.head.sha)
+    fetchParsedDiff(file, undefined, getFileContent, baseRef, headRef)
       .then((diff) => {
         if (store.getSnapshot().selectedFile === currentFile) {
           store.setLoadedDiff(currentFile, diff);
@@ -210,7 +299,8 @@ export function useDiffLoader() {
           ].filter(
             (f) =>
               !store.getSnapshot().loadedDiffs[f.filename] &&
-              !getFullDiffFromCache(f)
+              !getFullDiffFromCache(f, baseRef) &&
+              !isDeferred(f, requestedLargeDiffs)
           );
 
           // Prefetch with full file content for proper syntax highlighting
@@ -220,9 +310,9 @@ export function useDiffLoader() {
               fetchParsedDiff(
                 pfile,
                 undefined,
-                getFileContent,
-                pr.base.sha,
-                pr.head.sha
+                getPrefetchFileContent,
+                baseRef,
+                headRef
               )
                 .then((pdiff) => store.setLoadedDiff(pfile.filename, pdiff))
                 .catch(() => {})
@@ -249,11 +339,12 @@ export function useDiffLoader() {
     selectedFile,
     files,
     loadedDiffs,
+    requestedLargeDiffs,
     store,
     github,
     owner,
     repo,
-    pr.base.sha,
-    pr.head.sha,
+    baseRef,
+    headRef,
   ]);
 }
@@ -100,8 +100,18 @@ export function useKeyboardNavigation() {
         return;
       }
 
+      // Leave Cmd/Ctrl/Alt combos like print (Cmd+P) and cut (Cmd+X) to
+      // the browser
+      const key = e.key.toLowerCase();
+      if (
+        (e.metaKey || e.ctrlKey || e.altKey) &&
+        (key === "n" || key === "p" || key === "x")
+      ) {
+        return;
+      }
+
       // Shortcuts
-      switch (e.key.toLowerCase()) {
+      switch (key) {
         case "j":
           e.preventDefault();
           // Use startTransition to allow React to interrupt rendering during rapid navigation
@@ -116,6 +126,39 @@ export function useKeyboardNavigation() {
             store.navigateToNextUnviewedFile();
           });
           break;
+        case "n":
+          e.preventDefault();
+          startTransition(() => {
+            store.navigateToThread("next");
+          });
+          break;
+        case "p":
+          e.preventDefault();
+          startTransition(() => {
+            store.navigateToThread("prev");
+          });
+          break;
+        case "x":
+          if (state.focusedCommentId) {
+            const focused = state.comments.find(
+              (c) => c.id === state.focusedCommentId
+            );
+            if (focused?.pull_request_review_thread_id) {
+              e.preventDefault();
+              // Resolve via API - component handles this
+              const event = new CustomEvent(
+                "pr-review:toggle-thread-resolved",
+                {
+                  detail: {
+                    threadId: focused.pull_request_review_thread_id,
+                    resolve: !focused.is_resolved,
+                  },
+                }
+              );
+              window.dispatchEvent(event);
+            }
+          }
+          break;
         case "v":
           e.preventDefault();
           if (state.selectedFiles.size > 0) {
@@ -124,6 +167,14 @@ export function useKeyboardNavigation() {
             store.toggleViewed(state.selectedFile);
           }
           break;
+        case "z":
+          e.preventDefault();
+          if (e.shiftKey) {
+            store.redo();
+          } else {
+            store.undo();
+          }
+          break;
         case "g":
           e.preventDefault();
           store.enterGotoMode();
@@ -134,7 +185,11 @@ export function useKeyboardNavigation() {
           break;
         case "c":
           e.preventDefault();
-          store.startCommentingOnFocusedLine();
+          if (e.shiftKey) {
+            store.startFileComment();
+          } else {
+            store.startCommentingOnFocusedLine();
+          }
           break;
         case "e":
           if (state.focusedCommentId) {
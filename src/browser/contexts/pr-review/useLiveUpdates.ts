@@ -0,0 +1,134 @@
+import { useEffect } from "react";
+import { useGitHubStore, type ReviewComment } from "@/browser/contexts/github";
+import type { LiveEvent } from "@/browser/lib/live-events";
+import { usePRReviewStore } from ".";
+
+type Slice =
+  | "pr"
+  | "comments"
+  | "threads"
+  | "reviews"
+  | "conversation"
+  | "checks";
+
+// Webhooks often arrive in bursts (a check suite reports every run), so
+// refetches are coalesced over a short window
+const COALESCE_MS = 500;
+
+function getAffectedSlices(event: LiveEvent): Slice[] {
+  switch (event.kind) {
+    case "pull_request":
+      return ["pr"];
+    case "review":
+      return ["reviews", "comments", "threads"];
+    case "review_comment":
+      return ["comments", "threads"];
+    case "review_thread":
+      return ["threads"];
+    case "issue_comment":
+      return ["conversation"];
+    case "checks":
+      return ["checks"];
+  }
+}
+
+/**
+ * Refetch the parts of the open PR that a webhook event says changed.
+ */
+export function useLiveUpdates() {
+  const store = usePRReviewStore();
+  const github = useGitHubStore();
+
+  useEffect(() => {
+    const pending = new Set<Slice>();
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const refetch = async (slice: Slice) => {
+      const { owner, repo, pr } = store.getSnapshot();
+      try {
+        switch (slice) {
+          case "pr": {
+            const updated = await github.getPR(owner, repo, pr.number);
+            // A new push changes the diff under the reviewer; offer it
+            // instead of swapping files mid-review
+            if (updated.head.sha === store.getSnapshot().pr.head.sha) {
+              store.setPr(updated);
+            } else {
+              await store.checkForNewChanges();
+            }
+            break;
+          }
+          case "comments": {
+            const comments = await github.getPRComments(owner, repo, pr.number);
+            store.setComments(comments as ReviewComment[]);
+            break;
+          }
+          case "threads": {
+            const result = await github.getReviewThreads(
+              owner,
+              repo,
+              pr.number
+            );
+            store.setReviewThreads(result.threads);
+            break;
+          }
+          case "reviews": {
+            const [reviews, timeline] = await Promise.all([
+              github.getPRReviews(owner, repo, pr.number),
+              github.getPRTimeline(owner, repo, pr.number),
+            ]);
+            store.setReviews(reviews);
+            store.setTimeline(timeline);
+            break;
+          }
+          case "conversation": {
+            const [conversation, timeline] = await Promise.all([
+              github.getPRConversation(owner, repo, pr.number),
+              github.getPRTimeline(owner, repo, pr.number),
+            ]);
+            store.setConversation(conversation);
+            store.setTimeline(timeline);
+            break;
+          }
+          case "checks":
+            await store.refreshChecks();
+            break;
+        }
+      } catch (error) {
+        console.error(`Failed to refresh ${slice} from live event:`, error);
+      }
+    };
+
+    const flush = () => {
+      timer = null;
+      const slices = [...pending];
+      pending.clear();
+      slices.forEach(refetch);
+    };
+
+    const unsubscribe = github.onLiveEvent((event) => {
+      const { owner, repo, pr } = store.getSnapshot();
+      if (
+        event.owner.toLowerCase() !== owner.toLowerCase() ||
+        event.repo.toLowerCase() !== repo.toLowerCase()
+      ) {
+        return;
+      }
+      // Checks are matched by commit, since GitHub doesn't link every
+      // check or status to a PR
+      const matches =
+        event.kind === "checks"
+          ? event.sha === pr.head.sha || event.number === pr.number
+          : event.number === pr.number;
+      if (!matches) return;
+
+      getAffectedSlices(event).forEach((slice) => pending.add(slice));
+      if (!timer) timer = setTimeout(flush, COALESCE_MS);
+    });
+
+    return () => {
+      unsubscribe();
+      if (timer) clearTimeout(timer);
+    };
+  }, [github, store]);
+}
@@ -0,0 +1,33 @@
+import { useEffect } from "react";
+import { useGitHubSelector } from "@/browser/contexts/github";
+import { usePRReviewStore } from ".";
+
+// Live events report pushes right away where webhooks are set up; polling
+// covers everything else
+const POLL_INTERVAL_MS = 60_000;
+
+/**
+ * Watch the open PR for pushes made while reviewing.
+ */
+export function useNewChangesDetection() {
+  const store = usePRReviewStore();
+  const ready = useGitHubSelector((s) => s.ready);
+
+  useEffect(() => {
+    if (!ready) return;
+
+    const check = () => {
+      if (document.visibilityState === "visible") {
+        store.checkForNewChanges();
+      }
+    };
+
+    const interval = setInterval(check, POLL_INTERVAL_MS);
+    // Catch up right away when coming back to the tab
+    document.addEventListener("visibilitychange", check);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener("visibilitychange", check);
+    };
+  }, [store, ready]);
+}
@@ -32,14 +32,19 @@ export function usePendingReviewLoader() {
             nodeId: c.id,
             databaseId: c.databaseId,
             path: c.path,
-            line: c.line,
+            line: c.line ?? 0,
             start_line: c.startLine || undefined,
             body: c.body,
             side: "RIGHT" as const,
+            subject_type: c.subjectType === "FILE" ? "file" : undefined,
           })
         );
 
-        store.setPendingComments(localComments);
+        // Keep comments still queued offline; they aren't on GitHub yet
+        const queued = store
+          .getSnapshot()
+          .pendingComments.filter((c) => c.outboxId);
+        store.setPendingComments([...localComments, ...queued]);
       } catch (error) {
         console.error("Failed to fetch pending review:", error);
       }
@@ -47,4 +52,33 @@ export function usePendingReviewLoader() {
 
     fetchPendingReview();
   }, [github, owner, repo, pr.number, store]);
+
+  // Attach GitHub IDs to comments queued offline once they've been sent
+  useEffect(() => {
+    return github.onOutboxReplayed((entry, result) => {
+      if (entry.op.type !== "addPendingComment") return;
+      const comment = store
+        .getSnapshot()
+        .pendingComments.find((c) => c.outboxId === entry.id);
+      if (!comment) return;
+
+      const ids = result as Awaited<
+        ReturnType<typeof github.addPendingComment>
+      >;
+      store.updatePendingCommentWithGitHubIds(
+        comment.id,
+        ids.reviewId,
+        ids.commentId,
+        ids.commentDatabaseId
+      );
+      // Apply edits made while the comment was queued
+      if (comment.body !== entry.op.args[3].body) {
+        github
+          .updatePendingComment(ids.commentId, comment.body)
+          .catch((error) =>
+            console.error("Failed to update comment on GitHub:", error)
+          );
+      }
+    });
+  }, [github, store]);
 }
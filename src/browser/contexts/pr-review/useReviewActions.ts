@@ -1,7 +1,12 @@
 import type { ReviewComment } from "@/api/types";
-import { useGitHub, type Review } from "@/browser/contexts/github";
+import {
+  useGitHub,
+  repoCacheKey,
+  type Review,
+} from "@/browser/contexts/github";
 import { useTelemetry } from "@/browser/contexts/telemetry";
-import { usePRReviewStore, usePRReviewSelector } from ".";
+import { isQueuedWrite } from "@/browser/lib/outbox";
+import { usePRReviewStore, usePRReviewSelector, isFileComment } from ".";
 
 export function useReviewActions() {
   const store = usePRReviewStore();
@@ -20,27 +25,47 @@ export function useReviewActions() {
     let newReview: Review | null = null;
 
     try {
+      // Whole-file comments can only go on a pending review (REST reviews
+      // can't hold them), and once there is one every comment has to be on
+      // it to be submitted
+      const hasFileComments = state.pendingComments.some(
+        (c) => isFileComment(c) && !c.outdated
+      );
+      if (hasFileComments || store.getPendingReviewNodeId()) {
+        await store.syncPendingComments();
+      }
+
       // Get the pending review node ID (from GraphQL)
       const reviewNodeId = store.getPendingReviewNodeId();
 
       if (reviewNodeId) {
         // Submit via GraphQL - we'll find the review ID after refreshing
         await github.submitPendingReview(reviewNodeId, event, state.reviewBody);
+      } else if (store.getSnapshot().pendingComments.some((c) => c.outboxId)) {
+        // Comments queued offline create the pending review when they're
+        // sent, so look it up at submission time
+        await github.submitViewerPendingReview(
+          owner,
+          repo,
+          pr.number,
+          event,
+          state.reviewBody
+        );
       } else if (state.pendingComments.length > 0) {
-        // Fallback: create a new review with all comments via REST
+        // Fallback: create a new review with all comments via REST.
+        // Outdated comments have no lines left to go on.
+        const comments = state.pendingComments.filter((c) => !c.outdated);
         newReview = await github.createPRReview(owner, repo, pr.number, {
           commit_id: pr.head.sha,
           event,
           body: state.reviewBody,
-          comments: state.pendingComments.map(
-            ({ path, line, body, side, start_line }) => ({
-              path,
-              line,
-              body,
-              side: side as "LEFT" | "RIGHT",
-              start_line,
-            })
-          ),
+          comments: comments.map(({ path, line, body, side, start_line }) => ({
+            path,
+            line,
+            body,
+            side: side as "LEFT" | "RIGHT",
+            start_line,
+          })),
         });
       } else {
         // Just submitting a review with no comments (APPROVE, etc)
@@ -63,7 +88,9 @@ export function useReviewActions() {
       });
 
       // Invalidate timeline cache so we get fresh data
-      github.invalidateCache(`pr:${owner}/${repo}/${pr.number}:timeline`);
+      github.invalidateCache(
+        `pr:${repoCacheKey(owner, repo)}/${pr.number}:timeline`
+      );
 
       // Refresh comments, reviews, and timeline
       const [newComments, reviews, timeline] = await Promise.all([
@@ -95,6 +122,11 @@ export function useReviewActions() {
 
       // Navigate to overview page and scroll to the new review
       store.selectOverview(scrollTarget);
+    } catch (error) {
+      // Offline: the review is submitted once the queued writes are sent
+      if (!isQueuedWrite(error)) throw error;
+      store.clearReviewState();
+      store.selectOverview();
     } finally {
       store.setSubmittingReview(false);
     }
@@ -8,7 +8,9 @@ export function useSkipBlockExpansion() {
   const github = useGitHub();
   const owner = usePRReviewSelector((s) => s.owner);
   const repo = usePRReviewSelector((s) => s.repo);
-  const pr = usePRReviewSelector((s) => s.pr);
+  const headRef = usePRReviewSelector(
+    (s) => s.diffScope?.head ?? s.pr.head.sha
+  );
   const selectedFile = usePRReviewSelector((s) => s.selectedFile);
   const expandedSkipBlocks = usePRReviewSelector((s) => s.expandedSkipBlocks);
   const expandingSkipBlocks = usePRReviewSelector((s) => s.expandingSkipBlocks);
@@ -30,7 +32,7 @@ export function useSkipBlockExpansion() {
           owner,
           repo,
           selectedFile,
-          pr.head.sha
+          headRef
         );
 
         if (!content) {
@@ -67,7 +69,7 @@ export function useSkipBlockExpansion() {
       store,
       owner,
       repo,
-      pr.head.sha,
+      headRef,
       selectedFile,
       expandedSkipBlocks,
       expandingSkipBlocks,
@@ -1,4 +1,5 @@
 import { useGitHub } from "@/browser/contexts/github";
+import { isQueuedWrite } from "@/browser/lib/outbox";
 import { usePRReviewStore } from ".";
 
 export function useThreadActions() {
@@ -8,33 +9,42 @@ export function useThreadActions() {
   const resolveThread = async (threadId: string) => {
     try {
       await github.resolveThread(threadId);
-      // Update local state - mark all comments in this thread as resolved
-      const state = store.getSnapshot();
-      const updatedComments = state.comments.map((c) =>
-        c.pull_request_review_thread_id === threadId
-          ? { ...c, is_resolved: true }
-          : c
-      );
-      store.setComments(updatedComments);
     } catch (error) {
-      console.error("Failed to resolve thread:", error);
+      // Queued offline writes are shown as applied
+      if (!isQueuedWrite(error)) {
+        console.error("Failed to resolve thread:", error);
+        return;
+      }
     }
+    // Update local state - mark all comments in this thread as resolved
+    const state = store.getSnapshot();
+    const updatedComments = state.comments.map((c) =>
+      c.pull_request_review_thread_id === threadId
+        ? { ...c, is_resolved: true }
+        : c
+    );
+    store.setComments(updatedComments);
+    store.updateReviewThread(threadId, (t) => ({ ...t, isResolved: true }));
   };
 
   const unresolveThread = async (threadId: string) => {
     try {
       await github.unresolveThread(threadId);
-      // Update local state - mark all comments in this thread as unresolved
-      const state = store.getSnapshot();
-      const updatedComments = state.comments.map((c) =>
-        c.pull_request_review_thread_id === threadId
-          ? { ...c, is_resolved: false }
-          : c
-      );
-      store.setComments(updatedComments);
     } catch (error) {
-      console.error("Failed to unresolve thread:", error);
+      if (!isQueuedWrite(error)) {
+        console.error("Failed to unresolve thread:", error);
+        return;
+      }
     }
+    // Update local state - mark all comments in this thread as unresolved
+    const state = store.getSnapshot();
+    const updatedComments = state.comments.map((c) =>
+      c.pull_request_review_thread_id === threadId
+        ? { ...c, is_resolved: false }
+        : c
+    );
+    store.setComments(updatedComments);
+    store.updateReviewThread(threadId, (t) => ({ ...t, isResolved: false }));
   };
 
   return { resolveThread, unresolveThread };
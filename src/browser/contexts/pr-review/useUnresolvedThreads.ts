@@ -0,0 +1,32 @@
+import { useMemo } from "react";
+import { usePRReviewSelector, getUnresolvedThreads } from ".";
+
+/**
+ * Count unresolved threads, and which of them (1-based) holds the focused
+ * comment, if any
+ */
+export function useUnresolvedThreads(): {
+  total: number;
+  current: number | null;
+} {
+  const comments = usePRReviewSelector((s) => s.comments);
+  const files = usePRReviewSelector((s) => s.files);
+  const diffScope = usePRReviewSelector((s) => s.diffScope);
+  const pr = usePRReviewSelector((s) => s.pr);
+  const focusedCommentId = usePRReviewSelector((s) => s.focusedCommentId);
+
+  const threads = useMemo(
+    () => getUnresolvedThreads({ comments, files, diffScope, pr }),
+    [comments, files, diffScope, pr]
+  );
+
+  return useMemo(() => {
+    const focused = comments.find((c) => c.id === focusedCommentId);
+    const focusedThread = focused?.in_reply_to_id ?? focused?.id;
+    const index = threads.findIndex((t) => t.id === focusedThread);
+    return {
+      total: threads.length,
+      current: index === -1 ? null : index + 1,
+    };
+  }, [threads, comments, focusedCommentId]);
+}
@@ -7,6 +7,7 @@ import {
   type ReactNode,
 } from "react";
 import { useNavigate } from "react-router-dom";
+import { useAuth } from "./auth";
 
 // ============================================================================
 // Types
@@ -29,6 +30,8 @@ export interface Tab {
   owner?: string;
   repo?: string;
   number?: number;
+  // Account that opened the tab, so it keeps using that account's client
+  accountId?: string;
   // Status reported by the tab content
   status?: TabStatus;
 }
@@ -121,6 +124,7 @@ interface TabProviderProps {
 
 export function TabProvider({ children }: TabProviderProps) {
   const [state, setState] = useState<TabState>(loadTabState);
+  const { activeAccountId } = useAuth();
 
   // Save to localStorage whenever state changes
   useEffect(() => {
@@ -130,7 +134,14 @@ export function TabProvider({ children }: TabProviderProps) {
   const openTab = useCallback(
     (tabInput: Omit<Tab, "id"> & { id?: string }): string => {
       const id = tabInput.id || `tab-${Date.now()}`;
-      const tab: Tab = { ...tabInput, id };
+      const tab: Tab = {
+        ...tabInput,
+        id,
+        accountId:
+          tabInput.type === "pr-review"
+            ? (tabInput.accountId ?? activeAccountId ?? undefined)
+            : undefined,
+      };
 
       setState((prev) => {
         // Check if tab already exists
@@ -146,7 +157,7 @@ export function TabProvider({ children }: TabProviderProps) {
 
       return id;
     },
-    []
+    [activeAccountId]
   );
 
   const closeTab = useCallback((tabId: string) => {
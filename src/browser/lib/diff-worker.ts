@@ -10,7 +10,7 @@ import gitDiffParser, {
   DeleteChange,
   InsertChange,
 } from "gitdiff-parser";
-import { diffChars, diffWords } from "diff";
+import { diffArrays, diffChars, diffWords, structuredPatch } from "diff";
 import { refractor } from "refractor/all";
 
 // ============================================================================
@@ -100,6 +100,21 @@ export type WorkerRequest =
       filename: string;
       startLine: number;
       count: number;
+    }
+  | {
+      type: "diff-contents";
+      id: string;
+      filename: string;
+      previousFilename?: string;
+      oldContent: string;
+      newContent: string;
+    }
+  | {
+      type: "map-lines";
+      id: string;
+      oldContent: string;
+      newContent: string;
+      lines: number[];
     };
 
 export type WorkerResponse =
@@ -113,6 +128,16 @@ export type WorkerResponse =
       id: string;
       result: DiffLine[];
     }
+  | {
+      type: "diff-contents-result";
+      id: string;
+      result: ParsedDiff;
+    }
+  | {
+      type: "map-lines-result";
+      id: string;
+      result: (number | null)[];
+    }
   | {
       type: "error";
       id: string;
@@ -795,6 +820,69 @@ function highlightFileLines(
   return result;
 }
 
+// ============================================================================
+// Content Diffing
+// ============================================================================
+
+/**
+ * Build the hunks of a unified diff (the part GitHub returns as
+ * `file.patch`) from two versions of a file. Used when GitHub omits the
+ * patch for large files.
+ */
+function createPatchFromContents(
+  oldContent: string,
+  newContent: string
+): string {
+  const { hunks } = structuredPatch("a", "b", oldContent, newContent, "", "", {
+    context: 3,
+  });
+  return hunks
+    .map(
+      (hunk) =>
+        `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@\n` +
+        hunk.lines.join("\n")
+    )
+    .join("\n");
+}
+
+// ============================================================================
+// Line Mapping
+// ============================================================================
+
+/**
+ * Map 1-based line numbers in oldContent to where the same lines are in
+ * newContent. Lines that were changed or removed map to null.
+ */
+function mapLineNumbers(
+  oldContent: string,
+  newContent: string,
+  lines: number[]
+): (number | null)[] {
+  const mapping = new Map<number, number>();
+  let oldLine = 1;
+  let newLine = 1;
+
+  for (const part of diffArrays(
+    oldContent.split("\n"),
+    newContent.split("\n")
+  )) {
+    const count = part.value.length;
+    if (part.added) {
+      newLine += count;
+    } else if (part.removed) {
+      oldLine += count;
+    } else {
+      for (let i = 0; i < count; i++) {
+        mapping.set(oldLine + i, newLine + i);
+      }
+      oldLine += count;
+      newLine += count;
+    }
+  }
+
+  return lines.map((line) => mapping.get(line) ?? null);
+}
+
 // ============================================================================
 // Worker Message Handler
 // ============================================================================
@@ -834,6 +922,42 @@ self.onmessage = (event: MessageEvent<WorkerRequest>) => {
         } as WorkerResponse);
         break;
       }
+
+      case "diff-contents": {
+        const patch = createPatchFromContents(
+          request.oldContent,
+          request.newContent
+        );
+        const result = patch
+          ? parseDiffWithHighlighting(
+              patch,
+              request.filename,
+              request.previousFilename,
+              request.oldContent,
+              request.newContent
+            )
+          : { hunks: [] };
+        self.postMessage({
+          type: "diff-contents-result",
+          id: request.id,
+          result,
+        } as WorkerResponse);
+        break;
+      }
+
+      case "map-lines": {
+        const result = mapLineNumbers(
+          request.oldContent,
+          request.newContent,
+          request.lines
+        );
+        self.postMessage({
+          type: "map-lines-result",
+          id: request.id,
+          result,
+        } as WorkerResponse);
+        break;
+      }
     }
   } catch (error) {
     self.postMessage({
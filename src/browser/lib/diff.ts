@@ -129,6 +129,58 @@ class DiffWorkerPool {
     });
   }
 
+  /**
+   * Diff two versions of a file and parse the result, for files GitHub
+   * returned without a patch.
+   */
+  async diffContents(
+    oldContent: string,
+    newContent: string,
+    filename: string,
+    previousFilename?: string
+  ): Promise<ParsedDiff> {
+    const id = this.generateId();
+    const worker = this.getNextWorker();
+
+    return new Promise((resolve, reject) => {
+      this.pendingRequests.set(id, { resolve, reject });
+
+      worker.postMessage({
+        type: "diff-contents",
+        id,
+        filename,
+        previousFilename,
+        oldContent,
+        newContent,
+      } as WorkerRequest);
+    });
+  }
+
+  /**
+   * Map line numbers in an old version of a file to the new version.
+   * Changed or removed lines map to null.
+   */
+  async mapLines(
+    oldContent: string,
+    newContent: string,
+    lines: number[]
+  ): Promise<(number | null)[]> {
+    const id = this.generateId();
+    const worker = this.getNextWorker();
+
+    return new Promise((resolve, reject) => {
+      this.pendingRequests.set(id, { resolve, reject });
+
+      worker.postMessage({
+        type: "map-lines",
+        id,
+        oldContent,
+        newContent,
+        lines,
+      } as WorkerRequest);
+    });
+  }
+
   /**
    * Parse multiple diffs in parallel across the worker pool.
    */
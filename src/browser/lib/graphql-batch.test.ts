@@ -0,0 +1,70 @@
+import { test, expect } from "bun:test";
+import {
+  getErrorOperationIndex,
+  mergeOperations,
+  parseOperation,
+  splitResult,
+  unprefixError,
+} from "./graphql-batch";
+
+const threadsQuery = `
+  query ($owner: String!, $repo: String!, $number: Int!) {
+    repository(owner: $owner, name: $repo) {
+      pullRequest(number: $number) { id ...PRFields }
+    }
+  }
+  fragment PRFields on PullRequest { title }
+`;
+
+const enrichmentQuery = `
+  query {
+    pr0: repository(owner: "a", name: "b") {
+      pullRequest(number: 1) { ... on PullRequest { id } }
+    }
+  }
+`;
+
+test("parseOperation rejects mutations and top-level spreads", () => {
+  expect(
+    parseOperation("mutation ($input: X!) { a(input: $input) { id } }")
+  ).toBeNull();
+  expect(parseOperation("query { ...Q } fragment Q on Query { a }")).toBeNull();
+  expect(parseOperation(threadsQuery)).not.toBeNull();
+});
+
+test("mergeOperations prefixes fields and variables per query", () => {
+  const ops = [parseOperation(threadsQuery)!, parseOperation(threadsQuery)!];
+  const merged = mergeOperations(ops, [
+    { owner: "o", repo: "r", number: 1 },
+    { owner: "o", repo: "r", number: 2 },
+  ]);
+
+  expect(merged.variables).toEqual({
+    batch0_owner: "o",
+    batch0_repo: "r",
+    batch0_number: 1,
+    batch1_owner: "o",
+    batch1_repo: "r",
+    batch1_number: 2,
+  });
+  expect(merged.query).toContain("batch0_repository : repository");
+  expect(merged.query).toContain("number : $batch1_number");
+  // Shared fragment is only defined once
+  expect(merged.query.match(/fragment PRFields/g)).toHaveLength(1);
+});
+
+test("splitResult restores original response keys", () => {
+  const ops = [parseOperation(threadsQuery)!, parseOperation(enrichmentQuery)!];
+  const data = { batch0_repository: { id: 1 }, batch1_pr0: { id: 2 } };
+
+  expect(splitResult(data, 0, ops[0])).toEqual({ repository: { id: 1 } });
+  expect(splitResult(data, 1, ops[1])).toEqual({ pr0: { id: 2 } });
+});
+
+test("errors are attributed to the query that caused them", () => {
+  const error = { message: "Not found", path: ["batch1_pr0", "pullRequest"] };
+
+  expect(getErrorOperationIndex(error)).toBe(1);
+  expect(getErrorOperationIndex({ message: "Parse error" })).toBeNull();
+  expect(unprefixError(error, 1).path).toEqual(["pr0", "pullRequest"]);
+});
@@ -0,0 +1,374 @@
+/**
+ * GraphQL Batching - Merge several queries into one aliased document
+ *
+ * Each query's top-level fields are aliased with a per-query prefix and its
+ * variables are renamed the same way, so queries that select the same fields
+ * with different arguments can share a request. Fragments are deduplicated by
+ * name. The response is split back per query by prefix.
+ *
+ * This is a token-level rewrite, not a full GraphQL parser. Anything it
+ * can't safely rewrite (mutations, top-level fragment spreads, fragments that
+ * use variables, conflicting fragment names) is reported as unbatchable and
+ * should be sent on its own.
+ *
+ * Usage:
+ *   const ops = queries.map((q) => parseOperation(q.query));
+ *   const merged = mergeOperations(ops, variablesPerQuery);
+ *   const data = await graphql(merged.query, merged.variables);
+ *   const first = splitResult(data, 0, ops[0]);
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ParsedOperation {
+  // Tokens inside the variable definition parens, if any
+  variableDefinitions: string[];
+  // Top-level selections, each as a list of tokens
+  selections: Array<{ responseKey: string; tokens: string[] }>;
+  // Fragment definitions by name, as token lists
+  fragments: Map<string, string[]>;
+}
+
+export interface MergedOperation {
+  query: string;
+  variables: Record<string, unknown>;
+}
+
+export interface GraphQLErrorLike {
+  message: string;
+  path?: ReadonlyArray<string | number>;
+}
+
+// ============================================================================
+// Lexer
+// ============================================================================
+
+const PUNCTUATORS = new Set(["{", "}", "(", ")", "[", "]", ":", "=", "!", "|"]);
+
+/**
+ * Split a document into tokens. Whitespace, commas and comments are dropped.
+ * Variables ($name) and directives (@name) are kept as single tokens.
+ */
+export function tokenize(source: string): string[] {
+  const tokens: string[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    // Ignored tokens
+    if (/[\s,﻿]/.test(char)) {
+      i++;
+      continue;
+    }
+    if (char === "#") {
+      while (i < source.length && source[i] !== "\n") i++;
+      continue;
+    }
+
+    // Block strings
+    if (source.startsWith('"""', i)) {
+      const end = source.indexOf('"""', i + 3);
+      const stop = end === -1 ? source.length : end + 3;
+      tokens.push(source.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    // Strings
+    if (char === '"') {
+      let j = i + 1;
+      while (j < source.length && source[j] !== '"') {
+        if (source[j] === "\\") j++;
+        j++;
+      }
+      tokens.push(source.slice(i, j + 1));
+      i = j + 1;
+      continue;
+    }
+
+    if (source.startsWith("...", i)) {
+      tokens.push("...");
+      i += 3;
+      continue;
+    }
+
+    if (PUNCTUATORS.has(char)) {
+      tokens.push(char);
+      i++;
+      continue;
+    }
+
+    // Names, numbers, variables and directives
+    const match = /^[$@]?[_A-Za-z0-9.+-]+/.exec(source.slice(i));
+    if (!match) {
+      throw new Error(`Unexpected character "${char}" in GraphQL document`);
+    }
+    tokens.push(match[0]);
+    i += match[0].length;
+  }
+
+  return tokens;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+const OPENERS: Record<string, string> = { "{": "}", "(": ")", "[": "]" };
+
+// Index just past the bracket group starting at `start`
+function skipGroup(tokens: string[], start: number): number {
+  const stack: string[] = [];
+  let i = start;
+  do {
+    const token = tokens[i];
+    if (OPENERS[token]) {
+      stack.push(OPENERS[token]);
+    } else if (token === stack[stack.length - 1]) {
+      stack.pop();
+    }
+    i++;
+  } while (stack.length > 0 && i < tokens.length);
+  if (stack.length > 0) throw new Error("Unbalanced GraphQL document");
+  return i;
+}
+
+function splitSelections(
+  tokens: string[]
+): ParsedOperation["selections"] | null {
+  const selections: ParsedOperation["selections"] = [];
+  let i = 0;
+
+  while (i < tokens.length) {
+    const start = i;
+    // Top-level fragment spreads can't be aliased
+    if (tokens[i] === "...") return null;
+
+    // The alias if there is one, otherwise the field name
+    const responseKey = tokens[i++];
+    if (tokens[i] === ":") i += 2;
+    if (tokens[i] === "(") i = skipGroup(tokens, i);
+    while (tokens[i]?.startsWith("@")) {
+      i++;
+      if (tokens[i] === "(") i = skipGroup(tokens, i);
+    }
+    if (tokens[i] === "{") i = skipGroup(tokens, i);
+
+    selections.push({ responseKey, tokens: tokens.slice(start, i) });
+  }
+
+  return selections;
+}
+
+/**
+ * Parse a single-query document for batching. Returns null if the document
+ * can't be batched and should be sent on its own.
+ */
+export function parseOperation(source: string): ParsedOperation | null {
+  let tokens: string[];
+  try {
+    tokens = tokenize(source);
+  } catch {
+    return null;
+  }
+
+  let operation: Omit<ParsedOperation, "fragments"> | null = null;
+  const fragments = new Map<string, string[]>();
+  let i = 0;
+
+  try {
+    while (i < tokens.length) {
+      const token = tokens[i];
+
+      if (token === "fragment") {
+        const start = i;
+        const name = tokens[i + 1];
+        i += 2;
+        while (i < tokens.length && tokens[i] !== "{") i++;
+        i = skipGroup(tokens, i);
+        const fragment = tokens.slice(start, i);
+        // Fragments that use variables would need per-query copies
+        if (fragment.some((t) => t.startsWith("$"))) return null;
+        fragments.set(name, fragment);
+        continue;
+      }
+
+      // Only one query per document; mutations run in order and are never merged
+      if (operation) return null;
+      if (token === "mutation" || token === "subscription") return null;
+
+      let variableDefinitions: string[] = [];
+      if (token === "query") {
+        i++;
+        // Skip operation name
+        if (tokens[i] !== "(" && tokens[i] !== "{") i++;
+        if (tokens[i] === "(") {
+          const end = skipGroup(tokens, i);
+          variableDefinitions = tokens.slice(i + 1, end - 1);
+          i = end;
+        }
+        // Operation-level directives aren't supported
+        if (tokens[i] !== "{") return null;
+      } else if (token !== "{") {
+        return null;
+      }
+
+      const end = skipGroup(tokens, i);
+      const selections = splitSelections(tokens.slice(i + 1, end - 1));
+      if (!selections) return null;
+      operation = { variableDefinitions, selections };
+      i = end;
+    }
+  } catch {
+    return null;
+  }
+
+  if (!operation) return null;
+  return { ...operation, fragments };
+}
+
+// ============================================================================
+// Merge / Split
+// ============================================================================
+
+export function getBatchPrefix(index: number): string {
+  return `batch${index}_`;
+}
+
+function renameVariables(tokens: string[], prefix: string): string[] {
+  return tokens.map((t) => (t.startsWith("$") ? `$${prefix}${t.slice(1)}` : t));
+}
+
+/**
+ * Check whether an operation's fragments can share a document with the
+ * fragments already collected (same name must mean same definition).
+ */
+export function fragmentsCompatible(
+  collected: Map<string, string[]>,
+  operation: ParsedOperation
+): boolean {
+  for (const [name, tokens] of operation.fragments) {
+    const existing = collected.get(name);
+    if (existing && existing.join(" ") !== tokens.join(" ")) return false;
+  }
+  return true;
+}
+
+/**
+ * Merge parsed operations into one document. Callers must check
+ * fragmentsCompatible before adding an operation to a batch.
+ */
+export function mergeOperations(
+  operations: ParsedOperation[],
+  variables: Array<Record<string, unknown>>
+): MergedOperation {
+  const variableDefinitions: string[] = [];
+  const selections: string[] = [];
+  const fragments = new Map<string, string[]>();
+  const mergedVariables: Record<string, unknown> = {};
+
+  operations.forEach((operation, index) => {
+    const prefix = getBatchPrefix(index);
+
+    variableDefinitions.push(
+      ...renameVariables(operation.variableDefinitions, prefix)
+    );
+    for (const selection of operation.selections) {
+      const tokens = renameVariables(selection.tokens, prefix);
+      // Drop an existing alias; the prefixed response key replaces it
+      const field = tokens[1] === ":" ? tokens.slice(2) : tokens;
+      selections.push(
+        [`${prefix}${selection.responseKey}`, ":", ...field].join(" ")
+      );
+    }
+    for (const [name, tokens] of operation.fragments) {
+      fragments.set(name, tokens);
+    }
+    for (const [name, value] of Object.entries(variables[index] ?? {})) {
+      mergedVariables[`${prefix}${name}`] = value;
+    }
+  });
+
+  const header =
+    variableDefinitions.length > 0
+      ? `query (${variableDefinitions.join(" ")})`
+      : "query";
+  const fragmentSource = Array.from(fragments.values())
+    .map((tokens) => tokens.join(" "))
+    .join("\n");
+
+  return {
+    query: `${header} { ${selections.join("\n")} }\n${fragmentSource}`.trim(),
+    variables: mergedVariables,
+  };
+}
+
+/**
+ * Extract one operation's data from a merged response.
+ */
+export function splitResult(
+  data: Record<string, unknown> | null | undefined,
+  index: number,
+  operation: ParsedOperation
+): Record<string, unknown> {
+  const prefix = getBatchPrefix(index);
+  const result: Record<string, unknown> = {};
+  for (const { responseKey } of operation.selections) {
+    result[responseKey] = data?.[`${prefix}${responseKey}`] ?? null;
+  }
+  return result;
+}
+
+/**
+ * Find which operation an error belongs to, from the first path segment.
+ * Returns null for errors that can't be attributed (e.g. parse errors).
+ */
+export function getErrorOperationIndex(error: GraphQLErrorLike): number | null {
+  const key = error.path?.[0];
+  if (typeof key !== "string") return null;
+  const match = /^batch(\d+)_/.exec(key);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Strip the batch prefix from an error's path so it matches what the
+ * caller would have seen for its own query.
+ */
+export function unprefixError<T extends GraphQLErrorLike>(
+  error: T,
+  index: number
+): T {
+  const [first, ...rest] = error.path ?? [];
+  if (typeof first !== "string") return error;
+  const prefix = getBatchPrefix(index);
+  return {
+    ...error,
+    path: [
+      first.startsWith(prefix) ? first.slice(prefix.length) : first,
+      ...rest,
+    ],
+  };
+}
+
+/**
+ * Error for one query in a batch, shaped like Octokit's GraphqlResponseError
+ * so callers can't tell whether their query was batched.
+ */
+export class BatchedGraphQLError extends Error {
+  readonly errors: GraphQLErrorLike[];
+  readonly data: Record<string, unknown>;
+
+  constructor(errors: GraphQLErrorLike[], data: Record<string, unknown>) {
+    super(
+      `Request failed due to following response errors:\n${errors
+        .map((e) => ` - ${e.message}`)
+        .join("\n")}`
+    );
+    this.name = "GraphqlResponseError";
+    this.errors = errors;
+    this.data = data;
+  }
+}
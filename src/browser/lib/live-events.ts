@@ -0,0 +1,114 @@
+/**
+ * Live Events - Webhook events pushed from the Pulldash server
+ *
+ * The server relays GitHub webhook deliveries over Server-Sent Events at
+ * /api/events, to subscribers that authenticate with their GitHub token and
+ * only for repos that token can read. Events only identify what changed;
+ * subscribers refetch the data with their own token. When the stream isn't
+ * available (static hosting, webhooks not set up, another host) nothing is
+ * delivered and polling remains the only source of updates.
+ *
+ * The stream is read with fetch rather than EventSource, which can't send an
+ * Authorization header.
+ *
+ * Usage:
+ *   const unsubscribe = subscribeToLiveEvents(
+ *     { token, hostname: "github.com" },
+ *     (event) => {
+ *       if (event.kind === "checks") refreshChecks(event.sha);
+ *     }
+ *   );
+ */
+
+import type { LiveEvent } from "@/api/webhooks";
+
+export type { LiveEvent };
+
+const EVENTS_URL = "/api/events";
+
+// Reconnect delays after dropped connections
+const MIN_RETRY_MS = 2_000;
+const MAX_RETRY_MS = 60_000;
+
+export interface LiveEventsAuth {
+  token: string;
+  hostname: string;
+}
+
+// Split a Server-Sent Events message into its event name and data
+function parseMessage(message: string): { event: string; data: string } {
+  let event = "message";
+  const data: string[] = [];
+  for (const line of message.split("\n")) {
+    if (line.startsWith("event:")) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith("data:")) {
+      data.push(line.slice(5).replace(/^ /, ""));
+    }
+  }
+  return { event, data: data.join("\n") };
+}
+
+export function subscribeToLiveEvents(
+  auth: LiveEventsAuth,
+  listener: (event: LiveEvent) => void
+): () => void {
+  if (typeof fetch === "undefined" || typeof TextDecoder === "undefined") {
+    return () => {};
+  }
+
+  const controller = new AbortController();
+  let retryDelay = MIN_RETRY_MS;
+
+  const handleMessage = (message: string) => {
+    const { event, data } = parseMessage(message.replace(/\r/g, ""));
+    if (event !== "github") return;
+    try {
+      listener(JSON.parse(data) as LiveEvent);
+    } catch (error) {
+      console.error("Failed to handle live event:", error);
+    }
+  };
+
+  // Resolves with whether to reconnect
+  const connect = async (): Promise<boolean> => {
+    const url = `${EVENTS_URL}?${new URLSearchParams({ hostname: auth.hostname })}`;
+    const response = await fetch(url, {
+      headers: {
+        Accept: "text/event-stream",
+        Authorization: `Bearer ${auth.token}`,
+      },
+      signal: controller.signal,
+    });
+    // Not configured, not for this host or token rejected: it won't
+    // start working by retrying
+    if (!response.ok || !response.body) return false;
+    retryDelay = MIN_RETRY_MS;
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return true;
+      buffer += decoder.decode(value, { stream: true });
+      let end: number;
+      while ((end = buffer.search(/\r?\n\r?\n/)) !== -1) {
+        handleMessage(buffer.slice(0, end));
+        buffer = buffer.slice(end).replace(/^\r?\n\r?\n/, "");
+      }
+    }
+  };
+
+  const run = async () => {
+    while (!controller.signal.aborted) {
+      const retry = await connect().catch(() => true);
+      if (!retry || controller.signal.aborted) return;
+      await new Promise((resolve) => setTimeout(resolve, retryDelay));
+      retryDelay = Math.min(retryDelay * 2, MAX_RETRY_MS);
+    }
+  };
+  run();
+
+  return () => controller.abort();
+}
@@ -0,0 +1,240 @@
+import { test, expect, beforeEach, afterEach, jest } from "bun:test";
+import {
+  Outbox,
+  WriteConflictError,
+  isWriteConflict,
+  type OutboxEntry,
+} from "./outbox";
+
+// Mock localStorage
+const storage = new Map<string, string>();
+globalThis.localStorage = {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => storage.set(key, value),
+  removeItem: (key: string) => storage.delete(key),
+  clear: () => storage.clear(),
+  key: () => null,
+  length: 0,
+};
+
+beforeEach(() => {
+  storage.clear();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+// Bun has advanceTimersByTime, but older bun-types don't declare it
+const clock = jest as typeof jest & { advanceTimersByTime(ms: number): void };
+
+// Let a retried replay run to completion
+async function settle() {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+}
+
+const KEY = "pulldash_outbox:test";
+
+// Octokit's errors carry the HTTP status; network failures are a 500 with
+// no response
+function httpError(status: number, message = `HTTP ${status}`) {
+  return Object.assign(new Error(message), { status });
+}
+
+function serverError(status: number, message = `HTTP ${status}`) {
+  return Object.assign(httpError(status, message), {
+    response: { headers: {} },
+  });
+}
+
+function createOutbox(ops: string[]) {
+  const outbox = new Outbox<string>(KEY);
+  for (const op of ops) outbox.add(op, `Write ${op}`);
+  return outbox;
+}
+
+test("replay sends queued writes in order and reports each result", async () => {
+  const outbox = createOutbox(["a", "b", "c"]);
+  const sent: string[] = [];
+  const results: Array<[string, unknown]> = [];
+
+  await outbox.replay(
+    async (op) => {
+      sent.push(op);
+      return op.toUpperCase();
+    },
+    (entry, result) => results.push([entry.op, result])
+  );
+
+  expect(sent).toEqual(["a", "b", "c"]);
+  expect(results).toEqual([
+    ["a", "A"],
+    ["b", "B"],
+    ["c", "C"],
+  ]);
+  expect(outbox.getEntries()).toEqual([]);
+  expect(storage.has(KEY)).toBe(false);
+});
+
+test("replay marks conflicts and moves on to later writes", async () => {
+  const outbox = createOutbox(["deleted-thread", "gone", "ok"]);
+  const sent: string[] = [];
+
+  await outbox.replay(async (op) => {
+    sent.push(op);
+    if (op === "deleted-thread") {
+      throw new WriteConflictError("The thread no longer exists");
+    }
+    if (op === "gone") throw httpError(404, "Not Found");
+  });
+
+  expect(sent).toEqual(["deleted-thread", "gone", "ok"]);
+  expect(
+    outbox.getEntries().map(({ op, status, error }) => ({ op, status, error }))
+  ).toEqual([
+    {
+      op: "deleted-thread",
+      status: "conflict",
+      error: "The thread no longer exists",
+    },
+    { op: "gone", status: "conflict", error: "Not Found" },
+  ]);
+
+  // Conflicts wait for the user instead of being retried
+  sent.length = 0;
+  await outbox.replay(async (op) => sent.push(op));
+  expect(sent).toEqual([]);
+});
+
+test("replay stops at the first write that can't be sent yet", async () => {
+  const outbox = createOutbox(["offline", "later"]);
+  const sent: string[] = [];
+
+  await outbox.replay(async (op) => {
+    sent.push(op);
+    throw httpError(500, "Failed to fetch");
+  });
+
+  // Later writes never overtake an earlier one
+  expect(sent).toEqual(["offline"]);
+  expect(outbox.getEntries().map((e) => [e.op, e.status, e.error])).toEqual([
+    ["offline", "queued", undefined],
+    ["later", "queued", undefined],
+  ]);
+});
+
+test("server errors are retried with backoff, then marked failed", async () => {
+  jest.useFakeTimers();
+  const outbox = createOutbox(["x", "later"]);
+  const sent: string[] = [];
+  const send = async (op: string) => {
+    sent.push(op);
+    if (op === "x") throw serverError(502, "Bad Gateway");
+  };
+
+  await outbox.replay(send);
+  expect(sent).toEqual(["x"]);
+  expect(outbox.getEntries()[0]).toMatchObject({
+    status: "queued",
+    error: "Bad Gateway",
+    attempts: 1,
+  });
+
+  // 5s, 10s, then 20s between attempts
+  for (const backoff of [5_000, 10_000, 20_000]) {
+    clock.advanceTimersByTime(backoff - 1);
+    await settle();
+    const attempts = sent.filter((op) => op === "x").length;
+    clock.advanceTimersByTime(1);
+    await settle();
+    expect(sent.filter((op) => op === "x")).toHaveLength(attempts + 1);
+  }
+
+  // Out of attempts: it stops blocking later writes
+  expect(sent).toEqual(["x", "x", "x", "x", "later"]);
+  expect(
+    outbox.getEntries().map(({ op, status, error }) => ({ op, status, error }))
+  ).toEqual([{ op: "x", status: "failed", error: "Bad Gateway" }]);
+
+  clock.advanceTimersByTime(60_000);
+  await settle();
+  expect(sent).toHaveLength(5);
+});
+
+test("writes GitHub refuses are marked failed without retrying", async () => {
+  const outbox = createOutbox(["unauthorized", "ok"]);
+  const sent: string[] = [];
+
+  await outbox.replay(async (op) => {
+    sent.push(op);
+    if (op === "unauthorized") throw serverError(401, "Bad credentials");
+  });
+
+  expect(sent).toEqual(["unauthorized", "ok"]);
+  expect(outbox.getEntries()).toMatchObject([
+    { op: "unauthorized", status: "failed", error: "Bad credentials" },
+  ]);
+
+  // Failed entries wait for the user, like conflicts
+  sent.length = 0;
+  await outbox.replay(async (op) => sent.push(op));
+  expect(sent).toEqual([]);
+});
+
+test("replay doesn't run twice at once", async () => {
+  const outbox = createOutbox(["a", "b"]);
+  const sent: string[] = [];
+  let release!: () => void;
+  const blocked = new Promise<void>((resolve) => (release = resolve));
+
+  const first = outbox.replay(async (op) => {
+    sent.push(op);
+    await blocked;
+  });
+  await outbox.replay(async (op) => sent.push(`second:${op}`));
+  release();
+  await first;
+
+  expect(sent).toEqual(["a", "b"]);
+});
+
+test("entries interrupted mid-replay are queued again on reload", () => {
+  const entries: OutboxEntry<string>[] = [
+    {
+      id: "1",
+      op: "a",
+      label: "Write a",
+      createdAt: 0,
+      status: "replaying",
+    },
+    {
+      id: "2",
+      op: "b",
+      label: "Write b",
+      createdAt: 0,
+      status: "conflict",
+      error: "Not Found",
+    },
+  ];
+  storage.set(KEY, JSON.stringify(entries));
+
+  const outbox = new Outbox<string>(KEY);
+
+  expect(outbox.getEntries().map((e) => e.status)).toEqual([
+    "queued",
+    "conflict",
+  ]);
+});
+
+test("isWriteConflict recognizes REST and GraphQL conflicts", () => {
+  expect(isWriteConflict(new WriteConflictError("Gone"))).toBe(true);
+  expect(isWriteConflict(httpError(422))).toBe(true);
+  expect(
+    isWriteConflict(
+      Object.assign(new Error("GraphQL"), { errors: [{ type: "NOT_FOUND" }] })
+    )
+  ).toBe(true);
+  expect(isWriteConflict(httpError(500))).toBe(false);
+  expect(isWriteConflict(httpError(401))).toBe(false);
+  expect(isWriteConflict(new Error("Failed to fetch"))).toBe(false);
+});
@@ -0,0 +1,253 @@
+/**
+ * Outbox - Persisted queue of writes made while offline
+ *
+ * Entries are kept in localStorage (not the LRU-evicted persistent cache) so
+ * a queued comment survives a reload and is never dropped to make room for
+ * cached reads. The owner, which knows how to execute each operation,
+ * replays them in order.
+ *
+ * Usage:
+ *   const outbox = new Outbox<MyOp>('pulldash_outbox:account');
+ *   const entry = outbox.add(op, 'Resolve thread');
+ *   await outbox.replay((op) => send(op), (entry, result) => ...);
+ *   outbox.remove(entry.id);
+ */
+
+import { isNetworkError } from "./request-scheduler";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// queued: waiting to be sent
+// replaying: being sent right now
+// conflict: the target changed; needs the user to retry or discard
+// failed: GitHub kept refusing it; needs the user to retry or discard
+export type OutboxEntryStatus = "queued" | "replaying" | "conflict" | "failed";
+
+export interface OutboxEntry<Op = unknown> {
+  id: string;
+  op: Op;
+  // Short description for the UI, e.g. "Resolve thread"
+  label: string;
+  createdAt: number;
+  status: OutboxEntryStatus;
+  // Why the last replay attempt failed
+  error?: string;
+  // Replay attempts that failed with a server error
+  attempts?: number;
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Thrown by a write that was queued instead of sent. Callers should show the
+ * change as queued rather than failed.
+ */
+export class QueuedWriteError extends Error {
+  readonly entryId: string;
+
+  constructor(entryId: string, label: string) {
+    super(`${label} was queued and will be sent when you're back online`);
+    this.name = "QueuedWriteError";
+    this.entryId = entryId;
+  }
+}
+
+/**
+ * Thrown when the target of a write changed in a way that makes replaying
+ * it meaningless (e.g. the thread was deleted).
+ */
+export class WriteConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WriteConflictError";
+  }
+}
+
+export function isQueuedWrite(error: unknown): error is QueuedWriteError {
+  return error instanceof QueuedWriteError;
+}
+
+function isServerError(error: unknown): boolean {
+  return (
+    !!error &&
+    typeof error === "object" &&
+    "status" in error &&
+    (error.status as number) >= 500
+  );
+}
+
+/**
+ * Whether the target of a write changed in a way that makes replaying it
+ * pointless, as opposed to GitHub being unreachable or failing.
+ */
+export function isWriteConflict(error: unknown): boolean {
+  if (error instanceof WriteConflictError) return true;
+  if (error && typeof error === "object") {
+    if (
+      "status" in error &&
+      [404, 409, 410, 422].includes(error.status as number)
+    ) {
+      return true;
+    }
+    if ("errors" in error && Array.isArray(error.errors)) {
+      return error.errors.some((e: { type?: string }) =>
+        ["NOT_FOUND", "UNPROCESSABLE", "FORBIDDEN"].includes(e.type ?? "")
+      );
+    }
+  }
+  return false;
+}
+
+// ============================================================================
+// Outbox
+// ============================================================================
+
+// Server errors are retried this many times before the entry is marked
+// failed, waiting 5s, 10s, then 20s in between
+const MAX_ATTEMPTS = 4;
+const RETRY_BACKOFF_MS = 5_000;
+
+export class Outbox<Op> {
+  private storageKey: string;
+  private entries: OutboxEntry<Op>[];
+  private listeners = new Set<() => void>();
+  private replaying = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(storageKey: string) {
+    this.storageKey = storageKey;
+    this.entries = this.load();
+  }
+
+  private load(): OutboxEntry<Op>[] {
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      if (!stored) return [];
+      const entries = JSON.parse(stored) as OutboxEntry<Op>[];
+      // A replay interrupted by a reload didn't finish; send it again
+      return entries.map((e) =>
+        e.status === "replaying" ? { ...e, status: "queued" } : e
+      );
+    } catch {
+      return [];
+    }
+  }
+
+  private save() {
+    try {
+      if (this.entries.length === 0) {
+        localStorage.removeItem(this.storageKey);
+      } else {
+        localStorage.setItem(this.storageKey, JSON.stringify(this.entries));
+      }
+    } catch {
+      // Ignore storage errors
+    }
+    this.listeners.forEach((l) => l());
+  }
+
+  getEntries(): OutboxEntry<Op>[] {
+    return this.entries;
+  }
+
+  add(op: Op, label: string): OutboxEntry<Op> {
+    const entry: OutboxEntry<Op> = {
+      id: `outbox-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+      op,
+      label,
+      createdAt: Date.now(),
+      status: "queued",
+    };
+    this.entries = [...this.entries, entry];
+    this.save();
+    return entry;
+  }
+
+  update(id: string, changes: Partial<Omit<OutboxEntry<Op>, "id">>) {
+    this.entries = this.entries.map((e) =>
+      e.id === id ? { ...e, ...changes } : e
+    );
+    this.save();
+  }
+
+  remove(id: string) {
+    this.entries = this.entries.filter((e) => e.id !== id);
+    this.save();
+  }
+
+  /**
+   * Send queued entries in order. Entries whose target changed are marked as
+   * conflicts, and entries GitHub refuses are marked failed; both are
+   * skipped. Network and server errors leave the entry queued and stop the
+   * replay, so later writes never overtake it. Server errors are retried
+   * with backoff until the entry runs out of attempts.
+   */
+  async replay(
+    send: (op: Op) => Promise<unknown>,
+    onSent?: (entry: OutboxEntry<Op>, result: unknown) => void
+  ): Promise<void> {
+    if (this.replaying) return;
+    this.replaying = true;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    try {
+      while (true) {
+        const entry = this.entries.find((e) => e.status === "queued");
+        if (!entry) break;
+
+        this.update(entry.id, { status: "replaying", error: undefined });
+        try {
+          const result = await send(entry.op);
+          this.remove(entry.id);
+          onSent?.(entry, result);
+        } catch (error) {
+          const message =
+            error instanceof Error ? error.message : String(error);
+          if (isWriteConflict(error)) {
+            this.update(entry.id, { status: "conflict", error: message });
+            continue;
+          }
+          // Offline: keep it queued until we're back online
+          if (isNetworkError(error)) {
+            this.update(entry.id, { status: "queued", error: undefined });
+            break;
+          }
+          const attempts = (entry.attempts ?? 0) + 1;
+          if (isServerError(error) && attempts < MAX_ATTEMPTS) {
+            this.update(entry.id, {
+              status: "queued",
+              error: message,
+              attempts,
+            });
+            this.retryTimer = setTimeout(
+              () => {
+                this.retryTimer = null;
+                this.replay(send, onSent);
+              },
+              RETRY_BACKOFF_MS * 2 ** (attempts - 1)
+            );
+            break;
+          }
+          // Refused (e.g. 401/403) or still failing: leave it to the user
+          this.update(entry.id, { status: "failed", error: message, attempts });
+        }
+      }
+    } finally {
+      this.replaying = false;
+    }
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
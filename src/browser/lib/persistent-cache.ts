@@ -0,0 +1,343 @@
+/**
+ * Persistent Cache - IndexedDB-backed key/value store with a byte budget
+ *
+ * Entries are evicted least-recently-used first once the total size exceeds
+ * the budget. Values are stored as structured clones, so anything the
+ * structured clone algorithm supports can be cached. The shared cache's
+ * budget is a user setting (see CACHE_BUDGET_OPTIONS), remembered in
+ * localStorage.
+ *
+ * Usage:
+ *   import { persistentCache } from './persistent-cache';
+ *   await persistentCache.set('diff:abc123', parsed);
+ *   const parsed = await persistentCache.get<ParsedDiff>('diff:abc123');
+ */
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+// Bump when the stored layout changes. Older databases are wiped on upgrade,
+// since everything in here can be refetched.
+const SCHEMA_VERSION = 1;
+
+const DB_NAME = "pulldash-cache";
+// Values live separately from their metadata so eviction and size
+// accounting never have to load the (potentially large) values
+const VALUES_STORE = "values";
+const META_STORE = "meta";
+const LAST_ACCESSED_INDEX = "lastAccessed";
+
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024; // 50 MB
+const MAX_BYTES_STORAGE_KEY = "pulldash_cache_max_bytes";
+
+// Budgets offered in settings
+export const CACHE_BUDGET_OPTIONS = [25, 50, 100, 250, 500].map(
+  (mb) => mb * 1024 * 1024
+);
+
+interface EntryMeta {
+  key: string;
+  size: number;
+  lastAccessed: number;
+}
+
+export interface PersistentCacheOptions {
+  dbName?: string;
+  // Total size budget for all entries, in bytes (estimated from JSON size)
+  maxBytes?: number;
+  // localStorage key that budget changes are remembered under, and that
+  // overrides maxBytes once set
+  maxBytesStorageKey?: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function promisifyTransaction(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function loadMaxBytes(storageKey: string | undefined): number | null {
+  if (!storageKey || typeof localStorage === "undefined") return null;
+  try {
+    const stored = Number(localStorage.getItem(storageKey));
+    return stored > 0 ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+// UTF-16 strings take two bytes per character
+function estimateSize(value: unknown): number {
+  try {
+    return (JSON.stringify(value)?.length ?? 0) * 2;
+  } catch {
+    return 0;
+  }
+}
+
+// ============================================================================
+// Persistent Cache
+// ============================================================================
+
+export class PersistentCache {
+  private dbName: string;
+  private maxBytes: number;
+  private maxBytesStorageKey: string | undefined;
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  // Running total of entry sizes, loaded from metadata on open
+  private totalBytes = 0;
+
+  constructor(options: PersistentCacheOptions = {}) {
+    this.dbName = options.dbName ?? DB_NAME;
+    this.maxBytesStorageKey = options.maxBytesStorageKey;
+    this.maxBytes =
+      loadMaxBytes(this.maxBytesStorageKey) ??
+      options.maxBytes ??
+      DEFAULT_MAX_BYTES;
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = (async () => {
+      if (typeof indexedDB === "undefined") return null;
+
+      try {
+        const request = indexedDB.open(this.dbName, SCHEMA_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          // Drop stores from older schema versions
+          for (const name of Array.from(db.objectStoreNames)) {
+            db.deleteObjectStore(name);
+          }
+          db.createObjectStore(VALUES_STORE);
+          const meta = db.createObjectStore(META_STORE, { keyPath: "key" });
+          meta.createIndex(LAST_ACCESSED_INDEX, "lastAccessed");
+        };
+        const db = await promisifyRequest(request);
+
+        const metas = await promisifyRequest<EntryMeta[]>(
+          db.transaction(META_STORE).objectStore(META_STORE).getAll()
+        );
+        this.totalBytes = metas.reduce((sum, m) => sum + m.size, 0);
+
+        return db;
+      } catch (error) {
+        console.error("Failed to open persistent cache:", error);
+        return null;
+      }
+    })();
+
+    return this.dbPromise;
+  }
+
+  /**
+   * Get a cached value, marking it as recently used.
+   */
+  async get<T>(key: string): Promise<T | null> {
+    const db = await this.open();
+    if (!db) return null;
+
+    try {
+      const tx = db.transaction([VALUES_STORE, META_STORE], "readwrite");
+      const value = await promisifyRequest(
+        tx.objectStore(VALUES_STORE).get(key)
+      );
+      if (value === undefined) return null;
+
+      const metaStore = tx.objectStore(META_STORE);
+      const meta = await promisifyRequest<EntryMeta | undefined>(
+        metaStore.get(key)
+      );
+      if (meta) {
+        metaStore.put({ ...meta, lastAccessed: Date.now() });
+      }
+      return value as T;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Store a value, evicting least-recently-used entries to stay in budget.
+   * Values larger than the whole budget are not stored.
+   */
+  async set<T>(key: string, value: T): Promise<void> {
+    const db = await this.open();
+    if (!db) return;
+
+    const size = estimateSize(value);
+    if (size > this.maxBytes) return;
+
+    try {
+      const tx = db.transaction([VALUES_STORE, META_STORE], "readwrite");
+      const metaStore = tx.objectStore(META_STORE);
+      const previous = await promisifyRequest<EntryMeta | undefined>(
+        metaStore.get(key)
+      );
+
+      tx.objectStore(VALUES_STORE).put(value, key);
+      metaStore.put({ key, size, lastAccessed: Date.now() });
+      await promisifyTransaction(tx);
+
+      this.totalBytes += size - (previous?.size ?? 0);
+      if (this.totalBytes > this.maxBytes) {
+        await this.evict(db);
+      }
+    } catch (error) {
+      console.error("Failed to write persistent cache:", error);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const db = await this.open();
+    if (!db) return;
+
+    try {
+      const tx = db.transaction([VALUES_STORE, META_STORE], "readwrite");
+      const metaStore = tx.objectStore(META_STORE);
+      const meta = await promisifyRequest<EntryMeta | undefined>(
+        metaStore.get(key)
+      );
+      if (!meta) return;
+      tx.objectStore(VALUES_STORE).delete(key);
+      metaStore.delete(key);
+      await promisifyTransaction(tx);
+      this.totalBytes -= meta.size;
+    } catch (error) {
+      console.error("Failed to delete from persistent cache:", error);
+    }
+  }
+
+  /**
+   * Delete all entries whose key starts with the given prefix.
+   */
+  async deletePrefix(prefix: string): Promise<void> {
+    await this.deleteWhere((k) => k.startsWith(prefix));
+  }
+
+  async clear(): Promise<void> {
+    await this.deleteWhere(() => true);
+  }
+
+  /**
+   * Get all keys (with their values) that start with the given prefix.
+   * Does not update recency.
+   */
+  async getAllWithPrefix<T>(
+    prefix: string
+  ): Promise<Array<{ key: string; value: T }>> {
+    const db = await this.open();
+    if (!db) return [];
+
+    try {
+      const range = IDBKeyRange.bound(prefix, `${prefix}\uffff`);
+      const tx = db.transaction(VALUES_STORE);
+      const store = tx.objectStore(VALUES_STORE);
+      const [keys, values] = await Promise.all([
+        promisifyRequest(store.getAllKeys(range)),
+        promisifyRequest(store.getAll(range)),
+      ]);
+      return keys.map((key, i) => ({ key: String(key), value: values[i] }));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Change the budget, evicting entries right away if it shrank.
+   */
+  setMaxBytes(maxBytes: number) {
+    this.maxBytes = maxBytes;
+    if (this.maxBytesStorageKey) {
+      try {
+        localStorage.setItem(this.maxBytesStorageKey, String(maxBytes));
+      } catch {
+        // Ignore storage errors
+      }
+    }
+    this.open()
+      .then((db) => {
+        if (db && this.totalBytes > this.maxBytes) return this.evict(db);
+      })
+      .catch((error) =>
+        console.error("Failed to evict from persistent cache:", error)
+      );
+  }
+
+  getUsage(): { totalBytes: number; maxBytes: number } {
+    return { totalBytes: this.totalBytes, maxBytes: this.maxBytes };
+  }
+
+  // Remove least-recently-used entries until we're under budget
+  private async evict(db: IDBDatabase) {
+    const tx = db.transaction([VALUES_STORE, META_STORE], "readwrite");
+    const valuesStore = tx.objectStore(VALUES_STORE);
+    const cursorRequest = tx
+      .objectStore(META_STORE)
+      .index(LAST_ACCESSED_INDEX)
+      .openCursor();
+
+    await new Promise<void>((resolve, reject) => {
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || this.totalBytes <= this.maxBytes) {
+          resolve();
+          return;
+        }
+        const meta = cursor.value as EntryMeta;
+        valuesStore.delete(meta.key);
+        cursor.delete();
+        this.totalBytes -= meta.size;
+        cursor.continue();
+      };
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+    });
+    await promisifyTransaction(tx);
+  }
+
+  private async deleteWhere(predicate: (key: string) => boolean) {
+    const db = await this.open();
+    if (!db) return;
+
+    try {
+      const tx = db.transaction([VALUES_STORE, META_STORE], "readwrite");
+      const valuesStore = tx.objectStore(VALUES_STORE);
+      const metas = await promisifyRequest<EntryMeta[]>(
+        tx.objectStore(META_STORE).getAll()
+      );
+      const metaStore = tx.objectStore(META_STORE);
+      for (const meta of metas) {
+        if (!predicate(meta.key)) continue;
+        valuesStore.delete(meta.key);
+        metaStore.delete(meta.key);
+        this.totalBytes -= meta.size;
+      }
+      await promisifyTransaction(tx);
+    } catch (error) {
+      console.error("Failed to delete from persistent cache:", error);
+    }
+  }
+}
+
+// ============================================================================
+// Singleton Export
+// ============================================================================
+
+export const persistentCache = new PersistentCache({
+  maxBytesStorageKey: MAX_BYTES_STORAGE_KEY,
+});
@@ -0,0 +1,196 @@
+import { test, expect, jest, afterEach } from "bun:test";
+import { RequestScheduler, type ScheduleOptions } from "./request-scheduler";
+
+// Bun has advanceTimersByTime, but older bun-types don't declare it
+const clock = jest as typeof jest & { advanceTimersByTime(ms: number): void };
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+const READ: ScheduleOptions = {
+  resource: "core",
+  priority: "interactive",
+  idempotent: true,
+};
+
+// Octokit's errors carry the status and, unless the request never reached
+// GitHub, the response headers
+function httpError(
+  status: number,
+  headers: Record<string, string> | null = {},
+  message = `HTTP ${status}`
+) {
+  return Object.assign(
+    new Error(message),
+    { status },
+    headers ? { response: { headers } } : {}
+  );
+}
+
+// Let started requests settle and the scheduler react to them
+async function settle() {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+}
+
+// Step the clock until the request was attempted `count` times
+async function advanceUntilAttempt(attempts: number[], count: number) {
+  for (let i = 0; i < 10_000 && attempts.length < count; i++) {
+    clock.advanceTimersByTime(10);
+    await settle();
+  }
+}
+
+// A request that fails with each error in turn, then succeeds
+function failing(...errors: Error[]) {
+  const attempts: number[] = [];
+  const run = async () => {
+    attempts.push(Date.now());
+    const error = errors[attempts.length - 1];
+    if (error) throw error;
+    return "ok";
+  };
+  return { run, attempts };
+}
+
+test("server errors on reads are retried with growing backoff", async () => {
+  jest.useFakeTimers();
+  const scheduler = new RequestScheduler();
+  const { run, attempts } = failing(
+    httpError(502),
+    httpError(503),
+    httpError(500)
+  );
+
+  const result = scheduler.schedule(READ, run);
+  await advanceUntilAttempt(attempts, 4);
+  expect(await result).toBe("ok");
+
+  // 1s, 2s then 4s, each with up to 50% jitter
+  const delays = attempts.slice(1).map((at, i) => at - attempts[i]);
+  [1_000, 2_000, 4_000].forEach((backoff, i) => {
+    expect(delays[i]).toBeGreaterThanOrEqual(backoff);
+    expect(delays[i]).toBeLessThanOrEqual(backoff * 1.5 + 10);
+  });
+});
+
+test("retries give up after the last attempt", async () => {
+  jest.useFakeTimers();
+  const scheduler = new RequestScheduler();
+  const { run, attempts } = failing(
+    httpError(500),
+    httpError(500),
+    httpError(500),
+    httpError(500, {}, "Still down")
+  );
+
+  const result = scheduler.schedule(READ, run).catch((error) => error);
+  await advanceUntilAttempt(attempts, 4);
+
+  expect(((await result) as Error).message).toBe("Still down");
+  clock.advanceTimersByTime(60_000);
+  await settle();
+  expect(attempts).toHaveLength(4);
+});
+
+test("writes and network failures aren't retried", async () => {
+  const scheduler = new RequestScheduler();
+
+  const write = failing(httpError(502, {}, "Bad Gateway"));
+  await expect(
+    scheduler.schedule({ ...READ, idempotent: false }, write.run)
+  ).rejects.toThrow("Bad Gateway");
+  expect(write.attempts).toHaveLength(1);
+
+  // Offline: reads fall back to the cache instead
+  const offline = failing(httpError(500, null, "Failed to fetch"));
+  await expect(scheduler.schedule(READ, offline.run)).rejects.toThrow(
+    "Failed to fetch"
+  );
+  expect(offline.attempts).toHaveLength(1);
+});
+
+test("secondary rate limits wait for retry-after and block the resource", async () => {
+  jest.useFakeTimers();
+  const scheduler = new RequestScheduler();
+  const limited = failing(
+    httpError(
+      403,
+      { "retry-after": "30" },
+      "You have exceeded a secondary rate limit"
+    )
+  );
+
+  const result = scheduler.schedule(READ, limited.run);
+  await settle();
+
+  // Everything else on the resource waits too, other resources don't
+  const core = failing();
+  const graphql = failing();
+  const coreResult = scheduler.schedule(READ, core.run);
+  const graphqlResult = scheduler.schedule(
+    { ...READ, resource: "graphql" },
+    graphql.run
+  );
+  await settle();
+  expect(core.attempts).toHaveLength(0);
+  expect(graphql.attempts).toHaveLength(1);
+
+  clock.advanceTimersByTime(29_999);
+  await settle();
+  expect(limited.attempts).toHaveLength(1);
+  expect(core.attempts).toHaveLength(0);
+
+  clock.advanceTimersByTime(1);
+  await settle();
+  expect(await result).toBe("ok");
+  expect(await coreResult).toBe("ok");
+  expect(await graphqlResult).toBe("ok");
+});
+
+test("secondary rate limits without retry-after back off from a minute", async () => {
+  jest.useFakeTimers();
+  const scheduler = new RequestScheduler();
+  const { run, attempts } = failing(httpError(429), httpError(429));
+
+  const result = scheduler.schedule(READ, run);
+  await settle();
+
+  clock.advanceTimersByTime(60_000);
+  await settle();
+  expect(attempts).toHaveLength(2);
+  clock.advanceTimersByTime(119_999);
+  await settle();
+  expect(attempts).toHaveLength(2);
+  clock.advanceTimersByTime(1);
+  await settle();
+
+  expect(await result).toBe("ok");
+  expect(attempts[2] - attempts[1]).toBe(120_000);
+});
+
+test("low-priority requests pause when the budget runs low", async () => {
+  jest.useFakeTimers();
+  const scheduler = new RequestScheduler();
+  const resetAt = Date.now() + 10_000;
+  scheduler.updateBudget("core", {
+    "x-ratelimit-limit": 5000,
+    "x-ratelimit-remaining": 100,
+    "x-ratelimit-reset": resetAt / 1000,
+  });
+
+  const prefetch = failing();
+  const interactive = failing();
+  const prefetched = scheduler.schedule(
+    { ...READ, priority: "prefetch" },
+    prefetch.run
+  );
+  await scheduler.schedule(READ, interactive.run);
+  await settle();
+  expect(interactive.attempts).toHaveLength(1);
+  expect(prefetch.attempts).toHaveLength(0);
+
+  clock.advanceTimersByTime(10_000);
+  await settle();
+  expect(await prefetched).toBe("ok");
+});
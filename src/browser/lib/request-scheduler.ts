@@ -0,0 +1,367 @@
+/**
+ * Request Scheduler - Rate-limit-aware queue for GitHub API requests
+ *
+ * Requests run in priority order. Interactive requests always run right away,
+ * prefetch and background requests share a small concurrency pool and pause
+ * when the remaining budget for their resource drops below a threshold, until
+ * the budget resets. Secondary rate limits are retried after `retry-after`
+ * or with exponential backoff.
+ *
+ * Usage:
+ *   const scheduler = new RequestScheduler();
+ *   const res = await scheduler.schedule(
+ *     { resource: "core", priority: "prefetch", idempotent: true },
+ *     () => request(options)
+ *   );
+ *   scheduler.updateBudget("core", res.headers);
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RequestPriority = "interactive" | "prefetch" | "background";
+
+// Matches the x-ratelimit-resource header for the buckets we track
+export type RateLimitResource = "core" | "graphql" | "search";
+
+export interface RateLimitBudget {
+  limit: number;
+  remaining: number;
+  // Epoch milliseconds when the budget resets
+  resetAt: number;
+}
+
+export type RateLimitBudgets = Partial<
+  Record<RateLimitResource, RateLimitBudget>
+>;
+
+export interface ScheduleOptions {
+  resource: RateLimitResource;
+  priority: RequestPriority;
+  // Safe to retry after a server error (GETs and GraphQL queries)
+  idempotent: boolean;
+}
+
+type ResponseHeaders = Record<string, string | number | undefined>;
+
+interface Task {
+  options: ScheduleOptions;
+  run: () => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+  attempt: number;
+  seq: number;
+  // Epoch milliseconds before which a retried task won't start
+  notBefore: number;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const PRIORITY_ORDER: Record<RequestPriority, number> = {
+  interactive: 0,
+  prefetch: 1,
+  background: 2,
+};
+
+// Fraction of the budget that must remain for a class to keep running.
+// Interactive requests are never paused by budget; if the budget is gone
+// they fail fast and the UI shows the rate-limited state.
+const PAUSE_THRESHOLDS: Record<RequestPriority, number> = {
+  interactive: 0,
+  prefetch: 0.1,
+  background: 0.25,
+};
+
+// Concurrency for prefetch and background requests combined
+const MAX_LOW_PRIORITY_CONCURRENT = 4;
+
+const MAX_RETRIES = 3;
+const SERVER_ERROR_BACKOFF_MS = 1_000;
+// GitHub asks for at least a minute before retrying a secondary rate limit
+// that came without retry-after
+const SECONDARY_LIMIT_BACKOFF_MS = 60_000;
+const MAX_BACKOFF_MS = 5 * 60_000;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function getHeader(headers: ResponseHeaders | undefined, name: string) {
+  const value = headers?.[name];
+  return value === undefined ? undefined : String(value);
+}
+
+function isTrackedResource(resource: string): resource is RateLimitResource {
+  return resource === "core" || resource === "graphql" || resource === "search";
+}
+
+function getErrorStatus(error: unknown): number | undefined {
+  if (error && typeof error === "object" && "status" in error) {
+    return typeof error.status === "number" ? error.status : undefined;
+  }
+  return undefined;
+}
+
+export function getErrorHeaders(error: unknown): ResponseHeaders | undefined {
+  if (
+    error &&
+    typeof error === "object" &&
+    "response" in error &&
+    error.response &&
+    typeof error.response === "object" &&
+    "headers" in error.response
+  ) {
+    return error.response.headers as ResponseHeaders;
+  }
+  return undefined;
+}
+
+/**
+ * Whether a request failed without reaching GitHub (offline, DNS, CORS).
+ * Octokit reports these as status 500 with no response.
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (!(error instanceof Error) || error.name === "AbortError") return false;
+  return getErrorStatus(error) === 500 && !getErrorHeaders(error);
+}
+
+function isSecondaryRateLimit(error: unknown): boolean {
+  const status = getErrorStatus(error);
+  if (status === 429) return true;
+  if (status !== 403) return false;
+  const headers = getErrorHeaders(error);
+  if (getHeader(headers, "retry-after")) return true;
+  const message = error instanceof Error ? error.message.toLowerCase() : "";
+  return message.includes("secondary rate limit");
+}
+
+// ============================================================================
+// Request Scheduler
+// ============================================================================
+
+export class RequestScheduler {
+  private queue: Task[] = [];
+  private lowPriorityActive = 0;
+  private seq = 0;
+  private budgets: RateLimitBudgets = {};
+  // Set by retry-after and secondary rate limits; blocks every class
+  private blockedUntil: Partial<Record<RateLimitResource, number>> = {};
+  private wakeTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<() => void>();
+
+  schedule<T>(options: ScheduleOptions, run: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.enqueue({
+        options,
+        run,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+        attempt: 0,
+        seq: this.seq++,
+        notBefore: 0,
+      });
+    });
+  }
+
+  /**
+   * Record the rate limit headers from a response (or error response).
+   */
+  updateBudget(fallback: RateLimitResource, headers: ResponseHeaders) {
+    const limit = Number(getHeader(headers, "x-ratelimit-limit"));
+    const remaining = Number(getHeader(headers, "x-ratelimit-remaining"));
+    const reset = Number(getHeader(headers, "x-ratelimit-reset"));
+    if (!Number.isFinite(limit) || !Number.isFinite(remaining)) return;
+
+    const resource = getHeader(headers, "x-ratelimit-resource") ?? fallback;
+    if (!isTrackedResource(resource)) return;
+
+    const budget: RateLimitBudget = {
+      limit,
+      remaining,
+      resetAt: Number.isFinite(reset) ? reset * 1000 : Date.now() + 60_000,
+    };
+    const previous = this.budgets[resource];
+    if (
+      previous?.remaining === budget.remaining &&
+      previous.limit === budget.limit &&
+      previous.resetAt === budget.resetAt
+    ) {
+      return;
+    }
+
+    this.budgets = { ...this.budgets, [resource]: budget };
+    this.notify();
+    this.pump();
+  }
+
+  getBudgets(): RateLimitBudgets {
+    return this.budgets;
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Forget budgets and backoff state, e.g. after switching tokens.
+   * Queued requests keep running.
+   */
+  reset() {
+    this.budgets = {};
+    this.blockedUntil = {};
+    this.notify();
+    this.pump();
+  }
+
+  private notify() {
+    this.listeners.forEach((l) => l());
+  }
+
+  private enqueue(task: Task) {
+    this.queue.push(task);
+    this.pump();
+  }
+
+  // Earliest time the task may start, or 0 if it can start now
+  private getWaitUntil(task: Task): number {
+    const { resource, priority } = task.options;
+    const now = Date.now();
+    const blockedUntil = Math.max(
+      this.blockedUntil[resource] ?? 0,
+      task.notBefore
+    );
+    if (blockedUntil > now) return blockedUntil;
+
+    const budget = this.budgets[resource];
+    const threshold = PAUSE_THRESHOLDS[priority];
+    if (
+      budget &&
+      threshold > 0 &&
+      budget.resetAt > now &&
+      budget.remaining <= budget.limit * threshold
+    ) {
+      return budget.resetAt;
+    }
+    return 0;
+  }
+
+  private pump() {
+    if (this.wakeTimer) {
+      clearTimeout(this.wakeTimer);
+      this.wakeTimer = null;
+    }
+
+    // Retried tasks keep their original place in line
+    this.queue.sort(
+      (a, b) =>
+        PRIORITY_ORDER[a.options.priority] -
+          PRIORITY_ORDER[b.options.priority] || a.seq - b.seq
+    );
+
+    let nextWake = Infinity;
+    const waiting: Task[] = [];
+
+    for (const task of this.queue) {
+      const waitUntil = this.getWaitUntil(task);
+      const isLowPriority = task.options.priority !== "interactive";
+      if (waitUntil > 0) {
+        nextWake = Math.min(nextWake, waitUntil);
+        waiting.push(task);
+      } else if (
+        isLowPriority &&
+        this.lowPriorityActive >= MAX_LOW_PRIORITY_CONCURRENT
+      ) {
+        waiting.push(task);
+      } else {
+        this.start(task);
+      }
+    }
+    this.queue = waiting;
+
+    if (nextWake !== Infinity) {
+      this.wakeTimer = setTimeout(
+        () => this.pump(),
+        Math.max(0, nextWake - Date.now())
+      );
+    }
+  }
+
+  private async start(task: Task) {
+    const isLowPriority = task.options.priority !== "interactive";
+    if (isLowPriority) this.lowPriorityActive++;
+
+    try {
+      task.resolve(await task.run());
+    } catch (error) {
+      const delay = this.getRetryDelay(task, error);
+      if (delay === null) {
+        task.reject(error);
+      } else {
+        const retryAt = Date.now() + delay;
+        // A secondary rate limit applies to everything on that resource
+        if (isSecondaryRateLimit(error)) {
+          const { resource } = task.options;
+          this.blockedUntil[resource] = Math.max(
+            this.blockedUntil[resource] ?? 0,
+            retryAt
+          );
+        }
+        this.queue.push({
+          ...task,
+          attempt: task.attempt + 1,
+          notBefore: retryAt,
+        });
+      }
+    } finally {
+      if (isLowPriority) this.lowPriorityActive--;
+      this.pump();
+    }
+  }
+
+  // Milliseconds to wait before retrying, or null to give up
+  private getRetryDelay(task: Task, error: unknown): number | null {
+    if (task.attempt >= MAX_RETRIES) return null;
+    const backoff = (base: number) =>
+      Math.min(base * 2 ** task.attempt, MAX_BACKOFF_MS);
+
+    if (isSecondaryRateLimit(error)) {
+      const retryAfter = Number(
+        getHeader(getErrorHeaders(error), "retry-after")
+      );
+      if (Number.isFinite(retryAfter) && retryAfter > 0) {
+        return Math.min(retryAfter * 1000, MAX_BACKOFF_MS);
+      }
+      return backoff(SECONDARY_LIMIT_BACKOFF_MS);
+    }
+
+    // Network failures aren't retried here; reads fall back to the cache
+    // and writes go to the outbox
+    const status = getErrorStatus(error);
+    if (
+      task.options.idempotent &&
+      status !== undefined &&
+      status >= 500 &&
+      !isNetworkError(error)
+    ) {
+      // Jitter so parallel failures don't retry in lockstep
+      return backoff(SERVER_ERROR_BACKOFF_MS) * (1 + Math.random() * 0.5);
+    }
+    return null;
+  }
+}
+
+/**
+ * Best guess at the rate limit bucket a request counts against, before the
+ * response tells us via x-ratelimit-resource.
+ */
+export function getRequestResource(url: string): RateLimitResource {
+  if (/\/graphql$/.test(url)) return "graphql";
+  if (url.includes("/search/")) return "search";
+  return "core";
+}
@@ -0,0 +1,245 @@
+/**
+ * Review Export - Draft reviews as portable Markdown and JSON
+ *
+ * A draft review (the review body plus its pending comments) can be exported
+ * to archive it or carry it elsewhere. The JSON form can be imported back
+ * into the same PR; the Markdown form is for reading.
+ *
+ * Usage:
+ *   const data: ReviewExport = { format: REVIEW_EXPORT_FORMAT, ... };
+ *   const markdown = formatReviewMarkdown(data);
+ *   const imported = parseReviewExport(JSON.stringify(data));
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const REVIEW_EXPORT_FORMAT = "pulldash-review";
+export const REVIEW_EXPORT_VERSION = 1;
+
+export interface ExportedComment {
+  path: string;
+  // Null for comments on the whole file
+  line: number | null;
+  startLine: number | null;
+  side: "LEFT" | "RIGHT";
+  body: string;
+  // Commit the lines are from, when not the exported head
+  commitId: string | null;
+  // The commented lines with some context, as a unified diff hunk
+  diffHunk: string | null;
+}
+
+export interface ReviewExport {
+  format: typeof REVIEW_EXPORT_FORMAT;
+  version: number;
+  owner: string;
+  repo: string;
+  number: number;
+  // Head the line numbers are relative to
+  headSha: string;
+  exportedAt: string;
+  body: string;
+  comments: ExportedComment[];
+}
+
+// ============================================================================
+// Patch Parsing
+// ============================================================================
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+interface PatchLine {
+  text: string;
+  // Position on each side before this line
+  oldPos: number;
+  newPos: number;
+  // Line number on each side the line is on, if any
+  oldLine?: number;
+  newLine?: number;
+}
+
+function parsePatch(patch: string): PatchLine[][] {
+  const hunks: PatchLine[][] = [];
+  let oldPos = 0;
+  let newPos = 0;
+
+  for (const text of patch.split("\n")) {
+    const header = HUNK_HEADER.exec(text);
+    if (header) {
+      oldPos = Number(header[1]);
+      newPos = Number(header[2]);
+      hunks.push([]);
+      continue;
+    }
+    const hunk = hunks[hunks.length - 1];
+    if (!hunk) continue;
+
+    const line: PatchLine = { text, oldPos, newPos };
+    if (text.startsWith("+")) {
+      line.newLine = newPos++;
+    } else if (text.startsWith("-")) {
+      line.oldLine = oldPos++;
+    } else if (!text.startsWith("\\")) {
+      line.oldLine = oldPos++;
+      line.newLine = newPos++;
+    }
+    hunk.push(line);
+  }
+
+  return hunks;
+}
+
+function lineOn(line: PatchLine, side: "LEFT" | "RIGHT"): number | undefined {
+  return side === "RIGHT" ? line.newLine : line.oldLine;
+}
+
+/**
+ * Line numbers on one side of a diff that the patch shows, i.e. the lines a
+ * comment can be anchored to.
+ */
+export function getPatchLines(
+  patch: string,
+  side: "LEFT" | "RIGHT"
+): Set<number> {
+  const lines = new Set<number>();
+  for (const hunk of parsePatch(patch)) {
+    for (const line of hunk) {
+      const number = lineOn(line, side);
+      if (number !== undefined) lines.add(number);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Quote the commented lines from a patch, with a few lines of context
+ * before them, as a hunk of their own. Null if the patch doesn't show them.
+ */
+export function getDiffHunk(
+  patch: string,
+  side: "LEFT" | "RIGHT",
+  startLine: number,
+  line: number,
+  context = 3
+): string | null {
+  for (const hunk of parsePatch(patch)) {
+    const end = hunk.findIndex((l) => lineOn(l, side) === line);
+    if (end === -1) continue;
+    const start = hunk.findIndex((l) => lineOn(l, side) === startLine);
+
+    const slice = hunk.slice(
+      Math.max(0, (start === -1 || start > end ? end : start) - context),
+      end + 1
+    );
+    const oldCount = slice.filter((l) => l.oldLine !== undefined).length;
+    const newCount = slice.filter((l) => l.newLine !== undefined).length;
+    const header = `@@ -${slice[0].oldPos},${oldCount} +${slice[0].newPos},${newCount} @@`;
+    return [header, ...slice.map((l) => l.text)].join("\n");
+  }
+  return null;
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+function formatLineRange(comment: ExportedComment): string {
+  if (comment.line === null) return "file";
+  const prefix = comment.side === "LEFT" ? "original " : "";
+  return comment.startLine !== null && comment.startLine !== comment.line
+    ? `${prefix}lines ${comment.startLine}-${comment.line}`
+    : `${prefix}line ${comment.line}`;
+}
+
+// A fence longer than any backtick run in the content
+function fence(content: string): string {
+  const longest = Math.max(
+    2,
+    ...(content.match(/`+/g) ?? []).map((run) => run.length)
+  );
+  return "`".repeat(longest + 1);
+}
+
+export function formatReviewMarkdown(review: ReviewExport): string {
+  const sections = [
+    `# Draft review of ${review.owner}/${review.repo}#${review.number}`,
+    `Exported ${review.exportedAt} at head \`${review.headSha.slice(0, 7)}\`.`,
+  ];
+
+  if (review.body.trim()) {
+    sections.push("## Summary", review.body.trim());
+  }
+
+  sections.push(`## Comments (${review.comments.length})`);
+  for (const comment of review.comments) {
+    sections.push(`### \`${comment.path}\` (${formatLineRange(comment)})`);
+    if (comment.diffHunk) {
+      const f = fence(comment.diffHunk);
+      sections.push(`${f}diff\n${comment.diffHunk}\n${f}`);
+    }
+    sections.push(comment.body.trim());
+  }
+
+  return sections.join("\n\n") + "\n";
+}
+
+export function formatReviewJSON(review: ReviewExport): string {
+  return JSON.stringify(review, null, 2) + "\n";
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function isNumberOrNull(value: unknown): value is number | null {
+  return value === null || typeof value === "number";
+}
+
+function isExportedComment(value: unknown): value is ExportedComment {
+  if (!value || typeof value !== "object") return false;
+  const c = value as Record<string, unknown>;
+  return (
+    typeof c.path === "string" &&
+    typeof c.body === "string" &&
+    isNumberOrNull(c.line) &&
+    isNumberOrNull(c.startLine) &&
+    (c.side === "LEFT" || c.side === "RIGHT") &&
+    (c.commitId === null || typeof c.commitId === "string") &&
+    (c.diffHunk === null || typeof c.diffHunk === "string")
+  );
+}
+
+/**
+ * Read an exported review, throwing if the text isn't one.
+ */
+export function parseReviewExport(text: string): ReviewExport {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file isn't valid JSON");
+  }
+
+  if (!data || data.format !== REVIEW_EXPORT_FORMAT) {
+    throw new Error("The file isn't an exported review");
+  }
+  if (data.version !== REVIEW_EXPORT_VERSION) {
+    throw new Error(`Unsupported export version ${String(data.version)}`);
+  }
+  if (
+    typeof data.owner !== "string" ||
+    typeof data.repo !== "string" ||
+    typeof data.number !== "number" ||
+    typeof data.headSha !== "string" ||
+    typeof data.exportedAt !== "string" ||
+    typeof data.body !== "string" ||
+    !Array.isArray(data.comments) ||
+    !data.comments.every(isExportedComment)
+  ) {
+    throw new Error("The exported review is malformed");
+  }
+
+  return data as unknown as ReviewExport;
+}
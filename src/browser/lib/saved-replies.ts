@@ -0,0 +1,133 @@
+/**
+ * Saved Replies - Reusable comment templates kept in localStorage
+ *
+ * Templates can reference variables as {{name}}; they're filled in from the
+ * review the reply is inserted into. Variables without a value are left as
+ * written so they're easy to spot and fill in by hand.
+ *
+ * Usage:
+ *   savedReplies.add({ name: 'Needs test', body: 'Please add a test for {{file}}' });
+ *   const body = fillTemplate(reply.body, { file: 'src/index.ts' });
+ *   const unsubscribe = savedReplies.subscribe(() => render());
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SavedReply {
+  id: string;
+  name: string;
+  body: string;
+}
+
+export type TemplateVariables = Partial<Record<string, string>>;
+
+// Variables offered by the PR review, for help text
+export const TEMPLATE_VARIABLES: Array<{ name: string; description: string }> =
+  [
+    { name: "author", description: "PR author" },
+    { name: "reviewer", description: "You" },
+    { name: "file", description: "File being commented on" },
+    { name: "line", description: "Line or line range" },
+    { name: "title", description: "PR title" },
+    { name: "number", description: "PR number" },
+    { name: "repo", description: "owner/repo" },
+  ];
+
+// ============================================================================
+// Templates
+// ============================================================================
+
+const VARIABLE = /\{\{\s*([a-zA-Z_]+)\s*\}\}/g;
+
+export function fillTemplate(
+  body: string,
+  variables: TemplateVariables
+): string {
+  return body.replace(VARIABLE, (match, name: string) => {
+    // Not {{constructor}} and the like
+    if (!Object.hasOwn(variables, name)) return match;
+    return variables[name] ?? match;
+  });
+}
+
+// ============================================================================
+// Library
+// ============================================================================
+
+const STORAGE_KEY = "pulldash_saved_replies";
+
+const DEFAULT_REPLIES: SavedReply[] = [
+  { id: "default-nit", name: "Nit", body: "nit: " },
+  {
+    id: "default-needs-test",
+    name: "Needs test",
+    body: "Could you add a test covering this change in `{{file}}`?",
+  },
+  {
+    id: "default-thanks",
+    name: "Thanks",
+    body: "Thanks @{{author}}, looks good to me!",
+  },
+];
+
+class SavedReplyLibrary {
+  // Loaded on first use
+  private replies: SavedReply[] | null = null;
+  private listeners = new Set<() => void>();
+
+  private load(): SavedReply[] {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      // Nothing saved yet (as opposed to everything deleted)
+      if (stored === null) return DEFAULT_REPLIES;
+      return JSON.parse(stored) as SavedReply[];
+    } catch {
+      return DEFAULT_REPLIES;
+    }
+  }
+
+  private save(replies: SavedReply[]) {
+    this.replies = replies;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(replies));
+    } catch {
+      // Ignore storage errors
+    }
+    this.listeners.forEach((l) => l());
+  }
+
+  getAll(): SavedReply[] {
+    this.replies ??= this.load();
+    return this.replies;
+  }
+
+  add(reply: Omit<SavedReply, "id">): SavedReply {
+    const saved: SavedReply = {
+      ...reply,
+      id: `reply-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+    };
+    this.save([...this.getAll(), saved]);
+    return saved;
+  }
+
+  update(id: string, changes: Partial<Omit<SavedReply, "id">>) {
+    this.save(
+      this.getAll().map((r) => (r.id === id ? { ...r, ...changes } : r))
+    );
+  }
+
+  remove(id: string) {
+    this.save(this.getAll().filter((r) => r.id !== id));
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+}
+
+export const savedReplies = new SavedReplyLibrary();
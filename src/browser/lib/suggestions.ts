@@ -0,0 +1,132 @@
+/**
+ * Suggestions - GitHub "suggested changes" in comment bodies
+ *
+ * A suggestion is a ```suggestion fenced block in a review comment. Its
+ * contents replace the lines the comment is anchored to (start_line..line on
+ * the new side) when the suggestion is applied.
+ *
+ * Usage:
+ *   const body = formatSuggestion(["const a = 1;"]);
+ *   const lines = getSuggestion(body);
+ *   const next = applyLineEdits(content, [{ startLine: 10, endLine: 12, lines }]);
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SuggestionSegment =
+  | { type: "markdown"; content: string }
+  | { type: "suggestion"; lines: string[] };
+
+export interface LineEdit {
+  startLine: number;
+  endLine: number;
+  lines: string[];
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+const OPENING_FENCE = /^ {0,3}(`{3,}|~{3,})\s*suggestion\s*$/;
+
+/**
+ * Splits a comment body into markdown and suggestion blocks, in order.
+ * An unclosed suggestion fence runs to the end of the body, like markdown.
+ */
+export function splitSuggestions(body: string): SuggestionSegment[] {
+  const segments: SuggestionSegment[] = [];
+  const lines = body.split(/\r?\n/);
+  let markdown: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const open = OPENING_FENCE.exec(lines[i]);
+    if (!open) {
+      markdown.push(lines[i]);
+      continue;
+    }
+
+    const fence = open[1];
+    const closing = new RegExp(`^ {0,3}${fence[0]}{${fence.length},}\\s*$`);
+    const suggestion: string[] = [];
+    i++;
+    while (i < lines.length && !closing.test(lines[i])) {
+      suggestion.push(lines[i]);
+      i++;
+    }
+
+    if (markdown.length > 0) {
+      segments.push({ type: "markdown", content: markdown.join("\n") });
+      markdown = [];
+    }
+    segments.push({ type: "suggestion", lines: suggestion });
+  }
+
+  if (markdown.length > 0) {
+    segments.push({ type: "markdown", content: markdown.join("\n") });
+  }
+  return segments;
+}
+
+export function parseSuggestions(body: string): { lines: string[] }[] {
+  return splitSuggestions(body).filter((s) => s.type === "suggestion");
+}
+
+/**
+ * Returns the replacement lines when the body holds exactly one suggestion.
+ * GitHub can't apply comments with several, and neither do we.
+ */
+export function getSuggestion(body: string): string[] | null {
+  const suggestions = parseSuggestions(body);
+  return suggestions.length === 1 ? suggestions[0].lines : null;
+}
+
+export function formatSuggestion(lines: string[]): string {
+  // Use a longer fence if the suggested code contains one
+  const longest = Math.max(
+    2,
+    ...lines.map((l) => /^ {0,3}(`{3,})/.exec(l)?.[1].length ?? 0)
+  );
+  const fence = "`".repeat(longest + 1);
+  return [`${fence}suggestion`, ...lines, fence].join("\n");
+}
+
+// ============================================================================
+// Applying
+// ============================================================================
+
+/**
+ * Replaces 1-based, inclusive line ranges in a file's content. Edits may be
+ * given in any order but must not overlap. Line endings are preserved.
+ */
+export function applyLineEdits(content: string, edits: LineEdit[]): string {
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+  const lines = content.split(eol);
+  // A trailing newline leaves an empty last element that isn't a line
+  const lineCount = content.endsWith(eol) ? lines.length - 1 : lines.length;
+
+  const sorted = [...edits].sort((a, b) => b.startLine - a.startLine);
+  for (let i = 0; i < sorted.length; i++) {
+    const edit = sorted[i];
+    if (
+      edit.startLine < 1 ||
+      edit.endLine < edit.startLine ||
+      edit.endLine > lineCount
+    ) {
+      throw new Error(
+        `Lines ${edit.startLine}-${edit.endLine} are outside the file`
+      );
+    }
+    if (i > 0 && edit.endLine >= sorted[i - 1].startLine) {
+      throw new Error("Suggestions overlap");
+    }
+    lines.splice(
+      edit.startLine - 1,
+      edit.endLine - edit.startLine + 1,
+      ...edit.lines
+    );
+  }
+
+  return lines.join(eol);
+}
@@ -8,6 +8,7 @@ import {
   createContext,
   useContext,
   createElement,
+  useSyncExternalStore,
   type ReactNode,
 } from "react";
 import ReactMarkdown from "react-markdown";
@@ -17,9 +18,20 @@ import rehypeRaw from "rehype-raw";
 import rehypeSanitize from "rehype-sanitize";
 import rehypeHighlight from "rehype-highlight";
 import { cn } from "../cn";
+import { formatSuggestion, splitSuggestions } from "../lib/suggestions";
+import {
+  fillTemplate,
+  savedReplies,
+  type SavedReply,
+  type TemplateVariables,
+} from "../lib/saved-replies";
 import { isMac } from "./keycap";
 import { Popover, PopoverContent, PopoverAnchor } from "./popover";
-import { useGitHubStore, useGitHubSelector } from "../contexts/github";
+import {
+  useGitHubStore,
+  useGitHubSelector,
+  useGitHubWebUrl,
+} from "../contexts/github";
 import { UserHoverCard } from "./user-hover-card";
 import {
   Loader2,
@@ -36,9 +48,13 @@ import {
   ZoomIn,
   ZoomOut,
   RotateCcw,
+  FileDiff,
+  MessageSquareText,
+  Settings,
 } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipTrigger } from "./tooltip";
 import { Dialog, DialogContent, DialogTitle } from "./dialog";
+import { SavedRepliesDialog } from "./saved-replies-dialog";
 
 interface MarkdownProps {
   children: string;
@@ -50,6 +66,11 @@ interface MarkdownProps {
    * This is needed for private user-attachments which have signed URLs in the HTML.
    */
   html?: string;
+  /**
+   * Renders ```suggestion blocks in place of a code block, e.g. as a diff
+   * against the commented lines. Not used with `html`.
+   */
+  renderSuggestion?: (lines: string[]) => React.ReactNode;
 }
 
 // Pattern to match @mentions (GitHub-style: @username)
@@ -315,7 +336,7 @@ function parseNode(node: Node): HtmlNode | null {
     if (tag === "a" && el.classList.contains("user-mention")) {
       const href = el.getAttribute("href") || "";
       // Extract username from href like "https://github.com/username"
-      const match = href.match(/github\.com\/([a-zA-Z0-9-]+)$/);
+      const match = href.match(/^https?:\/\/[^/]+\/([a-zA-Z0-9-]+)$/);
       if (match) {
         return {
           type: "mention",
@@ -342,6 +363,27 @@ function parseNode(node: Node): HtmlNode | null {
   return null;
 }
 
+// Profile link on the current host. Props are passed through so it can be
+// a hover card trigger.
+function MentionLink({
+  login,
+  ...props
+}: React.ComponentProps<"a"> & { login: string }) {
+  const webUrl = useGitHubWebUrl();
+  return (
+    <a
+      {...props}
+      href={`${webUrl}/${login}`}
+      target="_blank"
+      rel="noopener noreferrer"
+      onClick={(e) => {
+        e.stopPropagation();
+        props.onClick?.(e);
+      }}
+    />
+  );
+}
+
 function HtmlWithMentions({ html }: { html: string }) {
   const nodes = useMemo(() => parseHtmlToNodes(html), [html]);
   const imagePreview = useImagePreview();
@@ -373,15 +415,12 @@ function renderNode(
   if (node.type === "mention" && node.login) {
     return (
       <UserHoverCard key={key} login={node.login}>
-        <a
-          href={`https://github.com/${node.login}`}
-          target="_blank"
-          rel="noopener noreferrer"
+        <MentionLink
+          login={node.login}
           className="user-mention text-blue-400 hover:underline font-medium"
-          onClick={(e) => e.stopPropagation()}
         >
           {node.content}
-        </a>
+        </MentionLink>
       </UserHoverCard>
     );
   }
@@ -472,10 +511,16 @@ export const Markdown = memo(function Markdown({
   className,
   emptyState,
   html,
+  renderSuggestion,
 }: MarkdownProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const [isEmpty, setIsEmpty] = useState(false);
 
+  const segments = useMemo(
+    () => (renderSuggestion && !html ? splitSuggestions(children) : null),
+    [renderSuggestion, html, children]
+  );
+
   // Check if rendered content is empty after mount
   useEffect(() => {
     if (containerRef.current && emptyState) {
@@ -527,6 +572,23 @@ export const Markdown = memo(function Markdown({
     return parts;
   }, [children]);
 
+  // Suggestions are rendered by the caller, everything around them as usual
+  if (renderSuggestion && segments?.some((s) => s.type === "suggestion")) {
+    return (
+      <div className={className}>
+        {segments.map((segment, index) =>
+          segment.type === "markdown" ? (
+            <Markdown key={index}>{segment.content}</Markdown>
+          ) : (
+            <div key={index} className="my-2">
+              {renderSuggestion(segment.lines)}
+            </div>
+          )
+        )}
+      </div>
+    );
+  }
+
   // If there are no mentions, just render normally
   const hasMentions = processedContent.some((p) => p.type === "mention");
 
@@ -622,6 +684,56 @@ export const Markdown = memo(function Markdown({
   );
 });
 
+// ============================================================================
+// Suggested Change Preview
+// ============================================================================
+
+interface SuggestionPreviewProps {
+  // Lines the suggestion replaces, when known
+  original: string[] | null;
+  suggested: string[];
+}
+
+// Mini diff of a suggested change against the lines it replaces
+export function SuggestionPreview({
+  original,
+  suggested,
+}: SuggestionPreviewProps) {
+  return (
+    <div className="rounded-md border border-border overflow-hidden text-xs">
+      <div className="flex items-center gap-1.5 px-3 py-1.5 bg-muted/40 border-b border-border text-muted-foreground font-sans">
+        <FileDiff className="w-3.5 h-3.5" />
+        Suggested change
+      </div>
+      <div className="font-mono overflow-x-auto">
+        {original?.map((line, index) => (
+          <div
+            key={`-${index}`}
+            className="flex bg-red-500/10 text-red-200 whitespace-pre"
+          >
+            <span className="w-6 shrink-0 text-center select-none">-</span>
+            <span>{line || " "}</span>
+          </div>
+        ))}
+        {suggested.map((line, index) => (
+          <div
+            key={`+${index}`}
+            className="flex bg-green-500/10 text-green-200 whitespace-pre"
+          >
+            <span className="w-6 shrink-0 text-center select-none">+</span>
+            <span>{line || " "}</span>
+          </div>
+        ))}
+        {suggested.length === 0 && !original && (
+          <div className="px-3 py-1 text-muted-foreground font-sans italic">
+            Removes the commented lines
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
 // Helper to process children and wrap @mentions
 function processChildren(children: React.ReactNode): React.ReactNode {
   if (!children) return children;
@@ -659,15 +771,12 @@ function processTextForMentions(text: string): React.ReactNode {
     const username = match[1];
     parts.push(
       <UserHoverCard key={key++} login={username}>
-        <a
-          href={`https://github.com/${username}`}
-          target="_blank"
-          rel="noopener noreferrer"
+        <MentionLink
+          login={username}
           className="text-blue-400 hover:underline font-medium"
-          onClick={(e) => e.stopPropagation()}
         >
           @{username}
-        </a>
+        </MentionLink>
       </UserHoverCard>
     );
     lastIndex = match.index + match[0].length;
@@ -730,6 +839,32 @@ function useMentionSuggestions() {
   return useContext(MentionSuggestionsContext);
 }
 
+// ============================================================================
+// Saved Reply Variables
+// ============================================================================
+
+const TemplateVariablesContext = createContext<
+  (() => TemplateVariables) | null
+>(null);
+
+/**
+ * Provider for the values of {{variables}} in saved replies.
+ * The getter is called when a reply is inserted, so it can read current state.
+ */
+export function TemplateVariablesProvider({
+  children,
+  getVariables,
+}: {
+  children: ReactNode;
+  getVariables: () => TemplateVariables;
+}) {
+  return (
+    <TemplateVariablesContext.Provider value={getVariables}>
+      {children}
+    </TemplateVariablesContext.Provider>
+  );
+}
+
 // ============================================================================
 // Markdown Editor with Write/Preview tabs (GitHub-style)
 // ============================================================================
@@ -743,6 +878,9 @@ interface MarkdownEditorProps {
   maxHeight?: string;
   autoFocus?: boolean;
   disabled?: boolean;
+  // Lines being commented on. Enables "Suggest change", and suggestions are
+  // previewed as a diff against them.
+  suggestionLines?: string[];
 }
 
 // GitHub-supported emoji reactions
@@ -774,6 +912,7 @@ export const MarkdownEditor = memo(function MarkdownEditor({
   maxHeight = "50vh",
   autoFocus = false,
   disabled = false,
+  suggestionLines,
 }: MarkdownEditorProps) {
   const [activeTab, setActiveTab] = useState<"write" | "preview">("write");
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -795,6 +934,30 @@ export const MarkdownEditor = memo(function MarkdownEditor({
   const [selectedMentionIndex, setSelectedMentionIndex] = useState(0);
   const [anchorPosition, setAnchorPosition] = useState({ top: 0, left: 0 });
 
+  // Saved replies state ("/" menu and toolbar dropdown)
+  const replies = useSyncExternalStore(savedReplies.subscribe, () =>
+    savedReplies.getAll()
+  );
+  const [slashQuery, setSlashQuery] = useState<string | null>(null);
+  const [slashStart, setSlashStart] = useState<number>(0);
+  const [selectedSlashIndex, setSelectedSlashIndex] = useState(0);
+  const [showSavedReplies, setShowSavedReplies] = useState(false);
+  const [showManageReplies, setShowManageReplies] = useState(false);
+  const savedRepliesButtonRef = useRef<HTMLButtonElement>(null);
+  const [savedRepliesPosition, setSavedRepliesPosition] = useState({
+    top: 0,
+    left: 0,
+  });
+  const getTemplateVariables = useContext(TemplateVariablesContext);
+
+  const slashReplies = useMemo(() => {
+    if (slashQuery === null) return [];
+    const query = slashQuery.toLowerCase();
+    return replies
+      .filter((r) => r.name.toLowerCase().includes(query))
+      .slice(0, 8);
+  }, [replies, slashQuery]);
+
   const github = useGitHubStore();
   const ready = useGitHubSelector((s) => s.ready);
 
@@ -983,7 +1146,7 @@ export const MarkdownEditor = memo(function MarkdownEditor({
     setAnchorPosition({ top, left });
   }, [value]);
 
-  // Detect @ mentions while typing
+  // Detect @ mentions and / saved replies while typing
   const handleInput = useCallback(
     (e: React.ChangeEvent<HTMLTextAreaElement>) => {
       const newValue = e.target.value;
@@ -1000,8 +1163,21 @@ export const MarkdownEditor = memo(function MarkdownEditor({
         setMentionQuery(query);
         setMentionStart(cursorPos - query.length - 1); // -1 for @
         updateAnchorPosition();
+        setSlashQuery(null);
+        return;
+      }
+      setMentionQuery(null);
+
+      // Look for / at the start of a word, followed by a reply name
+      const slashMatch = textBeforeCursor.match(/(?:^|\s)\/([\w-]*)$/);
+      if (slashMatch) {
+        const query = slashMatch[1];
+        setSlashQuery(query);
+        setSlashStart(cursorPos - query.length - 1); // -1 for /
+        setSelectedSlashIndex(0);
+        updateAnchorPosition();
       } else {
-        setMentionQuery(null);
+        setSlashQuery(null);
       }
     },
     [onChange, updateAnchorPosition]
@@ -1030,6 +1206,32 @@ export const MarkdownEditor = memo(function MarkdownEditor({
     [value, mentionStart, onChange]
   );
 
+  // Insert a saved reply with its variables filled in, replacing the /query
+  // when picked from the slash menu
+  const insertSavedReply = useCallback(
+    (reply: SavedReply) => {
+      const textarea = textareaRef.current;
+      if (!textarea) return;
+
+      const text = fillTemplate(reply.body, getTemplateVariables?.() ?? {});
+      const start = slashQuery !== null ? slashStart : textarea.selectionStart;
+      const end =
+        slashQuery !== null ? textarea.selectionStart : textarea.selectionEnd;
+
+      const newValue = value.substring(0, start) + text + value.substring(end);
+      onChange(newValue);
+      setSlashQuery(null);
+      setShowSavedReplies(false);
+
+      setTimeout(() => {
+        const newCursorPos = start + text.length;
+        textarea.focus();
+        textarea.setSelectionRange(newCursorPos, newCursorPos);
+      }, 0);
+    },
+    [value, onChange, slashQuery, slashStart, getTemplateVariables]
+  );
+
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent) => {
       // Handle mention autocomplete navigation
@@ -1058,6 +1260,32 @@ export const MarkdownEditor = memo(function MarkdownEditor({
         }
       }
 
+      // Handle saved reply menu navigation
+      if (slashQuery !== null && slashReplies.length > 0) {
+        if (e.key === "ArrowDown") {
+          e.preventDefault();
+          setSelectedSlashIndex((prev) =>
+            prev < slashReplies.length - 1 ? prev + 1 : prev
+          );
+          return;
+        }
+        if (e.key === "ArrowUp") {
+          e.preventDefault();
+          setSelectedSlashIndex((prev) => (prev > 0 ? prev - 1 : prev));
+          return;
+        }
+        if (e.key === "Enter" || e.key === "Tab") {
+          e.preventDefault();
+          insertSavedReply(slashReplies[selectedSlashIndex]);
+          return;
+        }
+        if (e.key === "Escape") {
+          e.preventDefault();
+          setSlashQuery(null);
+          return;
+        }
+      }
+
       // Handle Tab key for indentation
       if (e.key === "Tab" && !e.shiftKey && !e.ctrlKey && !e.metaKey) {
         e.preventDefault();
@@ -1086,19 +1314,25 @@ export const MarkdownEditor = memo(function MarkdownEditor({
       mentionUsers,
       selectedMentionIndex,
       insertMention,
+      slashQuery,
+      slashReplies,
+      selectedSlashIndex,
+      insertSavedReply,
     ]
   );
 
-  // Close mention popup on blur (with delay to allow click)
+  // Close mention and saved reply popups on blur (with delay to allow click)
   const handleBlur = useCallback(() => {
     setTimeout(() => {
       setMentionQuery(null);
+      setSlashQuery(null);
     }, 200);
   }, []);
 
   const showMentionPopover =
     mentionQuery !== null &&
     (mentionUsers.length > 0 || mentionLoading || suggestedUsers.length > 0);
+  const showSlashPopover = slashQuery !== null && slashReplies.length > 0;
 
   // Formatting toolbar actions
   const wrapSelection = useCallback(
@@ -1193,6 +1427,38 @@ export const MarkdownEditor = memo(function MarkdownEditor({
     }
   }, [value, onChange]);
 
+  // Insert a suggestion block pre-filled with the commented lines, selecting
+  // them for editing
+  const insertSuggestion = useCallback(() => {
+    const textarea = textareaRef.current;
+    if (!textarea || !suggestionLines) return;
+
+    const start = textarea.selectionStart;
+    const end = textarea.selectionEnd;
+    // The fence has to start on a line of its own
+    const before = start > 0 && value[start - 1] !== "\n" ? "\n" : "";
+    const block = before + formatSuggestion(suggestionLines) + "\n";
+
+    const newValue = value.substring(0, start) + block + value.substring(end);
+    onChange(newValue);
+
+    setTimeout(() => {
+      const linesStart = start + block.indexOf("\n", before.length) + 1;
+      textarea.focus();
+      textarea.setSelectionRange(
+        linesStart,
+        linesStart + suggestionLines.join("\n").length
+      );
+    }, 0);
+  }, [value, onChange, suggestionLines]);
+
+  const renderSuggestion = useCallback(
+    (lines: string[]) => (
+      <SuggestionPreview original={suggestionLines ?? null} suggested={lines} />
+    ),
+    [suggestionLines]
+  );
+
   // Insert emoji at cursor position
   const insertEmoji = useCallback(
     (emoji: string) => {
@@ -1227,6 +1493,17 @@ export const MarkdownEditor = memo(function MarkdownEditor({
     setShowEmojiPicker(!showEmojiPicker);
   }, [showEmojiPicker]);
 
+  const handleToggleSavedReplies = useCallback(() => {
+    if (!showSavedReplies && savedRepliesButtonRef.current) {
+      const rect = savedRepliesButtonRef.current.getBoundingClientRect();
+      setSavedRepliesPosition({
+        top: rect.bottom + 4,
+        left: Math.max(8, rect.right - 256), // Align right edge, with min left margin
+      });
+    }
+    setShowSavedReplies(!showSavedReplies);
+  }, [showSavedReplies]);
+
   const toolbarButtons = [
     {
       icon: Heading2,
@@ -1278,6 +1555,17 @@ export const MarkdownEditor = memo(function MarkdownEditor({
       shortcut: undefined,
       action: () => insertAtLineStart("> "),
     },
+    ...(suggestionLines
+      ? [
+          { type: "separator" as const },
+          {
+            icon: FileDiff,
+            label: "Suggest change",
+            shortcut: undefined,
+            action: insertSuggestion,
+          },
+        ]
+      : []),
   ];
 
   return (
@@ -1367,6 +1655,22 @@ export const MarkdownEditor = memo(function MarkdownEditor({
                 Insert emoji
               </TooltipContent>
             </Tooltip>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <button
+                  ref={savedRepliesButtonRef}
+                  type="button"
+                  onClick={handleToggleSavedReplies}
+                  className="p-1.5 rounded text-muted-foreground hover:text-foreground hover:bg-muted/50 transition-colors"
+                >
+                  <MessageSquareText className="w-4 h-4" />
+                </button>
+              </TooltipTrigger>
+              <TooltipContent side="bottom" className="text-xs">
+                Saved replies
+                <span className="ml-2 text-muted-foreground">/</span>
+              </TooltipContent>
+            </Tooltip>
 
             {/* Emoji picker dropdown */}
             {showEmojiPicker && (
@@ -1396,13 +1700,65 @@ export const MarkdownEditor = memo(function MarkdownEditor({
                 </div>
               </>
             )}
+
+            {/* Saved replies dropdown */}
+            {showSavedReplies && (
+              <>
+                <div
+                  className="fixed inset-0 z-[100]"
+                  onClick={() => setShowSavedReplies(false)}
+                />
+                <div
+                  className="fixed w-64 p-1 bg-card border border-border rounded-lg shadow-xl z-[101]"
+                  style={{
+                    top: savedRepliesPosition.top,
+                    left: savedRepliesPosition.left,
+                  }}
+                >
+                  <div className="max-h-64 overflow-y-auto">
+                    {replies.map((reply) => (
+                      <button
+                        key={reply.id}
+                        type="button"
+                        onClick={() => insertSavedReply(reply)}
+                        className="w-full px-2 py-1.5 rounded text-left hover:bg-muted transition-colors"
+                      >
+                        <div className="text-sm font-medium truncate">
+                          {reply.name || "Untitled"}
+                        </div>
+                        <div className="text-xs text-muted-foreground truncate">
+                          {reply.body}
+                        </div>
+                      </button>
+                    ))}
+                    {replies.length === 0 && (
+                      <div className="px-2 py-3 text-sm text-muted-foreground text-center">
+                        No saved replies
+                      </div>
+                    )}
+                  </div>
+                  <div className="h-px bg-border my-1" />
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setShowSavedReplies(false);
+                      setShowManageReplies(true);
+                    }}
+                    className="w-full flex items-center gap-2 px-2 py-1.5 rounded text-sm text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+                  >
+                    <Settings className="w-3.5 h-3.5" />
+                    Manage saved replies…
+                  </button>
+                </div>
+              </>
+            )}
           </div>
         )}
       </div>
 
       {/* Content area */}
       {activeTab === "write" ? (
-        <Popover open={showMentionPopover}>
+        <Popover open={showMentionPopover || showSlashPopover}>
           <div className="relative">
             <PopoverAnchor asChild>
               <span
@@ -1444,7 +1800,31 @@ export const MarkdownEditor = memo(function MarkdownEditor({
             className="w-64 p-1"
             onOpenAutoFocus={(e) => e.preventDefault()}
           >
-            {mentionLoading && mentionUsers.length === 0 ? (
+            {showSlashPopover ? (
+              <div className="max-h-48 overflow-y-auto">
+                {slashReplies.map((reply, index) => (
+                  <button
+                    key={reply.id}
+                    type="button"
+                    className={cn(
+                      "w-full px-2 py-1.5 rounded text-left transition-colors",
+                      index === selectedSlashIndex
+                        ? "bg-accent text-accent-foreground"
+                        : "hover:bg-muted"
+                    )}
+                    onClick={() => insertSavedReply(reply)}
+                    onMouseEnter={() => setSelectedSlashIndex(index)}
+                  >
+                    <div className="text-sm font-medium truncate">
+                      {reply.name || "Untitled"}
+                    </div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {reply.body}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            ) : mentionLoading && mentionUsers.length === 0 ? (
               <div className="flex items-center justify-center py-4">
                 <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
               </div>
@@ -1493,7 +1873,12 @@ export const MarkdownEditor = memo(function MarkdownEditor({
           style={{ minHeight, maxHeight }}
         >
           {value.trim() ? (
-            <Markdown className="text-sm">{value}</Markdown>
+            <Markdown
+              className="text-sm"
+              renderSuggestion={suggestionLines ? renderSuggestion : undefined}
+            >
+              {value}
+            </Markdown>
           ) : (
             <p className="text-sm text-muted-foreground italic">
               Nothing to preview
@@ -1514,6 +1899,10 @@ export const MarkdownEditor = memo(function MarkdownEditor({
             Type <span className="text-foreground/70">@</span> to mention
           </span>
           <span className="text-border">·</span>
+          <span>
+            <span className="text-foreground/70">/</span> for saved replies
+          </span>
+          <span className="text-border">·</span>
           <span className="inline-flex items-center gap-0.5">
             <kbd
               className="px-1 py-0.5 bg-muted border border-border/50 rounded text-[10px]"
@@ -1531,6 +1920,11 @@ export const MarkdownEditor = memo(function MarkdownEditor({
           </span>
         </p>
       </div>
+
+      <SavedRepliesDialog
+        open={showManageReplies}
+        onOpenChange={setShowManageReplies}
+      />
     </div>
   );
 });
@@ -0,0 +1,138 @@
+import { useState, useSyncExternalStore } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogTitle,
+} from "./dialog";
+import { cn } from "../cn";
+import { savedReplies, TEMPLATE_VARIABLES } from "../lib/saved-replies";
+
+// ============================================================================
+// Saved Replies Dialog
+// ============================================================================
+
+interface SavedRepliesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function SavedRepliesDialog({
+  open,
+  onOpenChange,
+}: SavedRepliesDialogProps) {
+  const replies = useSyncExternalStore(savedReplies.subscribe, () =>
+    savedReplies.getAll()
+  );
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected =
+    replies.find((r) => r.id === selectedId) ?? replies[0] ?? null;
+
+  const handleAdd = () => {
+    const reply = savedReplies.add({ name: "New reply", body: "" });
+    setSelectedId(reply.id);
+  };
+
+  const handleRemove = (id: string) => {
+    const index = replies.findIndex((r) => r.id === id);
+    savedReplies.remove(id);
+    // Keep a neighbour selected
+    const next = replies.filter((r) => r.id !== id);
+    setSelectedId(next[Math.min(index, next.length - 1)]?.id ?? null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl p-0 gap-0 overflow-hidden">
+        <div className="px-5 pt-5 pb-3 border-b border-border">
+          <DialogTitle>Saved replies</DialogTitle>
+          <DialogDescription className="text-xs mt-1">
+            Insert with <kbd className="font-mono">/</kbd> in any comment box,
+            or from the toolbar.
+          </DialogDescription>
+        </div>
+
+        <div className="flex h-[360px]">
+          {/* Reply list */}
+          <div className="w-48 shrink-0 border-r border-border flex flex-col">
+            <div className="flex-1 overflow-y-auto themed-scrollbar p-1">
+              {replies.map((reply) => (
+                <button
+                  key={reply.id}
+                  type="button"
+                  onClick={() => setSelectedId(reply.id)}
+                  className={cn(
+                    "w-full px-2 py-1.5 text-sm text-left rounded truncate transition-colors",
+                    reply.id === selected?.id
+                      ? "bg-accent text-accent-foreground"
+                      : "hover:bg-muted"
+                  )}
+                >
+                  {reply.name || "Untitled"}
+                </button>
+              ))}
+              {replies.length === 0 && (
+                <p className="px-2 py-3 text-xs text-muted-foreground text-center">
+                  No saved replies
+                </p>
+              )}
+            </div>
+            <button
+              type="button"
+              onClick={handleAdd}
+              className="flex items-center gap-1.5 m-1 px-2 py-1.5 text-xs rounded-md text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+            >
+              <Plus className="w-3.5 h-3.5" />
+              New reply
+            </button>
+          </div>
+
+          {/* Editor */}
+          {selected ? (
+            <div className="flex-1 min-w-0 flex flex-col gap-2 p-3">
+              <div className="flex items-center gap-2">
+                <input
+                  value={selected.name}
+                  onChange={(e) =>
+                    savedReplies.update(selected.id, { name: e.target.value })
+                  }
+                  placeholder="Name"
+                  className="flex-1 px-2 py-1.5 text-sm rounded-md border border-border bg-background focus:outline-none focus:border-blue-500/50"
+                />
+                <button
+                  type="button"
+                  onClick={() => handleRemove(selected.id)}
+                  className="p-1.5 rounded-md text-muted-foreground hover:text-destructive hover:bg-muted transition-colors"
+                  title="Delete reply"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              <textarea
+                value={selected.body}
+                onChange={(e) =>
+                  savedReplies.update(selected.id, { body: e.target.value })
+                }
+                placeholder="Reply text (Markdown)"
+                className="flex-1 px-2 py-1.5 text-sm font-mono rounded-md border border-border bg-background resize-none focus:outline-none focus:border-blue-500/50"
+              />
+              <div className="flex flex-wrap gap-x-3 gap-y-1 text-[11px] text-muted-foreground">
+                {TEMPLATE_VARIABLES.map((v) => (
+                  <span key={v.name} title={v.description}>
+                    <code className="font-mono text-foreground/80">{`{{${v.name}}}`}</code>{" "}
+                    {v.description}
+                  </span>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <div className="flex-1 flex items-center justify-center text-sm text-muted-foreground">
+              Add a reply to get started
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
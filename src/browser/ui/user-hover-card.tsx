@@ -10,6 +10,7 @@ import { HoverCard, HoverCardContent, HoverCardTrigger } from "./hover-card";
 import {
   useGitHubStore,
   useGitHubSelector,
+  useGitHubWebUrl,
   type UserProfile,
 } from "../contexts/github";
 import { Skeleton } from "./skeleton";
@@ -92,6 +93,7 @@ function UserHoverCardContent({
   profile: UserProfile;
   context?: string;
 }) {
+  const webUrl = useGitHubWebUrl();
   // Calculate timezone offset if location suggests a timezone
   const timezoneInfo = getTimezoneDisplay();
 
@@ -146,7 +148,7 @@ function UserHoverCardContent({
             <span className="truncate">
               {profile.company.startsWith("@") ? (
                 <a
-                  href={`https://github.com/${profile.company.slice(1)}`}
+                  href={`${webUrl}/${profile.company.slice(1)}`}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="text-blue-400 hover:underline"
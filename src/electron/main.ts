@@ -16,6 +16,10 @@ import api from "../api/api";
 const isDev = !app.isPackaged || process.env.NODE_ENV === "development";
 const PORT = 45678; // Fixed port for internal server
 
+// The internal server only serves this app, so sign-in may reach any public
+// GitHub Enterprise host the user enters
+process.env.GITHUB_ENTERPRISE_HOSTS ??= "*";
+
 // ============================================================================
 // Internal Server Setup
 // ============================================================================
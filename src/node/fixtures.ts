@@ -0,0 +1,307 @@
+import { Hono, type Context } from "hono";
+import { createHash } from "crypto";
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  writeFileSync,
+} from "fs";
+import { join } from "path";
+import { FIXTURE_API_PATH } from "@/api/github-host";
+
+// ============================================================================
+// Recorded Fixtures - Serve GitHub API responses from a directory
+// ============================================================================
+
+// Each fixture is one JSON file holding a request and its recorded response.
+// In replay mode requests are answered from the directory and never reach
+// GitHub; in record mode they're forwarded upstream (with the browser's
+// token) and every response is written to the directory.
+//
+// Requests are matched on method, path and query (REST) or on the query
+// document and variables (GraphQL). When nothing matches exactly, a fixture
+// for the same path (REST) or document (GraphQL) is used, so pagination
+// sizes or variable tweaks don't break a bundle.
+
+export interface Fixture {
+  request: {
+    method: string;
+    path: string;
+    query?: string;
+    body?: unknown;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    body: unknown;
+  };
+}
+
+export interface FixtureOptions {
+  dir: string;
+  record?: boolean;
+  // API to record from
+  upstream?: string;
+}
+
+const DEFAULT_UPSTREAM = "https://api.github.com";
+
+// Response headers worth keeping; the rest describe the recording session
+const RECORDED_HEADERS = [
+  "content-type",
+  "etag",
+  "last-modified",
+  "link",
+  "x-ratelimit-limit",
+  "x-ratelimit-remaining",
+  "x-ratelimit-reset",
+  "x-ratelimit-resource",
+];
+
+// Request headers forwarded upstream while recording. Conditional headers
+// are left out so every response is recorded in full, even when the browser
+// already has it cached.
+const FORWARDED_HEADERS = [
+  "accept",
+  "authorization",
+  "content-type",
+  "x-github-api-version",
+];
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+function normalizeQuery(search: string): string {
+  const params = new URLSearchParams(search);
+  params.sort();
+  return params.toString();
+}
+
+// Stable JSON so variable order doesn't change the key
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+interface GraphQLBody {
+  query?: string;
+  variables?: Record<string, unknown>;
+}
+
+function normalizeDocument(query: string): string {
+  return query.replace(/\s+/g, " ").trim();
+}
+
+// [exact key, fallback key]
+function getMatchKeys(request: Fixture["request"]): [string, string] {
+  const base = `${request.method} ${request.path}`;
+  if (request.path === "/graphql") {
+    const body = (request.body ?? {}) as GraphQLBody;
+    const document = normalizeDocument(body.query ?? "");
+    return [
+      `${base} ${document} ${stableStringify(body.variables ?? {})}`,
+      `${base} ${document}`,
+    ];
+  }
+  return [`${base}?${request.query ?? ""}`, base];
+}
+
+function getFixtureFilename(request: Fixture["request"]): string {
+  const [exactKey] = getMatchKeys(request);
+  const hash = createHash("sha1").update(exactKey).digest("hex").slice(0, 12);
+  const slug = request.path
+    .replace(/^\//, "")
+    .replace(/[^a-zA-Z0-9._-]+/g, "_")
+    .slice(0, 80);
+  return `${request.method.toLowerCase()}_${slug}_${hash}.json`;
+}
+
+class FixtureStore {
+  private exact = new Map<string, Fixture>();
+  private fallback = new Map<string, Fixture>();
+
+  constructor(private dir: string) {
+    if (!existsSync(dir)) return;
+    for (const name of readdirSync(dir)) {
+      if (!name.endsWith(".json")) continue;
+      try {
+        const fixture = JSON.parse(
+          readFileSync(join(dir, name), "utf-8")
+        ) as Fixture;
+        this.index(fixture);
+      } catch (error) {
+        console.error(`Failed to load fixture ${name}:`, error);
+      }
+    }
+  }
+
+  private index(fixture: Fixture) {
+    const [exactKey, fallbackKey] = getMatchKeys(fixture.request);
+    this.exact.set(exactKey, fixture);
+    if (!this.fallback.has(fallbackKey)) {
+      this.fallback.set(fallbackKey, fixture);
+    }
+  }
+
+  get size() {
+    return this.exact.size;
+  }
+
+  find(request: Fixture["request"]): Fixture | null {
+    const [exactKey, fallbackKey] = getMatchKeys(request);
+    return this.exact.get(exactKey) ?? this.fallback.get(fallbackKey) ?? null;
+  }
+
+  save(fixture: Fixture) {
+    mkdirSync(this.dir, { recursive: true });
+    writeFileSync(
+      join(this.dir, getFixtureFilename(fixture.request)),
+      JSON.stringify(fixture, null, 2)
+    );
+    this.index(fixture);
+  }
+}
+
+// ============================================================================
+// Server
+// ============================================================================
+
+async function readRequest(
+  c: Context,
+  path: string
+): Promise<Fixture["request"]> {
+  const url = new URL(c.req.url);
+  const request: Fixture["request"] = {
+    method: c.req.method,
+    path,
+    query: normalizeQuery(url.search) || undefined,
+  };
+  if (c.req.method !== "GET" && c.req.method !== "HEAD") {
+    const text = await c.req.text();
+    if (text) {
+      try {
+        request.body = JSON.parse(text);
+      } catch {
+        request.body = text;
+      }
+    }
+  }
+  return request;
+}
+
+function respond(c: Context, fixture: Fixture, apiOrigin: string) {
+  const headers = { ...fixture.response.headers };
+  // Pagination links point at the API the fixture was recorded from
+  if (headers.link) {
+    headers.link = headers.link.replace(/<https?:\/\/[^/>]+/g, `<${apiOrigin}`);
+  }
+
+  const etag = headers.etag;
+  if (etag && c.req.header("if-none-match") === etag) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  const { status, body } = fixture.response;
+  return new Response(
+    body === null || body === undefined || status === 304
+      ? null
+      : typeof body === "string"
+        ? body
+        : JSON.stringify(body),
+    { status, headers }
+  );
+}
+
+async function record(
+  c: Context,
+  request: Fixture["request"],
+  upstream: string
+): Promise<Fixture> {
+  const headers: Record<string, string> = {};
+  for (const name of FORWARDED_HEADERS) {
+    const value = c.req.header(name);
+    if (value) headers[name] = value;
+  }
+
+  const response = await fetch(
+    `${upstream}${request.path}${request.query ? `?${request.query}` : ""}`,
+    {
+      method: request.method,
+      headers,
+      body:
+        request.body === undefined
+          ? undefined
+          : typeof request.body === "string"
+            ? request.body
+            : JSON.stringify(request.body),
+    }
+  );
+
+  const recordedHeaders: Record<string, string> = {};
+  for (const name of RECORDED_HEADERS) {
+    const value = response.headers.get(name);
+    if (value) recordedHeaders[name] = value;
+  }
+
+  const text = await response.text();
+  let body: unknown = text || null;
+  if (text && response.headers.get("content-type")?.includes("json")) {
+    body = JSON.parse(text);
+  }
+
+  return {
+    request,
+    response: { status: response.status, headers: recordedHeaders, body },
+  };
+}
+
+/**
+ * Hono app that stands in for the GitHub API, mounted at FIXTURE_API_PATH.
+ */
+export function createFixtureServer(options: FixtureOptions) {
+  const store = new FixtureStore(options.dir);
+  const upstream = (options.upstream ?? DEFAULT_UPSTREAM).replace(/\/$/, "");
+
+  console.log(
+    options.record
+      ? `📼 Recording GitHub responses from ${upstream} into ${options.dir}`
+      : `📼 Serving ${store.size} recorded GitHub responses from ${options.dir}`
+  );
+
+  return new Hono().basePath(FIXTURE_API_PATH).all("/*", async (c) => {
+    const path = c.req.path.slice(FIXTURE_API_PATH.length) || "/";
+    const request = await readRequest(c, path);
+    const apiOrigin = `${new URL(c.req.url).origin}${FIXTURE_API_PATH}`;
+
+    if (options.record) {
+      try {
+        const fixture = await record(c, request, upstream);
+        store.save(fixture);
+        return respond(c, fixture, apiOrigin);
+      } catch (error) {
+        return c.json({ message: (error as Error).message }, 502);
+      }
+    }
+
+    const fixture = store.find(request);
+    if (!fixture) {
+      return c.json(
+        {
+          message: `No fixture recorded for ${request.method} ${request.path}`,
+        },
+        404
+      );
+    }
+    return respond(c, fixture, apiOrigin);
+  });
+}
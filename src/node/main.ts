@@ -2,8 +2,9 @@ import { serve } from "@hono/node-server";
 import { serveStatic } from "@hono/node-server/serve-static";
 import api from "@/api/api";
 import { resolve } from "path";
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 import { readFileSync } from "fs";
+import { createFixtureServer } from "./fixtures";
 
 const app = new Hono();
 
@@ -11,9 +12,42 @@ const distDir = resolve(__dirname, "..", "..", "dist", "browser");
 
 console.log("distDir", distDir);
 
+// Recorded-fixture mode: serve GitHub API responses from a directory instead
+// of GitHub. Set PULLDASH_FIXTURES_RECORD=1 to capture them from GitHub.
+const fixturesDir = process.env.PULLDASH_FIXTURES;
+
 // API routes first
 app.route("/", api);
 
+if (fixturesDir) {
+  app.route(
+    "/",
+    createFixtureServer({
+      dir: resolve(fixturesDir),
+      record: process.env.PULLDASH_FIXTURES_RECORD === "1",
+      upstream: process.env.PULLDASH_FIXTURES_UPSTREAM,
+    })
+  );
+}
+
+function serveIndex(c: Context) {
+  const indexPath = resolve(distDir, "index.html");
+  let html = readFileSync(indexPath, "utf-8").replaceAll("./", "/");
+  // Tells the browser to send GitHub API requests to the fixture server
+  if (fixturesDir) {
+    html = html.replace(
+      "</head>",
+      "<script>window.__PULLDASH_FIXTURES__=true</script></head>"
+    );
+  }
+  return c.html(html);
+}
+
+// The static handler would serve index.html for / without the fixture flag
+if (fixturesDir) {
+  app.get("/", serveIndex);
+}
+
 // Static files
 app.use("/*", serveStatic({ root: distDir }));
 
@@ -22,9 +56,7 @@ app.get("*", (c) => {
   if (c.req.path === "/favicon.ico") {
     return c.body(null, 404);
   }
-  const indexPath = resolve(distDir, "index.html");
-  const html = readFileSync(indexPath, "utf-8");
-  return c.html(html.replaceAll("./", "/"));
+  return serveIndex(c);
 });
 
 serve(